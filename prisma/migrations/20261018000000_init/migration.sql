@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "account_transactions" (
+    "signer_address" VARCHAR(66) NOT NULL,
+    "chain_id" VARCHAR(42) NOT NULL,
+    "transaction_type" VARCHAR(50) NOT NULL,
+    "position_id" VARCHAR(255),
+    "input_amount" VARCHAR(78),
+    "input_token_denom" VARCHAR(100),
+    "input_token_name" VARCHAR(42),
+    "second_input_amount" VARCHAR(78),
+    "second_input_token_denom" VARCHAR(100),
+    "second_input_token_name" VARCHAR(42),
+    "output_amount" VARCHAR(78),
+    "output_token_denom" VARCHAR(100),
+    "output_token_name" VARCHAR(42),
+    "second_output_amount" VARCHAR(78),
+    "second_output_token_denom" VARCHAR(100),
+    "second_output_token_name" VARCHAR(42),
+    "gas_fee_amount" VARCHAR(78),
+    "gas_fee_token_denom" VARCHAR(100),
+    "gas_fee_token_name" VARCHAR(42),
+    "destination_address" VARCHAR(66),
+    "destination_chain_id" VARCHAR(42),
+    "tx_hash" VARCHAR(66) NOT NULL,
+    "tx_action_index" INTEGER NOT NULL DEFAULT 0,
+    "successful" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_transactions_pkey" PRIMARY KEY ("chain_id","tx_hash","tx_action_index")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_transaction_type_timestamp" ON "account_transactions"("transaction_type", "timestamp" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_timestamp" ON "account_transactions"("timestamp" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_chain_id" ON "account_transactions"("chain_id", "timestamp" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_chain_tx_hash" ON "account_transactions"("chain_id", "tx_hash");
+
+-- CreateIndex
+CREATE INDEX "idx_token_names" ON "account_transactions"("input_token_name", "output_token_name");
+
+-- CreateIndex
+CREATE INDEX "idx_signer_address_timestamp" ON "account_transactions"("signer_address", "timestamp" DESC);
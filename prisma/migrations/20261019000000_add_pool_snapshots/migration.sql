@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "pool_snapshots" (
+    "id" SERIAL NOT NULL,
+    "chain" VARCHAR(42) NOT NULL,
+    "pool_id" VARCHAR(100) NOT NULL,
+    "pool_name" VARCHAR(42) NOT NULL,
+    "base_denom" VARCHAR(100) NOT NULL,
+    "base_amount" VARCHAR(78) NOT NULL,
+    "quote_denom" VARCHAR(100) NOT NULL,
+    "quote_amount" VARCHAR(78) NOT NULL,
+    "base_price_usd" VARCHAR(78),
+    "quote_price_usd" VARCHAR(78),
+    "lp_fee_ratio" VARCHAR(78),
+    "protocol_fee_ratio" VARCHAR(78),
+    "unclaimed_lp_fees" VARCHAR(78),
+    "unclaimed_protocol_fees" VARCHAR(78),
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pool_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_pool_snapshots_pool_timestamp" ON "pool_snapshots"("pool_id", "timestamp" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_pool_snapshots_timestamp" ON "pool_snapshots"("timestamp" DESC);
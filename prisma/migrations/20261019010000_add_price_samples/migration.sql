@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "account_transactions" ADD COLUMN "value_usd" VARCHAR(78);
+
+-- CreateTable
+CREATE TABLE "price_samples" (
+    "id" SERIAL NOT NULL,
+    "denom" VARCHAR(100) NOT NULL,
+    "price_usd" VARCHAR(78) NOT NULL,
+    "source" VARCHAR(42) NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idx_price_samples_denom_source_timestamp" ON "price_samples"("denom", "source", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "idx_price_samples_denom_timestamp" ON "price_samples"("denom", "timestamp");
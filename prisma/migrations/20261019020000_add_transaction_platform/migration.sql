@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "account_transactions" ADD COLUMN "platform" VARCHAR(42);
+
+-- Sui swaps were stored with the Archway swap type
+UPDATE "account_transactions" SET "transaction_type" = 'bolt_sui_swap'
+WHERE "transaction_type" = 'bolt_archway_swap' AND "chain_id" IN ('101', '103');
+
+-- Backfill the platform from the chain
+UPDATE "account_transactions" SET "platform" = 'bolt_sui'
+WHERE "platform" IS NULL AND "chain_id" IN ('101', '103');
+
+UPDATE "account_transactions" SET "platform" = 'bolt_archway'
+WHERE "platform" IS NULL AND ("chain_id" LIKE 'archway-%' OR "chain_id" LIKE 'constantine-%');
+
+UPDATE "account_transactions" SET "platform" = 'osmosis'
+WHERE "platform" IS NULL AND ("chain_id" LIKE 'osmosis-%' OR "chain_id" LIKE 'osmo-test-%');
+
+-- CreateIndex
+CREATE INDEX "idx_platform_timestamp" ON "account_transactions"("platform", "timestamp" DESC);
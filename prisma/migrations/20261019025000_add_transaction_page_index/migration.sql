@@ -0,0 +1,9 @@
+-- Transaction pages are ordered by the second of the timestamp, which rows
+-- store with milliseconds. Expression indexes can not be declared in
+-- schema.prisma, so they are only created here.
+
+-- CreateIndex
+CREATE INDEX "idx_transactions_page" ON "account_transactions"(date_trunc('second', "timestamp") DESC, "tx_hash" DESC, "chain_id" DESC, "tx_action_index");
+
+-- CreateIndex
+CREATE INDEX "idx_transactions_signer_page" ON "account_transactions"("signer_address", date_trunc('second', "timestamp") DESC, "tx_hash" DESC, "chain_id" DESC, "tx_action_index");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "indexer_checkpoints" (
+    "chain_id" VARCHAR(42) NOT NULL,
+    "signer_address" VARCHAR(66) NOT NULL,
+    "cursor" VARCHAR(255) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "indexer_checkpoints_pkey" PRIMARY KEY ("chain_id", "signer_address")
+);
@@ -0,0 +1,233 @@
+import { PrismaClient } from "@prisma/client";
+import Database from "better-sqlite3";
+import { Command } from "commander";
+import path from "node:path";
+
+import {
+  getSQLiteSchemaStatus,
+  migrateTransactions,
+  PostgresTransactionRepository,
+  SQLiteTransactionRepository,
+  TransactionRepository,
+  upgradeSQLiteSchema,
+} from "../../database";
+import { resolveEnvReference } from "../../utils";
+
+type DatabaseSpec =
+  | { type: "sqlite"; path: string }
+  /** No URL reads DATABASE_URL, like PostgresTransactionRepository.make */
+  | { type: "postgres"; databaseUrl?: string };
+
+/**
+ * Parse `sqlite:<path>`, `postgres` (DATABASE_URL) or
+ * `postgres:<connection string or env:NAME>`
+ */
+const parseDatabaseSpec = (value: string, option: string): DatabaseSpec => {
+  if (value.startsWith("sqlite:") && value.length > "sqlite:".length) {
+    return { type: "sqlite", path: path.resolve(value.slice("sqlite:".length)) };
+  }
+  if (value === "postgres") {
+    return { type: "postgres" };
+  }
+  if (/^postgres(ql)?:\/\//.test(value)) {
+    return { type: "postgres", databaseUrl: value };
+  }
+  if (value.startsWith("postgres:")) {
+    return {
+      type: "postgres",
+      databaseUrl: resolveEnvReference(value.slice("postgres:".length)),
+    };
+  }
+  throw new Error(
+    `Invalid ${option}: ${value} (expected sqlite:<path>, postgres or postgres:<url>)`
+  );
+};
+
+// Connection string of a PostgreSQL spec, DATABASE_URL when it has none
+const resolveDatabaseUrl = (spec: { databaseUrl?: string }): string | undefined =>
+  spec.databaseUrl ?? process.env.DATABASE_URL;
+
+// Host and database name, without the credentials of the connection string
+const describeDatabase = (spec: DatabaseSpec): string => {
+  if (spec.type === "sqlite") {
+    return `sqlite:${spec.path}`;
+  }
+  try {
+    const url = new URL(resolveDatabaseUrl(spec) ?? "");
+    return `postgres:${url.host}${url.pathname}`;
+  } catch {
+    return "postgres";
+  }
+};
+
+// Two specs naming the same database: the same path or connection string
+const isSameDatabase = (a: DatabaseSpec, b: DatabaseSpec): boolean =>
+  a.type === "sqlite"
+    ? b.type === "sqlite" && a.path === b.path
+    : b.type === "postgres" && resolveDatabaseUrl(a) === resolveDatabaseUrl(b);
+
+/**
+ * Open a database to migrate. Sources must exist and are opened read-only, a
+ * SQLite target is created or upgraded to the latest schema.
+ * Stored USD values are copied as they are, never recomputed.
+ */
+const openDatabase = async (
+  spec: DatabaseSpec,
+  role: "source" | "target"
+): Promise<TransactionRepository> => {
+  if (spec.type === "sqlite") {
+    return new SQLiteTransactionRepository(
+      spec.path,
+      role === "source" ? { readonly: true, fileMustExist: true } : undefined,
+      { valueTransactions: false, upgradeSchema: role === "target" }
+    );
+  }
+
+  const prisma = new PrismaClient(
+    spec.databaseUrl ? { datasources: { db: { url: spec.databaseUrl } } } : undefined
+  );
+  await prisma.$connect();
+  return new PostgresTransactionRepository(prisma, { valueTransactions: false });
+};
+
+/**
+ * Path of a SQLite database given as `sqlite:<path>` or a plain path. The
+ * PostgreSQL schema is managed by Prisma.
+ */
+const parseSQLitePath = (value: string): string => {
+  const spec = value.startsWith("sqlite:") || value.startsWith("postgres")
+    ? parseDatabaseSpec(value, "database")
+    : { type: "sqlite" as const, path: path.resolve(value) };
+  if (spec.type !== "sqlite") {
+    throw new Error(
+      "The PostgreSQL schema is managed by Prisma, use npx prisma migrate status or npm run prisma:migrate"
+    );
+  }
+  return spec.path;
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp * 1000).toISOString().replace("T", " ").slice(0, 19);
+
+export function dbCommand(program: Command) {
+  const db = program
+    .command("db")
+    .description("Manage the transaction databases");
+
+  db.command("migrate")
+    .description(
+      "Copy transaction history between SQLite and PostgreSQL, merging several sources into one target"
+    )
+    .requiredOption(
+      "--from <databases...>",
+      "Source databases: sqlite:<path>, postgres (DATABASE_URL) or postgres:<url>"
+    )
+    .requiredOption("--to <database>", "Target database, same forms as --from")
+    .option("--batch-size <count>", "Transactions read and written per batch", "500")
+    .action(async (options) => {
+      const batchSize = parseInt(options.batchSize, 10);
+      if (!Number.isFinite(batchSize) || batchSize <= 0) {
+        throw new Error(`Invalid --batch-size: ${options.batchSize}`);
+      }
+      const sources = (options.from as string[]).map((value) =>
+        parseDatabaseSpec(value, "--from")
+      );
+      const targetSpec = parseDatabaseSpec(options.to, "--to");
+      if (sources.some((source) => isSameDatabase(source, targetSpec))) {
+        throw new Error("--to is also a --from database");
+      }
+
+      const target = await openDatabase(targetSpec, "target");
+      let failed = 0;
+      try {
+        for (const sourceSpec of sources) {
+          const name = describeDatabase(sourceSpec);
+          console.log(`📦 ${name} → ${describeDatabase(targetSpec)}`);
+
+          const source = await openDatabase(sourceSpec, "source");
+          try {
+            const result = await migrateTransactions(source, target, {
+              batchSize,
+              onBatch: (copied) => console.log(`   copied ${copied} transactions`),
+            });
+
+            if (result.verified) {
+              console.log(
+                `✅ ${name}: ${result.sourceCount} transactions, checksum ${result.sourceChecksum}`
+              );
+            } else {
+              failed++;
+              console.error(
+                `❌ ${name}: verification failed, ${result.sourceCount} transactions copied, ${result.targetCount} found in the target`
+              );
+              console.error(`   source checksum ${result.sourceChecksum}`);
+              console.error(`   target checksum ${result.targetChecksum}`);
+            }
+          } finally {
+            await source.close();
+          }
+        }
+      } finally {
+        await target.close();
+      }
+
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+    });
+
+  db.command("status")
+    .description("Show the schema version of a SQLite database and its pending migrations")
+    .argument("<database>", "SQLite database, sqlite:<path> or a path")
+    .action((database: string) => {
+      const filename = parseSQLitePath(database);
+      const sqlite = new Database(filename, { readonly: true, fileMustExist: true });
+      try {
+        const status = getSQLiteSchemaStatus(sqlite);
+        console.log(`📋 ${filename}`);
+        console.log(`   Schema version ${status.version} of ${status.latestVersion}`);
+        for (const migration of status.applied) {
+          console.log(
+            `   ✅ ${migration.version} ${migration.name} (applied ${formatDate(migration.appliedAt)})`
+          );
+        }
+        for (const migration of status.pending) {
+          console.log(`   ⏳ ${migration.version} ${migration.name}`);
+        }
+
+        if (status.version > status.latestVersion) {
+          console.error(
+            `❌ The database is newer than this version of the code, upgrade the code before opening it`
+          );
+          process.exitCode = 1;
+        } else if (status.pending.length > 0) {
+          console.log(`\nRun db upgrade to apply ${status.pending.length} pending migrations`);
+        }
+      } finally {
+        sqlite.close();
+      }
+    });
+
+  db.command("upgrade")
+    .description("Apply the pending migrations of a SQLite database")
+    .argument("<database>", "SQLite database, sqlite:<path> or a path")
+    .action((database: string) => {
+      const filename = parseSQLitePath(database);
+      const sqlite = new Database(filename, { fileMustExist: true });
+      try {
+        const applied = upgradeSQLiteSchema(sqlite, filename);
+        if (applied.length === 0) {
+          console.log(`✅ ${filename} is up to date`);
+          return;
+        }
+        for (const migration of applied) {
+          console.log(`   applied ${migration.version} ${migration.name}`);
+        }
+        console.log(
+          `✅ ${filename} upgraded to schema version ${applied[applied.length - 1].version}`
+        );
+      } finally {
+        sqlite.close();
+      }
+    });
+}
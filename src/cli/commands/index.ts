@@ -9,3 +9,6 @@ export * from "./volume";
 export * from "./withdraw";
 export * from "./monitor";
 export * from "./rebalance-dashboard";
+export * from "./db";
+export * from "./indexer";
+export * from "./reconcile";
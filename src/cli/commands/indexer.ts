@@ -0,0 +1,148 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Command } from "commander";
+
+import {
+  PostgresTransactionRepository,
+  SQLiteTransactionRepository,
+} from "../../database";
+import {
+  CosmosIndexerClient,
+  fixtureCosmosClient,
+  fixtureSuiClient,
+  indexCosmosTransactions,
+  IndexerResult,
+  indexSuiTransactions,
+  recordingCosmosClient,
+  recordingSuiClient,
+  RpcFixture,
+  SuiIndexerClient,
+  TendermintRpcClient,
+} from "../../indexer";
+import {
+  DEFAULT_KEY_NAME,
+  DEFAULT_SUI_KEY_NAME,
+  KeyManager,
+  KeyStoreType,
+} from "../../key-manager";
+import { loadDashboardConfig } from "../../monitoring/dashboard-config";
+import {
+  findArchwayChainInfo,
+  findOsmosisChainInfo,
+  findSuiChainInfo,
+} from "../../registry";
+
+const INDEXER_CHAINS = {
+  sui: findSuiChainInfo,
+  archway: findArchwayChainInfo,
+  osmosis: findOsmosisChainInfo,
+};
+
+type IndexerChain = keyof typeof INDEXER_CHAINS;
+
+const parsePositiveInt = (value: string, option: string): number => {
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${option}: ${value}`);
+  }
+  return parsed;
+};
+
+export function indexCommand(program: Command) {
+  program
+    .command("index")
+    .description(
+      "Backfill a signer's transaction history from the chain: Bolt swaps, Cetus positions, IBC transfers and Osmosis CL positions"
+    )
+    .requiredOption("--chain <chain>", `Chain to scan (${Object.keys(INDEXER_CHAINS).join(", ")})`)
+    .option("--address <address>", "Signer to index (default: the address of the configured key)")
+    .option("--environment <environment>", "mainnet or testnet", "mainnet")
+    .option("--rpc <endpoint>", "RPC endpoint (default: the chain's endpoint in the registry)")
+    .option("--config <path>", "Dashboard config listing the Bolt pools and router (default: ./rebalance-dashboard.config.json)")
+    .option("--page-size <count>", "Transactions per RPC page", "50")
+    .option("--max-pages <count>", "Stop after this many pages, the next run continues from the checkpoint")
+    .option("--restart", "Ignore the checkpoint and scan from the signer's first transaction")
+    .option("--fixture <path>", "Replay recorded RPC responses instead of calling the chain")
+    .option("--save <path>", "Record the RPC responses to a fixture file")
+    .action(async (options) => {
+      if (!(options.chain in INDEXER_CHAINS)) {
+        throw new Error(`Invalid --chain: ${options.chain}`);
+      }
+      if (options.environment !== "mainnet" && options.environment !== "testnet") {
+        throw new Error(`Invalid --environment: ${options.environment}`);
+      }
+      if (options.fixture && options.save) {
+        throw new Error("--fixture and --save cannot be combined");
+      }
+
+      const chain = options.chain as IndexerChain;
+      const chainInfo = INDEXER_CHAINS[chain](options.environment);
+      const config = await loadDashboardConfig(options.config);
+      const fixture = options.fixture
+        ? await RpcFixture.load(options.fixture)
+        : new RpcFixture();
+
+      let signerAddress: string = options.address;
+      if (!signerAddress) {
+        const keyStore = await KeyManager.create({ type: KeyStoreType.ENV_VARIABLE });
+        signerAddress = await (chain === "sui"
+          ? keyStore.getSuiAddress(DEFAULT_SUI_KEY_NAME)
+          : keyStore.getCosmWasmAddress(DEFAULT_KEY_NAME, chainInfo.prefix));
+      }
+
+      const database = await (process.env.DATABASE_URL
+        ? PostgresTransactionRepository.make()
+        : SQLiteTransactionRepository.make(signerAddress));
+      const indexerOptions = {
+        chainId: chainInfo.id,
+        signerAddress,
+        pageSize: parsePositiveInt(options.pageSize, "--page-size"),
+        maxPages: options.maxPages
+          ? parsePositiveInt(options.maxPages, "--max-pages")
+          : undefined,
+        restart: Boolean(options.restart),
+        onPage: (result: IndexerResult) =>
+          console.log(
+            `   page ${result.pages}: ${result.transactions} transactions, checkpoint ${result.cursor}`
+          ),
+      };
+
+      console.log(`🔎 Indexing ${signerAddress} on ${chainInfo.name} (${chainInfo.id})`);
+      let result: IndexerResult;
+      try {
+        const rpcEndpoint = options.rpc || chainInfo.rpcEndpoint;
+        if (chain === "sui") {
+          let client: SuiIndexerClient = new SuiClient({ url: rpcEndpoint });
+          if (options.fixture) {
+            client = fixtureSuiClient(fixture);
+          } else if (options.save) {
+            client = recordingSuiClient(client, fixture);
+          }
+          result = await indexSuiTransactions(client, database, {
+            ...indexerOptions,
+            boltPoolIds: config.sui.pools.map((pool) => pool.poolId),
+          });
+        } else {
+          let client: CosmosIndexerClient = new TendermintRpcClient(rpcEndpoint);
+          if (options.fixture) {
+            client = fixtureCosmosClient(fixture);
+          } else if (options.save) {
+            client = recordingCosmosClient(client, fixture);
+          }
+          result = await indexCosmosTransactions(client, database, {
+            ...indexerOptions,
+            boltRouterAddresses: chain === "archway" ? [config.archway.routerAddress] : [],
+          });
+        }
+      } finally {
+        await database.close();
+        // Keep what was recorded when a run fails part way
+        if (options.save) {
+          await fixture.save(options.save);
+        }
+      }
+
+      console.log(
+        `✅ ${result.transactions} transactions from ${result.pages} pages, checkpoint ${result.cursor ?? "none"}`
+      );
+    });
+}
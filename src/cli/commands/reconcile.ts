@@ -0,0 +1,267 @@
+import { StargateClient } from "@cosmjs/stargate";
+import { SuiClient } from "@mysten/sui/client";
+import BigNumber from "bignumber.js";
+import { Command } from "commander";
+import { createInterface } from "node:readline/promises";
+
+import {
+  AccountTransaction,
+  buildReconciliationAdjustments,
+  OnChainBalance,
+  PostgresTransactionRepository,
+  reconcileBalances,
+  SQLiteTransactionRepository,
+  TokenReconciliation,
+  TransactionCursor,
+  TransactionPage,
+  TransactionRepository,
+} from "../../database";
+import {
+  AbstractKeyStore,
+  DEFAULT_KEY_NAME,
+  DEFAULT_SUI_KEY_NAME,
+  KeyManager,
+  KeyStoreType,
+} from "../../key-manager";
+import {
+  ChainInfo,
+  findArchwayChainInfo,
+  findArchwayTokensMap,
+  findOsmosisChainInfo,
+  findOsmosisTokensMap,
+  findSuiChainInfo,
+  findSuiTokensMap,
+  RegistryToken,
+} from "../../registry";
+
+type Environment = "mainnet" | "testnet";
+
+interface ReconcileChain {
+  chainInfo: (environment: Environment) => ChainInfo;
+  tokens: (environment: Environment) => Record<string, RegistryToken>;
+  // Every balance held by an address, in base units
+  fetchBalances: (rpcEndpoint: string, address: string) => Promise<OnChainBalance[]>;
+}
+
+const fetchSuiBalances = async (
+  rpcEndpoint: string,
+  address: string
+): Promise<OnChainBalance[]> => {
+  const balances = await new SuiClient({ url: rpcEndpoint }).getAllBalances({ owner: address });
+  return balances.map((balance) => ({
+    denom: balance.coinType,
+    amount: balance.totalBalance,
+  }));
+};
+
+const fetchBankBalances = async (
+  rpcEndpoint: string,
+  address: string
+): Promise<OnChainBalance[]> => {
+  const client = await StargateClient.connect(rpcEndpoint);
+  try {
+    const coins = await client.getAllBalances(address);
+    return coins.map((coin) => ({ denom: coin.denom, amount: coin.amount }));
+  } finally {
+    client.disconnect();
+  }
+};
+
+const RECONCILE_CHAINS: Record<string, ReconcileChain> = {
+  sui: {
+    chainInfo: findSuiChainInfo,
+    tokens: findSuiTokensMap,
+    fetchBalances: fetchSuiBalances,
+  },
+  archway: {
+    chainInfo: findArchwayChainInfo,
+    tokens: findArchwayTokensMap,
+    fetchBalances: fetchBankBalances,
+  },
+  osmosis: {
+    chainInfo: findOsmosisChainInfo,
+    tokens: findOsmosisTokensMap,
+    fetchBalances: fetchBankBalances,
+  },
+};
+
+const formatTokenAmount = (amount: string, token: RegistryToken | null): string =>
+  token
+    ? `${new BigNumber(amount).shiftedBy(-token.decimals).toFormat()} ${token.name}`
+    : `${amount} (base units)`;
+
+const printReconciliation = (rows: TokenReconciliation[]) => {
+  for (const row of rows) {
+    const icon = row.discrepancy ? "❌" : "✅";
+    if (!row.token) {
+      console.log(
+        `   ${icon} ${row.tokenName}: recorded ${row.recorded} (base units), not in the registry, cannot compare`
+      );
+      continue;
+    }
+    const difference = new BigNumber(row.difference!);
+    console.log(
+      `   ${icon} ${row.tokenName}: recorded ${formatTokenAmount(row.recorded, row.token)}, on chain ${formatTokenAmount(row.onChain!, row.token)}` +
+        (difference.isZero()
+          ? ""
+          : `, difference ${difference.isPositive() ? "+" : ""}${formatTokenAmount(row.difference!, row.token)}`)
+    );
+  }
+};
+
+const FAILED_PAGE_SIZE = 500;
+
+// Failed transactions of the signer, whose gas getProfitability leaves out
+const readFailedTransactions = async (
+  database: TransactionRepository,
+  signerAddress: string
+): Promise<AccountTransaction[]> => {
+  const transactions: AccountTransaction[] = [];
+  let cursor: TransactionCursor | null = null;
+  do {
+    const page: TransactionPage = await database.queryTransactions(
+      { signerAddress, successful: false },
+      cursor,
+      FAILED_PAGE_SIZE
+    );
+    transactions.push(...page.transactions);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return transactions;
+};
+
+const confirm = async (question: string): Promise<boolean> => {
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await readline.question(`${question} (y/N) `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    readline.close();
+  }
+};
+
+export function reconcileCommand(program: Command) {
+  program
+    .command("reconcile")
+    .description(
+      "Compare the net balances recorded in the database with the balances held on chain"
+    )
+    .option(
+      "--chains <chains...>",
+      `Chains to reconcile (${Object.keys(RECONCILE_CHAINS).join(", ")})`,
+      Object.keys(RECONCILE_CHAINS)
+    )
+    .option("--environment <environment>", "mainnet or testnet", "mainnet")
+    .option("--sui-address <address>", "Sui signer (default: the address of the configured key)")
+    .option("--archway-address <address>", "Archway signer (default: the address of the configured key)")
+    .option("--osmosis-address <address>", "Osmosis signer (default: the address of the configured key)")
+    .option("--tolerance <amount>", "Largest difference accepted, in whole tokens", "0.01")
+    .option("--adjust", "Offer to record withdraw_reconciliation entries for the discrepancies")
+    .option("--yes", "Record the adjustments without asking")
+    .action(async (options) => {
+      const chains = options.chains as string[];
+      for (const chain of chains) {
+        if (!(chain in RECONCILE_CHAINS)) {
+          throw new Error(`Invalid --chains: ${chain}`);
+        }
+      }
+      const environment = options.environment as Environment;
+      if (environment !== "mainnet" && environment !== "testnet") {
+        throw new Error(`Invalid --environment: ${options.environment}`);
+      }
+      const tolerance = new BigNumber(options.tolerance);
+      if (!tolerance.isFinite() || tolerance.isNegative()) {
+        throw new Error(`Invalid --tolerance: ${options.tolerance}`);
+      }
+
+      let keyStore: AbstractKeyStore<string> | undefined;
+      const getAddress = async (chain: string, chainInfo: ChainInfo): Promise<string> => {
+        const address = options[`${chain}Address`] as string | undefined;
+        if (address) {
+          return address;
+        }
+        keyStore ??= await KeyManager.create({ type: KeyStoreType.ENV_VARIABLE });
+        return chain === "sui"
+          ? keyStore.getSuiAddress(DEFAULT_SUI_KEY_NAME)
+          : keyStore.getCosmWasmAddress(DEFAULT_KEY_NAME, chainInfo.prefix);
+      };
+
+      // One PostgreSQL database holds every signer, SQLite has a file per signer
+      const postgres = process.env.DATABASE_URL
+        ? await PostgresTransactionRepository.make()
+        : null;
+      const databases = new Map<string, TransactionRepository>();
+      const openDatabase = async (address: string): Promise<TransactionRepository> => {
+        if (postgres) {
+          return postgres;
+        }
+        if (!databases.has(address)) {
+          databases.set(address, await SQLiteTransactionRepository.make(address));
+        }
+        return databases.get(address)!;
+      };
+
+      try {
+        const discrepancies: Array<{ database: TransactionRepository; row: TokenReconciliation }> = [];
+        for (const chain of chains) {
+          const reconcileChain = RECONCILE_CHAINS[chain];
+          const chainInfo = reconcileChain.chainInfo(environment);
+          const address = await getAddress(chain, chainInfo);
+          const database = await openDatabase(address);
+
+          console.log(`🔎 ${chainInfo.name} (${chainInfo.id}) ${address}`);
+          const rows = reconcileBalances({
+            chainId: chainInfo.id,
+            signerAddress: address,
+            tokens: reconcileChain.tokens(environment),
+            profitability: await database.getProfitability(address),
+            failedTransactions: await readFailedTransactions(database, address),
+            balances: await reconcileChain.fetchBalances(chainInfo.rpcEndpoint, address),
+            tolerance,
+          });
+          printReconciliation(rows);
+          discrepancies.push(
+            ...rows.filter((row) => row.discrepancy).map((row) => ({ database, row }))
+          );
+        }
+
+        if (discrepancies.length === 0) {
+          console.log(`\n✅ Recorded balances match the chain within ${tolerance.toFixed()}`);
+          return;
+        }
+        console.log(`\n❌ ${discrepancies.length} discrepancies above ${tolerance.toFixed()}`);
+
+        const adjustable = discrepancies.filter(({ row }) => row.token);
+        if (!options.adjust || adjustable.length === 0) {
+          process.exitCode = 1;
+          return;
+        }
+        if (
+          !options.yes &&
+          !(await confirm(`Record ${adjustable.length} withdraw_reconciliation adjustments?`))
+        ) {
+          console.log("No adjustments recorded");
+          process.exitCode = 1;
+          return;
+        }
+
+        const timestamp = Math.floor(Date.now() / 1000);
+        for (const database of new Set(adjustable.map(({ database }) => database))) {
+          const adjustments = buildReconciliationAdjustments(
+            adjustable.filter((item) => item.database === database).map(({ row }) => row),
+            timestamp
+          );
+          await database.addTransactionBatch(adjustments);
+        }
+        console.log(`✅ Recorded ${adjustable.length} adjustments`);
+        if (adjustable.length < discrepancies.length) {
+          process.exitCode = 1;
+        }
+      } finally {
+        await postgres?.close();
+        for (const database of databases.values()) {
+          await database.close();
+        }
+      }
+    });
+}
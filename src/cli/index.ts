@@ -13,6 +13,9 @@ import {
   suiCommand,
   monitorCommand,
   rebalanceDashboardCommand,
+  dbCommand,
+  indexCommand,
+  reconcileCommand,
 } from "./commands";
 
 const program = new Command();
@@ -36,6 +39,9 @@ statsCommand(program);
 suiCommand(program);
 monitorCommand(program);
 rebalanceDashboardCommand(program);
+dbCommand(program);
+indexCommand(program);
+reconcileCommand(program);
 
 program.parse();
 
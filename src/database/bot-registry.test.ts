@@ -0,0 +1,47 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { ConfigValidationError } from "../utils";
+
+import { parseBotRegistry } from "./bot-registry";
+
+const EXAMPLE_REGISTRY = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../bot-registry.example.json"
+);
+
+const readExample = async () => JSON.parse(await readFile(EXAMPLE_REGISTRY, "utf-8"));
+
+describe("bot registry", () => {
+  it("parses the example registry", async () => {
+    const bots = parseBotRegistry(await readExample());
+    expect(bots.map((bot) => [bot.name, bot.chain, bot.platform, bot.signerAddress])).toEqual([
+      ["atom", "archway", "bolt_archway", "archway1atombotaddress"],
+      ["osmo", "archway", "bolt_archway", "archway1osmobotaddress"],
+      ["tia", "archway", "bolt_archway", "archway1tiabotaddress"],
+      ["inj", "archway", "bolt_archway", "archway1injbotaddress"],
+    ]);
+  });
+
+  it("rejects a chain it would not show instead of dropping the bot", async () => {
+    const raw = await readExample();
+    raw[1].chain = "Archway";
+
+    expect(() => parseBotRegistry(raw)).toThrow(ConfigValidationError);
+    expect(() => parseBotRegistry(raw)).toThrow("bots[1].chain must be one of: archway, osmosis, sui");
+  });
+
+  it("rejects an unknown platform and a missing signer address", async () => {
+    const raw = await readExample();
+    raw[0].platform = "bolt";
+    expect(() => parseBotRegistry(raw)).toThrow(
+      "bots[0].platform must be one of: cetus, bolt_sui, bolt_archway, osmosis"
+    );
+
+    raw[0].platform = "bolt_archway";
+    delete raw[2].signerAddress;
+    expect(() => parseBotRegistry(raw)).toThrow("bots[2].signerAddress");
+  });
+});
@@ -0,0 +1,216 @@
+import { PrismaClient } from "@prisma/client";
+import axios from "axios";
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  ConfigValidationError,
+  expectArray,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  parseJsonConfig,
+  resolveEnvReference,
+} from "../utils";
+
+import { PostgresTransactionRepository } from "./postgres-transaction-repository";
+import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import { AccountTransaction, PlatformName, TransactionRepository } from "./types";
+
+export type BotStorage =
+  /** A SQLite file, or a bot's database directory holding one `.db` file */
+  | { type: "sqlite"; path: string }
+  /** A Postgres connection string, `env:NAME` reads it from the environment */
+  | { type: "postgres"; databaseUrl: string }
+  /** An HTTP(S) URL serving a JSON array of AccountTransaction */
+  | { type: "export"; url: string };
+
+export const BOT_CHAINS = ["archway", "osmosis", "sui"] as const;
+
+export type BotChain = (typeof BOT_CHAINS)[number];
+
+export interface BotRegistryEntry {
+  name: string;
+  chain: BotChain;
+  platform: PlatformName;
+  /** Address the bot signs with, its rows in a database shared by several bots */
+  signerAddress: string;
+  storage: BotStorage;
+}
+
+export type BotStatus = "found" | "empty" | "unreadable";
+
+export interface BotStatusReport {
+  name: string;
+  chain: BotChain;
+  platform: PlatformName;
+  status: BotStatus;
+  transactionCount: number;
+  error?: string;
+}
+
+const BOT_STORAGE_TYPES: BotStorage["type"][] = [
+  "sqlite",
+  "postgres",
+  "export",
+];
+
+const parseStorage = (value: unknown, at: string): BotStorage => {
+  const raw = expectRecord(value, at);
+  const type = expectOneOf(raw.type, `${at}.type`, BOT_STORAGE_TYPES);
+
+  switch (type) {
+    case "sqlite":
+      return { type, path: expectString(raw.path, `${at}.path`) };
+    case "postgres":
+      return {
+        type,
+        databaseUrl: expectString(raw.databaseUrl, `${at}.databaseUrl`),
+      };
+    case "export":
+      return { type, url: expectString(raw.url, `${at}.url`) };
+  }
+};
+
+/**
+ * Validate a raw (parsed JSON) bot registry, a list of bot entries
+ *
+ * @throws ConfigValidationError describing the first invalid field
+ */
+export const parseBotRegistry = (value: unknown): BotRegistryEntry[] => {
+  const bots = expectArray(value, "bots").map((item, index) => {
+    const at = `bots[${index}]`;
+    const raw = expectRecord(item, at);
+    return {
+      name: expectString(raw.name, `${at}.name`),
+      chain: expectOneOf(raw.chain, `${at}.chain`, BOT_CHAINS),
+      platform: expectOneOf(raw.platform, `${at}.platform`, Object.values(PlatformName)),
+      signerAddress: expectString(raw.signerAddress, `${at}.signerAddress`),
+      storage: parseStorage(raw.storage, `${at}.storage`),
+    };
+  });
+
+  const seen = new Set<string>();
+  for (const bot of bots) {
+    if (seen.has(bot.name)) {
+      throw new ConfigValidationError(
+        `bots declares ${bot.name} more than once`
+      );
+    }
+    seen.add(bot.name);
+  }
+
+  return bots;
+};
+
+/**
+ * Load the bot registry from, in order of precedence:
+ * - `registryPath`
+ * - the `BOT_REGISTRY` environment variable (inline JSON)
+ * - the `BOT_REGISTRY_PATH` environment variable (path to a JSON file)
+ *
+ * Returns an empty registry when none of them is set.
+ */
+export const loadBotRegistry = async (
+  registryPath?: string
+): Promise<BotRegistryEntry[]> => {
+  const filePath = registryPath || process.env.BOT_REGISTRY_PATH;
+
+  if (!registryPath && process.env.BOT_REGISTRY) {
+    return parseBotRegistry(
+      parseJsonConfig(process.env.BOT_REGISTRY, "BOT_REGISTRY")
+    );
+  }
+
+  if (!filePath) {
+    return [];
+  }
+
+  const resolvedPath = path.resolve(filePath);
+  let contents: string;
+  try {
+    contents = await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    throw new ConfigValidationError(
+      `Could not read bot registry ${resolvedPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  try {
+    return parseBotRegistry(
+      parseJsonConfig(contents, `Bot registry ${resolvedPath}`)
+    );
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      throw new ConfigValidationError(`${resolvedPath}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+const resolveSqlitePath = async (storagePath: string): Promise<string> => {
+  const resolvedPath = path.resolve(storagePath);
+  const info = await stat(resolvedPath);
+
+  if (!info.isDirectory()) {
+    return resolvedPath;
+  }
+
+  // Bot checkouts keep their database under `database/`
+  for (const directory of [path.join(resolvedPath, "database"), resolvedPath]) {
+    const files = await readdir(directory).catch(() => [] as string[]);
+    const dbFiles = files.filter((file) => file.endsWith(".db")).sort();
+
+    if (dbFiles.length > 1) {
+      throw new Error(
+        `Found ${dbFiles.length} database files in ${directory}, point the registry at one of them`
+      );
+    }
+    if (dbFiles.length === 1) {
+      return path.join(directory, dbFiles[0]);
+    }
+  }
+
+  throw new Error(`No .db file found in ${resolvedPath}`);
+};
+
+/**
+ * Open a read handle on a bot's transaction history.
+ * SQLite files are opened read-only and never migrated, a file on an older
+ * schema is reported until it is upgraded with `db upgrade`.
+ * Remote exports are loaded into an in-memory SQLite repository.
+ */
+export const openBotRepository = async (
+  bot: BotRegistryEntry
+): Promise<TransactionRepository> => {
+  const { storage } = bot;
+
+  switch (storage.type) {
+    case "sqlite":
+      return new SQLiteTransactionRepository(
+        await resolveSqlitePath(storage.path),
+        { readonly: true, fileMustExist: true }
+      );
+    case "postgres": {
+      const prisma = new PrismaClient({
+        datasources: { db: { url: resolveEnvReference(storage.databaseUrl) } },
+      });
+      await prisma.$connect();
+      return new PostgresTransactionRepository(prisma);
+    }
+    case "export": {
+      const response = await axios.get<AccountTransaction[]>(storage.url, {
+        timeout: 30000,
+      });
+      if (!Array.isArray(response.data)) {
+        throw new Error(`Export ${storage.url} is not a transaction array`);
+      }
+
+      const repository = new SQLiteTransactionRepository(":memory:");
+      repository.addTransactionBatch(response.data);
+      return repository;
+    }
+  }
+};
@@ -0,0 +1,125 @@
+import type { SuiEvent, SuiObjectResponse } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import {
+  CetusTransactionContext,
+  fetchCetusPoolCoinTypes,
+  getCetusPoolIds,
+  parseCetusEvents,
+} from "./cetus-transactions";
+import { PlatformName, TransactionType } from "./types";
+
+// Events of two transactions on the SUI/USDC pool: a position opened with
+// liquidity, then fees and rewards collected from it, behind an event of
+// another module
+const FIXTURE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/cetus-events.json"
+);
+
+const SIGNER = "0x8f2a6c0e4b1d9e7f3a5c8b2d6e0f4a7c9b1d3e5f7a9c2b4d6e8f0a1c3e5b7d9f";
+const POOL = "0xb8d7d9e66a60c239e7a60110efcf8de6c705580ed924d0dde141f4a0e2c90105";
+const POSITION = "0x3c1e4f2a9b7d6e5c0a8f1b2d3e4c5a6b7d8e9f0a1b2c3d4e5f6a7b8c9d0e1f2a";
+const SUI = normalizeStructTag("0x2::sui::SUI");
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const CETUS = "0x06864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS";
+
+const context = (txHash: string, timestamp: number): CetusTransactionContext => ({
+  signerAddress: SIGNER,
+  chainId: "101",
+  txHash,
+  timestamp,
+  gasFee: { amount: "2413080", denom: SUI },
+  pools: { [POOL]: { coinTypeA: USDC, coinTypeB: SUI } },
+});
+
+describe("Cetus events", () => {
+  let events: { open: SuiEvent[]; collect: SuiEvent[] };
+
+  beforeAll(async () => {
+    events = JSON.parse(await readFile(FIXTURE, "utf-8"));
+  });
+
+  it("reads the pool ids and their coin types", async () => {
+    expect(getCetusPoolIds([...events.open, ...events.collect])).toEqual([POOL]);
+
+    const client = {
+      multiGetObjects: async () =>
+        [
+          {
+            data: {
+              objectId: POOL,
+              version: "1",
+              digest: "",
+              type: `0x1eabed72c53feb3805120a081dc15963c204dc8d091542592abaf7a35689b2fb::pool::Pool<${USDC}, 0x2::sui::SUI>`,
+            },
+          },
+        ] as SuiObjectResponse[],
+    };
+    expect(await fetchCetusPoolCoinTypes(client, [POOL])).toEqual({
+      [POOL]: { coinTypeA: USDC, coinTypeB: SUI },
+    });
+  });
+
+  it("records liquidity added as inputs, gas on the first action", () => {
+    const transactions = parseCetusEvents(
+      events.open,
+      context("5tKq8BvYzNcR3wLmPd7XsJ2hGf9uEoA1iC6rTn4yWbMQ", 1736913600)
+    );
+
+    expect(transactions).toEqual([
+      expect.objectContaining({
+        transactionType: TransactionType.CETUS_OPEN_POSITION,
+        platform: PlatformName.CETUS,
+        positionId: POSITION,
+        gasFeeAmount: "2413080",
+        gasFeeTokenName: "SUI",
+        txActionIndex: 0,
+        successful: true,
+      }),
+      // A V2 event
+      expect.objectContaining({
+        transactionType: TransactionType.CETUS_ADD_LIQUIDITY,
+        inputAmount: "25000000",
+        inputTokenDenom: USDC,
+        inputTokenName: "USDC",
+        secondInputAmount: "5000000000",
+        secondInputTokenDenom: SUI,
+        secondInputTokenName: "SUI",
+        gasFeeAmount: null,
+        txActionIndex: 1,
+      }),
+    ]);
+    expect(transactions[0].inputAmount).toBeUndefined();
+  });
+
+  it("records fees and rewards as outputs, the reward coin from V2 events", () => {
+    const transactions = parseCetusEvents(
+      events.collect,
+      context("8WmRt2XbJd5FgK6uYoT1aEiH9rCn4wMxBvPwQz3NcV7s", 1736917200)
+    );
+
+    expect(
+      transactions.map((tx) => [
+        tx.transactionType,
+        tx.txActionIndex,
+        tx.gasFeeAmount,
+        tx.outputAmount,
+        tx.outputTokenDenom,
+        tx.outputTokenName,
+        tx.secondOutputAmount ?? null,
+        tx.secondOutputTokenName ?? null,
+      ])
+    ).toEqual([
+      // The event of the coin module is skipped, the gas goes to the first Cetus action
+      [TransactionType.CETUS_COLLECT_FEES, 0, "2413080", "41250", USDC, "USDC", "8200000", "SUI"],
+      [TransactionType.CETUS_COLLECT_REWARDS, 1, null, "1730000000", CETUS, "CETUS", null, null],
+      // V1 reward events do not name the coin
+      [TransactionType.CETUS_COLLECT_REWARDS, 2, null, "90000", null, null, null, null],
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import type { SuiClient, SuiEvent } from "@mysten/sui/client";
+import { normalizeStructTag, parseStructTag } from "@mysten/sui/utils";
+
+import { normalizeDenom, resolveToken } from "../registry";
+
+import { AccountTransaction, PlatformName, TransactionType } from "./types";
+
+export interface CetusPoolCoinTypes {
+  coinTypeA: string;
+  coinTypeB: string;
+}
+
+export interface CetusTransactionContext {
+  signerAddress: string;
+  chainId: string;
+  txHash: string;
+  // Unix timestamp in seconds
+  timestamp?: number;
+  successful?: boolean;
+  // Recorded on the first action of the transaction
+  gasFee?: { amount: string; denom: string } | null;
+  // Coin types of the pools the events refer to, keyed by pool id
+  pools: Record<string, CetusPoolCoinTypes>;
+}
+
+// Emitted by the Cetus CLMM `pool` module, V2 events carry the same fields
+const CETUS_EVENT_TYPES: Record<string, TransactionType> = {
+  OpenPositionEvent: TransactionType.CETUS_OPEN_POSITION,
+  AddLiquidityEvent: TransactionType.CETUS_ADD_LIQUIDITY,
+  RemoveLiquidityEvent: TransactionType.CETUS_REMOVE_LIQUIDITY,
+  CollectFeeEvent: TransactionType.CETUS_COLLECT_FEES,
+  CollectRewardEvent: TransactionType.CETUS_COLLECT_REWARDS,
+  ClosePositionEvent: TransactionType.CETUS_CLOSE_POSITION,
+};
+
+interface CetusEventFields {
+  pool?: string;
+  position?: string;
+  amount_a?: string;
+  amount_b?: string;
+  amount?: string;
+  rewarder_type?: { name: string };
+}
+
+const getCetusEventType = (event: SuiEvent): TransactionType | undefined => {
+  const match = /::pool::(\w+?)(?:V2)?Event$/.exec(event.type);
+  return match ? CETUS_EVENT_TYPES[`${match[1]}Event`] : undefined;
+};
+
+/**
+ * Ids of the Cetus pools a transaction's events refer to
+ */
+export function getCetusPoolIds(events: SuiEvent[]): string[] {
+  const poolIds = events
+    .filter((event) => getCetusEventType(event))
+    .map((event) => (event.parsedJson as CetusEventFields).pool)
+    .filter((poolId): poolId is string => Boolean(poolId));
+  return [...new Set(poolIds)];
+}
+
+/**
+ * Coin types of Cetus pools, read from the `Pool<A, B>` object types
+ */
+export async function fetchCetusPoolCoinTypes(
+  client: Pick<SuiClient, "multiGetObjects">,
+  poolIds: string[]
+): Promise<Record<string, CetusPoolCoinTypes>> {
+  if (poolIds.length === 0) {
+    return {};
+  }
+
+  const objects = await client.multiGetObjects({
+    ids: poolIds,
+    options: { showType: true },
+  });
+
+  const pools: Record<string, CetusPoolCoinTypes> = {};
+  objects.forEach((object, index) => {
+    const type = object.data?.type;
+    if (!type) {
+      return;
+    }
+    const [coinTypeA, coinTypeB] = parseStructTag(type).typeParams.map(
+      (param) => normalizeStructTag(param)
+    );
+    if (coinTypeA && coinTypeB) {
+      pools[poolIds[index]] = { coinTypeA, coinTypeB };
+    }
+  });
+  return pools;
+}
+
+/**
+ * One transaction entry per Cetus CLMM event of a Sui transaction, ready for
+ * `addTransactionBatch`. Liquidity added is recorded as inputs, liquidity
+ * removed and collected fees or rewards as outputs. Events of other modules
+ * are skipped.
+ */
+export function parseCetusEvents(
+  events: SuiEvent[],
+  context: CetusTransactionContext
+): AccountTransaction[] {
+  const tokenName = (denom: string | null) =>
+    denom ? resolveToken(denom, context.chainId)?.name ?? null : null;
+
+  const transactions: AccountTransaction[] = [];
+  for (const event of events) {
+    const transactionType = getCetusEventType(event);
+    if (!transactionType) {
+      continue;
+    }
+
+    const fields = event.parsedJson as CetusEventFields;
+    const pool = fields.pool ? context.pools[fields.pool] : undefined;
+    const denomA = pool?.coinTypeA ?? null;
+    const denomB = pool?.coinTypeB ?? null;
+    const gasFee = transactions.length === 0 ? context.gasFee : null;
+
+    const tx: AccountTransaction = {
+      signerAddress: context.signerAddress,
+      chainId: context.chainId,
+      transactionType,
+      platform: PlatformName.CETUS,
+      positionId: fields.position ?? null,
+      gasFeeAmount: gasFee?.amount ?? null,
+      gasFeeTokenDenom: gasFee?.denom ?? null,
+      gasFeeTokenName: tokenName(gasFee?.denom ?? null),
+      txHash: context.txHash,
+      txActionIndex: transactions.length,
+      successful: context.successful ?? true,
+      timestamp: context.timestamp,
+    };
+
+    switch (transactionType) {
+      case TransactionType.CETUS_ADD_LIQUIDITY:
+        tx.inputAmount = fields.amount_a ?? null;
+        tx.inputTokenDenom = denomA;
+        tx.inputTokenName = tokenName(denomA);
+        tx.secondInputAmount = fields.amount_b ?? null;
+        tx.secondInputTokenDenom = denomB;
+        tx.secondInputTokenName = tokenName(denomB);
+        break;
+      case TransactionType.CETUS_REMOVE_LIQUIDITY:
+      case TransactionType.CETUS_COLLECT_FEES:
+        tx.outputAmount = fields.amount_a ?? null;
+        tx.outputTokenDenom = denomA;
+        tx.outputTokenName = tokenName(denomA);
+        tx.secondOutputAmount = fields.amount_b ?? null;
+        tx.secondOutputTokenDenom = denomB;
+        tx.secondOutputTokenName = tokenName(denomB);
+        break;
+      case TransactionType.CETUS_COLLECT_REWARDS: {
+        // Only V2 events name the reward coin
+        const rewardDenom = fields.rewarder_type
+          ? normalizeDenom(`0x${fields.rewarder_type.name.replace(/^0x/, "")}`)
+          : null;
+        tx.outputAmount = fields.amount ?? null;
+        tx.outputTokenDenom = rewardDenom;
+        tx.outputTokenName = tokenName(rewardDenom);
+        break;
+      }
+    }
+
+    transactions.push(tx);
+  }
+  return transactions;
+}
@@ -1,31 +1,55 @@
 import path from "node:path";
 import { access, mkdir, writeFile } from "node:fs/promises";
 
+import BigNumber from "bignumber.js";
+
 import { PostgresTransactionRepository } from "./postgres-transaction-repository";
 import { DEFAULT_KEY_NAME, KeyManager, KeyStoreType } from "../key-manager";
+import { PriceService } from "../monitoring/price-service";
 import { findOsmosisChainInfo } from "../registry";
 import { getSignerAddress, getWorkingDirectory } from "../utils";
 
+import { PlatformName } from "./types";
 import type {
   AccountStats,
   AccountTransaction,
+  CetusFeesByToken,
+  CostBasisMethod,
   DatabaseQueriesConfig,
   MakeDatabaseQueriesParams,
+  ProfitAndLoss,
   ProfitabilityByToken,
+  ProfitabilityUsd,
+  TransactionCursor,
+  TransactionFilter,
+  TransactionPage,
   TransactionRepository,
   TransactionType,
   TransactionTypeSummary,
   VolumeByToken,
+  VolumeUsd,
 } from "./types";
+import { ProfitAndLossEngine } from "./profit-and-loss";
 import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import { toTokenAmount, TransactionValuer } from "./transaction-valuation";
+
+const VALUATION_PAGE_SIZE = 1000;
+
+// Exact decimal string with thousands separators and 2 to 6 fraction digits
+const formatAmount = (value: string): string => {
+  const amount = new BigNumber(value).decimalPlaces(6);
+  return amount.toFormat(Math.max(amount.decimalPlaces() ?? 0, 2));
+};
 
 export class DatabaseQueryClient {
   private database: TransactionRepository;
   private osmosisAddress: string;
+  private priceService: DatabaseQueriesConfig["priceService"];
 
   constructor(params: DatabaseQueriesConfig) {
     this.database = params.database;
     this.osmosisAddress = params.osmosisAddress;
+    this.priceService = params.priceService;
   }
 
   static async make(
@@ -71,6 +95,20 @@ export class DatabaseQueryClient {
     );
   }
 
+  // Page through transactions matching a filter, newest first. The filter
+  // defaults to this account, pass `signerAddress: undefined` for every account.
+  async queryTransactions(
+    filter: TransactionFilter = {},
+    cursor?: TransactionCursor | null,
+    limit: number = 100
+  ): Promise<TransactionPage> {
+    return this.database.queryTransactions(
+      { signerAddress: this.osmosisAddress, ...filter },
+      cursor,
+      limit
+    );
+  }
+
   // Get transactions by type
   async getTransactionsByType(
     transactionType: TransactionType,
@@ -97,13 +135,43 @@ export class DatabaseQueryClient {
     return this.database.getAccountStats(signerAddress, startTime, endTime);
   }
 
+  // Get the volume of one platform
+  async getPlatformVolume(
+    platform: PlatformName,
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<VolumeByToken[]> {
+    return this.database.getPlatformVolume(
+      platform,
+      signerAddress,
+      startTime,
+      endTime
+    );
+  }
+
   // Get Archway Bolt volume
   async getArchwayBoltVolume(
     signerAddress?: string,
     startTime?: Date,
     endTime?: Date
   ): Promise<VolumeByToken[]> {
-    return this.database.getArchwayBoltVolume(
+    return this.getPlatformVolume(
+      PlatformName.BOLT_ARCHWAY,
+      signerAddress,
+      startTime,
+      endTime
+    );
+  }
+
+  // Get Sui Bolt volume
+  async getSuiBoltVolume(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<VolumeByToken[]> {
+    return this.getPlatformVolume(
+      PlatformName.BOLT_SUI,
       signerAddress,
       startTime,
       endTime
@@ -119,6 +187,24 @@ export class DatabaseQueryClient {
     return this.database.getOsmosisVolume(signerAddress, startTime, endTime);
   }
 
+  // Get Cetus CLMM position volume
+  async getCetusVolume(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<VolumeByToken[]> {
+    return this.database.getCetusVolume(signerAddress, startTime, endTime);
+  }
+
+  // Get fees and rewards collected from Cetus positions
+  async getCetusFees(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<CetusFeesByToken[]> {
+    return this.database.getCetusFees(signerAddress, startTime, endTime);
+  }
+
   // Get bridge volume
   async getBridgeVolume(
     signerAddress?: string,
@@ -137,6 +223,185 @@ export class DatabaseQueryClient {
     return this.database.getProfitability(signerAddress, startTime, endTime);
   }
 
+  // Get profitability in USD, each transaction priced at its own time
+  async getProfitabilityUsd(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<ProfitabilityUsd> {
+    const valuer = new TransactionValuer(this.database);
+    let totalSent = new BigNumber(0);
+    let totalReceived = new BigNumber(0);
+    let valuedTransactions = 0;
+    let unvaluedTransactions = 0;
+
+    for await (const tx of this.iterateTransactions(
+      signerAddress,
+      startTime,
+      endTime
+    )) {
+      if (!tx.successful) {
+        continue;
+      }
+
+      const { inputUsd, outputUsd } = await valuer.valueTransaction(tx);
+      const gasFee =
+        tx.gasFeeAmount && tx.gasFeeTokenDenom
+          ? toTokenAmount(tx.gasFeeAmount, tx.gasFeeTokenDenom, tx.chainId)
+          : null;
+      const gasPrice = gasFee
+        ? await valuer.priceAt(
+            gasFee.token.denom,
+            tx.timestamp ?? Math.floor(Date.now() / 1000)
+          )
+        : new BigNumber(0);
+      const hasInputs = Boolean(tx.inputAmount || tx.secondInputAmount);
+      const hasOutputs = Boolean(tx.outputAmount || tx.secondOutputAmount);
+      const hasGasFee = Boolean(tx.gasFeeAmount && tx.gasFeeTokenDenom);
+      if (
+        (hasInputs && !inputUsd) ||
+        (hasOutputs && !outputUsd) ||
+        (hasGasFee && !gasFee) ||
+        !gasPrice
+      ) {
+        unvaluedTransactions++;
+        continue;
+      }
+
+      valuedTransactions++;
+      totalSent = totalSent
+        .plus(inputUsd ?? 0)
+        .plus(gasFee ? gasFee.amount.multipliedBy(gasPrice) : 0);
+      totalReceived = totalReceived.plus(outputUsd ?? 0);
+    }
+
+    const netBalance = totalReceived.minus(totalSent);
+    return {
+      totalSentUsd: totalSent.toNumber(),
+      totalReceivedUsd: totalReceived.toNumber(),
+      netBalanceUsd: netBalance.toNumber(),
+      roiPercentage: totalSent.isGreaterThan(0)
+        ? netBalance.dividedBy(totalSent).multipliedBy(100).toNumber()
+        : null,
+      valuedTransactions,
+      unvaluedTransactions,
+    };
+  }
+
+  // Get realized and unrealized P&L with a USD cost basis per token. The whole
+  // history up to endTime builds the cost basis, P&L is counted from startTime.
+  async getProfitAndLoss(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date,
+    method: CostBasisMethod = "fifo"
+  ): Promise<ProfitAndLoss> {
+    const valuer = new TransactionValuer(this.database);
+    const engine = new ProfitAndLossEngine(
+      (denom, timestamp) => valuer.priceAt(denom, timestamp),
+      { method, startTime }
+    );
+
+    // Pages come newest first, the engine needs the oldest first and the
+    // actions of a transaction in order
+    const transactions: AccountTransaction[] = [];
+    for await (const tx of this.iterateTransactions(signerAddress, undefined, endTime)) {
+      transactions.push(tx);
+    }
+    transactions.sort(
+      (a, b) =>
+        (a.timestamp ?? 0) - (b.timestamp ?? 0) ||
+        a.txHash.localeCompare(b.txHash) ||
+        (a.txActionIndex ?? 0) - (b.txActionIndex ?? 0)
+    );
+    for (const tx of transactions) {
+      await engine.apply(tx);
+    }
+
+    // Holdings are priced at endTime from price samples when it is in the
+    // past, at the current oracle price otherwise
+    const heldTokens = engine.getHeldTokens();
+    const now = Math.floor(Date.now() / 1000);
+    const pricedAt = endTime ? Math.min(Math.floor(endTime.getTime() / 1000), now) : now;
+    const prices = new Map<string, BigNumber>();
+    if (heldTokens.length > 0 && pricedAt < now) {
+      for (const token of heldTokens) {
+        const price = await valuer.priceAt(token.denom, pricedAt);
+        if (price) {
+          prices.set(token.denom, price);
+        }
+      }
+    } else if (heldTokens.length > 0) {
+      this.priceService ??= new PriceService();
+      const oraclePrices = await this.priceService.getRegistryTokenPrices(heldTokens);
+      for (const [denom, oraclePrice] of oraclePrices) {
+        prices.set(denom, oraclePrice.price);
+      }
+    }
+    return engine.summarize(prices, pricedAt);
+  }
+
+  // Get the USD volume of one transaction type, each swap priced at its own time
+  async getVolumeUsd(
+    transactionType: TransactionType,
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<VolumeUsd> {
+    const valuer = new TransactionValuer(this.database);
+    let totalVolume = new BigNumber(0);
+    let totalSwaps = 0;
+    let unvaluedTransactions = 0;
+
+    for await (const tx of this.iterateTransactions(
+      signerAddress,
+      startTime,
+      endTime
+    )) {
+      if (!tx.successful || tx.transactionType !== transactionType) {
+        continue;
+      }
+
+      totalSwaps++;
+      const { valueUsd } = await valuer.valueTransaction(tx);
+      if (valueUsd) {
+        totalVolume = totalVolume.plus(valueUsd);
+      } else {
+        unvaluedTransactions++;
+      }
+    }
+
+    return {
+      transactionType,
+      totalVolumeUsd: totalVolume.toNumber(),
+      totalSwaps,
+      unvaluedTransactions,
+    };
+  }
+
+  // Page through every transaction of an account in a time range
+  private async *iterateTransactions(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): AsyncGenerator<AccountTransaction> {
+    const filter: TransactionFilter = {
+      signerAddress: signerAddress || this.osmosisAddress,
+      startTime,
+      endTime,
+    };
+    let cursor: TransactionCursor | null = null;
+    do {
+      const page: TransactionPage = await this.database.queryTransactions(
+        filter,
+        cursor,
+        VALUATION_PAGE_SIZE
+      );
+      yield* page.transactions;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
   // Get transaction type summary
   async getTransactionTypeSummary(
     signerAddress?: string,
@@ -158,13 +423,7 @@ export class DatabaseQueryClient {
 
     let output = "";
     volumeData.forEach((item) => {
-      output += `${item.tokenName}: ${item.totalVolume.toLocaleString(
-        undefined,
-        {
-          minimumFractionDigits: 2,
-          maximumFractionDigits: 6,
-        }
-      )}`;
+      output += `${item.tokenName}: ${formatAmount(item.totalVolume)}`;
       if (item.totalSwaps !== undefined) {
         output += ` (${item.totalSwaps} swaps)`;
       } else if (item.totalOperations !== undefined) {
@@ -178,6 +437,25 @@ export class DatabaseQueryClient {
     return output.trim();
   }
 
+  // Format Cetus fees for display
+  formatCetusFees(fees: CetusFeesByToken[]): string {
+    if (fees.length === 0) {
+      return "No Cetus fees collected";
+    }
+
+    let output = "";
+    fees.forEach((item) => {
+      output += `${item.tokenName}: ${formatAmount(item.totalFees)} fees`;
+      if (new BigNumber(item.totalRewards).isGreaterThan(0)) {
+        output += `, ${formatAmount(item.totalRewards)} rewards`;
+      }
+      output += "\n";
+    });
+    output += `(${fees[0].totalCollections} collections)`;
+
+    return output;
+  }
+
   // Format profitability data for display
   formatProfitabilityData(profitData: ProfitabilityByToken[]): string {
     if (profitData.length === 0) {
@@ -189,20 +467,14 @@ export class DatabaseQueryClient {
 
     profitData.forEach((item) => {
       output += `${item.tokenName}:\n`;
-      output += `  Spent: ${item.totalSent.toLocaleString(undefined, {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 6,
-      })}\n`;
-      output += `  Received: ${item.totalReceived.toLocaleString(undefined, {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 6,
-      })}\n`;
+      output += `  Spent: ${formatAmount(item.totalSent)}\n`;
+      output += `  Received: ${formatAmount(item.totalReceived)}\n`;
+      if (new BigNumber(item.feesEarned).isGreaterThan(0)) {
+        output += `  Fees earned: ${formatAmount(item.feesEarned)}\n`;
+      }
       output += `  Net: ${
-        item.netBalance > 0 ? "+" : ""
-      }${item.netBalance.toLocaleString(undefined, {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 6,
-      })}`;
+        new BigNumber(item.netBalance).isGreaterThan(0) ? "+" : ""
+      }${formatAmount(item.netBalance)}`;
       if (item.roiPercentage !== null) {
         output += ` (${
           item.roiPercentage > 0 ? "+" : ""
@@ -214,6 +486,34 @@ export class DatabaseQueryClient {
     return output.trim();
   }
 
+  // Format USD profitability for display
+  formatProfitabilityUsd(profit: ProfitabilityUsd): string {
+    const formatUsd = (value: number) =>
+      `$${value.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`;
+
+    let output = "USD Profitability (priced at execution time):\n";
+    output += "─".repeat(60) + "\n";
+    output += `  Spent: ${formatUsd(profit.totalSentUsd)}\n`;
+    output += `  Received: ${formatUsd(profit.totalReceivedUsd)}\n`;
+    output += `  Net: ${profit.netBalanceUsd > 0 ? "+" : ""}${formatUsd(
+      profit.netBalanceUsd
+    )}`;
+    if (profit.roiPercentage !== null) {
+      output += ` (${
+        profit.roiPercentage > 0 ? "+" : ""
+      }${profit.roiPercentage.toFixed(2)}% ROI)`;
+    }
+    output += "\n";
+    if (profit.unvaluedTransactions > 0) {
+      output += `  ⚠️  ${profit.unvaluedTransactions} transaction(s) without a price sample were left out\n`;
+    }
+
+    return output.trim();
+  }
+
   // Format transaction summary for display
   formatTransactionSummary(summary: TransactionTypeSummary[]): string {
     if (summary.length === 0) {
@@ -243,6 +543,50 @@ export class DatabaseQueryClient {
     return output.trim();
   }
 
+  // Format realized and unrealized P&L for display
+  formatProfitAndLoss(pnl: ProfitAndLoss): string {
+    const formatUsd = (value: number) =>
+      `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`;
+    const formatPnl = (value: number) => `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+
+    let output = `P&L (${pnl.method === "fifo" ? "FIFO" : "average"} cost basis):\n`;
+    output += "─".repeat(60) + "\n";
+    output += `  Realized: ${formatPnl(pnl.realizedPnlUsd)} (${pnl.realized.length} swaps and closes)\n`;
+    output += `  Fee income: ${formatPnl(pnl.feeIncomeUsd)}\n`;
+    output += `  Gas fees: ${formatUsd(pnl.gasFeesUsd)}\n`;
+    output += `  Unrealized: ${formatPnl(pnl.unrealizedPnlUsd)} (token holdings at ${new Date(
+      pnl.pricedAt * 1000
+    ).toISOString()}, open positions excluded)\n`;
+    output += `  Net: ${formatPnl(pnl.netPnlUsd)}\n`;
+
+    for (const holding of pnl.holdings) {
+      output += `  ${holding.tokenName}: ${formatAmount(holding.amount)}, cost ${formatUsd(
+        holding.costBasisUsd
+      )}`;
+      output +=
+        holding.valueUsd !== null && holding.unrealizedPnlUsd !== null
+          ? `, value ${formatUsd(holding.valueUsd)} (${formatPnl(holding.unrealizedPnlUsd)})\n`
+          : ", no price\n";
+    }
+    if (pnl.openPositions.length > 0) {
+      const positionsCost = pnl.openPositions.reduce(
+        (total, position) => total + position.costBasisUsd,
+        0
+      );
+      output += `  ${pnl.openPositions.length} open position(s) at a cost of ${formatUsd(
+        positionsCost
+      )}, not included in unrealized P&L\n`;
+    }
+    if (pnl.unvaluedTransactions > 0) {
+      output += `  ⚠️  ${pnl.unvaluedTransactions} transaction(s) without a price sample kept the cost basis they were exchanged for\n`;
+    }
+
+    return output.trim();
+  }
+
   // Get all statistics in a formatted report
   async getFullReport(
     signerAddress?: string,
@@ -253,16 +597,26 @@ export class DatabaseQueryClient {
     const [
       accountStats,
       archwayVolume,
+      suiVolume,
       osmosisVolume,
+      cetusVolume,
+      cetusFees,
       bridgeVolume,
       profitability,
+      profitabilityUsd,
+      profitAndLoss,
       transactionSummary,
     ] = await Promise.all([
       this.getAccountStats(address, startTime, endTime),
       this.getArchwayBoltVolume(address, startTime, endTime),
+      this.getSuiBoltVolume(address, startTime, endTime),
       this.getOsmosisVolume(address, startTime, endTime),
+      this.getCetusVolume(address, startTime, endTime),
+      this.getCetusFees(address, startTime, endTime),
       this.getBridgeVolume(address, startTime, endTime),
       this.getProfitability(address, startTime, endTime),
+      this.getProfitabilityUsd(address, startTime, endTime),
+      this.getProfitAndLoss(address, startTime, endTime),
       this.getTransactionTypeSummary(address, startTime, endTime),
     ]);
 
@@ -295,12 +649,30 @@ export class DatabaseQueryClient {
       report += this.formatVolumeData(archwayVolume) + "\n\n";
     }
 
+    if (suiVolume.length > 0) {
+      report += "🔄 Sui Bolt Volume:\n";
+      report += "─".repeat(60) + "\n";
+      report += this.formatVolumeData(suiVolume) + "\n\n";
+    }
+
     if (osmosisVolume.length > 0) {
       report += "🌊 Osmosis Volume:\n";
       report += "─".repeat(60) + "\n";
       report += this.formatVolumeData(osmosisVolume) + "\n\n";
     }
 
+    if (cetusVolume.length > 0) {
+      report += "🐋 Cetus Volume:\n";
+      report += "─".repeat(60) + "\n";
+      report += this.formatVolumeData(cetusVolume) + "\n\n";
+    }
+
+    if (cetusFees.length > 0) {
+      report += "🐋 Cetus Fees:\n";
+      report += "─".repeat(60) + "\n";
+      report += this.formatCetusFees(cetusFees) + "\n\n";
+    }
+
     if (bridgeVolume.length > 0) {
       report += "🌉 Bridge Volume:\n";
       report += "─".repeat(60) + "\n";
@@ -309,6 +681,12 @@ export class DatabaseQueryClient {
 
     // Profitability
     report += "💰 " + this.formatProfitabilityData(profitability) + "\n\n";
+    if (profitabilityUsd.valuedTransactions > 0) {
+      report += "💵 " + this.formatProfitabilityUsd(profitabilityUsd) + "\n\n";
+    }
+    if (profitAndLoss.realized.length > 0 || profitAndLoss.holdings.length > 0) {
+      report += "📈 " + this.formatProfitAndLoss(profitAndLoss) + "\n\n";
+    }
 
     // Time range
     if (accountStats.length > 0) {
@@ -374,7 +752,7 @@ export class DatabaseQueryClient {
 
   // Export volume data to CSV
   async exportVolumeToCSV(
-    volumeType: "archway" | "osmosis" | "bridge" | "all",
+    volumeType: "archway" | "osmosis" | "cetus" | "bridge" | "all",
     signerAddress?: string,
     startTime?: Date,
     endTime?: Date
@@ -430,6 +808,30 @@ export class DatabaseQueryClient {
       exportedFiles.push(filepath);
     }
 
+    if (volumeType === "all" || volumeType === "cetus") {
+      const cetusVolume = await this.getCetusVolume(
+        signerAddress,
+        startTime,
+        endTime
+      );
+      const filename = this.generateReportFilename(
+        "cetus_volume",
+        startTime,
+        endTime
+      );
+      const filepath = path.join(reportsDir, filename);
+
+      let csv = "Token Name,Total Volume,Total Operations\n";
+      cetusVolume.forEach((item) => {
+        csv += `"${item.tokenName}",${item.totalVolume},${
+          item.totalOperations || 0
+        }\n`;
+      });
+
+      await writeFile(filepath, csv, "utf-8");
+      exportedFiles.push(filepath);
+    }
+
     if (volumeType === "all" || volumeType === "bridge") {
       const bridgeVolume = await this.getBridgeVolume(
         signerAddress,
@@ -476,11 +878,12 @@ export class DatabaseQueryClient {
     );
     const filepath = path.join(reportsDir, filename);
 
-    let csv = "Token Name,Total Sent,Total Received,Net Balance,ROI %\n";
+    let csv =
+      "Token Name,Total Sent,Total Received,Fees Earned,Net Balance,ROI %\n";
     profitability.forEach((item) => {
       csv += `"${item.tokenName}",${item.totalSent},${item.totalReceived},${
-        item.netBalance
-      },${item.roiPercentage || ""}\n`;
+        item.feesEarned
+      },${item.netBalance},${item.roiPercentage || ""}\n`;
     });
 
     await writeFile(filepath, csv, "utf-8");
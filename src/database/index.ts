@@ -1,4 +1,13 @@
 export * from "./sqlite-transaction-repository";
+export * from "./sqlite-migrations";
 export * from "./postgres-transaction-repository";
 export * from "./database-query-client";
+export * from "./cetus-transactions";
+export * from "./transaction-platform";
+export * from "./transaction-migration";
+export * from "./reconciliation";
+export * from "./transaction-valuation";
+export * from "./profit-and-loss";
+export * from "./volume-buckets";
+export * from "./bot-registry";
 export * from "./types";
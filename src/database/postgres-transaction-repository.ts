@@ -1,27 +1,70 @@
-import { PrismaClient, Prisma } from "@prisma/client";
+import {
+  AccountTransaction as DbAccountTransaction,
+  PoolSnapshot as DbPoolSnapshot,
+  PriceSample as DbPriceSample,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import BigNumber from "bignumber.js";
+
+import { normalizeDenom } from "../registry";
+
+import {
+  getTransactionPlatform,
+  FEE_TRANSACTION_TYPES,
+  PLATFORM_VOLUME_TYPES,
+} from "./transaction-platform";
+import {
+  computeTransactionValue,
+  getTransactionTokens,
+} from "./transaction-valuation";
+import { buildVolumeBuckets } from "./volume-buckets";
 
 import {
   AccountTransaction,
   TransactionRepository,
+  TransactionCursor,
+  TransactionFilter,
+  TransactionKey,
+  TransactionPage,
   TransactionType,
+  PlatformName,
   AccountStats,
   VolumeByToken,
+  CetusFeesByToken,
   ProfitabilityByToken,
   TransactionTypeSummary,
+  PoolSnapshot,
+  PoolSnapshotQuery,
+  PriceSample,
+  PriceSampleQuery,
+  IndexerCheckpoint,
+  TransactionRepositoryOptions,
+  VolumeBucketRow,
+  VolumeQuery,
 } from "./types";
 
 export class PostgresTransactionRepository implements TransactionRepository {
   private prisma: PrismaClient;
+  private valueTransactions: boolean;
 
-  constructor(prisma?: PrismaClient) {
+  constructor(
+    prisma?: PrismaClient,
+    repositoryOptions: TransactionRepositoryOptions = {}
+  ) {
     this.prisma = prisma || new PrismaClient();
+    this.valueTransactions =
+      repositoryOptions.valueTransactions ??
+      process.env.STORE_TRANSACTION_VALUE_USD === "true";
   }
 
-  static async make(): Promise<PostgresTransactionRepository> {
+  static async make(
+    repositoryOptions?: TransactionRepositoryOptions
+  ): Promise<PostgresTransactionRepository> {
     const prisma = new PrismaClient();
     // Test connection
     await prisma.$connect();
-    return new PostgresTransactionRepository(prisma);
+    return new PostgresTransactionRepository(prisma, repositoryOptions);
   }
 
   private toDate(timestamp?: number): Date | undefined {
@@ -33,144 +76,101 @@ export class PostgresTransactionRepository implements TransactionRepository {
   }
 
   async addTransaction(tx: AccountTransaction): Promise<void> {
-    await this.prisma.accountTransaction.upsert({
+    const valueUsd = tx.valueUsd || (await this.valueAtInsert(tx));
+    await this.upsertTransaction(tx, valueUsd);
+  }
+
+  async addTransactionBatch(txs: AccountTransaction[]): Promise<void> {
+    const values = await Promise.all(
+      txs.map(async (tx) => tx.valueUsd || (await this.valueAtInsert(tx)))
+    );
+
+    await this.prisma.$transaction(
+      txs.map((tx, index) => this.upsertTransaction(tx, values[index]))
+    );
+  }
+
+  // A stored value_usd is kept when none is given
+  private upsertTransaction(tx: AccountTransaction, valueUsd: string | null) {
+    const data = {
+      signerAddress: tx.signerAddress,
+      chainId: tx.chainId,
+      transactionType: tx.transactionType,
+      platform: getTransactionPlatform(tx),
+      positionId: tx.positionId,
+      inputAmount: tx.inputAmount,
+      inputTokenDenom: tx.inputTokenDenom,
+      inputTokenName: tx.inputTokenName,
+      secondInputAmount: tx.secondInputAmount,
+      secondInputTokenDenom: tx.secondInputTokenDenom,
+      secondInputTokenName: tx.secondInputTokenName,
+      outputAmount: tx.outputAmount,
+      outputTokenDenom: tx.outputTokenDenom,
+      outputTokenName: tx.outputTokenName,
+      secondOutputAmount: tx.secondOutputAmount,
+      secondOutputTokenDenom: tx.secondOutputTokenDenom,
+      secondOutputTokenName: tx.secondOutputTokenName,
+      gasFeeAmount: tx.gasFeeAmount,
+      gasFeeTokenDenom: tx.gasFeeTokenDenom,
+      gasFeeTokenName: tx.gasFeeTokenName,
+      destinationAddress: tx.destinationAddress,
+      destinationChainId: tx.destinationChainId,
+      txHash: tx.txHash,
+      txActionIndex: tx.txActionIndex ?? 0,
+      successful: tx.successful,
+      error: tx.error,
+      timestamp: this.toDate(tx.timestamp) || new Date(),
+    };
+
+    return this.prisma.accountTransaction.upsert({
       where: {
         chainId_txHash_txActionIndex: {
-          chainId: tx.chainId,
-          txHash: tx.txHash,
-          txActionIndex: tx.txActionIndex ?? 0,
+          chainId: data.chainId,
+          txHash: data.txHash,
+          txActionIndex: data.txActionIndex,
         },
       },
-      update: {
-        signerAddress: tx.signerAddress,
-        transactionType: tx.transactionType,
-        positionId: tx.positionId,
-        inputAmount: tx.inputAmount,
-        inputTokenDenom: tx.inputTokenDenom,
-        inputTokenName: tx.inputTokenName,
-        secondInputAmount: tx.secondInputAmount,
-        secondInputTokenDenom: tx.secondInputTokenDenom,
-        secondInputTokenName: tx.secondInputTokenName,
-        outputAmount: tx.outputAmount,
-        outputTokenDenom: tx.outputTokenDenom,
-        outputTokenName: tx.outputTokenName,
-        secondOutputAmount: tx.secondOutputAmount,
-        secondOutputTokenDenom: tx.secondOutputTokenDenom,
-        secondOutputTokenName: tx.secondOutputTokenName,
-        gasFeeAmount: tx.gasFeeAmount,
-        gasFeeTokenDenom: tx.gasFeeTokenDenom,
-        gasFeeTokenName: tx.gasFeeTokenName,
-        destinationAddress: tx.destinationAddress,
-        destinationChainId: tx.destinationChainId,
-        successful: tx.successful,
-        error: tx.error,
-        timestamp: this.toDate(tx.timestamp) || new Date(),
-      },
-      create: {
-        signerAddress: tx.signerAddress,
-        chainId: tx.chainId,
-        transactionType: tx.transactionType,
-        positionId: tx.positionId,
-        inputAmount: tx.inputAmount,
-        inputTokenDenom: tx.inputTokenDenom,
-        inputTokenName: tx.inputTokenName,
-        secondInputAmount: tx.secondInputAmount,
-        secondInputTokenDenom: tx.secondInputTokenDenom,
-        secondInputTokenName: tx.secondInputTokenName,
-        outputAmount: tx.outputAmount,
-        outputTokenDenom: tx.outputTokenDenom,
-        outputTokenName: tx.outputTokenName,
-        secondOutputAmount: tx.secondOutputAmount,
-        secondOutputTokenDenom: tx.secondOutputTokenDenom,
-        secondOutputTokenName: tx.secondOutputTokenName,
-        gasFeeAmount: tx.gasFeeAmount,
-        gasFeeTokenDenom: tx.gasFeeTokenDenom,
-        gasFeeTokenName: tx.gasFeeTokenName,
-        destinationAddress: tx.destinationAddress,
-        destinationChainId: tx.destinationChainId,
-        txHash: tx.txHash,
-        txActionIndex: tx.txActionIndex ?? 0,
-        successful: tx.successful,
-        error: tx.error,
-        timestamp: this.toDate(tx.timestamp) || new Date(),
-      },
+      update: { ...data, valueUsd: valueUsd ?? undefined },
+      create: { ...data, valueUsd },
     });
   }
 
-  async addTransactionBatch(txs: AccountTransaction[]): Promise<void> {
-    await this.prisma.$transaction(
-      txs.map((tx) =>
-        this.prisma.accountTransaction.upsert({
-          where: {
-            chainId_txHash_txActionIndex: {
-              chainId: tx.chainId,
-              txHash: tx.txHash,
-              txActionIndex: tx.txActionIndex ?? 0,
-            },
-          },
-          update: {
-            signerAddress: tx.signerAddress,
-            transactionType: tx.transactionType,
-            positionId: tx.positionId,
-            inputAmount: tx.inputAmount,
-            inputTokenDenom: tx.inputTokenDenom,
-            inputTokenName: tx.inputTokenName,
-            secondInputAmount: tx.secondInputAmount,
-            secondInputTokenDenom: tx.secondInputTokenDenom,
-            secondInputTokenName: tx.secondInputTokenName,
-            outputAmount: tx.outputAmount,
-            outputTokenDenom: tx.outputTokenDenom,
-            outputTokenName: tx.outputTokenName,
-            secondOutputAmount: tx.secondOutputAmount,
-            secondOutputTokenDenom: tx.secondOutputTokenDenom,
-            secondOutputTokenName: tx.secondOutputTokenName,
-            gasFeeAmount: tx.gasFeeAmount,
-            gasFeeTokenDenom: tx.gasFeeTokenDenom,
-            gasFeeTokenName: tx.gasFeeTokenName,
-            destinationAddress: tx.destinationAddress,
-            destinationChainId: tx.destinationChainId,
-            successful: tx.successful,
-            error: tx.error,
-            timestamp: this.toDate(tx.timestamp) || new Date(),
-          },
-          create: {
-            signerAddress: tx.signerAddress,
-            chainId: tx.chainId,
-            transactionType: tx.transactionType,
-            positionId: tx.positionId,
-            inputAmount: tx.inputAmount,
-            inputTokenDenom: tx.inputTokenDenom,
-            inputTokenName: tx.inputTokenName,
-            secondInputAmount: tx.secondInputAmount,
-            secondInputTokenDenom: tx.secondInputTokenDenom,
-            secondInputTokenName: tx.secondInputTokenName,
-            outputAmount: tx.outputAmount,
-            outputTokenDenom: tx.outputTokenDenom,
-            outputTokenName: tx.outputTokenName,
-            secondOutputAmount: tx.secondOutputAmount,
-            secondOutputTokenDenom: tx.secondOutputTokenDenom,
-            secondOutputTokenName: tx.secondOutputTokenName,
-            gasFeeAmount: tx.gasFeeAmount,
-            gasFeeTokenDenom: tx.gasFeeTokenDenom,
-            gasFeeTokenName: tx.gasFeeTokenName,
-            destinationAddress: tx.destinationAddress,
-            destinationChainId: tx.destinationChainId,
-            txHash: tx.txHash,
-            txActionIndex: tx.txActionIndex ?? 0,
-            successful: tx.successful,
-            error: tx.error,
-            timestamp: this.toDate(tx.timestamp) || new Date(),
-          },
-        })
-      )
+  // USD value stored with a new transaction when valueTransactions is enabled
+  private async valueAtInsert(tx: AccountTransaction): Promise<string | null> {
+    if (!this.valueTransactions) {
+      return null;
+    }
+
+    const time = new Date((tx.timestamp ?? Math.floor(Date.now() / 1000)) * 1000);
+    const { tokens } = getTransactionTokens(tx);
+    const samples = await Promise.all(
+      tokens.map((token) => this.getNearestPriceSample(token.denom, time))
     );
+    const { valueUsd } = computeTransactionValue(tx, (token) => {
+      const sample = samples[tokens.indexOf(token)];
+      return sample ? new BigNumber(sample.priceUsd) : null;
+    });
+    return valueUsd?.toFixed() ?? null;
+  }
+
+  // Raw query rows of account_transactions are keyed by column name, the
+  // model by field name
+  private rawToTransaction(row: Record<string, unknown>): AccountTransaction {
+    const dbTx = Object.fromEntries(
+      Object.entries(row).map(([column, value]) => [
+        column.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase()),
+        value,
+      ])
+    ) as DbAccountTransaction;
+    return this.dbToTransaction(dbTx);
   }
 
-  private dbToTransaction(dbTx: any): AccountTransaction {
+  private dbToTransaction(dbTx: DbAccountTransaction): AccountTransaction {
     return {
       signerAddress: dbTx.signerAddress,
       chainId: dbTx.chainId,
       transactionType: dbTx.transactionType as TransactionType,
+      platform: dbTx.platform as PlatformName | null,
       positionId: dbTx.positionId,
       inputAmount: dbTx.inputAmount,
       inputTokenDenom: dbTx.inputTokenDenom,
@@ -194,6 +194,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
       successful: dbTx.successful,
       error: dbTx.error,
       timestamp: this.toTimestamp(dbTx.timestamp),
+      valueUsd: dbTx.valueUsd,
     };
   }
 
@@ -248,6 +249,115 @@ export class PostgresTransactionRepository implements TransactionRepository {
     return dbTxs.map((dbTx) => this.dbToTransaction(dbTx));
   }
 
+  async queryTransactions(
+    filter: TransactionFilter,
+    cursor: TransactionCursor | null = null,
+    limit: number = 100
+  ): Promise<TransactionPage> {
+    const filters: Prisma.Sql[] = [Prisma.sql`TRUE`];
+    const inList = (column: string, values: string[]) =>
+      values.length > 0
+        ? Prisma.sql`${Prisma.raw(column)} IN (${Prisma.join(values)})`
+        : Prisma.sql`FALSE`;
+
+    if (filter.signerAddress !== undefined) {
+      filters.push(Prisma.sql`signer_address = ${filter.signerAddress}`);
+    }
+    if (filter.chainIds) {
+      filters.push(inList("chain_id", filter.chainIds));
+    }
+    if (filter.transactionTypes) {
+      filters.push(inList("transaction_type", filter.transactionTypes));
+    }
+    if (filter.platforms) {
+      filters.push(inList("platform", filter.platforms));
+    }
+    if (filter.tokenDenoms) {
+      const denoms = filter.tokenDenoms;
+      filters.push(
+        Prisma.sql`(${Prisma.join(
+          [
+            inList("input_token_denom", denoms),
+            inList("second_input_token_denom", denoms),
+            inList("output_token_denom", denoms),
+            inList("second_output_token_denom", denoms),
+          ],
+          " OR "
+        )})`
+      );
+    }
+    if (filter.successful !== undefined) {
+      filters.push(Prisma.sql`successful = ${filter.successful}`);
+    }
+    if (filter.positionId !== undefined) {
+      filters.push(Prisma.sql`position_id = ${filter.positionId}`);
+    }
+    if (filter.txHashPrefix !== undefined) {
+      filters.push(Prisma.sql`starts_with(tx_hash, ${filter.txHashPrefix})`);
+    }
+    if (filter.startTime) {
+      filters.push(Prisma.sql`timestamp >= ${filter.startTime}`);
+    }
+    if (filter.endTime) {
+      filters.push(Prisma.sql`timestamp <= ${filter.endTime}`);
+    }
+    // Rows are stored with milliseconds while cursors carry whole seconds,
+    // so pages are ordered by the second, as on SQLite. The order is indexed
+    // by idx_transactions_page and idx_transactions_signer_page.
+    const second = Prisma.sql`date_trunc('second', timestamp)`;
+    if (cursor) {
+      const cursorTime = new Date(cursor.timestamp * 1000);
+      // The leading bound lets the index start at the cursor
+      filters.push(Prisma.sql`${second} <= ${cursorTime}`);
+      filters.push(Prisma.sql`(
+        ${second} < ${cursorTime}
+        OR (${second} = ${cursorTime} AND tx_hash < ${cursor.txHash})
+        OR (${second} = ${cursorTime} AND tx_hash = ${cursor.txHash} AND chain_id < ${cursor.chainId})
+        OR (${second} = ${cursorTime} AND tx_hash = ${cursor.txHash} AND chain_id = ${cursor.chainId} AND tx_action_index > ${cursor.txActionIndex})
+      )`);
+    }
+
+    // One row more than the page tells whether there is a next page
+    const rows = await this.prisma.$queryRaw<Array<Record<string, unknown>>>`
+      SELECT * FROM account_transactions
+      WHERE ${Prisma.join(filters, " AND ")}
+      ORDER BY ${second} DESC, tx_hash DESC, chain_id DESC, tx_action_index
+      LIMIT ${limit + 1}
+    `;
+
+    const transactions = rows
+      .slice(0, limit)
+      .map((row) => this.rawToTransaction(row));
+    const last = transactions[transactions.length - 1];
+    return {
+      transactions,
+      nextCursor:
+        rows.length > limit
+          ? {
+              timestamp: last.timestamp!,
+              chainId: last.chainId,
+              txHash: last.txHash,
+              txActionIndex: last.txActionIndex ?? 0,
+            }
+          : null,
+    };
+  }
+
+  async getTransactionsAfter(
+    after: TransactionKey | null,
+    limit: number
+  ): Promise<AccountTransaction[]> {
+    const dbTxs = await this.prisma.accountTransaction.findMany({
+      ...(after
+        ? { cursor: { chainId_txHash_txActionIndex: after }, skip: 1 }
+        : {}),
+      orderBy: [{ chainId: "asc" }, { txHash: "asc" }, { txActionIndex: "asc" }],
+      take: limit,
+    });
+
+    return dbTxs.map((dbTx) => this.dbToTransaction(dbTx));
+  }
+
   async getTransactionsByType(
     transactionType: TransactionType,
     signerAddress?: string,
@@ -344,11 +454,19 @@ export class PostgresTransactionRepository implements TransactionRepository {
   }
 
   // Updated with optional signerAddress - with full SQL
-  async getArchwayBoltVolume(
+  async getPlatformVolume(
+    platform: PlatformName,
     signerAddress?: string,
     startTime?: Date,
     endTime?: Date
   ): Promise<VolumeByToken[]> {
+    const transactionTypes = PLATFORM_VOLUME_TYPES[platform];
+    if (transactionTypes.length === 0) {
+      return [];
+    }
+
+    const platformFilter = Prisma.sql`AND platform = ${platform}
+      AND transaction_type IN (${Prisma.join(transactionTypes)})`;
     const signerFilter = signerAddress
       ? Prisma.sql`AND signer_address = ${signerAddress}`
       : Prisma.sql``;
@@ -360,9 +478,9 @@ export class PostgresTransactionRepository implements TransactionRepository {
       : Prisma.sql``;
 
     const result = await this.prisma.$queryRaw<
-      Array<{ tokenname: string; totalvolume: number; totalswaps: bigint }>
+      Array<{ tokenname: string; totalvolume: string; totalswaps: bigint }>
     >`
-      WITH bolt_volumes AS (
+      WITH platform_volumes AS (
         SELECT 
           token_name,
           SUM(amount::NUMERIC) as total_volume
@@ -370,8 +488,8 @@ export class PostgresTransactionRepository implements TransactionRepository {
           -- Input amounts
           SELECT input_token_name as token_name, input_amount::NUMERIC as amount
           FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = true
+          WHERE successful = true
+            ${platformFilter}
             AND input_amount IS NOT NULL 
             AND input_token_name IS NOT NULL
             ${signerFilter}
@@ -383,8 +501,8 @@ export class PostgresTransactionRepository implements TransactionRepository {
           -- Second input amounts
           SELECT second_input_token_name as token_name, second_input_amount::NUMERIC as amount
           FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = true
+          WHERE successful = true
+            ${platformFilter}
             AND second_input_amount IS NOT NULL 
             AND second_input_token_name IS NOT NULL
             ${signerFilter}
@@ -396,8 +514,8 @@ export class PostgresTransactionRepository implements TransactionRepository {
           -- Output amounts
           SELECT output_token_name as token_name, output_amount::NUMERIC as amount
           FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = true
+          WHERE successful = true
+            ${platformFilter}
             AND output_amount IS NOT NULL 
             AND output_token_name IS NOT NULL
             ${signerFilter}
@@ -409,8 +527,8 @@ export class PostgresTransactionRepository implements TransactionRepository {
           -- Second output amounts
           SELECT second_output_token_name as token_name, second_output_amount::NUMERIC as amount
           FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = true
+          WHERE successful = true
+            ${platformFilter}
             AND second_output_amount IS NOT NULL 
             AND second_output_token_name IS NOT NULL
             ${signerFilter}
@@ -421,22 +539,22 @@ export class PostgresTransactionRepository implements TransactionRepository {
       )
       SELECT 
         token_name as tokenName,
-        total_volume as totalVolume,
+        total_volume::TEXT as totalVolume,
         (SELECT COUNT(DISTINCT tx_hash) 
          FROM account_transactions 
-         WHERE transaction_type = 'bolt_archway_swap' 
-           AND successful = true 
+         WHERE successful = true
+           ${platformFilter}
            ${signerFilter}
            ${startFilter}
            ${endFilter}
         ) as totalSwaps
-      FROM bolt_volumes
+      FROM platform_volumes
       ORDER BY total_volume DESC
     `;
 
     return result.map((row) => ({
       tokenName: row.tokenname,
-      totalVolume: Number(row.totalvolume),
+      totalVolume: row.totalvolume,
       totalSwaps: Number(row.totalswaps),
     }));
   }
@@ -458,7 +576,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
       : Prisma.sql``;
 
     const result = await this.prisma.$queryRaw<
-      Array<{ tokenname: string; totalvolume: number; totaloperations: bigint }>
+      Array<{ tokenname: string; totalvolume: string; totaloperations: bigint }>
     >`
       WITH osmosis_volumes AS (
         SELECT 
@@ -519,7 +637,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
       )
       SELECT 
         token_name as tokenName,
-        total_volume as totalVolume,
+        total_volume::TEXT as totalVolume,
         (SELECT COUNT(DISTINCT tx_hash) 
          FROM account_transactions 
          WHERE transaction_type IN ('create_position', 'withdraw_position')
@@ -534,11 +652,101 @@ export class PostgresTransactionRepository implements TransactionRepository {
 
     return result.map((row) => ({
       tokenName: row.tokenname,
-      totalVolume: Number(row.totalvolume),
+      totalVolume: row.totalvolume,
       totalOperations: Number(row.totaloperations),
     }));
   }
 
+  async getCetusVolume(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<VolumeByToken[]> {
+    const volume = await this.getPlatformVolume(
+      PlatformName.CETUS,
+      signerAddress,
+      startTime,
+      endTime
+    );
+    return volume.map(({ totalSwaps, ...item }) => ({
+      ...item,
+      totalOperations: totalSwaps,
+    }));
+  }
+
+  async getCetusFees(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): Promise<CetusFeesByToken[]> {
+    const signerFilter = signerAddress
+      ? Prisma.sql`AND signer_address = ${signerAddress}`
+      : Prisma.sql``;
+    const startFilter = startTime
+      ? Prisma.sql`AND timestamp >= ${startTime}`
+      : Prisma.sql``;
+    const endFilter = endTime
+      ? Prisma.sql`AND timestamp <= ${endTime}`
+      : Prisma.sql``;
+
+    const result = await this.prisma.$queryRaw<
+      Array<{
+        tokenname: string;
+        totalfees: string;
+        totalrewards: string;
+        totalcollections: bigint;
+      }>
+    >`
+      WITH cetus_fees AS (
+        -- Output amounts
+        SELECT output_token_name as token_name, transaction_type, output_amount::NUMERIC as amount
+        FROM account_transactions
+        WHERE transaction_type IN ('cetus_collect_fees', 'cetus_collect_rewards')
+          AND successful = true
+          AND output_amount IS NOT NULL 
+          AND output_token_name IS NOT NULL
+          ${signerFilter}
+          ${startFilter}
+          ${endFilter}
+        
+        UNION ALL
+        
+        -- Second output amounts
+        SELECT second_output_token_name as token_name, transaction_type, second_output_amount::NUMERIC as amount
+        FROM account_transactions
+        WHERE transaction_type IN ('cetus_collect_fees', 'cetus_collect_rewards')
+          AND successful = true
+          AND second_output_amount IS NOT NULL 
+          AND second_output_token_name IS NOT NULL
+          ${signerFilter}
+          ${startFilter}
+          ${endFilter}
+      )
+      SELECT 
+        token_name as tokenName,
+        SUM(CASE WHEN transaction_type = 'cetus_collect_fees' THEN amount ELSE 0 END)::TEXT as totalFees,
+        SUM(CASE WHEN transaction_type = 'cetus_collect_rewards' THEN amount ELSE 0 END)::TEXT as totalRewards,
+        (SELECT COUNT(DISTINCT tx_hash) 
+         FROM account_transactions 
+         WHERE transaction_type IN ('cetus_collect_fees', 'cetus_collect_rewards') 
+           AND successful = true 
+           ${signerFilter}
+           ${startFilter}
+           ${endFilter}
+        ) as totalCollections
+      FROM cetus_fees
+      GROUP BY token_name
+      ORDER BY SUM(amount) DESC
+    `;
+
+    return result.map((row) => ({
+      tokenName: row.tokenname,
+      totalFees: row.totalfees,
+      totalRewards: row.totalrewards,
+      totalCollections: Number(row.totalcollections),
+    }));
+  }
+
   // Updated with optional signerAddress - with full SQL
   async getBridgeVolume(
     signerAddress?: string,
@@ -556,7 +764,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
       : Prisma.sql``;
 
     const result = await this.prisma.$queryRaw<
-      Array<{ tokenname: string; totalvolume: number; totaltransfers: bigint }>
+      Array<{ tokenname: string; totalvolume: string; totaltransfers: bigint }>
     >`
       WITH bridge_volumes AS (
         SELECT 
@@ -591,7 +799,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
       )
       SELECT 
         token_name as tokenName,
-        total_volume as totalVolume,
+        total_volume::TEXT as totalVolume,
         (SELECT COUNT(DISTINCT tx_hash) 
          FROM account_transactions 
          WHERE transaction_type = 'ibc_transfer'
@@ -606,7 +814,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
 
     return result.map((row) => ({
       tokenName: row.tokenname,
-      totalVolume: Number(row.totalvolume),
+      totalVolume: row.totalvolume,
       totalTransfers: Number(row.totaltransfers),
     }));
   }
@@ -627,12 +835,15 @@ export class PostgresTransactionRepository implements TransactionRepository {
       ? Prisma.sql`AND timestamp <= ${endTime}`
       : Prisma.sql``;
 
+    const feeTypes = Prisma.join(FEE_TRANSACTION_TYPES);
+
     const result = await this.prisma.$queryRaw<
       Array<{
         tokenname: string;
-        totalsent: number;
-        totalreceived: number;
-        netbalance: number;
+        totalsent: string;
+        totalreceived: string;
+        netbalance: string;
+        feesearned: string;
         roipercentage: number | null;
       }>
     >`
@@ -641,6 +852,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
         SELECT 
           token_name,
           -SUM(amount) as net_amount,
+          0 as fee_amount,
           'payment' as flow_type
         FROM (
           -- Input amounts
@@ -685,10 +897,11 @@ export class PostgresTransactionRepository implements TransactionRepository {
         SELECT 
           token_name,
           SUM(amount) as net_amount,
+          SUM(CASE WHEN transaction_type IN (${feeTypes}) THEN amount ELSE 0 END) as fee_amount,
           'receipt' as flow_type
         FROM (
           -- Output amounts
-          SELECT output_token_name as token_name, output_amount::NUMERIC as amount
+          SELECT output_token_name as token_name, transaction_type, output_amount::NUMERIC as amount
           FROM account_transactions
           WHERE successful = true
             AND output_amount IS NOT NULL 
@@ -700,7 +913,7 @@ export class PostgresTransactionRepository implements TransactionRepository {
           UNION ALL
           
           -- Second output amounts
-          SELECT second_output_token_name as token_name, second_output_amount::NUMERIC as amount
+          SELECT second_output_token_name as token_name, transaction_type, second_output_amount::NUMERIC as amount
           FROM account_transactions
           WHERE successful = true
             AND second_output_amount IS NOT NULL 
@@ -716,15 +929,17 @@ export class PostgresTransactionRepository implements TransactionRepository {
           token_name,
           SUM(net_amount) as net_balance,
           SUM(CASE WHEN flow_type = 'payment' THEN -net_amount ELSE 0 END) as total_sent,
-          SUM(CASE WHEN flow_type = 'receipt' THEN net_amount ELSE 0 END) as total_received
+          SUM(CASE WHEN flow_type = 'receipt' THEN net_amount ELSE 0 END) as total_received,
+          SUM(fee_amount) as fees_earned
         FROM token_flows
         GROUP BY token_name
       )
       SELECT 
         token_name as tokenName,
-        total_sent as totalSent,
-        total_received as totalReceived,
-        net_balance as netBalance,
+        total_sent::TEXT as totalSent,
+        total_received::TEXT as totalReceived,
+        net_balance::TEXT as netBalance,
+        fees_earned::TEXT as feesEarned,
         CASE 
           WHEN total_sent > 0 THEN (net_balance / total_sent) * 100
           ELSE NULL
@@ -735,10 +950,12 @@ export class PostgresTransactionRepository implements TransactionRepository {
 
     return result.map((row) => ({
       tokenName: row.tokenname,
-      totalSent: Number(row.totalsent),
-      totalReceived: Number(row.totalreceived),
-      netBalance: Number(row.netbalance),
-      roiPercentage: row.roipercentage ? Number(row.roipercentage) : null,
+      totalSent: row.totalsent,
+      totalReceived: row.totalreceived,
+      netBalance: row.netbalance,
+      feesEarned: row.feesearned,
+      roiPercentage:
+        row.roipercentage === null ? null : Number(row.roipercentage),
     }));
   }
 
@@ -798,6 +1015,8 @@ export class PostgresTransactionRepository implements TransactionRepository {
       successMap.set(item.transactionType, current);
     });
 
+    // Most frequent type first, as on SQLite
+    summary.sort((a, b) => b._count._all - a._count._all);
     return summary.map((item) => {
       const counts = successMap.get(item.transactionType) || {
         success: 0,
@@ -813,6 +1032,265 @@ export class PostgresTransactionRepository implements TransactionRepository {
     });
   }
 
+  async addPoolSnapshotBatch(snapshots: PoolSnapshot[]): Promise<void> {
+    await this.prisma.poolSnapshot.createMany({
+      data: snapshots.map((snapshot) => ({
+        chain: snapshot.chain,
+        poolId: snapshot.poolId,
+        poolName: snapshot.poolName,
+        baseDenom: snapshot.baseDenom,
+        baseAmount: snapshot.baseAmount,
+        quoteDenom: snapshot.quoteDenom,
+        quoteAmount: snapshot.quoteAmount,
+        basePriceUsd: snapshot.basePriceUsd ?? null,
+        quotePriceUsd: snapshot.quotePriceUsd ?? null,
+        lpFeeRatio: snapshot.lpFeeRatio ?? null,
+        protocolFeeRatio: snapshot.protocolFeeRatio ?? null,
+        unclaimedLpFees: snapshot.unclaimedLpFees ?? null,
+        unclaimedProtocolFees: snapshot.unclaimedProtocolFees ?? null,
+        timestamp: this.toDate(snapshot.timestamp) || new Date(),
+      })),
+    });
+  }
+
+  async getPoolSnapshots(query: PoolSnapshotQuery): Promise<PoolSnapshot[]> {
+    const snapshots = await this.prisma.poolSnapshot.findMany({
+      where: {
+        ...(query.chain ? { chain: query.chain } : {}),
+        ...(query.poolId ? { poolId: query.poolId } : {}),
+        ...(query.startTime || query.endTime
+          ? {
+              timestamp: {
+                ...(query.startTime ? { gte: query.startTime } : {}),
+                ...(query.endTime ? { lte: query.endTime } : {}),
+              },
+            }
+          : {}),
+      },
+      orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+      take: query.limit ?? 1000,
+    });
+
+    return snapshots.map((snapshot) => this.dbToPoolSnapshot(snapshot));
+  }
+
+  private dbToPoolSnapshot(snapshot: DbPoolSnapshot): PoolSnapshot {
+    return {
+      chain: snapshot.chain,
+      poolId: snapshot.poolId,
+      poolName: snapshot.poolName,
+      baseDenom: snapshot.baseDenom,
+      baseAmount: snapshot.baseAmount,
+      quoteDenom: snapshot.quoteDenom,
+      quoteAmount: snapshot.quoteAmount,
+      basePriceUsd: snapshot.basePriceUsd,
+      quotePriceUsd: snapshot.quotePriceUsd,
+      lpFeeRatio: snapshot.lpFeeRatio,
+      protocolFeeRatio: snapshot.protocolFeeRatio,
+      unclaimedLpFees: snapshot.unclaimedLpFees,
+      unclaimedProtocolFees: snapshot.unclaimedProtocolFees,
+      timestamp: this.toTimestamp(snapshot.timestamp),
+    };
+  }
+
+  async getPoolSnapshotAt(
+    poolId: string,
+    time: Date,
+    chain?: string
+  ): Promise<PoolSnapshot | null> {
+    const [snapshot] = await this.getPoolSnapshots({
+      poolId,
+      chain,
+      endTime: time,
+      limit: 1,
+    });
+    return snapshot ?? null;
+  }
+
+  async getVolumeBuckets(query: VolumeQuery): Promise<VolumeBucketRow[]> {
+    const buckets = buildVolumeBuckets(query);
+    if (buckets.length === 0) {
+      return [];
+    }
+
+    const typeFilter = query.transactionType
+      ? Prisma.sql`AND transaction_type = ${query.transactionType}`
+      : Prisma.sql``;
+    const signerFilter = query.signerAddress
+      ? Prisma.sql`AND signer_address = ${query.signerAddress}`
+      : Prisma.sql``;
+
+    // Grouped by bucket, token and hour, amounts summed as NUMERIC
+    const result = await this.prisma.$queryRaw<
+      Array<{
+        bucket_start: bigint;
+        chain_id: string;
+        denom: string | null;
+        price_hour: bigint;
+        transaction_count: number;
+        stored_count: number;
+        stored_value_usd: string;
+        amount: string;
+        last_ts: number;
+      }>
+    >`
+      WITH buckets AS (
+        SELECT bucket_start, bucket_end
+        FROM unnest(
+          ${buckets.map((bucket) => bucket.start)}::BIGINT[],
+          ${buckets.map((bucket) => bucket.end)}::BIGINT[]
+        ) AS b(bucket_start, bucket_end)
+      ),
+      volumes AS (
+        SELECT
+          chain_id,
+          FLOOR(EXTRACT(EPOCH FROM timestamp))::BIGINT as ts,
+          value_usd::NUMERIC as value_usd,
+          CASE WHEN input_amount IS NOT NULL THEN input_token_denom ELSE output_token_denom END as denom,
+          COALESCE(input_amount, output_amount)::NUMERIC as amount
+        FROM account_transactions
+        WHERE successful = true
+          AND (input_amount IS NOT NULL OR output_amount IS NOT NULL)
+          AND timestamp >= ${new Date(buckets[0].start * 1000)}
+          AND timestamp < ${new Date(buckets[buckets.length - 1].end * 1000)}
+          ${typeFilter}
+          ${signerFilter}
+      )
+      SELECT
+        b.bucket_start,
+        v.chain_id,
+        v.denom,
+        v.ts - v.ts % 3600 as price_hour,
+        COUNT(*)::INT as transaction_count,
+        COUNT(v.value_usd)::INT as stored_count,
+        COALESCE(SUM(v.value_usd), 0)::TEXT as stored_value_usd,
+        COALESCE(SUM(v.amount) FILTER (WHERE v.value_usd IS NULL), 0)::TEXT as amount,
+        MAX(v.ts)::FLOAT8 as last_ts
+      FROM volumes v
+      JOIN buckets b ON v.ts >= b.bucket_start AND v.ts < b.bucket_end
+      GROUP BY b.bucket_start, v.chain_id, v.denom, price_hour
+      ORDER BY b.bucket_start, price_hour, v.chain_id COLLATE "C", v.denom COLLATE "C"
+    `;
+
+    return result.map((row) => ({
+      bucketStart: Number(row.bucket_start),
+      chainId: row.chain_id,
+      denom: row.denom,
+      priceHour: Number(row.price_hour),
+      transactionCount: row.transaction_count,
+      storedCount: row.stored_count,
+      // NUMERIC keeps trailing zeros of its scale
+      storedValueUsd: new BigNumber(row.stored_value_usd).toFixed(),
+      amount: new BigNumber(row.amount).toFixed(),
+      lastTimestamp: row.last_ts,
+    }));
+  }
+
+  async getIndexerCheckpoint(
+    chainId: string,
+    signerAddress: string
+  ): Promise<IndexerCheckpoint | null> {
+    const checkpoint = await this.prisma.indexerCheckpoint.findUnique({
+      where: { chainId_signerAddress: { chainId, signerAddress } },
+    });
+
+    return checkpoint
+      ? {
+          chainId: checkpoint.chainId,
+          signerAddress: checkpoint.signerAddress,
+          cursor: checkpoint.cursor,
+          updatedAt: this.toTimestamp(checkpoint.updatedAt),
+        }
+      : null;
+  }
+
+  async saveIndexerCheckpoint(checkpoint: IndexerCheckpoint): Promise<void> {
+    const { chainId, signerAddress, cursor } = checkpoint;
+    await this.prisma.indexerCheckpoint.upsert({
+      where: { chainId_signerAddress: { chainId, signerAddress } },
+      update: { cursor, updatedAt: new Date() },
+      create: { chainId, signerAddress, cursor },
+    });
+  }
+
+  async addPriceSampleBatch(samples: PriceSample[]): Promise<void> {
+    await this.prisma.priceSample.createMany({
+      data: samples.map((sample) => ({
+        denom: normalizeDenom(sample.denom),
+        priceUsd: sample.priceUsd,
+        source: sample.source,
+        timestamp: this.toDate(sample.timestamp) || new Date(),
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  async getPriceSamples(query: PriceSampleQuery): Promise<PriceSample[]> {
+    const samples = await this.prisma.priceSample.findMany({
+      where: {
+        ...(query.denom ? { denom: normalizeDenom(query.denom) } : {}),
+        ...(query.source ? { source: query.source } : {}),
+        ...(query.startTime || query.endTime
+          ? {
+              timestamp: {
+                ...(query.startTime ? { gte: query.startTime } : {}),
+                ...(query.endTime ? { lte: query.endTime } : {}),
+              },
+            }
+          : {}),
+      },
+      orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+      take: query.limit ?? 1000,
+    });
+
+    return samples.map((sample) => this.dbToPriceSample(sample));
+  }
+
+  async getNearestPriceSample(
+    denom: string,
+    time: Date,
+    maxDistanceSeconds?: number
+  ): Promise<PriceSample | null> {
+    // The closest sample is the latest one at or before `time` or the
+    // earliest one after it
+    const where = { denom: normalizeDenom(denom) };
+    const [before, after] = await Promise.all([
+      this.prisma.priceSample.findFirst({
+        where: { ...where, timestamp: { lte: time } },
+        orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+      }),
+      this.prisma.priceSample.findFirst({
+        where: { ...where, timestamp: { gt: time } },
+        orderBy: [{ timestamp: "asc" }, { id: "desc" }],
+      }),
+    ]);
+
+    const distance = (sample: DbPriceSample) =>
+      Math.abs(sample.timestamp.getTime() - time.getTime()) / 1000;
+    const nearest =
+      before && after
+        ? distance(after) < distance(before)
+          ? after
+          : before
+        : before ?? after;
+    if (
+      !nearest ||
+      (maxDistanceSeconds !== undefined && distance(nearest) > maxDistanceSeconds)
+    ) {
+      return null;
+    }
+    return this.dbToPriceSample(nearest);
+  }
+
+  private dbToPriceSample(sample: DbPriceSample): PriceSample {
+    return {
+      denom: sample.denom,
+      priceUsd: sample.priceUsd,
+      source: sample.source,
+      timestamp: this.toTimestamp(sample.timestamp),
+    };
+  }
+
   async close(): Promise<void> {
     await this.prisma.$disconnect();
   }
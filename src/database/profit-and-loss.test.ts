@@ -0,0 +1,186 @@
+import BigNumber from "bignumber.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { SUI_MAINNET_NATIVE_TOKEN } from "../registry";
+
+import { DatabaseQueryClient } from "./database-query-client";
+import { PriceAt, ProfitAndLossEngine } from "./profit-and-loss";
+import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import { AccountTransaction, TransactionType } from "./types";
+
+const SUI = SUI_MAINNET_NATIVE_TOKEN.denom;
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const DAY = Date.parse("2025-01-15T00:00:00Z") / 1000;
+const HOUR = 60 * 60;
+
+// SUI at $2, $4 and $6 at the three swaps, USDC at $1
+const SUI_PRICES: Record<number, number> = { [DAY]: 2, [DAY + HOUR]: 4, [DAY + 2 * HOUR]: 6 };
+const priceAt: PriceAt = async (denom, timestamp) =>
+  new BigNumber(denom === USDC ? 1 : SUI_PRICES[timestamp]);
+
+const swap = (
+  txHash: string,
+  timestamp: number,
+  [inputAmount, inputTokenDenom]: [string, string],
+  [outputAmount, outputTokenDenom]: [string, string]
+): AccountTransaction => ({
+  signerAddress: "0xbot",
+  chainId: "101",
+  transactionType: TransactionType.BOLT_SUI_SWAP,
+  inputAmount,
+  inputTokenDenom,
+  outputAmount,
+  outputTokenDenom,
+  txHash,
+  successful: true,
+  timestamp,
+});
+
+// Buy 50 SUI for $100 and 50 SUI for $200, then sell 60 SUI for 360 USDC
+const HISTORY = [
+  swap("0xbuy1", DAY, ["100000000", USDC], ["50000000000", SUI]),
+  swap("0xbuy2", DAY + HOUR, ["200000000", USDC], ["50000000000", SUI]),
+  swap("0xsell", DAY + 2 * HOUR, ["60000000000", SUI], ["360000000", USDC]),
+];
+
+const replay = async (method: "fifo" | "average") => {
+  const engine = new ProfitAndLossEngine(priceAt, { method });
+  for (const tx of HISTORY) {
+    await engine.apply(tx);
+  }
+  return engine.summarize(
+    new Map([
+      [SUI, new BigNumber(5)],
+      [USDC, new BigNumber(1)],
+    ]),
+    DAY + 3 * HOUR
+  );
+};
+
+describe("ProfitAndLossEngine", () => {
+  it("sells the oldest lots first with FIFO", async () => {
+    const pnl = await replay("fifo");
+
+    // The whole first lot ($100) and 10 of the second (10 / 50 * $200)
+    expect(pnl.realized.map((item) => [item.txHash, item.costBasisUsd, item.realizedPnlUsd])).toEqual([
+      ["0xbuy1", 100, 0],
+      ["0xbuy2", 200, 0],
+      ["0xsell", 140, 220],
+    ]);
+    // 40 SUI left of the second lot at $4, worth $5
+    expect(pnl.holdings).toEqual([
+      {
+        tokenName: "USDC",
+        amount: "360",
+        costBasisUsd: 360,
+        priceUsd: 1,
+        valueUsd: 360,
+        unrealizedPnlUsd: 0,
+      },
+      {
+        tokenName: "SUI",
+        amount: "40",
+        costBasisUsd: 160,
+        priceUsd: 5,
+        valueUsd: 200,
+        unrealizedPnlUsd: 40,
+      },
+    ]);
+    expect(pnl).toMatchObject({
+      method: "fifo",
+      realizedPnlUsd: 220,
+      unrealizedPnlUsd: 40,
+      netPnlUsd: 260,
+      pricedAt: DAY + 3 * HOUR,
+    });
+  });
+
+  it("sells at the holding's average cost", async () => {
+    const pnl = await replay("average");
+
+    // 100 SUI for $300 cost $3 each, 60 of them $180
+    expect(pnl.realized.map((item) => [item.txHash, item.costBasisUsd, item.realizedPnlUsd])).toEqual([
+      ["0xbuy1", 100, 0],
+      ["0xbuy2", 200, 0],
+      ["0xsell", 180, 180],
+    ]);
+    // 40 SUI left at $3, worth $5
+    expect(pnl.holdings.find((holding) => holding.tokenName === "SUI")).toMatchObject({
+      amount: "40",
+      costBasisUsd: 120,
+      unrealizedPnlUsd: 80,
+    });
+    // Same total, split differently between realized and unrealized
+    expect(pnl).toMatchObject({
+      method: "average",
+      realizedPnlUsd: 180,
+      unrealizedPnlUsd: 80,
+      netPnlUsd: 260,
+    });
+  });
+});
+
+describe("getProfitAndLoss", () => {
+  let database: SQLiteTransactionRepository;
+
+  beforeEach(() => {
+    database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it("prices the holdings at a past end time and leaves open positions out", async () => {
+    const end = DAY + 3 * HOUR;
+    database.addPriceSampleBatch(
+      [...Object.entries(SUI_PRICES), [String(end), 5]].flatMap(([timestamp, price]) => [
+        { denom: SUI, priceUsd: String(price), source: "oracle", timestamp: Number(timestamp) },
+        { denom: USDC, priceUsd: "1", source: "oracle", timestamp: Number(timestamp) },
+      ])
+    );
+    database.addTransactionBatch([
+      ...HISTORY,
+      // 10 SUI of the second lot, $40, into a position
+      {
+        signerAddress: "0xbot",
+        chainId: "101",
+        transactionType: TransactionType.CETUS_OPEN_POSITION,
+        inputAmount: "10000000000",
+        inputTokenDenom: SUI,
+        positionId: "0xposition",
+        txHash: "0xdeposit",
+        successful: true,
+        timestamp: DAY + 2 * HOUR + 60,
+      },
+    ]);
+    const client = new DatabaseQueryClient({
+      database,
+      osmosisAddress: "osmo1bot",
+      priceService: {
+        getRegistryTokenPrices: () => {
+          throw new Error("current prices requested for a past end time");
+        },
+      },
+    });
+
+    const pnl = await client.getProfitAndLoss("0xbot", undefined, new Date(end * 1000));
+
+    // 30 SUI at a cost of $120 worth $150 at the end time, not at the current price
+    expect(pnl.holdings.find((holding) => holding.tokenName === "SUI")).toMatchObject({
+      amount: "30",
+      costBasisUsd: 120,
+      priceUsd: 5,
+      unrealizedPnlUsd: 30,
+    });
+    expect(pnl.openPositions).toEqual([
+      { positionId: "0xposition", chainId: "101", costBasisUsd: 40 },
+    ]);
+    expect(pnl).toMatchObject({ unrealizedPnlUsd: 30, pricedAt: end });
+    expect(client.formatProfitAndLoss(pnl)).toContain(
+      "Unrealized: +$30.00 (token holdings at 2025-01-15T03:00:00.000Z, open positions excluded)"
+    );
+  });
+});
@@ -0,0 +1,399 @@
+import BigNumber from "bignumber.js";
+
+import { normalizeDenom, RegistryToken, resolveToken } from "../registry";
+
+import { FEE_TRANSACTION_TYPES } from "./transaction-platform";
+import {
+  AccountTransaction,
+  CostBasisMethod,
+  OpenPosition,
+  ProfitAndLoss,
+  RealizedPnl,
+  TokenHolding,
+  TransactionType,
+} from "./types";
+
+// USD price of a denom at a Unix timestamp in seconds, see TransactionValuer.priceAt
+export type PriceAt = (denom: string, timestamp: number) => Promise<BigNumber | null>;
+
+export interface ProfitAndLossOptions {
+  method?: CostBasisMethod;
+  // Earlier transactions only build the cost basis, their P&L is not counted
+  startTime?: Date;
+}
+
+// Amount in whole tokens and its total USD cost
+interface Lot {
+  amount: BigNumber;
+  cost: BigNumber;
+}
+
+interface Leg {
+  asset: string;
+  token: RegistryToken;
+  amount: BigNumber;
+}
+
+interface Position {
+  chainId: string;
+  positionId: string;
+  cost: BigNumber;
+  withdrawn: BigNumber;
+}
+
+const POSITION_OPEN_TYPES = [
+  TransactionType.CREATE_POSITION,
+  TransactionType.CETUS_OPEN_POSITION,
+  TransactionType.CETUS_ADD_LIQUIDITY,
+];
+const POSITION_CLOSE_TYPES = [
+  TransactionType.WITHDRAW_POSITION,
+  TransactionType.CETUS_CLOSE_POSITION,
+];
+
+const ZERO = new BigNumber(0);
+
+/**
+ * Key of the lots of a token. IBC tokens share the lots of their origin
+ * token, so an amount moved between chains keeps its cost basis.
+ */
+const assetKey = (token: RegistryToken): string =>
+  token.originDenom && token.originChainId
+    ? `${token.originChainId}:${normalizeDenom(token.originDenom)}`
+    : `${token.chainId}:${normalizeDenom(token.denom)}`;
+
+const sum = (values: BigNumber[]): BigNumber =>
+  values.reduce((total, value) => total.plus(value), ZERO);
+
+/**
+ * Cost basis and P&L in USD over an account's transaction history. Each
+ * token is tracked as lots bought at the USD value of what was exchanged
+ * for them, consumed oldest first (FIFO) or at the average cost of the
+ * holding.
+ *
+ * - Swaps realize their proceeds (the outputs' value) minus the cost of
+ *   the inputs.
+ * - Position deposits move the tokens' cost into the position; withdrawals
+ *   and closes buy the tokens back at market value, and the close realizes
+ *   everything withdrawn minus the position's cost. An Osmosis withdrawal
+ *   closes its position.
+ * - Collected fees and rewards are income bought at market value.
+ * - IBC transfers only move tokens. Reconciliation entries add or remove
+ *   tokens without P&L.
+ * - Gas fees are expensed at the cost of the tokens spent.
+ *
+ * Disposing more than the lots hold costs the rest at market value, so
+ * history recorded after a token was bought realizes no gain on it.
+ */
+export class ProfitAndLossEngine {
+  private method: CostBasisMethod;
+  private startTime: number;
+  private lots = new Map<string, Lot[]>();
+  private tokens = new Map<string, RegistryToken>();
+  private positions = new Map<string, Position>();
+  private realized: RealizedPnl[] = [];
+  private feeIncome = ZERO;
+  private gasFees = ZERO;
+  private unvaluedTransactions = 0;
+
+  constructor(
+    private priceAt: PriceAt,
+    options: ProfitAndLossOptions = {}
+  ) {
+    this.method = options.method ?? "fifo";
+    this.startTime = options.startTime
+      ? Math.floor(options.startTime.getTime() / 1000)
+      : -Infinity;
+  }
+
+  /**
+   * Apply a transaction. Transactions must be applied oldest first, failed
+   * ones are skipped.
+   */
+  async apply(tx: AccountTransaction): Promise<void> {
+    if (!tx.successful) {
+      return;
+    }
+    const timestamp = tx.timestamp ?? Math.floor(Date.now() / 1000);
+    const counted = timestamp >= this.startTime;
+
+    const inputs = this.getLegs(tx, [
+      [tx.inputAmount, tx.inputTokenDenom],
+      [tx.secondInputAmount, tx.secondInputTokenDenom],
+    ]);
+    const outputs = this.getLegs(tx, [
+      [tx.outputAmount, tx.outputTokenDenom],
+      [tx.secondOutputAmount, tx.secondOutputTokenDenom],
+    ]);
+    const gas = this.getLegs(tx, [[tx.gasFeeAmount, tx.gasFeeTokenDenom]]);
+    let valued = inputs !== null && outputs !== null && gas !== null;
+
+    const gasFee = await this.dispose(gas ?? [], timestamp);
+    valued &&= gasFee.priced;
+    if (counted) {
+      this.gasFees = this.gasFees.plus(gasFee.cost);
+    }
+
+    const positionKey = `${tx.chainId}:${tx.positionId ?? ""}`;
+    const ins = inputs ?? [];
+    const outs = outputs ?? [];
+    if (POSITION_OPEN_TYPES.includes(tx.transactionType)) {
+      const deposited = await this.dispose(ins, timestamp);
+      valued &&= deposited.priced;
+      const position = this.positions.get(positionKey) ?? {
+        chainId: tx.chainId,
+        positionId: tx.positionId ?? "",
+        cost: ZERO,
+        withdrawn: ZERO,
+      };
+      position.cost = position.cost.plus(deposited.cost);
+      this.positions.set(positionKey, position);
+    } else if (
+      tx.transactionType === TransactionType.CETUS_REMOVE_LIQUIDITY ||
+      POSITION_CLOSE_TYPES.includes(tx.transactionType)
+    ) {
+      const value = await this.valueAt(outs, timestamp);
+      valued &&= value !== null;
+      await this.acquire(outs, value ?? ZERO, timestamp);
+
+      const position = this.positions.get(positionKey);
+      if (position) {
+        position.withdrawn = position.withdrawn.plus(value ?? ZERO);
+      }
+      if (position && POSITION_CLOSE_TYPES.includes(tx.transactionType)) {
+        this.positions.delete(positionKey);
+        if (counted) {
+          this.addRealized(tx, timestamp, position.withdrawn, position.cost, gasFee.cost);
+        }
+      }
+    } else if (FEE_TRANSACTION_TYPES.includes(tx.transactionType)) {
+      const value = await this.valueAt(outs, timestamp);
+      valued &&= value !== null;
+      await this.acquire(outs, value ?? ZERO, timestamp);
+      if (counted) {
+        this.feeIncome = this.feeIncome.plus(value ?? ZERO);
+      }
+    } else if (tx.transactionType === TransactionType.IBC_TRANSFER) {
+      // The tokens keep their lots on the destination chain
+    } else if (
+      tx.transactionType === TransactionType.WITHDRAW_RECONCILIATION ||
+      ins.length === 0 ||
+      outs.length === 0
+    ) {
+      const removed = await this.dispose(ins, timestamp);
+      const value = await this.valueAt(outs, timestamp);
+      valued &&= removed.priced && value !== null;
+      await this.acquire(outs, value ?? ZERO, timestamp);
+    } else {
+      const disposed = await this.dispose(ins, timestamp);
+      const proceeds =
+        (await this.valueAt(outs, timestamp)) ?? (await this.valueAt(ins, timestamp));
+      if (proceeds === null || !disposed.priced) {
+        // Without a price the outputs take over the inputs' cost, with an
+        // unknown input cost they are bought at the proceeds; nothing is realized
+        valued = false;
+        await this.acquire(outs, proceeds ?? disposed.cost, timestamp);
+      } else {
+        await this.acquire(outs, proceeds, timestamp);
+        if (counted) {
+          this.addRealized(tx, timestamp, proceeds, disposed.cost, gasFee.cost);
+        }
+      }
+    }
+
+    if (!valued && counted) {
+      this.unvaluedTransactions++;
+    }
+  }
+
+  // Registry tokens still held, one per asset, to price the holdings with
+  getHeldTokens(): RegistryToken[] {
+    return [...this.lots]
+      .filter(([, lots]) => sum(lots.map((lot) => lot.amount)).isGreaterThan(0))
+      .map(([asset]) => this.tokens.get(asset)!);
+  }
+
+  /**
+   * P&L of the transactions applied, holdings valued at `prices` (USD by
+   * denom, see getHeldTokens) taken at `pricedAt`. Open positions are not
+   * valued.
+   */
+  summarize(
+    prices: Map<string, BigNumber>,
+    pricedAt: number = Math.floor(Date.now() / 1000)
+  ): ProfitAndLoss {
+    const holdings: TokenHolding[] = [];
+    let unrealized = ZERO;
+    for (const token of this.getHeldTokens()) {
+      const lots = this.lots.get(assetKey(token))!;
+      const amount = sum(lots.map((lot) => lot.amount));
+      const cost = sum(lots.map((lot) => lot.cost));
+      const price = prices.get(token.denom) ?? null;
+      const value = price ? amount.multipliedBy(price) : null;
+      if (value) {
+        unrealized = unrealized.plus(value.minus(cost));
+      }
+      holdings.push({
+        tokenName: token.name,
+        amount: amount.toFixed(),
+        costBasisUsd: cost.toNumber(),
+        priceUsd: price?.toNumber() ?? null,
+        valueUsd: value?.toNumber() ?? null,
+        unrealizedPnlUsd: value ? value.minus(cost).toNumber() : null,
+      });
+    }
+    holdings.sort((a, b) => (b.valueUsd ?? 0) - (a.valueUsd ?? 0));
+
+    const openPositions: OpenPosition[] = [...this.positions.values()].map(
+      (position) => ({
+        positionId: position.positionId,
+        chainId: position.chainId,
+        costBasisUsd: position.cost.minus(position.withdrawn).toNumber(),
+      })
+    );
+
+    const realized = sum(this.realized.map((item) => new BigNumber(item.realizedPnlUsd)));
+    const realizedGas = sum(this.realized.map((item) => new BigNumber(item.gasFeeUsd)));
+    return {
+      method: this.method,
+      realizedPnlUsd: realized.toNumber(),
+      feeIncomeUsd: this.feeIncome.toNumber(),
+      gasFeesUsd: this.gasFees.toNumber(),
+      unrealizedPnlUsd: unrealized.toNumber(),
+      netPnlUsd: realized
+        .plus(this.feeIncome)
+        .plus(unrealized)
+        .minus(this.gasFees.minus(realizedGas))
+        .toNumber(),
+      pricedAt,
+      realized: [...this.realized],
+      holdings,
+      openPositions,
+      unvaluedTransactions: this.unvaluedTransactions,
+    };
+  }
+
+  /**
+   * Whole-token amounts of a transaction's legs, null when a denom is
+   * missing from the registry
+   */
+  private getLegs(
+    tx: AccountTransaction,
+    legs: Array<[string | null | undefined, string | null | undefined]>
+  ): Leg[] | null {
+    const resolved: Leg[] = [];
+    for (const [amount, denom] of legs) {
+      if (!amount || !denom) {
+        continue;
+      }
+      const token = resolveToken(denom, tx.chainId);
+      if (!token) {
+        return null;
+      }
+      const asset = assetKey(token);
+      if (!this.tokens.has(asset)) {
+        this.tokens.set(asset, token);
+      }
+      resolved.push({ asset, token, amount: new BigNumber(amount).shiftedBy(-token.decimals) });
+    }
+    return resolved;
+  }
+
+  // USD value of legs at a time, null when one has no price
+  private async valueAt(legs: Leg[], timestamp: number): Promise<BigNumber | null> {
+    let total = ZERO;
+    for (const leg of legs) {
+      const price = await this.priceAt(leg.token.denom, timestamp);
+      if (!price) {
+        return null;
+      }
+      total = total.plus(leg.amount.multipliedBy(price));
+    }
+    return total;
+  }
+
+  /**
+   * Buy legs for a total cost, split by their value at the time, or evenly
+   * when one has no price
+   */
+  private async acquire(legs: Leg[], cost: BigNumber, timestamp: number): Promise<void> {
+    const values = await Promise.all(
+      legs.map(async (leg) => {
+        const price = await this.priceAt(leg.token.denom, timestamp);
+        return price ? leg.amount.multipliedBy(price) : null;
+      })
+    );
+    const total = values.every((value) => value !== null) ? sum(values as BigNumber[]) : ZERO;
+
+    legs.forEach((leg, index) => {
+      const share = total.isGreaterThan(0)
+        ? cost.multipliedBy(values[index]!).dividedBy(total)
+        : cost.dividedBy(legs.length);
+      const lots = this.lots.get(leg.asset) ?? [];
+      if (this.method === "average" && lots.length > 0) {
+        lots[0] = { amount: lots[0].amount.plus(leg.amount), cost: lots[0].cost.plus(share) };
+      } else {
+        lots.push({ amount: leg.amount, cost: share });
+      }
+      this.lots.set(leg.asset, lots);
+    });
+  }
+
+  /**
+   * Take legs out of their lots and return their cost. Amounts beyond the
+   * lots are costed at market value; `priced` is false when one has no price.
+   */
+  private async dispose(
+    legs: Leg[],
+    timestamp: number
+  ): Promise<{ cost: BigNumber; priced: boolean }> {
+    let cost = ZERO;
+    let priced = true;
+    for (const leg of legs) {
+      const lots = this.lots.get(leg.asset) ?? [];
+      let remaining = leg.amount;
+      while (remaining.isGreaterThan(0) && lots.length > 0) {
+        const lot = lots[0];
+        const taken = BigNumber.min(lot.amount, remaining);
+        const takenCost = taken.isEqualTo(lot.amount)
+          ? lot.cost
+          : lot.cost.multipliedBy(taken).dividedBy(lot.amount);
+        cost = cost.plus(takenCost);
+        remaining = remaining.minus(taken);
+        lot.amount = lot.amount.minus(taken);
+        lot.cost = lot.cost.minus(takenCost);
+        if (lot.amount.isZero()) {
+          lots.shift();
+        }
+      }
+
+      if (remaining.isGreaterThan(0)) {
+        const price = await this.priceAt(leg.token.denom, timestamp);
+        priced &&= price !== null;
+        cost = cost.plus(price ? remaining.multipliedBy(price) : ZERO);
+      }
+    }
+    return { cost, priced };
+  }
+
+  private addRealized(
+    tx: AccountTransaction,
+    timestamp: number,
+    proceeds: BigNumber,
+    cost: BigNumber,
+    gasFee: BigNumber
+  ): void {
+    this.realized.push({
+      txHash: tx.txHash,
+      txActionIndex: tx.txActionIndex ?? 0,
+      chainId: tx.chainId,
+      transactionType: tx.transactionType,
+      positionId: tx.positionId ?? null,
+      timestamp,
+      proceedsUsd: proceeds.toNumber(),
+      costBasisUsd: cost.toNumber(),
+      gasFeeUsd: gasFee.toNumber(),
+      realizedPnlUsd: proceeds.minus(cost).minus(gasFee).toNumber(),
+    });
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import { SUI_MAINNET_TOKENS_MAP } from "../registry";
+
+import {
+  buildReconciliationAdjustments,
+  ReconciliationInput,
+  reconcileBalances,
+} from "./reconciliation";
+import { AccountTransaction, ProfitabilityByToken, TransactionType } from "./types";
+
+const SIGNER = "0xbot";
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const CETUS = "0x06864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS";
+const NOW = Date.parse("2025-01-15T00:00:00Z") / 1000;
+
+const recorded = (tokenName: string, netBalance: string): ProfitabilityByToken => ({
+  tokenName,
+  totalSent: "0",
+  totalReceived: netBalance,
+  netBalance,
+  roiPercentage: null,
+  feesEarned: "0",
+});
+
+const failed = (txHash: string, gasFeeAmount: string | null): AccountTransaction => ({
+  signerAddress: SIGNER,
+  chainId: "101",
+  transactionType: TransactionType.BOLT_SUI_SWAP,
+  gasFeeAmount,
+  gasFeeTokenName: gasFeeAmount ? "SUI" : null,
+  txHash,
+  successful: false,
+  timestamp: NOW,
+});
+
+const input = (fields: Partial<ReconciliationInput> = {}): ReconciliationInput => ({
+  chainId: "101",
+  signerAddress: SIGNER,
+  tokens: SUI_MAINNET_TOKENS_MAP,
+  profitability: [
+    recorded("SUI", "10000000000"),
+    recorded("USDC", "100000000"),
+    // A token the registry of the chain does not list
+    recorded("WBTC", "1500"),
+  ],
+  // 1.5 SUI of gas paid by failed transactions
+  failedTransactions: [
+    failed("0xfailed1", "1000000000"),
+    failed("0xfailed2", "500000000"),
+    failed("0xfailed3", null),
+  ],
+  balances: [
+    // Not normalized, as some RPCs return it
+    { denom: "0x2::sui::SUI", amount: "8504000000" },
+    { denom: USDC, amount: "99500000" },
+    // Held without recorded flows
+    { denom: CETUS, amount: "3000000000" },
+    // Not in the registry
+    { denom: "0xabc::foo::FOO", amount: "42" },
+  ],
+  tolerance: "0.01",
+  ...fields,
+});
+
+describe("reconcileBalances", () => {
+  it("compares recorded balances less failed gas with the chain, in whole tokens", () => {
+    const rows = reconcileBalances(input());
+
+    expect(
+      rows.map((row) => [row.tokenName, row.recorded, row.onChain, row.difference, row.discrepancy])
+    ).toEqual([
+      // 0.004 SUI is within 0.01
+      ["SUI", "8500000000", "8504000000", "4000000", false],
+      // 0.5 USDC is not, although it is fewer base units
+      ["USDC", "100000000", "99500000", "-500000", true],
+      ["WBTC", "1500", null, null, true],
+      ["CETUS", "0", "3000000000", "3000000000", true],
+    ]);
+    expect(rows[2].token).toBeNull();
+    expect(rows[3].token?.denom).toBe(CETUS);
+  });
+
+  it("flags a difference above a smaller tolerance", () => {
+    const rows = reconcileBalances(input({ tolerance: "0.001" }));
+
+    expect(rows.find((row) => row.tokenName === "SUI")?.discrepancy).toBe(true);
+  });
+
+  it("records the gas of failed transactions of a token without other flows", () => {
+    const rows = reconcileBalances(
+      input({ profitability: [], balances: [{ denom: "0x2::sui::SUI", amount: "0" }] })
+    );
+
+    expect(rows.map((row) => [row.tokenName, row.recorded, row.difference])).toEqual([
+      ["SUI", "-1500000000", "1500000000"],
+    ]);
+  });
+});
+
+describe("buildReconciliationAdjustments", () => {
+  it("records a shortfall as an input and a surplus as an output, one action each", () => {
+    const adjustments = buildReconciliationAdjustments(reconcileBalances(input()), NOW);
+
+    // SUI is within the tolerance and WBTC cannot be resolved
+    expect(adjustments).toEqual([
+      {
+        signerAddress: SIGNER,
+        chainId: "101",
+        transactionType: TransactionType.WITHDRAW_RECONCILIATION,
+        inputAmount: "500000",
+        inputTokenDenom: USDC,
+        inputTokenName: "USDC",
+        txHash: `reconciliation-${NOW}`,
+        txActionIndex: 0,
+        successful: true,
+        timestamp: NOW,
+      },
+      {
+        signerAddress: SIGNER,
+        chainId: "101",
+        transactionType: TransactionType.WITHDRAW_RECONCILIATION,
+        outputAmount: "3000000000",
+        outputTokenDenom: CETUS,
+        outputTokenName: "CETUS",
+        txHash: `reconciliation-${NOW}`,
+        txActionIndex: 1,
+        successful: true,
+        timestamp: NOW,
+      },
+    ]);
+  });
+
+  it("numbers the actions per chain", () => {
+    const testnet = reconcileBalances(
+      input({
+        chainId: "103",
+        profitability: [recorded("USDC", "2000000")],
+        failedTransactions: [],
+        balances: [{ denom: USDC, amount: "1000000" }],
+      })
+    );
+
+    const adjustments = buildReconciliationAdjustments(
+      [...reconcileBalances(input()), ...testnet],
+      NOW
+    );
+
+    expect(adjustments.map((tx) => [tx.chainId, tx.txActionIndex])).toEqual([
+      ["101", 0],
+      ["101", 1],
+      ["103", 0],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import BigNumber from "bignumber.js";
+
+import { normalizeDenom, RegistryToken } from "../registry";
+
+import {
+  AccountTransaction,
+  ProfitabilityByToken,
+  TransactionType,
+} from "./types";
+
+// Base-unit balance of a denom held by an address
+export interface OnChainBalance {
+  denom: string;
+  amount: string;
+}
+
+export interface ReconciliationInput {
+  chainId: string;
+  signerAddress: string;
+  // Registry tokens of the chain, keyed by denom
+  tokens: Record<string, RegistryToken>;
+  // Net flows recorded for the signer, see getProfitability
+  profitability: ProfitabilityByToken[];
+  // Failed transactions of the signer, whose gas was paid but which
+  // getProfitability leaves out
+  failedTransactions: AccountTransaction[];
+  balances: OnChainBalance[];
+  // Largest difference accepted, in whole tokens
+  tolerance: BigNumber.Value;
+}
+
+export interface TokenReconciliation {
+  chainId: string;
+  signerAddress: string;
+  tokenName: string;
+  // Null when the recorded token name is not in the chain's registry
+  token: RegistryToken | null;
+  // Base units, exact decimal strings
+  recorded: string;
+  onChain: string | null;
+  // On-chain minus recorded, null when the token could not be resolved
+  difference: string | null;
+  discrepancy: boolean;
+}
+
+/**
+ * Compare the net balance recorded for each token with the balance the
+ * signer holds on chain, less the gas of failed transactions. Recorded token
+ * names are resolved in the chain's registry; registry tokens held without
+ * recorded flows are compared with a recorded balance of 0. Holdings of
+ * denoms the registry does not know are left out.
+ */
+export function reconcileBalances(input: ReconciliationInput): TokenReconciliation[] {
+  const held = new Map<string, BigNumber>();
+  for (const balance of input.balances) {
+    const denom = normalizeDenom(balance.denom);
+    held.set(denom, (held.get(denom) ?? new BigNumber(0)).plus(balance.amount));
+  }
+  const tokens = Object.values(input.tokens);
+  const tolerance = new BigNumber(input.tolerance);
+
+  const compare = (
+    tokenName: string,
+    token: RegistryToken | null,
+    recorded: BigNumber
+  ): TokenReconciliation => {
+    const onChain = token ? held.get(normalizeDenom(token.denom)) ?? new BigNumber(0) : null;
+    const difference = onChain ? onChain.minus(recorded) : null;
+    return {
+      chainId: input.chainId,
+      signerAddress: input.signerAddress,
+      tokenName,
+      token,
+      recorded: recorded.toFixed(),
+      onChain: onChain?.toFixed() ?? null,
+      difference: difference?.toFixed() ?? null,
+      discrepancy:
+        !token ||
+        difference!.abs().shiftedBy(-token.decimals).isGreaterThan(tolerance),
+    };
+  };
+
+  const recorded = new Map<string, BigNumber>();
+  for (const row of input.profitability) {
+    recorded.set(row.tokenName, new BigNumber(row.netBalance));
+  }
+  for (const tx of input.failedTransactions) {
+    if (tx.gasFeeTokenName && tx.gasFeeAmount) {
+      const balance = recorded.get(tx.gasFeeTokenName) ?? new BigNumber(0);
+      recorded.set(tx.gasFeeTokenName, balance.minus(tx.gasFeeAmount));
+    }
+  }
+
+  const rows = [...recorded].map(([tokenName, balance]) =>
+    compare(tokenName, tokens.find((token) => token.name === tokenName) ?? null, balance)
+  );
+  for (const token of tokens) {
+    const unrecorded =
+      held.get(normalizeDenom(token.denom))?.isGreaterThan(0) &&
+      !rows.some((row) => row.token === token);
+    if (unrecorded) {
+      rows.push(compare(token.name, token, new BigNumber(0)));
+    }
+  }
+  return rows;
+}
+
+/**
+ * `withdraw_reconciliation` entries bringing the recorded balances of the
+ * resolved discrepancies in line with the chain, one action per token: a
+ * surplus on chain is recorded as an output, a shortfall as an input.
+ */
+export function buildReconciliationAdjustments(
+  rows: TokenReconciliation[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): AccountTransaction[] {
+  const adjustments: AccountTransaction[] = [];
+  for (const row of rows) {
+    if (!row.discrepancy || !row.token || !row.difference) {
+      continue;
+    }
+    const difference = new BigNumber(row.difference);
+    if (difference.isZero()) {
+      continue;
+    }
+
+    const amount = difference.abs().toFixed();
+    adjustments.push({
+      signerAddress: row.signerAddress,
+      chainId: row.chainId,
+      transactionType: TransactionType.WITHDRAW_RECONCILIATION,
+      ...(difference.isPositive()
+        ? {
+            outputAmount: amount,
+            outputTokenDenom: row.token.denom,
+            outputTokenName: row.token.name,
+          }
+        : {
+            inputAmount: amount,
+            inputTokenDenom: row.token.denom,
+            inputTokenName: row.token.name,
+          }),
+      txHash: `reconciliation-${timestamp}`,
+      txActionIndex: adjustments.filter(
+        (adjustment) => adjustment.chainId === row.chainId
+      ).length,
+      successful: true,
+      timestamp,
+    });
+  }
+  return adjustments;
+}
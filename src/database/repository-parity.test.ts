@@ -0,0 +1,397 @@
+import { PrismaClient } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { PostgresTransactionRepository } from "./postgres-transaction-repository";
+import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import {
+  AccountTransaction,
+  ProfitabilityByToken,
+  TransactionCursor,
+  TransactionPage,
+  TransactionRepository,
+  TransactionType,
+  TransactionTypeSummary,
+} from "./types";
+
+const DAY = Date.parse("2025-01-15T00:00:00Z") / 1000;
+const HOUR = 60 * 60;
+
+const SUI = "0x2::sui::SUI";
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+const CETUS = "0x06864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS";
+
+const sui = (
+  txHash: string,
+  transactionType: TransactionType,
+  timestamp: number,
+  fields: Partial<AccountTransaction>
+): AccountTransaction => ({
+  signerAddress: "0xbot",
+  chainId: "101",
+  transactionType,
+  txHash,
+  successful: true,
+  timestamp,
+  ...fields,
+});
+
+const FIXTURE: AccountTransaction[] = [
+  sui("0xswap1", TransactionType.BOLT_SUI_SWAP, DAY + HOUR, {
+    inputAmount: "2000000000",
+    inputTokenDenom: SUI,
+    inputTokenName: "SUI",
+    outputAmount: "10000000",
+    outputTokenDenom: USDC,
+    outputTokenName: "USDC",
+    gasFeeAmount: "1500000",
+    gasFeeTokenDenom: SUI,
+    gasFeeTokenName: "SUI",
+  }),
+  // Same second as 0xswap1, ordered by transaction hash
+  sui("0xswap2", TransactionType.BOLT_SUI_SWAP, DAY + HOUR, {
+    inputAmount: "5000000",
+    inputTokenDenom: USDC,
+    inputTokenName: "USDC",
+    outputAmount: "1100000000",
+    outputTokenDenom: SUI,
+    outputTokenName: "SUI",
+    gasFeeAmount: "1200000",
+    gasFeeTokenDenom: SUI,
+    gasFeeTokenName: "SUI",
+  }),
+  sui("0xswap3", TransactionType.BOLT_SUI_SWAP, DAY + 5 * HOUR, {
+    inputAmount: "1000000000",
+    inputTokenDenom: SUI,
+    inputTokenName: "SUI",
+    gasFeeAmount: "900000",
+    gasFeeTokenDenom: SUI,
+    gasFeeTokenName: "SUI",
+    successful: false,
+    error: "MoveAbort",
+  }),
+  sui("0xfees", TransactionType.CETUS_COLLECT_FEES, DAY + 26 * HOUR, {
+    outputAmount: "250000",
+    outputTokenDenom: USDC,
+    outputTokenName: "USDC",
+    secondOutputAmount: "40000000",
+    secondOutputTokenDenom: SUI,
+    secondOutputTokenName: "SUI",
+  }),
+  sui("0xrewards", TransactionType.CETUS_COLLECT_REWARDS, DAY + 26 * HOUR, {
+    positionId: "0xposition",
+    outputAmount: "150000000",
+    outputTokenDenom: CETUS,
+    outputTokenName: "CETUS",
+  }),
+  sui("0xopen", TransactionType.CETUS_OPEN_POSITION, DAY + 27 * HOUR, {
+    positionId: "0xposition",
+    inputAmount: "3000000000",
+    inputTokenDenom: SUI,
+    inputTokenName: "SUI",
+    secondInputAmount: "15000000",
+    secondInputTokenDenom: USDC,
+    secondInputTokenName: "USDC",
+  }),
+  {
+    signerAddress: "archway1bot",
+    chainId: "archway-1",
+    transactionType: TransactionType.BOLT_ARCHWAY_SWAP,
+    inputAmount: "1500000000000000000000",
+    inputTokenDenom: "aarch",
+    inputTokenName: "ARCH",
+    outputAmount: "30000000",
+    outputTokenDenom: "ibc/usdc",
+    outputTokenName: "USDC",
+    txHash: "ARCHSWAP",
+    successful: true,
+    valueUsd: "30.5",
+    timestamp: DAY + 30 * HOUR,
+  },
+  // Sent and received in full, a return of exactly 0%
+  {
+    signerAddress: "osmo1bot",
+    chainId: "osmosis-1",
+    transactionType: TransactionType.IBC_TRANSFER,
+    inputAmount: "7000000",
+    inputTokenDenom: "uosmo",
+    inputTokenName: "OSMO",
+    outputAmount: "7000000",
+    outputTokenDenom: "uosmo",
+    outputTokenName: "OSMO",
+    destinationAddress: "osmo1other",
+    destinationChainId: "osmosis-1",
+    txHash: "OSMOTRANSFER",
+    successful: true,
+    timestamp: DAY + 31 * HOUR,
+  },
+];
+
+const WINDOW_START = new Date((DAY + 2 * HOUR) * 1000);
+const WINDOW_END = new Date((DAY + 28 * HOUR) * 1000);
+
+// Every aggregation under test, with and without signer and time filters.
+// Ties in the repositories' order are not part of the contract, so type
+// summaries are sorted and ROIs rounded below the precision of a double
+const runAggregations = async (database: TransactionRepository) => {
+  const profitability = async (...args: [string?, Date?, Date?]) =>
+    (await database.getProfitability(...args)).map((row: ProfitabilityByToken) => ({
+      ...row,
+      roiPercentage: row.roiPercentage === null ? null : Number(row.roiPercentage.toFixed(9)),
+    }));
+  const typeSummary = async (...args: [string?, Date?, Date?]) =>
+    [...(await database.getTransactionTypeSummary(...args))].sort(
+      (a: TransactionTypeSummary, b: TransactionTypeSummary) =>
+        b.totalCount - a.totalCount || a.transactionType.localeCompare(b.transactionType)
+    );
+  const volumeQuery = {
+    startTime: new Date(DAY * 1000),
+    endTime: new Date((DAY + 47 * HOUR) * 1000),
+    bucket: "day" as const,
+  };
+
+  return {
+    volumeBuckets: await database.getVolumeBuckets(volumeQuery),
+    signerVolumeBuckets: await database.getVolumeBuckets({
+      ...volumeQuery,
+      signerAddress: "0xbot",
+      transactionType: TransactionType.BOLT_SUI_SWAP,
+    }),
+    cetusVolume: await database.getCetusVolume(),
+    cetusFees: await database.getCetusFees(),
+    signerCetusFees: await database.getCetusFees("0xbot", WINDOW_START, WINDOW_END),
+    profitability: await profitability(),
+    signerProfitability: await profitability("0xbot", WINDOW_START, WINDOW_END),
+    typeSummary: await typeSummary(),
+    signerTypeSummary: await typeSummary("0xbot", WINDOW_START, WINDOW_END),
+  };
+};
+
+type Aggregations = Awaited<ReturnType<typeof runAggregations>>;
+
+// One transaction hash on two chains in the same second, and an older one
+const PAGED: AccountTransaction[] = [
+  ...[
+    ["101", 0],
+    ["101", 1],
+    ["103", 0],
+  ].map(([chainId, txActionIndex]) =>
+    sui("0xsame", TransactionType.BOLT_SUI_SWAP, DAY + HOUR, {
+      signerAddress: "0xpager",
+      chainId: chainId as string,
+      txActionIndex: txActionIndex as number,
+    })
+  ),
+  sui("0xolder", TransactionType.BOLT_SUI_SWAP, DAY, { signerAddress: "0xpager" }),
+];
+
+// Keys of every transaction of the pager, read one per page
+const readPages = async (database: TransactionRepository) => {
+  const keys: string[] = [];
+  let cursor: TransactionCursor | null = null;
+  do {
+    const page: TransactionPage = await database.queryTransactions(
+      { signerAddress: "0xpager" },
+      cursor,
+      1
+    );
+    keys.push(...page.transactions.map((tx) => `${tx.txHash}:${tx.chainId}:${tx.txActionIndex}`));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return keys;
+};
+
+const PAGED_KEYS = ["0xsame:103:0", "0xsame:101:0", "0xsame:101:1", "0xolder:101:0"];
+
+describe("SQLite aggregations", () => {
+  let results: Aggregations;
+
+  beforeAll(async () => {
+    const database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+    database.addTransactionBatch(FIXTURE);
+    results = await runAggregations(database);
+    database.close();
+  });
+
+  it("sums volume by bucket, hour and token, oldest first", () => {
+    expect(
+      results.volumeBuckets.map((row) => [
+        row.bucketStart,
+        row.priceHour,
+        row.denom,
+        row.transactionCount,
+        row.amount,
+        row.storedValueUsd,
+      ])
+    ).toEqual([
+      [DAY, DAY + HOUR, SUI, 1, "2000000000", "0"],
+      [DAY, DAY + HOUR, USDC, 1, "5000000", "0"],
+      [DAY + 24 * HOUR, DAY + 26 * HOUR, CETUS, 1, "150000000", "0"],
+      [DAY + 24 * HOUR, DAY + 26 * HOUR, USDC, 1, "250000", "0"],
+      [DAY + 24 * HOUR, DAY + 27 * HOUR, SUI, 1, "3000000000", "0"],
+      // Stored values are summed apart from the amounts to price
+      [DAY + 24 * HOUR, DAY + 30 * HOUR, "aarch", 1, "0", "30.5"],
+      [DAY + 24 * HOUR, DAY + 31 * HOUR, "uosmo", 1, "7000000", "0"],
+    ]);
+    expect(results.signerVolumeBuckets.map((row) => row.amount)).toEqual([
+      "2000000000",
+      "5000000",
+    ]);
+  });
+
+  it("sums Cetus position volume, fees and rewards", () => {
+    expect(results.cetusVolume).toEqual([
+      { tokenName: "SUI", totalVolume: "3000000000", totalOperations: 1 },
+      { tokenName: "USDC", totalVolume: "15000000", totalOperations: 1 },
+    ]);
+    expect(results.cetusFees).toEqual([
+      { tokenName: "CETUS", totalFees: "0", totalRewards: "150000000", totalCollections: 2 },
+      { tokenName: "SUI", totalFees: "40000000", totalRewards: "0", totalCollections: 2 },
+      { tokenName: "USDC", totalFees: "250000", totalRewards: "0", totalCollections: 2 },
+    ]);
+    expect(results.signerCetusFees).toEqual(results.cetusFees);
+  });
+
+  it("sums profitability exactly, ordered by net balance", () => {
+    expect(results.profitability).toEqual([
+      {
+        tokenName: "CETUS",
+        totalSent: "0",
+        totalReceived: "150000000",
+        netBalance: "150000000",
+        feesEarned: "150000000",
+        roiPercentage: null,
+      },
+      {
+        tokenName: "USDC",
+        totalSent: "20000000",
+        totalReceived: "40250000",
+        netBalance: "20250000",
+        feesEarned: "250000",
+        roiPercentage: 101.25,
+      },
+      {
+        tokenName: "OSMO",
+        totalSent: "7000000",
+        totalReceived: "7000000",
+        netBalance: "0",
+        feesEarned: "0",
+        roiPercentage: 0,
+      },
+      {
+        tokenName: "SUI",
+        totalSent: "5002700000",
+        totalReceived: "1140000000",
+        netBalance: "-3862700000",
+        feesEarned: "40000000",
+        roiPercentage: -77.212305355,
+      },
+      {
+        tokenName: "ARCH",
+        totalSent: "1500000000000000000000",
+        totalReceived: "0",
+        netBalance: "-1500000000000000000000",
+        feesEarned: "0",
+        roiPercentage: -100,
+      },
+    ]);
+    expect(results.signerProfitability.map((row) => [row.tokenName, row.netBalance])).toEqual([
+      ["CETUS", "150000000"],
+      ["USDC", "-14750000"],
+      ["SUI", "-2960000000"],
+    ]);
+  });
+
+  it("counts failed transactions in the type summary", () => {
+    expect(results.typeSummary[0]).toEqual({
+      transactionType: TransactionType.BOLT_SUI_SWAP,
+      totalCount: 3,
+      successCount: 2,
+      failedCount: 1,
+      successRate: 2 / 3,
+    });
+    expect(results.typeSummary).toHaveLength(6);
+    expect(results.signerTypeSummary.map((row) => [row.transactionType, row.totalCount])).toEqual([
+      [TransactionType.BOLT_SUI_SWAP, 1],
+      [TransactionType.CETUS_COLLECT_FEES, 1],
+      [TransactionType.CETUS_COLLECT_REWARDS, 1],
+      [TransactionType.CETUS_OPEN_POSITION, 1],
+    ]);
+  });
+
+  it("pages through transactions sharing a second and hash across chains", async () => {
+    const database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+    database.addTransactionBatch(PAGED);
+    expect(await readPages(database)).toEqual(PAGED_KEYS);
+    database.close();
+  });
+});
+
+// Needs an empty PostgreSQL database with the Prisma schema applied, its
+// account_transactions table is cleared before and after the run
+describe.skipIf(!process.env.TEST_DATABASE_URL)("SQLite and PostgreSQL parity", () => {
+  let prisma: PrismaClient;
+  let sqlite: Aggregations;
+  let postgres: Aggregations;
+
+  beforeAll(async () => {
+    const sqliteDatabase = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+    sqliteDatabase.addTransactionBatch(FIXTURE);
+    sqlite = await runAggregations(sqliteDatabase);
+    sqliteDatabase.close();
+
+    prisma = new PrismaClient({ datasources: { db: { url: process.env.TEST_DATABASE_URL } } });
+    await prisma.accountTransaction.deleteMany();
+    const postgresDatabase = new PostgresTransactionRepository(prisma, {
+      valueTransactions: false,
+    });
+    await postgresDatabase.addTransactionBatch(FIXTURE);
+    postgres = await runAggregations(postgresDatabase);
+  });
+
+  afterAll(async () => {
+    await prisma?.accountTransaction.deleteMany();
+    await prisma?.$disconnect();
+  });
+
+  it("returns the same volume bucket rows", () => {
+    expect(postgres.volumeBuckets).toEqual(sqlite.volumeBuckets);
+    expect(postgres.signerVolumeBuckets).toEqual(sqlite.signerVolumeBuckets);
+  });
+
+  it("returns the same Cetus volume, fees and rewards", () => {
+    expect(postgres.cetusVolume).toEqual(sqlite.cetusVolume);
+    expect(postgres.cetusFees).toEqual(sqlite.cetusFees);
+    expect(postgres.signerCetusFees).toEqual(sqlite.signerCetusFees);
+  });
+
+  it("returns the same profitability", () => {
+    expect(postgres.profitability).toEqual(sqlite.profitability);
+    expect(postgres.signerProfitability).toEqual(sqlite.signerProfitability);
+  });
+
+  it("returns the same transaction type summary", () => {
+    expect(postgres.typeSummary).toEqual(sqlite.typeSummary);
+    expect(postgres.signerTypeSummary).toEqual(sqlite.signerTypeSummary);
+  });
+
+  it("pages through rows stored with milliseconds in the same order", async () => {
+    const postgresDatabase = new PostgresTransactionRepository(prisma, {
+      valueTransactions: false,
+    });
+    await postgresDatabase.addTransactionBatch(PAGED);
+    // Rows written without a timestamp get the milliseconds of new Date()
+    await prisma.$executeRaw`
+      UPDATE account_transactions
+      SET timestamp = timestamp + (tx_action_index * 100 + 250) * interval '1 millisecond'
+      WHERE signer_address = '0xpager'
+    `;
+
+    expect(await readPages(postgresDatabase)).toEqual(PAGED_KEYS);
+  });
+});
@@ -0,0 +1,133 @@
+import Database from "better-sqlite3";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { openBotRepository } from "./bot-registry";
+import {
+  getSQLiteSchemaStatus,
+  PLATFORM_BACKFILL_SQL,
+  SQLITE_MIGRATIONS,
+  SQLITE_SCHEMA_VERSION,
+  upgradeSQLiteSchema,
+} from "./sqlite-migrations";
+import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import { PlatformName } from "./types";
+
+const PRISMA_MIGRATIONS = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../prisma/migrations"
+);
+
+// A database left at `version` by an older version of the code
+const createDatabaseAt = (filename: string, version: number): Database.Database => {
+  const db = new Database(filename);
+  db.exec(`
+    CREATE TABLE schema_version (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at BIGINT NOT NULL DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+  for (const migration of SQLITE_MIGRATIONS.filter((entry) => entry.version <= version)) {
+    migration.up(db);
+    db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)").run(
+      migration.version,
+      migration.name
+    );
+  }
+  return db;
+};
+
+describe("SQLite migrations", () => {
+  it("has a Prisma migration of the same name for every version", async () => {
+    const prismaMigrations = await readdir(PRISMA_MIGRATIONS);
+    for (const migration of SQLITE_MIGRATIONS) {
+      expect(prismaMigrations).toContain(migration.name);
+    }
+  });
+
+  it("backfills the platform with the statements of the Prisma migration", async () => {
+    const prismaSql = await readFile(
+      path.join(PRISMA_MIGRATIONS, "20261019020000_add_transaction_platform/migration.sql"),
+      "utf-8"
+    );
+    for (const statement of PLATFORM_BACKFILL_SQL) {
+      expect(prismaSql).toContain(statement);
+    }
+
+    const db = createDatabaseAt(":memory:", 3);
+    const insert = db.prepare(`
+      INSERT INTO account_transactions (signer_address, chain_id, transaction_type, tx_hash, successful)
+      VALUES (?, ?, ?, ?, 1)
+    `);
+    insert.run("0xbot", "101", "bolt_archway_swap", "0xsui");
+    insert.run("archway1bot", "archway-1", "bolt_archway_swap", "ARCH");
+    insert.run("osmo1bot", "osmo-test-5", "create_position", "OSMO");
+    insert.run("0xother", "unknown-1", "ibc_transfer", "OTHER");
+
+    expect(upgradeSQLiteSchema(db).map((migration) => migration.version)).toEqual([4, 5, 6]);
+    expect(
+      db
+        .prepare("SELECT tx_hash, transaction_type, platform FROM account_transactions ORDER BY tx_hash")
+        .all()
+    ).toEqual([
+      { tx_hash: "0xsui", transaction_type: "bolt_sui_swap", platform: "bolt_sui" },
+      { tx_hash: "ARCH", transaction_type: "bolt_archway_swap", platform: "bolt_archway" },
+      { tx_hash: "OSMO", transaction_type: "create_position", platform: "osmosis" },
+      { tx_hash: "OTHER", transaction_type: "ibc_transfer", platform: null },
+    ]);
+    db.close();
+  });
+});
+
+describe("opening an outdated SQLite database", () => {
+  let directory: string;
+  let filename: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "sqlite-migrations-"));
+    filename = path.join(directory, "bot.db");
+    createDatabaseAt(filename, 3).close();
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const schemaVersion = () => {
+    const db = new Database(filename, { readonly: true });
+    try {
+      return getSQLiteSchemaStatus(db).version;
+    } finally {
+      db.close();
+    }
+  };
+
+  it("refuses a registered bot's database without migrating it", async () => {
+    await expect(
+      openBotRepository({
+        name: "arch-usdc",
+        chain: "archway",
+        platform: PlatformName.BOLT_ARCHWAY,
+        signerAddress: "archway1bot",
+        storage: { type: "sqlite", path: directory },
+      })
+    ).rejects.toThrow(`has schema version 3 of ${SQLITE_SCHEMA_VERSION}. Apply its migrations with db upgrade`);
+    expect(schemaVersion()).toBe(3);
+  });
+
+  it("migrates only when asked to", () => {
+    expect(() => new SQLiteTransactionRepository(filename)).toThrow("db upgrade");
+    expect(schemaVersion()).toBe(3);
+
+    new SQLiteTransactionRepository(filename, undefined, { upgradeSchema: true }).close();
+    expect(schemaVersion()).toBe(SQLITE_SCHEMA_VERSION);
+
+    const repository = new SQLiteTransactionRepository(filename, { readonly: true });
+    expect(repository.getTransactionTypeSummary()).toEqual([]);
+    repository.close();
+  });
+});
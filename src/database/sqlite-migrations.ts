@@ -0,0 +1,312 @@
+import type Database from "better-sqlite3";
+
+
+export interface SQLiteMigration {
+  version: number;
+  // Name of the Prisma migration making the same change on PostgreSQL
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface AppliedSQLiteMigration {
+  version: number;
+  name: string;
+  // Unix timestamp in seconds
+  appliedAt: number;
+}
+
+export interface SQLiteSchemaStatus {
+  // 0 for a new database, or one created before schema versions
+  version: number;
+  latestVersion: number;
+  applied: AppliedSQLiteMigration[];
+  pending: SQLiteMigration[];
+}
+
+const hasColumn = (db: Database.Database, table: string, column: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).some(
+    (info) => info.name === column
+  );
+
+/**
+ * Backfill of the Prisma migration 20261019020000_add_transaction_platform:
+ * Sui swaps stored with the Archway swap type get their own, and the platform
+ * follows from the chain ID. Version 4 runs the same statements, so both
+ * backends classify existing rows alike.
+ */
+export const PLATFORM_BACKFILL_SQL = [
+  `UPDATE "account_transactions" SET "transaction_type" = 'bolt_sui_swap'
+WHERE "transaction_type" = 'bolt_archway_swap' AND "chain_id" IN ('101', '103');`,
+  `UPDATE "account_transactions" SET "platform" = 'bolt_sui'
+WHERE "platform" IS NULL AND "chain_id" IN ('101', '103');`,
+  `UPDATE "account_transactions" SET "platform" = 'bolt_archway'
+WHERE "platform" IS NULL AND ("chain_id" LIKE 'archway-%' OR "chain_id" LIKE 'constantine-%');`,
+  `UPDATE "account_transactions" SET "platform" = 'osmosis'
+WHERE "platform" IS NULL AND ("chain_id" LIKE 'osmosis-%' OR "chain_id" LIKE 'osmo-test-%');`,
+];
+
+/**
+ * Up-migrations of the SQLite schema, oldest first. Every schema change gets
+ * a new entry here and a Prisma migration of the same name under
+ * `prisma/migrations`. Databases created before schema versions already hold
+ * some of these tables, so the migrations skip what exists.
+ */
+export const SQLITE_MIGRATIONS: SQLiteMigration[] = [
+  {
+    version: 1,
+    name: "20261018000000_init",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS account_transactions (
+          signer_address VARCHAR(42) NOT NULL,
+          chain_id VARCHAR(42) NOT NULL,
+          transaction_type VARCHAR(50) NOT NULL,
+          position_id VARCHAR(255),
+          input_amount VARCHAR(78),
+          input_token_denom VARCHAR(100),
+          input_token_name VARCHAR(42),
+          second_input_amount VARCHAR(78),
+          second_input_token_denom VARCHAR(100),
+          second_input_token_name VARCHAR(42),
+          output_amount VARCHAR(78),
+          output_token_denom VARCHAR(100),
+          output_token_name VARCHAR(42),
+          second_output_amount VARCHAR(78),
+          second_output_token_denom VARCHAR(100),
+          second_output_token_name VARCHAR(42),
+          gas_fee_amount VARCHAR(78),
+          gas_fee_token_denom VARCHAR(100),
+          gas_fee_token_name VARCHAR(42),
+          destination_address VARCHAR(42),
+          destination_chain_id VARCHAR(42),
+          tx_hash VARCHAR(66) NOT NULL,
+          tx_action_index INTEGER NOT NULL DEFAULT 0,
+          successful BOOLEAN NOT NULL,
+          error TEXT,
+          timestamp BIGINT NOT NULL DEFAULT (strftime('%s', 'now')),
+
+          PRIMARY KEY (chain_id, tx_hash, tx_action_index)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_transaction_type_timestamp
+        ON account_transactions(transaction_type, timestamp DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_timestamp
+        ON account_transactions(timestamp DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_chain_id
+        ON account_transactions(chain_id, timestamp DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_chain_tx_hash
+        ON account_transactions(chain_id, tx_hash);
+
+        CREATE INDEX IF NOT EXISTS idx_token_names
+        ON account_transactions(input_token_name, output_token_name);
+
+        CREATE INDEX IF NOT EXISTS idx_signer_address_timestamp
+        ON account_transactions(signer_address, timestamp DESC);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "20261019000000_add_pool_snapshots",
+    up: (db) => {
+      // Pool balances recorded by the rebalance dashboard on every refresh
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pool_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chain VARCHAR(42) NOT NULL,
+          pool_id VARCHAR(100) NOT NULL,
+          pool_name VARCHAR(42) NOT NULL,
+          base_denom VARCHAR(100) NOT NULL,
+          base_amount VARCHAR(78) NOT NULL,
+          quote_denom VARCHAR(100) NOT NULL,
+          quote_amount VARCHAR(78) NOT NULL,
+          base_price_usd VARCHAR(78),
+          quote_price_usd VARCHAR(78),
+          lp_fee_ratio VARCHAR(78),
+          protocol_fee_ratio VARCHAR(78),
+          unclaimed_lp_fees VARCHAR(78),
+          unclaimed_protocol_fees VARCHAR(78),
+          timestamp BIGINT NOT NULL DEFAULT (strftime('%s', 'now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pool_snapshots_pool_timestamp
+        ON pool_snapshots(pool_id, timestamp DESC);
+
+        CREATE INDEX IF NOT EXISTS idx_pool_snapshots_timestamp
+        ON pool_snapshots(timestamp DESC);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "20261019010000_add_price_samples",
+    up: (db) => {
+      if (!hasColumn(db, "account_transactions", "value_usd")) {
+        db.exec("ALTER TABLE account_transactions ADD COLUMN value_usd VARCHAR(78)");
+      }
+
+      // USD price history per token, recorded by the dashboard and backfilled from CoinGecko
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS price_samples (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          denom VARCHAR(100) NOT NULL,
+          price_usd VARCHAR(78) NOT NULL,
+          source VARCHAR(42) NOT NULL,
+          timestamp BIGINT NOT NULL DEFAULT (strftime('%s', 'now'))
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_price_samples_denom_source_timestamp
+        ON price_samples(denom, source, timestamp);
+
+        CREATE INDEX IF NOT EXISTS idx_price_samples_denom_timestamp
+        ON price_samples(denom, timestamp);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "20261019020000_add_transaction_platform",
+    up: (db) => {
+      if (!hasColumn(db, "account_transactions", "platform")) {
+        db.exec("ALTER TABLE account_transactions ADD COLUMN platform VARCHAR(42)");
+        for (const statement of PLATFORM_BACKFILL_SQL) {
+          db.exec(statement);
+        }
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_platform_timestamp
+        ON account_transactions(platform, timestamp DESC);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "20261019025000_add_transaction_page_index",
+    up: (db) => {
+      // The order of transaction pages, of all signers and of one
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_page
+        ON account_transactions(timestamp DESC, tx_hash DESC, chain_id DESC, tx_action_index);
+
+        CREATE INDEX IF NOT EXISTS idx_transactions_signer_page
+        ON account_transactions(signer_address, timestamp DESC, tx_hash DESC, chain_id DESC, tx_action_index);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "20261019030000_add_indexer_checkpoints",
+    up: (db) => {
+      // Progress of the on-chain indexer per chain and signer
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+          chain_id VARCHAR(42) NOT NULL,
+          signer_address VARCHAR(66) NOT NULL,
+          cursor VARCHAR(255) NOT NULL,
+          updated_at BIGINT NOT NULL DEFAULT (strftime('%s', 'now')),
+
+          PRIMARY KEY (chain_id, signer_address)
+        )
+      `);
+    },
+  },
+];
+
+export const SQLITE_SCHEMA_VERSION =
+  SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+
+const hasSchemaVersionTable = (db: Database.Database): boolean =>
+  db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'")
+    .get() !== undefined;
+
+/**
+ * Schema version of a SQLite database and the migrations it is missing.
+ * Reads only, so it works on a read-only handle.
+ */
+export function getSQLiteSchemaStatus(db: Database.Database): SQLiteSchemaStatus {
+  const applied = hasSchemaVersionTable(db)
+    ? (db
+        .prepare(`
+          SELECT version, name, applied_at AS appliedAt
+          FROM schema_version
+          ORDER BY version
+        `)
+        .all() as AppliedSQLiteMigration[])
+    : [];
+  const version = applied.length ? applied[applied.length - 1].version : 0;
+
+  return {
+    version,
+    latestVersion: SQLITE_SCHEMA_VERSION,
+    applied,
+    pending: SQLITE_MIGRATIONS.filter((migration) => migration.version > version),
+  };
+}
+
+const assertSupportedVersion = (status: SQLiteSchemaStatus, filename: string) => {
+  if (status.version > status.latestVersion) {
+    throw new Error(
+      `Database ${filename} has schema version ${status.version}, this version of the code supports up to ${status.latestVersion}. Upgrade the code before opening it.`
+    );
+  }
+};
+
+/**
+ * Check that a database opened without upgrading it has the latest schema.
+ * Reads only, like getSQLiteSchemaStatus.
+ *
+ * @throws Error when the database has pending migrations or was written by a
+ * newer version of the code
+ */
+export function assertSQLiteSchemaCurrent(
+  db: Database.Database,
+  filename: string = db.name
+): void {
+  const status = getSQLiteSchemaStatus(db);
+  assertSupportedVersion(status, filename);
+  if (status.pending.length > 0) {
+    throw new Error(
+      `Database ${filename} has schema version ${status.version} of ${status.latestVersion}. Apply its migrations with db upgrade ${filename} first.`
+    );
+  }
+}
+
+/**
+ * Apply the pending migrations of a SQLite database and return them. They run
+ * in one write transaction, so processes opening a new database at the same
+ * time do not apply a migration twice.
+ *
+ * @throws Error when the database was written by a newer version of the code
+ */
+export function upgradeSQLiteSchema(
+  db: Database.Database,
+  filename: string = db.name
+): SQLiteMigration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at BIGINT NOT NULL DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+
+  const upgrade = db.transaction(() => {
+    const status = getSQLiteSchemaStatus(db);
+    assertSupportedVersion(status, filename);
+
+    const recordVersion = db.prepare(
+      "INSERT INTO schema_version (version, name) VALUES (?, ?)"
+    );
+    for (const migration of status.pending) {
+      migration.up(db);
+      recordVersion.run(migration.version, migration.name);
+    }
+    return status.pending;
+  });
+  return upgrade.immediate();
+}
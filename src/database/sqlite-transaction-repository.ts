@@ -1,35 +1,143 @@
 import Database from "better-sqlite3";
+import BigNumber from "bignumber.js";
 import fs from "node:fs/promises";
 import path from "path";
 
+import { normalizeDenom } from "../registry";
 import { getWorkingDirectory } from "../utils";
 
+import { assertSQLiteSchemaCurrent, upgradeSQLiteSchema } from "./sqlite-migrations";
+import {
+  getTransactionPlatform,
+  FEE_TRANSACTION_TYPES,
+  PLATFORM_VOLUME_TYPES,
+} from "./transaction-platform";
+import { computeTransactionValue } from "./transaction-valuation";
+import { buildVolumeBuckets } from "./volume-buckets";
+
 import {
   AccountTransaction,
   TransactionRepository,
+  TransactionCursor,
+  TransactionFilter,
+  TransactionKey,
+  TransactionPage,
   TransactionType,
+  PlatformName,
   AccountStats,
   VolumeByToken,
+  CetusFeesByToken,
   ProfitabilityByToken,
   TransactionTypeSummary,
+  PoolSnapshot,
+  PoolSnapshotQuery,
+  PriceSample,
+  PriceSampleQuery,
+  IndexerCheckpoint,
+  TransactionRepositoryOptions,
+  VolumeBucketRow,
+  VolumeQuery,
 } from "./types";
 
+export interface SQLiteTransactionRepositoryOptions
+  extends TransactionRepositoryOptions {
+  // Apply the pending schema migrations when opening (default: only for
+  // ":memory:" databases, make() upgrades the bot's own database). Other
+  // databases must already be up to date, see `db upgrade`
+  upgradeSchema?: boolean;
+}
+
+// Named parameters of the filters built by buildFilters
+interface FilterParams {
+  signerAddress?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+// Token name and amount column of a transaction
+type AmountColumn = [string, string];
+
+const INPUT_COLUMNS: AmountColumn[] = [
+  ["input_token_name", "input_amount"],
+  ["second_input_token_name", "second_input_amount"],
+];
+const OUTPUT_COLUMNS: AmountColumn[] = [
+  ["output_token_name", "output_amount"],
+  ["second_output_token_name", "second_output_amount"],
+];
+const GAS_FEE_COLUMN: AmountColumn = ["gas_fee_token_name", "gas_fee_amount"];
+
+// Amounts are stored as VARCHAR base units and summed with BigNumber, since
+// SQLite REAL arithmetic rounds 18-decimal amounts. Null for amounts that
+// are not numbers, which SQL aggregation counted as 0.
+const parseAmount = (amount: string | null): BigNumber | null => {
+  if (amount === null) {
+    return null;
+  }
+  try {
+    const value = new BigNumber(amount);
+    return value.isFinite() ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const addAmount = (
+  totals: Map<string, BigNumber>,
+  tokenName: string | null,
+  amount: string | null
+) => {
+  const value = parseAmount(amount);
+  if (tokenName === null || value === null) {
+    return;
+  }
+  totals.set(tokenName, (totals.get(tokenName) ?? new BigNumber(0)).plus(value));
+};
+
+// Largest amount first, like ORDER BY ... DESC
+const sortByAmount = (totals: Map<string, BigNumber>) =>
+  [...totals].sort(([, a], [, b]) => b.comparedTo(a) ?? 0);
+
 export class SQLiteTransactionRepository implements TransactionRepository {
   private db: Database.Database;
 
   // Prepared statements for better performance
   private insertStmt!: Database.Statement<AccountTransaction>;
   private getByTxHashStmt!: Database.Statement<[string, string]>;
+  private insertSnapshotStmt!: Database.Statement<PoolSnapshot>;
+  private insertPriceSampleStmt!: Database.Statement<PriceSample>;
+  private priceSampleBeforeStmt!: Database.Statement<[string, number]>;
+  private priceSampleAfterStmt!: Database.Statement<[string, number]>;
+  // Filtered queries, prepared once per distinct SQL text
+  private cachedStatements = new Map<string, Database.Statement>();
+
+  private valueTransactions: boolean;
 
-  constructor(filename: string, options?: Database.Options) {
+  constructor(
+    filename: string,
+    options?: Database.Options,
+    repositoryOptions: SQLiteTransactionRepositoryOptions = {}
+  ) {
     this.db = new Database(filename, options);
-    this.initialize();
+    this.valueTransactions =
+      repositoryOptions.valueTransactions ??
+      process.env.STORE_TRANSACTION_VALUE_USD === "true";
+    try {
+      this.initialize(
+        options?.readonly ?? false,
+        repositoryOptions.upgradeSchema ?? filename === ":memory:"
+      );
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
     this.prepareStatements();
   }
 
   static async make(
     filename?: string,
-    options?: Database.Options
+    options?: Database.Options,
+    repositoryOptions?: SQLiteTransactionRepositoryOptions
   ): Promise<SQLiteTransactionRepository> {
     const workingDir = await getWorkingDirectory();
     const databaseDir = path.join(workingDir, "database");
@@ -46,76 +154,36 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       filename ? `${filename}.db` : "account_transactions.db"
     );
 
-    return new SQLiteTransactionRepository(finalPath, options);
+    // The bot's own database is upgraded when it starts
+    return new SQLiteTransactionRepository(finalPath, options, {
+      upgradeSchema: true,
+      ...repositoryOptions,
+    });
   }
 
-  private initialize() {
-    // Set up SQLite for optimal performance
-    this.db.pragma("journal_mode = WAL");
+  private initialize(readonly: boolean, upgradeSchema: boolean) {
+    // Set up SQLite for optimal performance, the journal mode is kept by
+    // the file and can't be changed read-only
+    if (!readonly) {
+      this.db.pragma("journal_mode = WAL");
+    }
     this.db.pragma("synchronous = NORMAL");
     this.db.pragma("foreign_keys = ON");
 
-    // Create table with standard SQL syntax
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS account_transactions (
-        signer_address VARCHAR(42) NOT NULL,
-        chain_id VARCHAR(42) NOT NULL,
-        transaction_type VARCHAR(50) NOT NULL,
-        position_id VARCHAR(255),
-        input_amount VARCHAR(78),
-        input_token_denom VARCHAR(100),
-        input_token_name VARCHAR(42),
-        second_input_amount VARCHAR(78),
-        second_input_token_denom VARCHAR(100),
-        second_input_token_name VARCHAR(42),
-        output_amount VARCHAR(78),
-        output_token_denom VARCHAR(100),
-        output_token_name VARCHAR(42),
-        second_output_amount VARCHAR(78),
-        second_output_token_denom VARCHAR(100),
-        second_output_token_name VARCHAR(42),
-        gas_fee_amount VARCHAR(78),
-        gas_fee_token_denom VARCHAR(100),
-        gas_fee_token_name VARCHAR(42),
-        destination_address VARCHAR(42),
-        destination_chain_id VARCHAR(42),
-        tx_hash VARCHAR(66) NOT NULL,
-        tx_action_index INTEGER NOT NULL DEFAULT 0,
-        successful BOOLEAN NOT NULL,
-        error TEXT,
-        timestamp BIGINT NOT NULL DEFAULT (strftime('%s', 'now')),
-        
-        PRIMARY KEY (chain_id, tx_hash, tx_action_index)
-      )
-    `);
-
-    // Create indexes for common queries
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_transaction_type_timestamp 
-      ON account_transactions(transaction_type, timestamp DESC);
-      
-      CREATE INDEX IF NOT EXISTS idx_timestamp 
-      ON account_transactions(timestamp DESC);
-      
-      CREATE INDEX IF NOT EXISTS idx_chain_id 
-      ON account_transactions(chain_id, timestamp DESC);
-      
-      CREATE INDEX IF NOT EXISTS idx_chain_tx_hash 
-      ON account_transactions(chain_id, tx_hash);
-      
-      CREATE INDEX IF NOT EXISTS idx_token_names 
-      ON account_transactions(input_token_name, output_token_name);
-      
-      CREATE INDEX IF NOT EXISTS idx_signer_address_timestamp
-      ON account_transactions(signer_address, timestamp DESC);
-    `);
+    // Creates the tables of a new database and upgrades older ones. Other
+    // databases, such as those of registered bots, are only checked
+    if (upgradeSchema && !readonly) {
+      upgradeSQLiteSchema(this.db);
+    } else {
+      assertSQLiteSchemaCurrent(this.db);
+    }
   }
 
   private prepareStatements() {
     // Insert statement using named parameters for clarity
     this.insertStmt = this.db.prepare(`
       INSERT INTO account_transactions (
-        signer_address, chain_id, transaction_type, position_id,
+        signer_address, chain_id, transaction_type, platform, position_id,
         input_amount, input_token_denom, input_token_name,
         second_input_amount, second_input_token_denom, second_input_token_name,
         output_amount, output_token_denom, output_token_name,
@@ -123,9 +191,9 @@ export class SQLiteTransactionRepository implements TransactionRepository {
         gas_fee_amount, gas_fee_token_denom, gas_fee_token_name,
         destination_address, destination_chain_id,
         tx_hash, tx_action_index,
-        successful, error, timestamp
+        successful, error, value_usd, timestamp
       ) VALUES (
-        @signerAddress, @chainId, @transactionType, @positionId,
+        @signerAddress, @chainId, @transactionType, @platform, @positionId,
         @inputAmount, @inputTokenDenom, @inputTokenName,
         @secondInputAmount, @secondInputTokenDenom, @secondInputTokenName,
         @outputAmount, @outputTokenDenom, @outputTokenName,
@@ -133,11 +201,12 @@ export class SQLiteTransactionRepository implements TransactionRepository {
         @gasFeeAmount, @gasFeeTokenDenom, @gasFeeTokenName,
         @destinationAddress, @destinationChainId,
         @txHash, COALESCE(@txActionIndex, 0),
-        @successful, @error, COALESCE(@timestamp, strftime('%s', 'now'))
+        @successful, @error, @valueUsd, COALESCE(@timestamp, strftime('%s', 'now'))
       )
       ON CONFLICT(chain_id, tx_hash, tx_action_index) DO UPDATE SET
         signer_address = excluded.signer_address,
         transaction_type = excluded.transaction_type,
+        platform = excluded.platform,
         position_id = excluded.position_id,
         input_amount = excluded.input_amount,
         input_token_denom = excluded.input_token_denom,
@@ -158,6 +227,7 @@ export class SQLiteTransactionRepository implements TransactionRepository {
         destination_chain_id = excluded.destination_chain_id,
         successful = excluded.successful,
         error = excluded.error,
+        value_usd = COALESCE(excluded.value_usd, account_transactions.value_usd),
         timestamp = excluded.timestamp
     `);
 
@@ -166,6 +236,44 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       WHERE tx_hash = ? AND chain_id = ?
       ORDER BY tx_action_index
     `);
+
+    this.insertSnapshotStmt = this.db.prepare(`
+      INSERT INTO pool_snapshots (
+        chain, pool_id, pool_name,
+        base_denom, base_amount, quote_denom, quote_amount,
+        base_price_usd, quote_price_usd,
+        lp_fee_ratio, protocol_fee_ratio,
+        unclaimed_lp_fees, unclaimed_protocol_fees,
+        timestamp
+      ) VALUES (
+        @chain, @poolId, @poolName,
+        @baseDenom, @baseAmount, @quoteDenom, @quoteAmount,
+        @basePriceUsd, @quotePriceUsd,
+        @lpFeeRatio, @protocolFeeRatio,
+        @unclaimedLpFees, @unclaimedProtocolFees,
+        COALESCE(@timestamp, strftime('%s', 'now'))
+      )
+    `);
+
+    this.insertPriceSampleStmt = this.db.prepare(`
+      INSERT INTO price_samples (denom, price_usd, source, timestamp)
+      VALUES (@denom, @priceUsd, @source, COALESCE(@timestamp, strftime('%s', 'now')))
+      ON CONFLICT(denom, source, timestamp) DO NOTHING
+    `);
+
+    this.priceSampleBeforeStmt = this.db.prepare(`
+      SELECT * FROM price_samples
+      WHERE denom = ? AND timestamp <= ?
+      ORDER BY timestamp DESC, id DESC
+      LIMIT 1
+    `);
+
+    this.priceSampleAfterStmt = this.db.prepare(`
+      SELECT * FROM price_samples
+      WHERE denom = ? AND timestamp >= ?
+      ORDER BY timestamp ASC, id DESC
+      LIMIT 1
+    `);
   }
 
   // Helper to convert row to transaction
@@ -176,6 +284,7 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       signerAddress: row.signer_address,
       chainId: row.chain_id,
       transactionType: row.transaction_type as TransactionType,
+      platform: row.platform as PlatformName | null,
       positionId: row.position_id,
       inputAmount: row.input_amount,
       inputTokenDenom: row.input_token_denom,
@@ -198,6 +307,7 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       txActionIndex: row.tx_action_index,
       successful: Boolean(row.successful),
       error: row.error,
+      valueUsd: row.value_usd,
       timestamp: row.timestamp,
     };
   }
@@ -208,6 +318,7 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       signerAddress: tx.signerAddress,
       chainId: tx.chainId,
       transactionType: tx.transactionType,
+      platform: getTransactionPlatform(tx),
       positionId: tx.positionId || null,
       inputAmount: tx.inputAmount || null,
       inputTokenDenom: tx.inputTokenDenom || null,
@@ -230,31 +341,124 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       txActionIndex: tx.txActionIndex ?? 0,
       successful: tx.successful ? 1 : 0,
       error: tx.error || null,
+      valueUsd: tx.valueUsd || this.valueAtInsert(tx),
       timestamp: tx.timestamp || null,
     };
   }
 
-  // Helper method to build filters
+  // USD value stored with a new transaction when valueTransactions is enabled
+  private valueAtInsert(tx: AccountTransaction): string | null {
+    if (!this.valueTransactions) {
+      return null;
+    }
+
+    const time = new Date((tx.timestamp ?? Math.floor(Date.now() / 1000)) * 1000);
+    const { valueUsd } = computeTransactionValue(tx, (token) => {
+      const sample = this.getNearestPriceSample(token.denom, time);
+      return sample ? new BigNumber(sample.priceUsd) : null;
+    });
+    return valueUsd?.toFixed() ?? null;
+  }
+
+  // Helper to convert row to price sample
+  private rowToPriceSample(row: any): PriceSample | null {
+    if (!row) return null;
+
+    return {
+      denom: row.denom,
+      priceUsd: row.price_usd,
+      source: row.source,
+      timestamp: row.timestamp,
+    };
+  }
+
+  // Helper to convert row to pool snapshot
+  private rowToPoolSnapshot(row: any): PoolSnapshot | null {
+    if (!row) return null;
+
+    return {
+      chain: row.chain,
+      poolId: row.pool_id,
+      poolName: row.pool_name,
+      baseDenom: row.base_denom,
+      baseAmount: row.base_amount,
+      quoteDenom: row.quote_denom,
+      quoteAmount: row.quote_amount,
+      basePriceUsd: row.base_price_usd,
+      quotePriceUsd: row.quote_price_usd,
+      lpFeeRatio: row.lp_fee_ratio,
+      protocolFeeRatio: row.protocol_fee_ratio,
+      unclaimedLpFees: row.unclaimed_lp_fees,
+      unclaimedProtocolFees: row.unclaimed_protocol_fees,
+      timestamp: row.timestamp,
+    };
+  }
+
+  // Helper to convert pool snapshot to row parameters
+  private poolSnapshotToParams(snapshot: PoolSnapshot): any {
+    return {
+      chain: snapshot.chain,
+      poolId: snapshot.poolId,
+      poolName: snapshot.poolName,
+      baseDenom: snapshot.baseDenom,
+      baseAmount: snapshot.baseAmount,
+      quoteDenom: snapshot.quoteDenom,
+      quoteAmount: snapshot.quoteAmount,
+      basePriceUsd: snapshot.basePriceUsd || null,
+      quotePriceUsd: snapshot.quotePriceUsd || null,
+      lpFeeRatio: snapshot.lpFeeRatio || null,
+      protocolFeeRatio: snapshot.protocolFeeRatio || null,
+      unclaimedLpFees: snapshot.unclaimedLpFees || null,
+      unclaimedProtocolFees: snapshot.unclaimedProtocolFees || null,
+      timestamp: snapshot.timestamp || null,
+    };
+  }
+
+  // Helper to convert price sample to row parameters
+  private priceSampleToParams(sample: PriceSample): any {
+    return {
+      denom: normalizeDenom(sample.denom),
+      priceUsd: sample.priceUsd,
+      source: sample.source,
+      timestamp: sample.timestamp || null,
+    };
+  }
+
+  // Helper method to build filters, bound as named parameters so the same
+  // filter can appear in several parts of a query
   private buildFilters(
     signerAddress?: string,
     startTime?: Date,
     endTime?: Date
-  ): string {
-    let filter = "";
+  ): { filters: string; params: FilterParams } {
+    let filters = "";
+    const params: FilterParams = {};
 
     if (signerAddress !== undefined) {
-      filter += ` AND signer_address = '${signerAddress}'`;
+      filters += " AND signer_address = @signerAddress";
+      params.signerAddress = signerAddress;
     }
 
     if (startTime !== undefined) {
-      filter += ` AND timestamp >= ${Math.floor(startTime.getTime() / 1000)}`;
+      filters += " AND timestamp >= @startTime";
+      params.startTime = Math.floor(startTime.getTime() / 1000);
     }
 
     if (endTime !== undefined) {
-      filter += ` AND timestamp <= ${Math.floor(endTime.getTime() / 1000)}`;
+      filters += " AND timestamp <= @endTime";
+      params.endTime = Math.floor(endTime.getTime() / 1000);
     }
 
-    return filter;
+    return { filters, params };
+  }
+
+  private prepareCached(sql: string): Database.Statement {
+    let statement = this.cachedStatements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.cachedStatements.set(sql, statement);
+    }
+    return statement;
   }
 
   addTransaction(tx: AccountTransaction): void {
@@ -288,16 +492,128 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): AccountTransaction[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
     
-    const query = this.db.prepare(`
+    const query = this.prepareCached(`
       SELECT * FROM account_transactions 
       WHERE 1=1 ${filters}
       ORDER BY timestamp DESC, tx_action_index
-      LIMIT ? OFFSET ?
+      LIMIT @limit OFFSET @offset
     `);
     
-    const rows = query.all(limit, offset);
+    const rows = query.all({ ...params, limit, offset });
+    return rows.map((row) => this.rowToTransaction(row)!);
+  }
+
+  queryTransactions(
+    filter: TransactionFilter,
+    cursor: TransactionCursor | null = null,
+    limit: number = 100
+  ): TransactionPage {
+    const { filters, params } = this.buildFilters(
+      filter.signerAddress,
+      filter.startTime,
+      filter.endTime
+    );
+    let queryFilters = filters;
+    const queryParams: Record<string, unknown> = { ...params, limit: limit + 1 };
+
+    const lists: Array<[string, string, string[] | undefined]> = [
+      ["chain_id", "chainIds", filter.chainIds],
+      ["transaction_type", "transactionTypes", filter.transactionTypes],
+      ["platform", "platforms", filter.platforms],
+    ];
+    for (const [column, name, values] of lists) {
+      if (values !== undefined) {
+        queryFilters += ` AND ${column} IN (SELECT value FROM json_each(@${name}))`;
+        queryParams[name] = JSON.stringify(values);
+      }
+    }
+
+    if (filter.tokenDenoms !== undefined) {
+      queryFilters += `
+        AND EXISTS (
+          SELECT 1 FROM json_each(@tokenDenoms)
+          WHERE value IN (input_token_denom, second_input_token_denom, output_token_denom, second_output_token_denom)
+        )`;
+      queryParams.tokenDenoms = JSON.stringify(filter.tokenDenoms);
+    }
+
+    if (filter.successful !== undefined) {
+      queryFilters += " AND successful = @successful";
+      queryParams.successful = filter.successful ? 1 : 0;
+    }
+
+    if (filter.positionId !== undefined) {
+      queryFilters += " AND position_id = @positionId";
+      queryParams.positionId = filter.positionId;
+    }
+
+    // substr instead of LIKE, which is case-insensitive and treats _ and % as wildcards
+    if (filter.txHashPrefix !== undefined) {
+      queryFilters += " AND substr(tx_hash, 1, length(@txHashPrefix)) = @txHashPrefix";
+      queryParams.txHashPrefix = filter.txHashPrefix;
+    }
+
+    // The leading bound lets idx_transactions_page start at the cursor
+    if (cursor) {
+      queryFilters += `
+        AND timestamp <= @cursorTimestamp
+        AND (
+          timestamp < @cursorTimestamp
+          OR (timestamp = @cursorTimestamp AND tx_hash < @cursorTxHash)
+          OR (timestamp = @cursorTimestamp AND tx_hash = @cursorTxHash AND chain_id < @cursorChainId)
+          OR (timestamp = @cursorTimestamp AND tx_hash = @cursorTxHash AND chain_id = @cursorChainId AND tx_action_index > @cursorTxActionIndex)
+        )`;
+      queryParams.cursorTimestamp = cursor.timestamp;
+      queryParams.cursorTxHash = cursor.txHash;
+      queryParams.cursorChainId = cursor.chainId;
+      queryParams.cursorTxActionIndex = cursor.txActionIndex;
+    }
+
+    const query = this.prepareCached(`
+      SELECT * FROM account_transactions
+      WHERE 1=1 ${queryFilters}
+      ORDER BY timestamp DESC, tx_hash DESC, chain_id DESC, tx_action_index
+      LIMIT @limit
+    `);
+
+    // One row more than the page tells whether there is a next page
+    const rows = query.all(queryParams);
+    const transactions = rows
+      .slice(0, limit)
+      .map((row) => this.rowToTransaction(row)!);
+    const last = transactions[transactions.length - 1];
+    return {
+      transactions,
+      nextCursor:
+        rows.length > limit
+          ? {
+              timestamp: last.timestamp!,
+              chainId: last.chainId,
+              txHash: last.txHash,
+              txActionIndex: last.txActionIndex ?? 0,
+            }
+          : null,
+    };
+  }
+
+  getTransactionsAfter(
+    after: TransactionKey | null,
+    limit: number
+  ): AccountTransaction[] {
+    const keyFilter = after
+      ? "WHERE (chain_id, tx_hash, tx_action_index) > (@chainId, @txHash, @txActionIndex)"
+      : "";
+
+    const query = this.prepareCached(`
+      SELECT * FROM account_transactions
+      ${keyFilter}
+      ORDER BY chain_id, tx_hash, tx_action_index
+      LIMIT @limit
+    `);
+
+    const rows = query.all({ ...after, limit });
     return rows.map((row) => this.rowToTransaction(row)!);
   }
 
@@ -308,21 +624,21 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): AccountTransaction[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
     let typeFilter = "";
     
     if (transactionType) {
-      typeFilter = ` AND transaction_type = '${transactionType}'`;
+      typeFilter = " AND transaction_type = @transactionType";
     }
     
-    const query = this.db.prepare(`
+    const query = this.prepareCached(`
       SELECT * FROM account_transactions 
       WHERE 1=1 ${typeFilter} ${filters}
       ORDER BY timestamp DESC, tx_action_index
-      LIMIT ?
+      LIMIT @limit
     `);
     
-    const rows = query.all(limit);
+    const rows = query.all({ ...params, transactionType, limit });
     return rows.map((row) => this.rowToTransaction(row)!);
   }
 
@@ -331,9 +647,9 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): AccountStats[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
     
-    const query = this.db.prepare(`
+    const query = this.prepareCached(`
       WITH account_summary AS (
         SELECT
           transaction_type,
@@ -356,75 +672,69 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       ORDER BY count DESC
     `);
 
-    return query.all() as AccountStats[];
+    return query.all(params) as AccountStats[];
+  }
+
+  // Successful transactions matching `filters`, streamed row by row
+  private iterateSuccessful(filters: string, params: object): IterableIterator<any> {
+    return this.prepareCached(`
+      SELECT * FROM account_transactions
+      WHERE successful = 1 ${filters}
+    `).iterate(params) as IterableIterator<any>;
+  }
+
+  // Sums the amount columns per token name over successful transactions
+  private sumAmountsByToken(
+    filters: string,
+    params: object,
+    columns: AmountColumn[]
+  ): { totals: Map<string, BigNumber>; txHashes: Set<string> } {
+    const totals = new Map<string, BigNumber>();
+    const txHashes = new Set<string>();
+
+    for (const row of this.iterateSuccessful(filters, params)) {
+      txHashes.add(row.tx_hash);
+      for (const [nameColumn, amountColumn] of columns) {
+        addAmount(totals, row[nameColumn], row[amountColumn]);
+      }
+    }
+
+    return { totals, txHashes };
   }
 
-  getArchwayBoltVolume(
+  getPlatformVolume(
+    platform: PlatformName,
     signerAddress?: string,
     startTime?: Date,
     endTime?: Date
   ): VolumeByToken[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
-    
-    const query = this.db.prepare(`
-      WITH bolt_volumes AS (
-        SELECT 
-          token_name,
-          SUM(amount) as total_volume
-        FROM (
-          -- Input amounts
-          SELECT input_token_name as token_name, CAST(input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = 1
-            AND input_amount IS NOT NULL 
-            AND input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Second input amounts
-          SELECT second_input_token_name as token_name, CAST(second_input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = 1
-            AND second_input_amount IS NOT NULL 
-            AND second_input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Output amounts
-          SELECT output_token_name as token_name, CAST(output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = 1
-            AND output_amount IS NOT NULL 
-            AND output_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Second output amounts
-          SELECT second_output_token_name as token_name, CAST(second_output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type = 'bolt_archway_swap' 
-            AND successful = 1
-            AND second_output_amount IS NOT NULL 
-            AND second_output_token_name IS NOT NULL
-            ${filters}
-        ) AS all_amounts
-        GROUP BY token_name
-      )
-      SELECT 
-        token_name as tokenName,
-        total_volume as totalVolume,
-        (SELECT COUNT(DISTINCT tx_hash) FROM account_transactions WHERE transaction_type = 'bolt_archway_swap' AND successful = 1 ${filters}) as totalSwaps
-      FROM bolt_volumes
-      ORDER BY total_volume DESC
-    `);
+    const transactionTypes = PLATFORM_VOLUME_TYPES[platform];
+    if (transactionTypes.length === 0) {
+      return [];
+    }
 
-    return query.all() as VolumeByToken[];
+    const { filters: timeFilters, params: timeParams } = this.buildFilters(
+      signerAddress,
+      startTime,
+      endTime
+    );
+    const { totals, txHashes } = this.sumAmountsByToken(
+      " AND platform = @platform" +
+        " AND transaction_type IN (SELECT value FROM json_each(@transactionTypes))" +
+        timeFilters,
+      {
+        ...timeParams,
+        platform,
+        transactionTypes: JSON.stringify(transactionTypes),
+      },
+      [...INPUT_COLUMNS, ...OUTPUT_COLUMNS]
+    );
+
+    return sortByAmount(totals).map(([tokenName, total]) => ({
+      tokenName,
+      totalVolume: total.toFixed(),
+      totalSwaps: txHashes.size,
+    }));
   }
 
   getOsmosisVolume(
@@ -432,67 +742,65 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): VolumeByToken[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
-    
-    const query = this.db.prepare(`
-      WITH osmosis_volumes AS (
-        SELECT 
-          token_name,
-          SUM(amount) as total_volume
-        FROM (
-          -- Input amounts
-          SELECT input_token_name as token_name, CAST(input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type IN ('create_position', 'withdraw_position')
-            AND successful = 1
-            AND input_amount IS NOT NULL 
-            AND input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Second input amounts
-          SELECT second_input_token_name as token_name, CAST(second_input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type IN ('create_position', 'withdraw_position')
-            AND successful = 1
-            AND second_input_amount IS NOT NULL 
-            AND second_input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Output amounts
-          SELECT output_token_name as token_name, CAST(output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type IN ('create_position', 'withdraw_position')
-            AND successful = 1
-            AND output_amount IS NOT NULL 
-            AND output_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Second output amounts
-          SELECT second_output_token_name as token_name, CAST(second_output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type IN ('create_position', 'withdraw_position')
-            AND successful = 1
-            AND second_output_amount IS NOT NULL 
-            AND second_output_token_name IS NOT NULL
-            ${filters}
-        ) AS all_amounts
-        GROUP BY token_name
-      )
-      SELECT 
-        token_name as tokenName,
-        total_volume as totalVolume,
-        (SELECT COUNT(DISTINCT tx_hash) FROM account_transactions WHERE transaction_type IN ('create_position', 'withdraw_position') AND successful = 1 ${filters}) as totalOperations
-      FROM osmosis_volumes
-      ORDER BY total_volume DESC
-    `);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
+    const { totals, txHashes } = this.sumAmountsByToken(
+      ` AND transaction_type IN ('create_position', 'withdraw_position') ${filters}`,
+      params,
+      [...INPUT_COLUMNS, ...OUTPUT_COLUMNS]
+    );
+
+    return sortByAmount(totals).map(([tokenName, total]) => ({
+      tokenName,
+      totalVolume: total.toFixed(),
+      totalOperations: txHashes.size,
+    }));
+  }
+
+  getCetusVolume(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): VolumeByToken[] {
+    return this.getPlatformVolume(
+      PlatformName.CETUS,
+      signerAddress,
+      startTime,
+      endTime
+    ).map(({ totalSwaps, ...volume }) => ({
+      ...volume,
+      totalOperations: totalSwaps,
+    }));
+  }
+
+  getCetusFees(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): CetusFeesByToken[] {
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
+    const fees = this.sumAmountsByToken(
+      ` AND transaction_type = 'cetus_collect_fees' ${filters}`,
+      params,
+      OUTPUT_COLUMNS
+    );
+    const rewards = this.sumAmountsByToken(
+      ` AND transaction_type = 'cetus_collect_rewards' ${filters}`,
+      params,
+      OUTPUT_COLUMNS
+    );
+
+    const totalCollections = new Set([...fees.txHashes, ...rewards.txHashes]).size;
+    const totals = new Map(fees.totals);
+    for (const [tokenName, amount] of rewards.totals) {
+      addAmount(totals, tokenName, amount.toFixed());
+    }
 
-    return query.all() as VolumeByToken[];
+    return sortByAmount(totals).map(([tokenName]) => ({
+      tokenName,
+      totalFees: (fees.totals.get(tokenName) ?? new BigNumber(0)).toFixed(),
+      totalRewards: (rewards.totals.get(tokenName) ?? new BigNumber(0)).toFixed(),
+      totalCollections,
+    }));
   }
 
   getBridgeVolume(
@@ -500,45 +808,19 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): VolumeByToken[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
-    
-    const query = this.db.prepare(`
-      WITH bridge_volumes AS (
-        SELECT 
-          token_name,
-          SUM(amount) as total_volume
-        FROM (
-          -- Input amounts (sending)
-          SELECT input_token_name as token_name, CAST(input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type = 'ibc_transfer'
-            AND successful = 1
-            AND input_amount IS NOT NULL 
-            AND input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Output amounts (receiving)
-          SELECT output_token_name as token_name, CAST(output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE transaction_type = 'ibc_transfer'
-            AND successful = 1
-            AND output_amount IS NOT NULL 
-            AND output_token_name IS NOT NULL
-            ${filters}
-        ) AS all_amounts
-        GROUP BY token_name
-      )
-      SELECT 
-        token_name as tokenName,
-        total_volume as totalVolume,
-        (SELECT COUNT(DISTINCT tx_hash) FROM account_transactions WHERE transaction_type = 'ibc_transfer' AND successful = 1 ${filters}) as totalTransfers
-      FROM bridge_volumes
-      ORDER BY total_volume DESC
-    `);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
+    // Input amounts are sent, output amounts received
+    const { totals, txHashes } = this.sumAmountsByToken(
+      ` AND transaction_type = 'ibc_transfer' ${filters}`,
+      params,
+      [INPUT_COLUMNS[0], OUTPUT_COLUMNS[0]]
+    );
 
-    return query.all() as VolumeByToken[];
+    return sortByAmount(totals).map(([tokenName, total]) => ({
+      tokenName,
+      totalVolume: total.toFixed(),
+      totalTransfers: txHashes.size,
+    }));
   }
 
   getProfitability(
@@ -546,97 +828,47 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): ProfitabilityByToken[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
-    
-    const query = this.db.prepare(`
-      WITH token_flows AS (
-        -- All payments (negative values)
-        SELECT 
-          token_name,
-          -SUM(amount) as net_amount,
-          'payment' as flow_type
-        FROM (
-          -- Input amounts
-          SELECT input_token_name as token_name, CAST(input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE successful = 1
-            AND input_amount IS NOT NULL 
-            AND input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Second input amounts
-          SELECT second_input_token_name as token_name, CAST(second_input_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE successful = 1
-            AND second_input_amount IS NOT NULL 
-            AND second_input_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Gas fees
-          SELECT gas_fee_token_name as token_name, CAST(gas_fee_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE successful = 1
-            AND gas_fee_amount IS NOT NULL 
-            AND gas_fee_token_name IS NOT NULL
-            ${filters}
-        ) AS payments
-        GROUP BY token_name
-        
-        UNION ALL
-        
-        -- All receipts (positive values)
-        SELECT 
-          token_name,
-          SUM(amount) as net_amount,
-          'receipt' as flow_type
-        FROM (
-          -- Output amounts
-          SELECT output_token_name as token_name, CAST(output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE successful = 1
-            AND output_amount IS NOT NULL 
-            AND output_token_name IS NOT NULL
-            ${filters}
-          
-          UNION ALL
-          
-          -- Second output amounts
-          SELECT second_output_token_name as token_name, CAST(second_output_amount AS REAL) as amount
-          FROM account_transactions
-          WHERE successful = 1
-            AND second_output_amount IS NOT NULL 
-            AND second_output_token_name IS NOT NULL
-            ${filters}
-        ) AS receipts
-        GROUP BY token_name
-      ),
-      token_summary AS (
-        SELECT 
-          token_name,
-          SUM(net_amount) as net_balance,
-          SUM(CASE WHEN flow_type = 'payment' THEN -net_amount ELSE 0 END) as total_sent,
-          SUM(CASE WHEN flow_type = 'receipt' THEN net_amount ELSE 0 END) as total_received
-        FROM token_flows
-        GROUP BY token_name
-      )
-      SELECT 
-        token_name as tokenName,
-        total_sent as totalSent,
-        total_received as totalReceived,
-        net_balance as netBalance,
-        CASE 
-          WHEN total_sent > 0 THEN (net_balance / total_sent) * 100
-          ELSE NULL
-        END as roiPercentage
-      FROM token_summary
-      ORDER BY net_balance DESC
-    `);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
+    const sent = new Map<string, BigNumber>();
+    const received = new Map<string, BigNumber>();
+    const fees = new Map<string, BigNumber>();
+
+    for (const row of this.iterateSuccessful(filters, params)) {
+      // Inputs and gas fees are payments, outputs receipts
+      for (const [nameColumn, amountColumn] of [...INPUT_COLUMNS, GAS_FEE_COLUMN]) {
+        addAmount(sent, row[nameColumn], row[amountColumn]);
+      }
+      const isFee = FEE_TRANSACTION_TYPES.includes(row.transaction_type);
+      for (const [nameColumn, amountColumn] of OUTPUT_COLUMNS) {
+        addAmount(received, row[nameColumn], row[amountColumn]);
+        if (isFee) {
+          addAmount(fees, row[nameColumn], row[amountColumn]);
+        }
+      }
+    }
+
+    const zero = new BigNumber(0);
+    const balances = new Map<string, BigNumber>();
+    for (const tokenName of new Set([...sent.keys(), ...received.keys()])) {
+      balances.set(
+        tokenName,
+        (received.get(tokenName) ?? zero).minus(sent.get(tokenName) ?? zero)
+      );
+    }
 
-    return query.all() as ProfitabilityByToken[];
+    return sortByAmount(balances).map(([tokenName, netBalance]) => {
+      const totalSent = sent.get(tokenName) ?? zero;
+      return {
+        tokenName,
+        totalSent: totalSent.toFixed(),
+        totalReceived: (received.get(tokenName) ?? zero).toFixed(),
+        netBalance: netBalance.toFixed(),
+        feesEarned: (fees.get(tokenName) ?? zero).toFixed(),
+        roiPercentage: totalSent.isGreaterThan(0)
+          ? netBalance.dividedBy(totalSent).multipliedBy(100).toNumber()
+          : null,
+      };
+    });
   }
 
   getTransactionTypeSummary(
@@ -644,9 +876,9 @@ export class SQLiteTransactionRepository implements TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): TransactionTypeSummary[] {
-    const filters = this.buildFilters(signerAddress, startTime, endTime);
+    const { filters, params } = this.buildFilters(signerAddress, startTime, endTime);
     
-    const query = this.db.prepare(`
+    const query = this.prepareCached(`
       SELECT 
         transaction_type as transactionType,
         COUNT(*) as totalCount,
@@ -659,7 +891,265 @@ export class SQLiteTransactionRepository implements TransactionRepository {
       ORDER BY totalCount DESC
     `);
 
-    return query.all() as TransactionTypeSummary[];
+    return query.all(params) as TransactionTypeSummary[];
+  }
+
+  addPoolSnapshotBatch(snapshots: PoolSnapshot[]): void {
+    const insert = this.db.transaction((rows: PoolSnapshot[]) => {
+      for (const snapshot of rows) {
+        this.insertSnapshotStmt.run(this.poolSnapshotToParams(snapshot));
+      }
+    });
+
+    insert(snapshots);
+  }
+
+  getPoolSnapshots(query: PoolSnapshotQuery): PoolSnapshot[] {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.chain !== undefined) {
+      conditions.push("chain = ?");
+      params.push(query.chain);
+    }
+    if (query.poolId !== undefined) {
+      conditions.push("pool_id = ?");
+      params.push(query.poolId);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(Math.floor(query.startTime.getTime() / 1000));
+    }
+    if (query.endTime !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(Math.floor(query.endTime.getTime() / 1000));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const statement = this.prepareCached(`
+      SELECT * FROM pool_snapshots
+      ${where}
+      ORDER BY timestamp DESC, id DESC
+      LIMIT ?
+    `);
+
+    const rows = statement.all(...params, query.limit ?? 1000);
+    return rows.map((row) => this.rowToPoolSnapshot(row)!);
+  }
+
+  getPoolSnapshotAt(
+    poolId: string,
+    time: Date,
+    chain?: string
+  ): PoolSnapshot | null {
+    return this.getPoolSnapshots({ poolId, chain, endTime: time, limit: 1 })[0] ?? null;
+  }
+
+  addPriceSampleBatch(samples: PriceSample[]): void {
+    const insert = this.db.transaction((rows: PriceSample[]) => {
+      for (const sample of rows) {
+        this.insertPriceSampleStmt.run(this.priceSampleToParams(sample));
+      }
+    });
+
+    insert(samples);
+  }
+
+  getPriceSamples(query: PriceSampleQuery): PriceSample[] {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.denom !== undefined) {
+      conditions.push("denom = ?");
+      params.push(normalizeDenom(query.denom));
+    }
+    if (query.source !== undefined) {
+      conditions.push("source = ?");
+      params.push(query.source);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(Math.floor(query.startTime.getTime() / 1000));
+    }
+    if (query.endTime !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(Math.floor(query.endTime.getTime() / 1000));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const statement = this.prepareCached(`
+      SELECT * FROM price_samples
+      ${where}
+      ORDER BY timestamp DESC, id DESC
+      LIMIT ?
+    `);
+
+    const rows = statement.all(...params, query.limit ?? 1000);
+    return rows.map((row) => this.rowToPriceSample(row)!);
+  }
+
+  getNearestPriceSample(
+    denom: string,
+    time: Date,
+    maxDistanceSeconds?: number
+  ): PriceSample | null {
+    const timestamp = Math.floor(time.getTime() / 1000);
+    const normalized = normalizeDenom(denom);
+    const candidates = [
+      this.rowToPriceSample(this.priceSampleBeforeStmt.get(normalized, timestamp)),
+      this.rowToPriceSample(this.priceSampleAfterStmt.get(normalized, timestamp)),
+    ].filter(
+      (sample): sample is PriceSample =>
+        sample !== null &&
+        (maxDistanceSeconds === undefined ||
+          Math.abs(sample.timestamp! - timestamp) <= maxDistanceSeconds)
+    );
+
+    candidates.sort(
+      (a, b) => Math.abs(a.timestamp! - timestamp) - Math.abs(b.timestamp! - timestamp)
+    );
+    return candidates[0] ?? null;
+  }
+
+  getIndexerCheckpoint(
+    chainId: string,
+    signerAddress: string
+  ): IndexerCheckpoint | null {
+    const row = this.prepareCached(`
+      SELECT chain_id, signer_address, cursor, updated_at
+      FROM indexer_checkpoints
+      WHERE chain_id = @chainId AND signer_address = @signerAddress
+    `).get({ chainId, signerAddress }) as
+      | { chain_id: string; signer_address: string; cursor: string; updated_at: number }
+      | undefined;
+
+    return row
+      ? {
+          chainId: row.chain_id,
+          signerAddress: row.signer_address,
+          cursor: row.cursor,
+          updatedAt: row.updated_at,
+        }
+      : null;
+  }
+
+  saveIndexerCheckpoint(checkpoint: IndexerCheckpoint): void {
+    this.prepareCached(`
+      INSERT INTO indexer_checkpoints (chain_id, signer_address, cursor, updated_at)
+      VALUES (@chainId, @signerAddress, @cursor, strftime('%s', 'now'))
+      ON CONFLICT (chain_id, signer_address) DO UPDATE SET
+        cursor = excluded.cursor,
+        updated_at = excluded.updated_at
+    `).run({
+      chainId: checkpoint.chainId,
+      signerAddress: checkpoint.signerAddress,
+      cursor: checkpoint.cursor,
+    });
+  }
+
+  getVolumeBuckets(query: VolumeQuery): VolumeBucketRow[] {
+    const buckets = buildVolumeBuckets(query);
+    if (buckets.length === 0) {
+      return [];
+    }
+
+    const { filters, params } = this.buildFilters(query.signerAddress);
+    const typeFilter = query.transactionType
+      ? " AND transaction_type = @transactionType"
+      : "";
+
+    // Rows are streamed and summed with BigNumber (see parseAmount), only
+    // the groups are held in memory
+    const rows = this.prepareCached(`
+      WITH buckets AS (
+        SELECT
+          json_extract(value, '$[0]') as bucket_start,
+          json_extract(value, '$[1]') as bucket_end
+        FROM json_each(@buckets)
+      )
+      SELECT
+        b.bucket_start as bucketStart,
+        t.chain_id as chainId,
+        CASE WHEN t.input_amount IS NOT NULL THEN t.input_token_denom ELSE t.output_token_denom END as denom,
+        t.timestamp - t.timestamp % 3600 as priceHour,
+        CAST(COALESCE(t.input_amount, t.output_amount) AS TEXT) as amount,
+        CAST(t.value_usd AS TEXT) as valueUsd,
+        t.timestamp as timestamp
+      FROM account_transactions t
+      JOIN buckets b ON t.timestamp >= b.bucket_start AND t.timestamp < b.bucket_end
+      WHERE t.successful = 1
+        AND (t.input_amount IS NOT NULL OR t.output_amount IS NOT NULL)
+        AND t.timestamp >= @rangeStart AND t.timestamp < @rangeEnd
+        ${typeFilter}
+        ${filters}
+    `).iterate({
+      ...params,
+      transactionType: query.transactionType,
+      buckets: JSON.stringify(buckets.map((bucket) => [bucket.start, bucket.end])),
+      rangeStart: buckets[0].start,
+      rangeEnd: buckets[buckets.length - 1].end,
+    }) as IterableIterator<{
+      bucketStart: number;
+      chainId: string;
+      denom: string | null;
+      priceHour: number;
+      amount: string | null;
+      valueUsd: string | null;
+      timestamp: number;
+    }>;
+
+    const groups = new Map<
+      string,
+      Omit<VolumeBucketRow, "storedValueUsd" | "amount"> & {
+        storedValueUsd: BigNumber;
+        amount: BigNumber;
+      }
+    >();
+    for (const row of rows) {
+      const key = `${row.bucketStart}:${row.priceHour}:${row.chainId}:${row.denom}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          bucketStart: row.bucketStart,
+          chainId: row.chainId,
+          denom: row.denom,
+          priceHour: row.priceHour,
+          transactionCount: 0,
+          storedCount: 0,
+          storedValueUsd: new BigNumber(0),
+          amount: new BigNumber(0),
+          lastTimestamp: row.timestamp,
+        };
+        groups.set(key, group);
+      }
+
+      group.transactionCount++;
+      group.lastTimestamp = Math.max(group.lastTimestamp, row.timestamp);
+      const valueUsd = parseAmount(row.valueUsd);
+      if (valueUsd) {
+        group.storedCount++;
+        group.storedValueUsd = group.storedValueUsd.plus(valueUsd);
+      } else {
+        group.amount = group.amount.plus(parseAmount(row.amount) ?? 0);
+      }
+    }
+
+    // Same order as the PostgreSQL query, denoms in byte order and null last
+    const compareDenoms = (a: string | null, b: string | null) =>
+      a === b ? 0 : a === null ? 1 : b === null ? -1 : a < b ? -1 : 1;
+    return [...groups.values()]
+      .sort(
+        (a, b) =>
+          a.bucketStart - b.bucketStart ||
+          a.priceHour - b.priceHour ||
+          (a.chainId < b.chainId ? -1 : a.chainId > b.chainId ? 1 : 0) ||
+          compareDenoms(a.denom, b.denom)
+      )
+      .map((group) => ({
+        ...group,
+        storedValueUsd: group.storedValueUsd.toFixed(),
+        amount: group.amount.toFixed(),
+      }));
   }
 
   close(): void {
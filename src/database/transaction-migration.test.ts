@@ -0,0 +1,159 @@
+import { PrismaClient } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { PostgresTransactionRepository } from "./postgres-transaction-repository";
+import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import { iterateTransactions, migrateTransactions } from "./transaction-migration";
+import { AccountTransaction, TransactionRepository, TransactionType } from "./types";
+
+const SUI = "0x2::sui::SUI";
+const DAY = Date.parse("2025-01-15T00:00:00Z") / 1000;
+
+const swap = (
+  signerAddress: string,
+  txHash: string,
+  timestamp: number,
+  fields: Partial<AccountTransaction> = {}
+): AccountTransaction => ({
+  signerAddress,
+  chainId: "101",
+  transactionType: TransactionType.BOLT_SUI_SWAP,
+  inputAmount: "1000000000",
+  inputTokenDenom: SUI,
+  inputTokenName: "SUI",
+  txHash,
+  successful: true,
+  timestamp,
+  ...fields,
+});
+
+// One bot's history: a stored USD value, a failed transaction and empty
+// strings, which SQLite stores as NULL
+const BOT_A = [
+  swap("0xa", "0xa1", DAY, { valueUsd: "4.25" }),
+  swap("0xa", "0xa2", DAY + 60, { txActionIndex: 1, destinationAddress: "" }),
+  swap("0xa", "0xa3", DAY + 120, { successful: false, error: "MoveAbort", inputAmount: null }),
+];
+const BOT_B = [swap("0xb", "0xb1", DAY + 30), swap("0xb", "0xb2", DAY + 90)];
+
+const openSQLite = (transactions: AccountTransaction[] = []) => {
+  const repository = new SQLiteTransactionRepository(":memory:", undefined, {
+    valueTransactions: false,
+  });
+  repository.addTransactionBatch(transactions);
+  return repository;
+};
+
+const readAll = async (repository: TransactionRepository) => {
+  const transactions: AccountTransaction[] = [];
+  for await (const batch of iterateTransactions(repository, 2)) {
+    transactions.push(...batch);
+  }
+  return transactions;
+};
+
+describe("migrateTransactions", () => {
+  let target: SQLiteTransactionRepository;
+
+  beforeEach(() => {
+    target = openSQLite();
+  });
+
+  afterEach(() => {
+    target.close();
+  });
+
+  it("copies and verifies a source in batches", async () => {
+    const source = openSQLite(BOT_A);
+    const batches: number[] = [];
+
+    const result = await migrateTransactions(source, target, {
+      batchSize: 2,
+      onBatch: (copied) => batches.push(copied),
+    });
+
+    expect(batches).toEqual([2, 3]);
+    expect(result).toMatchObject({ sourceCount: 3, targetCount: 3, verified: true });
+    expect(result.targetChecksum).toBe(result.sourceChecksum);
+    expect(await readAll(target)).toEqual(await readAll(source));
+    source.close();
+  });
+
+  it("can be re-run without duplicating or changing anything", async () => {
+    const source = openSQLite(BOT_A);
+
+    const first = await migrateTransactions(source, target, { batchSize: 2 });
+    const second = await migrateTransactions(source, target, { batchSize: 2 });
+
+    expect(second).toEqual(first);
+    expect(await readAll(target)).toHaveLength(3);
+    source.close();
+  });
+
+  it("merges two sources into one target, verifying each on its own", async () => {
+    const sourceA = openSQLite(BOT_A);
+    const sourceB = openSQLite(BOT_B);
+
+    const resultA = await migrateTransactions(sourceA, target);
+    const resultB = await migrateTransactions(sourceB, target);
+
+    expect([resultA.sourceCount, resultA.verified]).toEqual([3, true]);
+    // The other source's transactions are not counted against this one
+    expect([resultB.sourceCount, resultB.targetCount, resultB.verified]).toEqual([2, 2, true]);
+    expect((await readAll(target)).map((tx) => tx.txHash)).toEqual([
+      "0xa1",
+      "0xa2",
+      "0xa3",
+      "0xb1",
+      "0xb2",
+    ]);
+    sourceA.close();
+    sourceB.close();
+  });
+
+  it("fails verification when the target does not keep a transaction", async () => {
+    const source = openSQLite(BOT_B);
+    const lossy = Object.assign(Object.create(target), {
+      addTransactionBatch: (transactions: AccountTransaction[]) =>
+        target.addTransactionBatch(transactions.slice(1)),
+    }) as TransactionRepository;
+
+    const result = await migrateTransactions(source, lossy);
+
+    expect(result).toMatchObject({ sourceCount: 2, targetCount: 1, verified: false });
+    expect(result.targetChecksum).not.toBe(result.sourceChecksum);
+    source.close();
+  });
+});
+
+// Needs an empty PostgreSQL database with the Prisma schema applied, its
+// account_transactions table is cleared before and after the run
+describe.skipIf(!process.env.TEST_DATABASE_URL)("migrateTransactions across backends", () => {
+  let prisma: PrismaClient;
+
+  beforeEach(async () => {
+    prisma = new PrismaClient({ datasources: { db: { url: process.env.TEST_DATABASE_URL } } });
+    await prisma.accountTransaction.deleteMany();
+  });
+
+  afterEach(async () => {
+    await prisma.accountTransaction.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  it("hashes a transaction the same way in SQLite and PostgreSQL", async () => {
+    const source = openSQLite([...BOT_A, ...BOT_B]);
+    const postgres = new PostgresTransactionRepository(prisma, { valueTransactions: false });
+    const back = openSQLite();
+
+    const toPostgres = await migrateTransactions(source, postgres, { batchSize: 2 });
+    const toSQLite = await migrateTransactions(postgres, back, { batchSize: 2 });
+
+    expect(toPostgres.verified).toBe(true);
+    expect(toSQLite.verified).toBe(true);
+    expect(toSQLite.sourceChecksum).toBe(toPostgres.sourceChecksum);
+    expect(await readAll(back)).toEqual(await readAll(source));
+    source.close();
+    back.close();
+  });
+});
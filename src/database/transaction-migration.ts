@@ -0,0 +1,149 @@
+import { createHash } from "node:crypto";
+
+import { getTransactionPlatform } from "./transaction-platform";
+import type {
+  AccountTransaction,
+  TransactionKey,
+  TransactionRepository,
+} from "./types";
+
+export interface TransactionMigrationOptions {
+  // Transactions read and written per batch (default: 500)
+  batchSize?: number;
+  onBatch?: (copied: number) => void;
+}
+
+export interface TransactionMigrationResult {
+  // Transactions read from the source
+  sourceCount: number;
+  // Source transactions found in the target after copying
+  targetCount: number;
+  // Order independent checksums, hex encoded
+  sourceChecksum: string;
+  targetChecksum: string;
+  verified: boolean;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+const CHECKSUM_MODULUS = 1n << 256n;
+
+// Fields in a fixed order, so both backends hash a transaction the same way.
+// SQLite stores empty optional strings as NULL, they are compared as such,
+// and a missing platform is derived the way both backends store it.
+const canonicalTransaction = (tx: AccountTransaction): string =>
+  JSON.stringify([
+    tx.chainId,
+    tx.txHash,
+    tx.txActionIndex ?? 0,
+    tx.signerAddress,
+    tx.transactionType,
+    getTransactionPlatform(tx),
+    tx.positionId || null,
+    tx.inputAmount || null,
+    tx.inputTokenDenom || null,
+    tx.inputTokenName || null,
+    tx.secondInputAmount || null,
+    tx.secondInputTokenDenom || null,
+    tx.secondInputTokenName || null,
+    tx.outputAmount || null,
+    tx.outputTokenDenom || null,
+    tx.outputTokenName || null,
+    tx.secondOutputAmount || null,
+    tx.secondOutputTokenDenom || null,
+    tx.secondOutputTokenName || null,
+    tx.gasFeeAmount || null,
+    tx.gasFeeTokenDenom || null,
+    tx.gasFeeTokenName || null,
+    tx.destinationAddress || null,
+    tx.destinationChainId || null,
+    tx.successful,
+    tx.error || null,
+    tx.valueUsd || null,
+    tx.timestamp ?? null,
+  ]);
+
+const transactionHash = (tx: AccountTransaction): bigint =>
+  BigInt(`0x${createHash("sha256").update(canonicalTransaction(tx)).digest("hex")}`);
+
+const keyOf = (tx: AccountTransaction): string =>
+  JSON.stringify([tx.chainId, tx.txHash, tx.txActionIndex ?? 0]);
+
+const formatChecksum = (sum: bigint): string => sum.toString(16).padStart(64, "0");
+
+/**
+ * Every transaction of a repository in primary key order, read in batches
+ */
+export async function* iterateTransactions(
+  repository: TransactionRepository,
+  batchSize: number = DEFAULT_BATCH_SIZE
+): AsyncGenerator<AccountTransaction[]> {
+  let after: TransactionKey | null = null;
+  while (true) {
+    const batch = await repository.getTransactionsAfter(after, batchSize);
+    if (batch.length === 0) {
+      return;
+    }
+    yield batch;
+
+    const last = batch[batch.length - 1];
+    after = {
+      chainId: last.chainId,
+      txHash: last.txHash,
+      txActionIndex: last.txActionIndex ?? 0,
+    };
+    if (batch.length < batchSize) {
+      return;
+    }
+  }
+}
+
+/**
+ * Copy every transaction of `source` into `target` with
+ * `addTransactionBatch`, then read the copied transactions back and compare
+ * their count and checksum. Entries already in the target are overwritten,
+ * so a migration can be re-run and several sources merged into one target.
+ * The target should be opened with `valueTransactions: false` to keep the
+ * source's USD values.
+ */
+export async function migrateTransactions(
+  source: TransactionRepository,
+  target: TransactionRepository,
+  options: TransactionMigrationOptions = {}
+): Promise<TransactionMigrationResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(`Invalid batch size: ${batchSize}`);
+  }
+
+  const keys = new Set<string>();
+  let sourceChecksum = 0n;
+  for await (const batch of iterateTransactions(source, batchSize)) {
+    await target.addTransactionBatch(batch);
+    for (const tx of batch) {
+      keys.add(keyOf(tx));
+      sourceChecksum = (sourceChecksum + transactionHash(tx)) % CHECKSUM_MODULUS;
+    }
+    options.onBatch?.(keys.size);
+  }
+
+  // The target may hold other sources' transactions, only the copied ones count
+  let targetCount = 0;
+  let targetChecksum = 0n;
+  for await (const batch of iterateTransactions(target, batchSize)) {
+    for (const tx of batch) {
+      if (!keys.has(keyOf(tx))) {
+        continue;
+      }
+      targetCount++;
+      targetChecksum = (targetChecksum + transactionHash(tx)) % CHECKSUM_MODULUS;
+    }
+  }
+
+  return {
+    sourceCount: keys.size,
+    targetCount,
+    sourceChecksum: formatChecksum(sourceChecksum),
+    targetChecksum: formatChecksum(targetChecksum),
+    verified: targetCount === keys.size && targetChecksum === sourceChecksum,
+  };
+}
@@ -0,0 +1,77 @@
+import {
+  ARCHWAY_MAINNET_CHAIN_INFO,
+  ARCHWAY_TESTNET_CHAIN_INFO,
+  OSMOSIS_MAINNET_CHAIN_INFO,
+  OSMOSIS_TESTNET_CHAIN_INFO,
+  SUI_MAINNET_CHAIN_INFO,
+  SUI_TESTNET_CHAIN_INFO,
+} from "../registry";
+
+import { AccountTransaction, PlatformName, TransactionType } from "./types";
+
+export const SUI_CHAIN_IDS = [SUI_MAINNET_CHAIN_INFO.id, SUI_TESTNET_CHAIN_INFO.id];
+export const ARCHWAY_CHAIN_IDS = [
+  ARCHWAY_MAINNET_CHAIN_INFO.id,
+  ARCHWAY_TESTNET_CHAIN_INFO.id,
+];
+export const OSMOSIS_CHAIN_IDS = [
+  OSMOSIS_MAINNET_CHAIN_INFO.id,
+  OSMOSIS_TESTNET_CHAIN_INFO.id,
+];
+
+/**
+ * Transaction types counted as a platform's volume: swaps for Bolt, position
+ * changes for concentrated liquidity platforms
+ */
+export const PLATFORM_VOLUME_TYPES: Record<PlatformName, TransactionType[]> = {
+  [PlatformName.CETUS]: [
+    TransactionType.CETUS_OPEN_POSITION,
+    TransactionType.CETUS_ADD_LIQUIDITY,
+    TransactionType.CETUS_REMOVE_LIQUIDITY,
+    TransactionType.CETUS_CLOSE_POSITION,
+  ],
+  [PlatformName.BOLT_SUI]: [TransactionType.BOLT_SUI_SWAP],
+  [PlatformName.BOLT_ARCHWAY]: [TransactionType.BOLT_ARCHWAY_SWAP],
+  [PlatformName.OSMOSIS]: [
+    TransactionType.CREATE_POSITION,
+    TransactionType.WITHDRAW_POSITION,
+  ],
+};
+
+export const CETUS_TRANSACTION_TYPES = [
+  ...PLATFORM_VOLUME_TYPES[PlatformName.CETUS],
+  TransactionType.CETUS_COLLECT_FEES,
+  TransactionType.CETUS_COLLECT_REWARDS,
+];
+
+// Transactions whose outputs are LP fees or rewards earned by a position
+export const FEE_TRANSACTION_TYPES = [
+  TransactionType.COLLECT_SPREAD_REWARDS,
+  TransactionType.CETUS_COLLECT_FEES,
+  TransactionType.CETUS_COLLECT_REWARDS,
+];
+
+/**
+ * Platform of a transaction without one, from its type or else the chain it
+ * was made on. Null for chains no platform is tracked on.
+ */
+export function getTransactionPlatform(
+  tx: Pick<AccountTransaction, "chainId" | "transactionType" | "platform">
+): PlatformName | null {
+  if (tx.platform) {
+    return tx.platform;
+  }
+  if (CETUS_TRANSACTION_TYPES.includes(tx.transactionType)) {
+    return PlatformName.CETUS;
+  }
+  if (SUI_CHAIN_IDS.includes(tx.chainId)) {
+    return PlatformName.BOLT_SUI;
+  }
+  if (ARCHWAY_CHAIN_IDS.includes(tx.chainId)) {
+    return PlatformName.BOLT_ARCHWAY;
+  }
+  if (OSMOSIS_CHAIN_IDS.includes(tx.chainId)) {
+    return PlatformName.OSMOSIS;
+  }
+  return null;
+}
@@ -0,0 +1,168 @@
+import BigNumber from "bignumber.js";
+
+import { normalizeDenom, RegistryToken, resolveToken } from "../registry";
+
+import type { AccountTransaction, TransactionRepository } from "./types";
+
+const DEFAULT_MAX_DISTANCE_SECONDS = 12 * 60 * 60;
+
+export interface TransactionValuerOptions {
+  // Samples further than this from the transaction are ignored (default: 12h)
+  maxDistanceSeconds?: number;
+  // Price that holds at any time, e.g. a configured stablecoin peg, used instead of samples
+  fixedPrice?: (denom: string) => BigNumber | null;
+}
+
+export interface TransactionValue {
+  inputUsd: BigNumber | null;
+  outputUsd: BigNumber | null;
+  // Stored value, or the inputs valued (standard for swap volume), falling back to the outputs
+  valueUsd: BigNumber | null;
+  // Denoms missing from the token registry, their amounts cannot be converted
+  unresolvedDenoms: string[];
+}
+
+type PriceOf = (token: RegistryToken) => BigNumber | null;
+
+const INPUT_LEGS = [
+  ["inputAmount", "inputTokenDenom"],
+  ["secondInputAmount", "secondInputTokenDenom"],
+] as const;
+const OUTPUT_LEGS = [
+  ["outputAmount", "outputTokenDenom"],
+  ["secondOutputAmount", "secondOutputTokenDenom"],
+] as const;
+
+/**
+ * Registry tokens of every input and output amount of a transaction, and
+ * the denoms the registry does not know
+ */
+export function getTransactionTokens(tx: AccountTransaction): {
+  tokens: RegistryToken[];
+  unresolvedDenoms: string[];
+} {
+  const tokens: RegistryToken[] = [];
+  const unresolvedDenoms: string[] = [];
+  for (const [amount, denom] of [...INPUT_LEGS, ...OUTPUT_LEGS]) {
+    if (!tx[amount] || !tx[denom]) {
+      continue;
+    }
+    const token = resolveToken(tx[denom]!, tx.chainId);
+    if (token) {
+      tokens.push(token);
+    } else if (!unresolvedDenoms.includes(tx[denom]!)) {
+      unresolvedDenoms.push(tx[denom]!);
+    }
+  }
+  return { tokens, unresolvedDenoms };
+}
+
+/**
+ * Whole-token amount of a base-unit amount recorded on a transaction, null
+ * when the denom is missing from the token registry
+ */
+export function toTokenAmount(
+  amount: string,
+  denom: string,
+  chainId?: string
+): { token: RegistryToken; amount: BigNumber } | null {
+  const token = resolveToken(denom, chainId);
+  return token
+    ? { token, amount: new BigNumber(amount).shiftedBy(-token.decimals) }
+    : null;
+}
+
+const valueLegs = (
+  tx: AccountTransaction,
+  legs: typeof INPUT_LEGS | typeof OUTPUT_LEGS,
+  priceOf: PriceOf
+): BigNumber | null => {
+  let total: BigNumber | null = null;
+  for (const [amount, denom] of legs) {
+    if (!tx[amount]) {
+      continue;
+    }
+    const resolved = tx[denom] ? toTokenAmount(tx[amount]!, tx[denom]!, tx.chainId) : null;
+    const price = resolved ? priceOf(resolved.token) : null;
+    if (!resolved || !price) {
+      return null;
+    }
+    total = (total ?? new BigNumber(0)).plus(resolved.amount.multipliedBy(price));
+  }
+  return total;
+};
+
+/**
+ * USD value of a transaction's inputs and outputs. Amounts are in base
+ * units and converted with the registry token's decimals. A side with any
+ * unresolved or unpriced amount has no value.
+ */
+export function computeTransactionValue(
+  tx: AccountTransaction,
+  priceOf: PriceOf
+): TransactionValue {
+  const inputUsd = valueLegs(tx, INPUT_LEGS, priceOf);
+  const outputUsd = valueLegs(tx, OUTPUT_LEGS, priceOf);
+  return {
+    inputUsd,
+    outputUsd,
+    valueUsd: tx.valueUsd ? new BigNumber(tx.valueUsd) : inputUsd ?? outputUsd,
+    unresolvedDenoms: getTransactionTokens(tx).unresolvedDenoms,
+  };
+}
+
+/**
+ * Values transactions at the stored price sample closest to their timestamp.
+ * A token without a sample close enough is unpriced, current prices are never
+ * applied to past transactions.
+ */
+export class TransactionValuer {
+  private maxDistanceSeconds: number;
+  private fixedPrice: (denom: string) => BigNumber | null;
+  private prices = new Map<string, Promise<BigNumber | null>>();
+
+  constructor(
+    private database: TransactionRepository,
+    options: TransactionValuerOptions = {}
+  ) {
+    this.maxDistanceSeconds =
+      options.maxDistanceSeconds ?? DEFAULT_MAX_DISTANCE_SECONDS;
+    this.fixedPrice = options.fixedPrice ?? (() => null);
+  }
+
+  /**
+   * USD price of `denom` at `timestamp` (Unix seconds)
+   */
+  priceAt(denom: string, timestamp: number): Promise<BigNumber | null> {
+    const fixed = this.fixedPrice(denom);
+    if (fixed) {
+      return Promise.resolve(fixed);
+    }
+
+    const key = `${normalizeDenom(denom)}@${timestamp}`;
+    let price = this.prices.get(key);
+    if (!price) {
+      price = Promise.resolve(
+        this.database.getNearestPriceSample(
+          denom,
+          new Date(timestamp * 1000),
+          this.maxDistanceSeconds
+        )
+      ).then((sample) => (sample ? new BigNumber(sample.priceUsd) : null));
+      this.prices.set(key, price);
+    }
+    return price;
+  }
+
+  async valueTransaction(tx: AccountTransaction): Promise<TransactionValue> {
+    const timestamp = tx.timestamp ?? Math.floor(Date.now() / 1000);
+    const { tokens } = getTransactionTokens(tx);
+    const prices = await Promise.all(
+      tokens.map((token) => this.priceAt(token.denom, timestamp))
+    );
+    const priceByDenom = new Map(
+      tokens.map((token, index) => [token.denom, prices[index]])
+    );
+    return computeTransactionValue(tx, (token) => priceByDenom.get(token.denom) ?? null);
+  }
+}
@@ -1,2 +1,8 @@
 export * from "./transaction-repository";
+export * from "./transaction-query";
 export * from "./queries";
+export * from "./pool-snapshots";
+export * from "./price-history";
+export * from "./indexer-checkpoints";
+export * from "./volume";
+export * from "./profit-and-loss";
@@ -0,0 +1,9 @@
+// Where the indexer stopped in a signer's on-chain history
+export interface IndexerCheckpoint {
+  chainId: string;
+  signerAddress: string;
+  // Sui: digest of the last transaction read, Cosmos: last block height read
+  cursor: string;
+  // Unix timestamp in seconds
+  updatedAt?: number;
+}
@@ -0,0 +1,26 @@
+export interface PoolSnapshot {
+  chain: string;
+  poolId: string;
+  poolName: string;
+  baseDenom: string;
+  baseAmount: string;
+  quoteDenom: string;
+  quoteAmount: string;
+  // USD prices at the time of the snapshot
+  basePriceUsd?: string | null;
+  quotePriceUsd?: string | null;
+  lpFeeRatio?: string | null;
+  protocolFeeRatio?: string | null;
+  unclaimedLpFees?: string | null;
+  unclaimedProtocolFees?: string | null;
+  // Unix timestamp in seconds
+  timestamp?: number;
+}
+
+export interface PoolSnapshotQuery {
+  chain?: string;
+  poolId?: string;
+  startTime?: Date;
+  endTime?: Date;
+  limit?: number;
+}
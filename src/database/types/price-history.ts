@@ -0,0 +1,22 @@
+export interface PriceSample {
+  denom: string;
+  priceUsd: string;
+  // Where the price came from, e.g. "oracle" or "coingecko"
+  source: string;
+  // Unix timestamp in seconds
+  timestamp?: number;
+}
+
+export interface PriceSampleQuery {
+  denom?: string;
+  source?: string;
+  startTime?: Date;
+  endTime?: Date;
+  limit?: number;
+}
+
+export interface TransactionRepositoryOptions {
+  // Store the USD value of each transaction at insert time, priced from the
+  // closest price sample (default: STORE_TRANSACTION_VALUE_USD=true)
+  valueTransactions?: boolean;
+}
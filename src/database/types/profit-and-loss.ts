@@ -0,0 +1,64 @@
+import { TransactionType } from "./transaction-repository";
+
+// How the cost of a disposed amount is taken from the lots of a token
+export type CostBasisMethod = "fifo" | "average";
+
+// Gain or loss of one swap or position close, USD at execution time
+export interface RealizedPnl {
+  txHash: string;
+  txActionIndex: number;
+  chainId: string;
+  transactionType: TransactionType;
+  positionId: string | null;
+  timestamp: number;
+  proceedsUsd: number;
+  costBasisUsd: number;
+  gasFeeUsd: number;
+  // Proceeds minus cost basis and gas fee
+  realizedPnlUsd: number;
+}
+
+// A token still held, valued at the price of ProfitAndLoss.pricedAt
+export interface TokenHolding {
+  tokenName: string;
+  // Whole tokens
+  amount: string;
+  costBasisUsd: number;
+  priceUsd: number | null;
+  valueUsd: number | null;
+  unrealizedPnlUsd: number | null;
+}
+
+// Liquidity position still open, at the cost of the tokens deposited
+// minus what was withdrawn. Its tokens are not valued, the position's
+// share of the pool is not recorded.
+export interface OpenPosition {
+  positionId: string;
+  chainId: string;
+  costBasisUsd: number;
+}
+
+export interface ProfitAndLoss {
+  method: CostBasisMethod;
+  // Swaps and position closes, gas fees included
+  realizedPnlUsd: number;
+  // LP fees and rewards collected, see FEE_TRANSACTION_TYPES
+  feeIncomeUsd: number;
+  // Every gas fee paid, at the cost basis of the tokens spent
+  gasFeesUsd: number;
+  // Token holdings only. Open positions are left out, see openPositions,
+  // and so are holdings without a price.
+  unrealizedPnlUsd: number;
+  // Realized P&L, fee income and unrealized P&L, minus the gas fees of
+  // transactions other than swaps and closes
+  netPnlUsd: number;
+  // Unix seconds the holdings are priced at: the end time when it is in
+  // the past, otherwise the time of the report
+  pricedAt: number;
+  realized: RealizedPnl[];
+  holdings: TokenHolding[];
+  openPositions: OpenPosition[];
+  // Transactions without a price sample, their tokens keep the cost basis
+  // they were exchanged for
+  unvaluedTransactions: number;
+}
@@ -1,17 +1,23 @@
+import type { PriceService } from "../../monitoring/price-service";
+
 import { TransactionRepository } from "./transaction-repository";
 
 export interface DatabaseQueriesConfig {
   database: TransactionRepository;
   osmosisAddress: string;
+  // Current prices for unrealized P&L when the end time is not in the past
+  // (default: a new PriceService)
+  priceService?: Pick<PriceService, "getRegistryTokenPrices">;
 }
 
 export interface MakeDatabaseQueriesParams {
   environment: "mainnet" | "testnet";
 }
 
+// Amounts are exact decimal strings in base units, summed without rounding
 export interface VolumeByToken {
   tokenName: string;
-  totalVolume: number;
+  totalVolume: string;
   totalSwaps?: number;
   totalOperations?: number;
   totalTransfers?: number;
@@ -19,10 +25,37 @@ export interface VolumeByToken {
 
 export interface ProfitabilityByToken {
   tokenName: string;
-  totalSent: number;
-  totalReceived: number;
-  netBalance: number;
+  totalSent: string;
+  totalReceived: string;
+  netBalance: string;
+  roiPercentage: number | null;
+  // Part of totalReceived collected as LP fees or rewards, see FEE_TRANSACTION_TYPES
+  feesEarned: string;
+}
+
+export interface CetusFeesByToken {
+  tokenName: string;
+  totalFees: string;
+  totalRewards: string;
+  totalCollections: number;
+}
+
+// Every transaction valued at the price sample closest to its timestamp
+export interface ProfitabilityUsd {
+  totalSentUsd: number;
+  totalReceivedUsd: number;
+  netBalanceUsd: number;
   roiPercentage: number | null;
+  valuedTransactions: number;
+  // Transactions with an amount that could not be priced, left out of the totals
+  unvaluedTransactions: number;
+}
+
+export interface VolumeUsd {
+  transactionType: string;
+  totalVolumeUsd: number;
+  totalSwaps: number;
+  unvaluedTransactions: number;
 }
 
 export interface TransactionTypeSummary {
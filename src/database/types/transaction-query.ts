@@ -0,0 +1,34 @@
+import {
+  AccountTransaction,
+  PlatformName,
+  TransactionKey,
+  TransactionType,
+} from "./transaction-repository";
+
+// Every set field narrows the query, list fields match any of their values
+export interface TransactionFilter {
+  signerAddress?: string;
+  chainIds?: string[];
+  transactionTypes?: TransactionType[];
+  platforms?: PlatformName[];
+  // Matches the input, second input, output or second output denom
+  tokenDenoms?: string[];
+  successful?: boolean;
+  positionId?: string;
+  txHashPrefix?: string;
+  startTime?: Date;
+  endTime?: Date;
+}
+
+// Position of the last transaction of a page, pages are ordered by
+// timestamp in seconds, tx hash and chain (newest first), then action index
+export interface TransactionCursor extends TransactionKey {
+  // Unix timestamp in seconds
+  timestamp: number;
+}
+
+export interface TransactionPage {
+  transactions: AccountTransaction[];
+  // Pass to the next query for the following page, null on the last page
+  nextCursor: TransactionCursor | null;
+}
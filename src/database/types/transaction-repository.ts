@@ -1,25 +1,51 @@
 import {
   AccountStats,
+  CetusFeesByToken,
   ProfitabilityByToken,
   TransactionTypeSummary,
   VolumeByToken,
 } from "./queries";
+import { PoolSnapshot, PoolSnapshotQuery } from "./pool-snapshots";
+import { PriceSample, PriceSampleQuery } from "./price-history";
+import { IndexerCheckpoint } from "./indexer-checkpoints";
+import {
+  TransactionCursor,
+  TransactionFilter,
+  TransactionPage,
+} from "./transaction-query";
+import { VolumeBucketRow, VolumeQuery } from "./volume";
 
 export enum TransactionType {
   BOLT_ARCHWAY_SWAP = "bolt_archway_swap",
-  BOLT_SUI_SWAP = "bolt_archway_swap",
+  BOLT_SUI_SWAP = "bolt_sui_swap",
   CREATE_POOL = "create_pool",
   COLLECT_SPREAD_REWARDS = "collect_spread_rewards",
   CREATE_POSITION = "create_position",
   WITHDRAW_POSITION = "withdraw_position",
   IBC_TRANSFER = "ibc_transfer",
   WITHDRAW_RECONCILIATION = "withdraw_reconciliation",
+  CETUS_OPEN_POSITION = "cetus_open_position",
+  CETUS_ADD_LIQUIDITY = "cetus_add_liquidity",
+  CETUS_REMOVE_LIQUIDITY = "cetus_remove_liquidity",
+  CETUS_COLLECT_FEES = "cetus_collect_fees",
+  CETUS_COLLECT_REWARDS = "cetus_collect_rewards",
+  CETUS_CLOSE_POSITION = "cetus_close_position",
+}
+
+// Venue a transaction was made on, see getTransactionPlatform
+export enum PlatformName {
+  CETUS = "cetus",
+  BOLT_SUI = "bolt_sui",
+  BOLT_ARCHWAY = "bolt_archway",
+  OSMOSIS = "osmosis",
 }
 
 export interface AccountTransaction {
   signerAddress: string;
   chainId: string;
   transactionType: TransactionType;
+  // Derived from chainId when not set
+  platform?: PlatformName | null;
   positionId?: string | null;
   inputAmount?: string | null;
   inputTokenDenom?: string | null;
@@ -42,9 +68,18 @@ export interface AccountTransaction {
   txActionIndex?: number;
   successful: boolean;
   error?: string | null;
+  // USD value at execution time, see TransactionRepositoryOptions
+  valueUsd?: string | null;
   timestamp?: number;
 }
 
+// Primary key of a transaction entry
+export interface TransactionKey {
+  chainId: string;
+  txHash: string;
+  txActionIndex: number;
+}
+
 // Repository interface for future PostgreSQL migration
 export interface TransactionRepository {
   addTransaction(tx: AccountTransaction): void | Promise<void>;
@@ -64,6 +99,18 @@ export interface TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): AccountTransaction[] | Promise<AccountTransaction[]>;
+  // A page of the transactions matching `filter`, after `cursor` when set
+  queryTransactions(
+    filter: TransactionFilter,
+    cursor?: TransactionCursor | null,
+    limit?: number
+  ): TransactionPage | Promise<TransactionPage>;
+  // Entries in primary key order after `after` (from the start when null),
+  // for reading a whole database
+  getTransactionsAfter(
+    after: TransactionKey | null,
+    limit: number
+  ): AccountTransaction[] | Promise<AccountTransaction[]>;
   getTransactionsByType(
     transactionType: TransactionType,
     signerAddress?: string,
@@ -76,7 +123,9 @@ export interface TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): AccountStats[] | Promise<AccountStats[]>;
-  getArchwayBoltVolume(
+  // Volume of the platform's swap or position transactions, see PLATFORM_VOLUME_TYPES
+  getPlatformVolume(
+    platform: PlatformName,
     signerAddress?: string,
     startTime?: Date,
     endTime?: Date
@@ -86,6 +135,17 @@ export interface TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): VolumeByToken[] | Promise<VolumeByToken[]>;
+  getCetusVolume(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): VolumeByToken[] | Promise<VolumeByToken[]>;
+  // Fees and rewards collected from Cetus positions
+  getCetusFees(
+    signerAddress?: string,
+    startTime?: Date,
+    endTime?: Date
+  ): CetusFeesByToken[] | Promise<CetusFeesByToken[]>;
   getBridgeVolume(
     signerAddress?: string,
     startTime?: Date,
@@ -101,5 +161,35 @@ export interface TransactionRepository {
     startTime?: Date,
     endTime?: Date
   ): TransactionTypeSummary[] | Promise<TransactionTypeSummary[]>;
+  addPoolSnapshotBatch(snapshots: PoolSnapshot[]): void | Promise<void>;
+  getPoolSnapshots(
+    query: PoolSnapshotQuery
+  ): PoolSnapshot[] | Promise<PoolSnapshot[]>;
+  getPoolSnapshotAt(
+    poolId: string,
+    time: Date,
+    chain?: string
+  ): PoolSnapshot | null | Promise<PoolSnapshot | null>;
+  // Samples with the same denom, source and timestamp are stored once
+  addPriceSampleBatch(samples: PriceSample[]): void | Promise<void>;
+  getPriceSamples(
+    query: PriceSampleQuery
+  ): PriceSample[] | Promise<PriceSample[]>;
+  // The sample of `denom` closest to `time`, before or after it
+  getNearestPriceSample(
+    denom: string,
+    time: Date,
+    maxDistanceSeconds?: number
+  ): PriceSample | null | Promise<PriceSample | null>;
+  getIndexerCheckpoint(
+    chainId: string,
+    signerAddress: string
+  ): IndexerCheckpoint | null | Promise<IndexerCheckpoint | null>;
+  saveIndexerCheckpoint(checkpoint: IndexerCheckpoint): void | Promise<void>;
+  // Volume of the range grouped by bucket, token and hour, oldest bucket
+  // first, see aggregateVolume
+  getVolumeBuckets(
+    query: VolumeQuery
+  ): VolumeBucketRow[] | Promise<VolumeBucketRow[]>;
   close(): void | Promise<void>;
 }
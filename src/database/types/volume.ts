@@ -0,0 +1,49 @@
+import { TransactionType } from "./transaction-repository";
+
+export type VolumeBucketSize = "hour" | "day" | "week" | "month";
+
+export interface VolumeQuery {
+  transactionType?: TransactionType;
+  signerAddress?: string;
+  startTime: Date;
+  endTime: Date;
+  bucket: VolumeBucketSize;
+  // IANA time zone the buckets start in, e.g. "Europe/Berlin" (default: UTC)
+  timeZone?: string;
+}
+
+// One bucket of the volume range, Unix timestamps in seconds, end exclusive
+export interface VolumeBucketRange {
+  start: number;
+  end: number;
+}
+
+// Successful transactions of a bucket in one token and one hour. Volume is
+// the input amount (standard for swap volume), falling back to the output
+// amount.
+export interface VolumeBucketRow {
+  bucketStart: number;
+  chainId: string;
+  denom: string | null;
+  // Start of the hour of the transactions, Unix seconds. Transactions
+  // without a stored USD value are priced at the middle of it.
+  priceHour: number;
+  transactionCount: number;
+  // Transactions with a stored USD value, and the sum of those values
+  storedCount: number;
+  storedValueUsd: string;
+  // Base units of the transactions without a stored USD value
+  amount: string;
+  lastTimestamp: number;
+}
+
+// A bucket of volume valued in USD
+export interface VolumeBucketTotal extends VolumeBucketRange {
+  volumeUsd: string;
+  transactionCount: number;
+  // Transactions left out of `volumeUsd` because a token could not be priced
+  unvaluedCount: number;
+  // Denoms missing from the token registry
+  unresolvedDenoms: string[];
+  lastTimestamp: number | null;
+}
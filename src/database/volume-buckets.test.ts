@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { SQLiteTransactionRepository } from "./sqlite-transaction-repository";
+import { AccountTransaction, TransactionType } from "./types";
+import { aggregateVolume } from "./volume-buckets";
+
+const SUI = "0x2::sui::SUI";
+const DAY = Date.parse("2025-01-15T00:00:00Z") / 1000;
+const HOUR = 60 * 60;
+
+const swap = (
+  txHash: string,
+  timestamp: number,
+  inputAmount: string,
+  inputTokenDenom: string = SUI,
+  valueUsd: string | null = null
+): AccountTransaction => ({
+  signerAddress: "0xbot",
+  chainId: "101",
+  transactionType: TransactionType.BOLT_SUI_SWAP,
+  inputAmount,
+  inputTokenDenom,
+  txHash,
+  successful: true,
+  valueUsd,
+  timestamp,
+});
+
+describe("aggregateVolume", () => {
+  let database: SQLiteTransactionRepository;
+
+  beforeEach(() => {
+    database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+    database.addPriceSampleBatch([
+      { denom: SUI, priceUsd: "4", source: "oracle", timestamp: DAY + HOUR },
+      { denom: SUI, priceUsd: "6", source: "oracle", timestamp: DAY + 23 * HOUR },
+    ]);
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it("values every transaction at the price of its own time", async () => {
+    database.addTransactionBatch([
+      // 10 SUI at $4 and 10 SUI at $6, a price at the bucket's average time
+      // would value both at the 12:00 price instead
+      swap("0xmorning", DAY + HOUR, "10000000000"),
+      swap("0xevening", DAY + 23 * HOUR, "10000000000"),
+      swap("0xstored", DAY + 12 * HOUR, "1000000000", SUI, "5.5"),
+      swap("0xunknown", DAY + 13 * HOUR, "42", "0xfeed::coin::COIN"),
+    ]);
+
+    const [bucket] = await aggregateVolume(database, {
+      startTime: new Date(DAY * 1000),
+      endTime: new Date((DAY + 23 * HOUR) * 1000),
+      bucket: "day",
+    });
+
+    expect(bucket).toEqual({
+      start: DAY,
+      end: DAY + 24 * HOUR,
+      volumeUsd: "105.5",
+      transactionCount: 4,
+      unvaluedCount: 1,
+      unresolvedDenoms: ["0xfeed::coin::COIN"],
+      lastTimestamp: DAY + 23 * HOUR,
+    });
+  });
+
+  it("sums the transactions of an hour into one row", () => {
+    database.addTransactionBatch([
+      swap("0xfirst", DAY + HOUR, "1000000000"),
+      swap("0xsecond", DAY + HOUR + 1800, "2500000000"),
+      swap("0xstored", DAY + HOUR + 3599, "1000000000", SUI, "4.25"),
+      swap("0xnext", DAY + 2 * HOUR, "1000000000"),
+    ]);
+
+    expect(
+      database.getVolumeBuckets({
+        startTime: new Date(DAY * 1000),
+        endTime: new Date((DAY + 23 * HOUR) * 1000),
+        bucket: "day",
+      })
+    ).toEqual([
+      {
+        bucketStart: DAY,
+        chainId: "101",
+        denom: SUI,
+        priceHour: DAY + HOUR,
+        transactionCount: 3,
+        storedCount: 1,
+        storedValueUsd: "4.25",
+        amount: "3500000000",
+        lastTimestamp: DAY + HOUR + 3599,
+      },
+      {
+        bucketStart: DAY,
+        chainId: "101",
+        denom: SUI,
+        priceHour: DAY + 2 * HOUR,
+        transactionCount: 1,
+        storedCount: 0,
+        storedValueUsd: "0",
+        amount: "1000000000",
+        lastTimestamp: DAY + 2 * HOUR,
+      },
+    ]);
+  });
+
+  it("counts transactions without a close price sample as unvalued", async () => {
+    database.addTransactionBatch([
+      swap("0xcovered", DAY + HOUR, "1000000000"),
+      swap("0xlate", DAY + 3 * 24 * HOUR, "1000000000"),
+    ]);
+
+    const buckets = await aggregateVolume(database, {
+      startTime: new Date(DAY * 1000),
+      endTime: new Date((DAY + 3 * 24 * HOUR) * 1000),
+      bucket: "day",
+    });
+
+    expect(buckets.map((bucket) => [bucket.volumeUsd, bucket.unvaluedCount])).toEqual([
+      ["4", 0],
+      ["0", 0],
+      ["0", 0],
+      ["0", 1],
+    ]);
+  });
+});
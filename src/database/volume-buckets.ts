@@ -0,0 +1,264 @@
+import BigNumber from "bignumber.js";
+
+import { resolveToken } from "../registry";
+
+import { TransactionValuer } from "./transaction-valuation";
+import type {
+  TransactionRepository,
+  VolumeBucketRange,
+  VolumeBucketSize,
+  VolumeBucketTotal,
+  VolumeQuery,
+} from "./types";
+
+export const VOLUME_BUCKET_SIZES: readonly VolumeBucketSize[] = [
+  "hour",
+  "day",
+  "week",
+  "month",
+];
+
+// Keeps a mistaken range, e.g. hour buckets over years, from building a huge query
+const MAX_VOLUME_BUCKETS = 10_000;
+
+const HALF_HOUR = 30 * 60;
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    } catch {
+      throw new Error(`Invalid time zone: ${timeZone}`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const toWallTime = (ms: number, timeZone: string): WallTime & { minute: number; second: number } => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(new Date(ms))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+/**
+ * UTC time of a wall-clock time in `timeZone`. Wall times skipped by a DST
+ * change resolve to the first valid time after them.
+ */
+const fromWallTime = (wall: WallTime, timeZone: string): number => {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour);
+  let ms = asUtc;
+  // Two passes settle the offset on either side of a DST change
+  for (let pass = 0; pass < 2; pass++) {
+    const actual = toWallTime(ms, timeZone);
+    const offset =
+      Date.UTC(actual.year, actual.month - 1, actual.day, actual.hour, actual.minute, actual.second) - ms;
+    ms = asUtc - offset;
+  }
+  return ms;
+};
+
+const truncate = (wall: WallTime, bucket: VolumeBucketSize): WallTime => {
+  switch (bucket) {
+    case "hour":
+      return wall;
+    case "day":
+      return { ...wall, hour: 0 };
+    case "week": {
+      // Weeks start on Monday
+      const weekday = (new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay() + 6) % 7;
+      return { ...wall, day: wall.day - weekday, hour: 0 };
+    }
+    case "month":
+      return { ...wall, day: 1, hour: 0 };
+  }
+};
+
+const advance = (wall: WallTime, bucket: VolumeBucketSize): WallTime => {
+  switch (bucket) {
+    case "hour":
+      return { ...wall, hour: wall.hour + 1 };
+    case "day":
+      return { ...wall, day: wall.day + 1 };
+    case "week":
+      return { ...wall, day: wall.day + 7 };
+    case "month":
+      return { ...wall, month: wall.month + 1 };
+  }
+};
+
+// Date.UTC rolls overflowing fields over, e.g. day 32 into the next month
+const normalize = (wall: WallTime): WallTime => {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+  };
+};
+
+/**
+ * Start (Unix ms) of the bucket containing `time` in `timeZone`
+ */
+export function getBucketStart(
+  time: Date,
+  bucket: VolumeBucketSize,
+  timeZone: string = "UTC"
+): number {
+  const wall = normalize(truncate(toWallTime(time.getTime(), timeZone), bucket));
+  return fromWallTime(wall, timeZone);
+}
+
+/**
+ * Buckets covering a volume query, oldest first. The first bucket starts at
+ * or before `startTime`, the last one contains `endTime`, and volume is
+ * counted over whole buckets. Buckets follow wall-clock time in the time
+ * zone, so a day spanning a DST change is 23 or 25 hours long.
+ */
+export function buildVolumeBuckets(query: VolumeQuery): VolumeBucketRange[] {
+  const timeZone = query.timeZone ?? "UTC";
+  if (query.endTime.getTime() < query.startTime.getTime()) {
+    throw new Error("Volume range ends before it starts");
+  }
+
+  const buckets: VolumeBucketRange[] = [];
+  let wall = normalize(
+    truncate(toWallTime(query.startTime.getTime(), timeZone), query.bucket)
+  );
+  let start = fromWallTime(wall, timeZone);
+  while (start <= query.endTime.getTime()) {
+    wall = normalize(advance(wall, query.bucket));
+    const end = fromWallTime(wall, timeZone);
+    // A skipped DST hour maps onto the next one, drop the empty bucket
+    if (end > start) {
+      buckets.push({ start: Math.floor(start / 1000), end: Math.floor(end / 1000) });
+    }
+    start = end;
+    if (buckets.length > MAX_VOLUME_BUCKETS) {
+      throw new Error(
+        `Volume range has more than ${MAX_VOLUME_BUCKETS} ${query.bucket} buckets, use a larger bucket`
+      );
+    }
+  }
+  return buckets;
+}
+
+/**
+ * Label of a bucket start in `timeZone`: YYYY-MM-DD for days and weeks (the
+ * Monday), YYYY-MM-DD HH:00 for hours and YYYY-MM for months
+ */
+export function formatBucketLabel(
+  start: number,
+  bucket: VolumeBucketSize,
+  timeZone: string = "UTC"
+): string {
+  const wall = toWallTime(start * 1000, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const date = `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+  switch (bucket) {
+    case "hour":
+      return `${date} ${pad(wall.hour)}:00`;
+    case "month":
+      return `${wall.year}-${pad(wall.month)}`;
+    default:
+      return date;
+  }
+}
+
+/**
+ * Volume of a query in USD per bucket, oldest first, including empty
+ * buckets. The repository sums the transactions by bucket, token and hour
+ * in one query. Stored USD values are counted as they are, the other
+ * amounts are valued at the price closest to the middle of their hour.
+ */
+export async function aggregateVolume(
+  database: TransactionRepository,
+  query: VolumeQuery,
+  valuer: TransactionValuer = new TransactionValuer(database)
+): Promise<VolumeBucketTotal[]> {
+  const buckets = buildVolumeBuckets(query);
+  const rows = await database.getVolumeBuckets(query);
+
+  const totals = new Map(
+    buckets.map((bucket) => [
+      bucket.start,
+      {
+        ...bucket,
+        volumeUsd: new BigNumber(0),
+        transactionCount: 0,
+        unvaluedCount: 0,
+        unresolvedDenoms: [] as string[],
+        lastTimestamp: null as number | null,
+      },
+    ])
+  );
+
+  for (const row of rows) {
+    const total = totals.get(row.bucketStart);
+    if (!total) {
+      continue;
+    }
+
+    total.transactionCount += row.transactionCount;
+    if (row.lastTimestamp > (total.lastTimestamp ?? 0)) {
+      total.lastTimestamp = row.lastTimestamp;
+    }
+    total.volumeUsd = total.volumeUsd.plus(row.storedValueUsd);
+    const unpriced = row.transactionCount - row.storedCount;
+    if (unpriced === 0) {
+      continue;
+    }
+
+    const token = row.denom ? resolveToken(row.denom, row.chainId) : undefined;
+    if (!token) {
+      total.unvaluedCount += unpriced;
+      if (row.denom && !total.unresolvedDenoms.includes(row.denom)) {
+        total.unresolvedDenoms.push(row.denom);
+      }
+      continue;
+    }
+    const price = await valuer.priceAt(token.denom, row.priceHour + HALF_HOUR);
+    if (!price) {
+      total.unvaluedCount += unpriced;
+      continue;
+    }
+    total.volumeUsd = total.volumeUsd.plus(
+      new BigNumber(row.amount).shiftedBy(-token.decimals).multipliedBy(price)
+    );
+  }
+
+  return [...totals.values()].map((total) => ({
+    ...total,
+    volumeUsd: total.volumeUsd.toFixed(),
+  }));
+}
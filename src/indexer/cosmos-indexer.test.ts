@@ -0,0 +1,135 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SQLiteTransactionRepository, TransactionType } from "../database";
+
+import {
+  decodeCosmosTransaction,
+  fixtureCosmosClient,
+  indexCosmosTransactions,
+} from "./cosmos-indexer";
+import { RpcFixture } from "./rpc-fixture";
+
+// An Archway signer's transactions, two per page: a Bolt swap and a failed
+// one in the same block, then an IBC transfer and a failed execute of
+// another contract
+const FIXTURE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/archway-rpc.json"
+);
+
+const SIGNER = "archway1x9dmn2zl5vsvlhsg6jl4ru6tzqjrqfe6jwqjzm";
+const ROUTER = "archway1kwafzqgvthzyqcpm94szxypw7s5v5l7mqfa0jjyh6ukfnmf48x4qk8pv2s";
+const USDC = "ibc/B9E4FD154C92D3A23BEA029906C4C5FF2FE74CB7E3A058290B77197A263CF88B";
+const QUERY = `tx.fee_payer='${SIGNER}'`;
+
+const OPTIONS = {
+  chainId: "archway-1",
+  signerAddress: SIGNER,
+  boltRouterAddresses: [ROUTER],
+  pageSize: 2,
+};
+
+describe("Cosmos indexer", () => {
+  let fixture: RpcFixture;
+  let database: SQLiteTransactionRepository;
+
+  beforeEach(async () => {
+    fixture = await RpcFixture.load(FIXTURE);
+    database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it("decodes message transfers and failed transactions with their fee", async () => {
+    const client = fixtureCosmosClient(fixture);
+    const [page, nextPage] = await Promise.all([
+      client.txSearch(QUERY, 1, 2),
+      client.txSearch(QUERY, 2, 2),
+    ]);
+    const decode = (index: number) =>
+      decodeCosmosTransaction([...page.txs, ...nextPage.txs][index], {
+        ...OPTIONS,
+        timestamp: 1736910006,
+      });
+
+    expect(decode(0)).toEqual([
+      expect.objectContaining({
+        transactionType: TransactionType.BOLT_ARCHWAY_SWAP,
+        inputAmount: "5000000000000000000",
+        inputTokenDenom: "aarch",
+        outputAmount: "98150",
+        outputTokenDenom: USDC,
+        gasFeeAmount: "140000000000000000",
+        gasFeeTokenDenom: "aarch",
+        txActionIndex: 0,
+        successful: true,
+      }),
+    ]);
+    // The fee transfer is not part of the message's events
+    expect(decode(0)[0].secondInputAmount).toBeNull();
+
+    expect(decode(1)).toEqual([
+      expect.objectContaining({
+        transactionType: TransactionType.BOLT_ARCHWAY_SWAP,
+        gasFeeAmount: "140000000000000000",
+        gasFeeTokenDenom: "aarch",
+        txActionIndex: 0,
+        successful: false,
+        error:
+          "failed to execute message; message index: 0: Minimum base out not reached: execute wasm contract failed",
+      }),
+    ]);
+    expect(decode(1)[0].inputAmount).toBeUndefined();
+
+    expect(decode(2)).toEqual([
+      expect.objectContaining({
+        transactionType: TransactionType.IBC_TRANSFER,
+        inputAmount: "25000000",
+        inputTokenDenom: USDC,
+        destinationAddress: "osmo1x9dmn2zl5vsvlhsg6jl4ru6tzqjrqfe6kjj8ur",
+        successful: true,
+      }),
+    ]);
+    // A failed execute of another contract than the router
+    expect(decode(3)).toEqual([]);
+  });
+
+  it("resumes from the block of the checkpoint", async () => {
+    const client = fixtureCosmosClient(fixture);
+    const txSearch = vi.spyOn(client, "txSearch");
+
+    expect(await indexCosmosTransactions(client, database, { ...OPTIONS, maxPages: 1 })).toEqual({
+      pages: 1,
+      transactions: 2,
+      cursor: "4500100",
+    });
+    expect(await database.getIndexerCheckpoint("archway-1", SIGNER)).toMatchObject({
+      cursor: "4500100",
+    });
+
+    // The checkpoint block is read again, its entries are overwritten
+    expect(await indexCosmosTransactions(client, database, OPTIONS)).toEqual({
+      pages: 2,
+      transactions: 3,
+      cursor: "4500400",
+    });
+    expect(txSearch.mock.calls.map(([query, page]) => [query, page])).toEqual([
+      [QUERY, 1],
+      [`${QUERY} AND tx.height>=4500100`, 1],
+      [`${QUERY} AND tx.height>=4500100`, 2],
+    ]);
+
+    const { transactions } = database.queryTransactions({ signerAddress: SIGNER });
+    expect(transactions.map((tx) => [tx.transactionType, tx.successful, tx.timestamp])).toEqual([
+      [TransactionType.IBC_TRANSFER, true, 1736910931],
+      [TransactionType.BOLT_ARCHWAY_SWAP, false, 1736910006],
+      [TransactionType.BOLT_ARCHWAY_SWAP, true, 1736910006],
+    ]);
+  });
+});
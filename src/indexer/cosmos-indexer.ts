@@ -0,0 +1,386 @@
+import { decodeTxRaw } from "@cosmjs/proto-signing";
+import axios from "axios";
+import BigNumber from "bignumber.js";
+import { cosmwasm } from "osmojs";
+
+import {
+  AccountTransaction,
+  TransactionRepository,
+  TransactionType,
+} from "../database";
+import { resolveToken } from "../registry";
+
+import { RpcFixture } from "./rpc-fixture";
+import type { IndexerOptions, IndexerResult } from "./types";
+
+/** ABCI event as returned by CometBFT 0.37+ RPC, attributes in plain text */
+export interface TendermintEvent {
+  type: string;
+  attributes: Array<{ key: string; value: string; index?: boolean }>;
+}
+
+/** One transaction of a `/tx_search` result */
+export interface TendermintTx {
+  hash: string;
+  height: string;
+  index: number;
+  // Base64 encoded TxRaw
+  tx: string;
+  tx_result: {
+    code: number;
+    log: string;
+    events: TendermintEvent[];
+  };
+}
+
+/** Result of the `/tx_search` endpoint */
+export interface TxSearchResult {
+  txs: TendermintTx[];
+  total_count: string;
+}
+
+// The calls the Cosmos indexer makes, a Tendermint RPC or a fixture
+export interface CosmosIndexerClient {
+  txSearch(query: string, page: number, perPage: number): Promise<TxSearchResult>;
+  // Unix timestamp in seconds of a block
+  blockTime(height: number): Promise<number>;
+}
+
+export interface CosmosIndexerOptions extends IndexerOptions {
+  // Bolt router contracts, an execute on one of them is a swap
+  boltRouterAddresses: string[];
+}
+
+export interface CosmosDecodeContext {
+  chainId: string;
+  signerAddress: string;
+  boltRouterAddresses: string[];
+  // Unix timestamp in seconds of the transaction's block
+  timestamp?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const MESSAGE_TRANSACTION_TYPES: Record<string, TransactionType> = {
+  "/ibc.applications.transfer.v1.MsgTransfer": TransactionType.IBC_TRANSFER,
+  "/osmosis.concentratedliquidity.v1beta1.MsgCreatePosition":
+    TransactionType.CREATE_POSITION,
+  "/osmosis.concentratedliquidity.v1beta1.MsgWithdrawPosition":
+    TransactionType.WITHDRAW_POSITION,
+  "/osmosis.concentratedliquidity.v1beta1.MsgCollectSpreadRewards":
+    TransactionType.COLLECT_SPREAD_REWARDS,
+  "/cosmwasm.wasm.v1.MsgExecuteContract": TransactionType.BOLT_ARCHWAY_SWAP,
+};
+
+/**
+ * Transactions and block times from a CometBFT RPC endpoint
+ */
+export class TendermintRpcClient implements CosmosIndexerClient {
+  constructor(private rpcEndpoint: string) {}
+
+  async txSearch(
+    query: string,
+    page: number,
+    perPage: number
+  ): Promise<TxSearchResult> {
+    return this.get<TxSearchResult>("tx_search", {
+      query: JSON.stringify(query),
+      page,
+      per_page: perPage,
+      order_by: JSON.stringify("asc"),
+    });
+  }
+
+  async blockTime(height: number): Promise<number> {
+    const result = await this.get<{ block: { header: { time: string } } }>(
+      "block",
+      { height }
+    );
+    return Math.floor(Date.parse(result.block.header.time) / 1000);
+  }
+
+  private async get<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    const response = await axios.get(`${this.rpcEndpoint.replace(/\/$/, "")}/${method}`, {
+      params,
+      timeout: 30_000,
+    });
+    if (response.data?.error) {
+      throw new Error(
+        `${method} failed: ${response.data.error.data ?? response.data.error.message}`
+      );
+    }
+    return response.data.result as T;
+  }
+}
+
+export const recordingCosmosClient = (
+  client: CosmosIndexerClient,
+  fixture: RpcFixture
+): CosmosIndexerClient => ({
+  txSearch: (query, page, perPage) =>
+    fixture.record("tx_search", { query, page, perPage }, () =>
+      client.txSearch(query, page, perPage)
+    ),
+  blockTime: (height) =>
+    fixture.record("block_time", { height }, () => client.blockTime(height)),
+});
+
+export const fixtureCosmosClient = (fixture: RpcFixture): CosmosIndexerClient => ({
+  txSearch: async (query, page, perPage) =>
+    fixture.replay("tx_search", { query, page, perPage }),
+  blockTime: async (height) => fixture.replay("block_time", { height }),
+});
+
+const getAttribute = (event: TendermintEvent, key: string): string | undefined =>
+  event.attributes.find((attribute) => attribute.key === key)?.value;
+
+const findAttribute = (events: TendermintEvent[], type: string, key: string) =>
+  events
+    .filter((event) => event.type === type)
+    .map((event) => getAttribute(event, key))
+    .find((value) => value !== undefined);
+
+// "100uosmo,25ibc/27394FB..." as [denom, amount] pairs
+const parseCoins = (coins: string): Array<[string, string]> =>
+  coins
+    .split(",")
+    .map((coin) => /^(\d+)(\S+)$/.exec(coin.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => [match[2], match[1]]);
+
+/**
+ * Events of each message of a transaction. Cosmos SDK 0.50 tags message
+ * events with `msg_index`, older versions list them per message in the log.
+ */
+const getMessageEvents = (tx: TendermintTx): TendermintEvent[][] => {
+  const messages: TendermintEvent[][] = [];
+  for (const event of tx.tx_result.events) {
+    const msgIndex = getAttribute(event, "msg_index");
+    if (msgIndex !== undefined) {
+      (messages[Number(msgIndex)] ??= []).push(event);
+    }
+  }
+  if (messages.length > 0) {
+    return Array.from(messages, (events) => events ?? []);
+  }
+
+  try {
+    const logs = JSON.parse(tx.tx_result.log);
+    return Array.isArray(logs)
+      ? logs.map((log: { events?: TendermintEvent[] }) => log.events ?? [])
+      : [];
+  } catch {
+    // Failed transactions log the error instead of their events
+    return [];
+  }
+};
+
+// The signer's coins sent and received by one message, in order of appearance
+const getTransfers = (events: TendermintEvent[], signerAddress: string) => {
+  const sent = new Map<string, BigNumber>();
+  const received = new Map<string, BigNumber>();
+  for (const event of events.filter((event) => event.type === "transfer")) {
+    const amount = getAttribute(event, "amount");
+    const target =
+      getAttribute(event, "sender") === signerAddress
+        ? sent
+        : getAttribute(event, "recipient") === signerAddress
+          ? received
+          : null;
+    if (!amount || !target) {
+      continue;
+    }
+    for (const [denom, value] of parseCoins(amount)) {
+      target.set(denom, (target.get(denom) ?? new BigNumber(0)).plus(value));
+    }
+  }
+
+  const toList = (coins: Map<string, BigNumber>) =>
+    [...coins].map(([denom, value]) => [denom, value.toFixed()] as [string, string]);
+  return { sent: toList(sent), received: toList(received) };
+};
+
+/**
+ * Types of the messages of a transaction, read from its body since a failed
+ * transaction leaves no message events. Executes of other contracts than the
+ * Bolt routers are skipped.
+ */
+const getBodyTransactionTypes = (
+  tx: TendermintTx,
+  boltRouterAddresses: string[]
+): TransactionType[] => {
+  let messages;
+  try {
+    messages = decodeTxRaw(Buffer.from(tx.tx, "base64")).body.messages;
+  } catch {
+    return [];
+  }
+
+  return messages.flatMap((message) => {
+    const transactionType = MESSAGE_TRANSACTION_TYPES[message.typeUrl];
+    if (!transactionType) {
+      return [];
+    }
+    if (transactionType === TransactionType.BOLT_ARCHWAY_SWAP) {
+      const { contract } = cosmwasm.wasm.v1.MsgExecuteContract.decode(message.value);
+      if (!boltRouterAddresses.includes(contract)) {
+        return [];
+      }
+    }
+    return [transactionType];
+  });
+};
+
+/**
+ * Transaction entries of a Cosmos transaction, one per IBC transfer,
+ * Osmosis concentrated liquidity action or Bolt swap message. Other messages
+ * are skipped. A failed transaction moves no coins but its fee, its entries
+ * have no amounts and the error it logged.
+ */
+export function decodeCosmosTransaction(
+  tx: TendermintTx,
+  context: CosmosDecodeContext
+): AccountTransaction[] {
+  const tokenName = (denom: string | null) =>
+    denom ? resolveToken(denom, context.chainId)?.name ?? null : null;
+  const [gasFee] = parseCoins(findAttribute(tx.tx_result.events, "tx", "fee") ?? "");
+
+  if (tx.tx_result.code !== 0) {
+    return getBodyTransactionTypes(tx, context.boltRouterAddresses).map(
+      (transactionType, index) => {
+        const fee = index === 0 ? gasFee : undefined;
+        return {
+          signerAddress: context.signerAddress,
+          chainId: context.chainId,
+          transactionType,
+          gasFeeAmount: fee?.[1] ?? null,
+          gasFeeTokenDenom: fee?.[0] ?? null,
+          gasFeeTokenName: tokenName(fee?.[0] ?? null),
+          txHash: tx.hash,
+          txActionIndex: index,
+          successful: false,
+          error: tx.tx_result.log,
+          timestamp: context.timestamp,
+        };
+      }
+    );
+  }
+
+  const transactions: AccountTransaction[] = [];
+  for (const events of getMessageEvents(tx)) {
+    const action = findAttribute(events, "message", "action");
+    const transactionType = action ? MESSAGE_TRANSACTION_TYPES[action] : undefined;
+    if (!transactionType) {
+      continue;
+    }
+    if (transactionType === TransactionType.BOLT_ARCHWAY_SWAP) {
+      const contract = findAttribute(events, "execute", "_contract_address");
+      if (!contract || !context.boltRouterAddresses.includes(contract)) {
+        continue;
+      }
+    }
+
+    const { sent, received } = getTransfers(events, context.signerAddress);
+    const [input, secondInput] = sent;
+    const [output, secondOutput] = received;
+    const fee = transactions.length === 0 ? gasFee : undefined;
+    const positionId =
+      findAttribute(events, "create_position", "position_id") ??
+      findAttribute(events, "withdraw_position", "position_id") ??
+      findAttribute(events, "collect_spread_rewards", "position_id") ??
+      null;
+
+    transactions.push({
+      signerAddress: context.signerAddress,
+      chainId: context.chainId,
+      transactionType,
+      positionId,
+      inputAmount: input?.[1] ?? null,
+      inputTokenDenom: input?.[0] ?? null,
+      inputTokenName: tokenName(input?.[0] ?? null),
+      secondInputAmount: secondInput?.[1] ?? null,
+      secondInputTokenDenom: secondInput?.[0] ?? null,
+      secondInputTokenName: tokenName(secondInput?.[0] ?? null),
+      outputAmount: output?.[1] ?? null,
+      outputTokenDenom: output?.[0] ?? null,
+      outputTokenName: tokenName(output?.[0] ?? null),
+      secondOutputAmount: secondOutput?.[1] ?? null,
+      secondOutputTokenDenom: secondOutput?.[0] ?? null,
+      secondOutputTokenName: tokenName(secondOutput?.[0] ?? null),
+      gasFeeAmount: fee?.[1] ?? null,
+      gasFeeTokenDenom: fee?.[0] ?? null,
+      gasFeeTokenName: tokenName(fee?.[0] ?? null),
+      destinationAddress:
+        transactionType === TransactionType.IBC_TRANSFER
+          ? findAttribute(events, "ibc_transfer", "receiver") ?? null
+          : null,
+      txHash: tx.hash,
+      txActionIndex: transactions.length,
+      successful: true,
+      timestamp: context.timestamp,
+    });
+  }
+  return transactions;
+}
+
+/**
+ * Index the transactions sent by a Cosmos signer, failed ones included,
+ * oldest first, from the stored checkpoint on. The checkpoint is the last
+ * block height read and is saved after every page; a resumed run reads that
+ * block again, entries already stored are overwritten.
+ */
+export async function indexCosmosTransactions(
+  client: CosmosIndexerClient,
+  database: TransactionRepository,
+  options: CosmosIndexerOptions
+): Promise<IndexerResult> {
+  const { chainId, signerAddress } = options;
+  const checkpoint = options.restart
+    ? null
+    : await database.getIndexerCheckpoint(chainId, signerAddress);
+  const perPage = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  // Fees are charged before the messages run, so unlike message.sender the
+  // fee payer is also tagged on failed transactions
+  const query =
+    `tx.fee_payer='${signerAddress}'` +
+    (checkpoint ? ` AND tx.height>=${Number(checkpoint.cursor)}` : "");
+
+  const result: IndexerResult = { pages: 0, transactions: 0, cursor: checkpoint?.cursor ?? null };
+  const blockTimes = new Map<number, number>();
+  while (options.maxPages === undefined || result.pages < options.maxPages) {
+    const page = await client.txSearch(query, result.pages + 1, perPage);
+
+    const transactions: AccountTransaction[] = [];
+    for (const tx of page.txs) {
+      const height = Number(tx.height);
+      if (!blockTimes.has(height)) {
+        blockTimes.set(height, await client.blockTime(height));
+      }
+      transactions.push(
+        ...decodeCosmosTransaction(tx, {
+          chainId,
+          signerAddress,
+          boltRouterAddresses: options.boltRouterAddresses,
+          timestamp: blockTimes.get(height),
+        })
+      );
+    }
+    if (transactions.length > 0) {
+      await database.addTransactionBatch(transactions);
+    }
+
+    result.pages++;
+    result.transactions += transactions.length;
+    const last = page.txs[page.txs.length - 1];
+    if (last) {
+      result.cursor = last.height;
+      await database.saveIndexerCheckpoint({ chainId, signerAddress, cursor: last.height });
+    }
+    options.onPage?.(result);
+
+    if (page.txs.length === 0 || result.pages * perPage >= Number(page.total_count)) {
+      break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,4 @@
+export * from "./cosmos-indexer";
+export * from "./rpc-fixture";
+export * from "./sui-indexer";
+export * from "./types";
@@ -0,0 +1,72 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  ConfigValidationError,
+  expectRecord,
+  parseJsonConfig,
+} from "../utils";
+
+const callKey = (method: string, params: unknown): string =>
+  `${method} ${JSON.stringify(params)}`;
+
+/**
+ * RPC responses recorded by method and params, so an indexer run can be
+ * replayed without network access
+ */
+export class RpcFixture {
+  private responses: Record<string, unknown>;
+
+  constructor(responses: Record<string, unknown> = {}) {
+    this.responses = responses;
+  }
+
+  static async load(fixturePath: string): Promise<RpcFixture> {
+    const resolvedPath = path.resolve(fixturePath);
+    let contents: string;
+    try {
+      contents = await readFile(resolvedPath, "utf-8");
+    } catch (error) {
+      throw new ConfigValidationError(
+        `Could not read RPC fixture ${resolvedPath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    return new RpcFixture(
+      expectRecord(
+        parseJsonConfig(contents, `RPC fixture ${resolvedPath}`),
+        `RPC fixture ${resolvedPath}`
+      )
+    );
+  }
+
+  async save(fixturePath: string): Promise<void> {
+    await writeFile(
+      fixturePath,
+      JSON.stringify(this.responses, null, 2) + "\n",
+      "utf-8"
+    );
+  }
+
+  // Make the call and record its response
+  async record<T>(
+    method: string,
+    params: unknown,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const response = await call();
+    this.responses[callKey(method, params)] = response;
+    return response;
+  }
+
+  // The recorded response of a call
+  replay<T>(method: string, params: unknown): T {
+    const key = callKey(method, params);
+    if (!(key in this.responses)) {
+      throw new Error(`RPC fixture has no response for ${key}`);
+    }
+    return this.responses[key] as T;
+  }
+}
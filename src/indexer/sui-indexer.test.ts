@@ -0,0 +1,108 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SQLiteTransactionRepository, TransactionType } from "../database";
+
+import { RpcFixture } from "./rpc-fixture";
+import { decodeSuiTransaction, fixtureSuiClient, indexSuiTransactions } from "./sui-indexer";
+
+// Two pages of two transactions: a Bolt swap and a failed one, then a plain
+// transfer and a swap back
+const FIXTURE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/sui-rpc.json"
+);
+
+const SIGNER = "0x8f2a6c0e4b1d9e7f3a5c8b2d6e0f4a7c9b1d3e5f7a9c2b4d6e8f0a1c3e5b7d9f";
+const BOLT_POOL = "0x21167b2e981e2c0a693afcfe882a3a827d663118e19afcb92e45bfe43fe56278";
+const SUI = normalizeStructTag("0x2::sui::SUI");
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+const OPTIONS = { chainId: "101", signerAddress: SIGNER, boltPoolIds: [BOLT_POOL], pageSize: 2 };
+
+describe("Sui indexer", () => {
+  let fixture: RpcFixture;
+  let database: SQLiteTransactionRepository;
+
+  beforeEach(async () => {
+    fixture = await RpcFixture.load(FIXTURE);
+    database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it("decodes swaps from balance changes, gas excluded", async () => {
+    const page = await fixtureSuiClient(fixture).queryTransactionBlocks({
+      filter: { FromAddress: SIGNER },
+      options: { showInput: true, showEffects: true, showEvents: true, showBalanceChanges: true },
+      cursor: null,
+      limit: 2,
+      order: "ascending",
+    });
+    const decode = (response: SuiTransactionBlockResponse) =>
+      decodeSuiTransaction(response, { ...OPTIONS, pools: {} });
+
+    expect(decode(page.data[0])).toEqual([
+      expect.objectContaining({
+        transactionType: TransactionType.BOLT_SUI_SWAP,
+        inputAmount: "2000000000",
+        inputTokenDenom: SUI,
+        inputTokenName: "SUI",
+        outputAmount: "10021400",
+        outputTokenDenom: USDC,
+        outputTokenName: "USDC",
+        // 750000 computation + 2964000 storage - 2934360 rebate
+        gasFeeAmount: "779640",
+        successful: true,
+        error: null,
+        timestamp: 1736910000,
+      }),
+    ]);
+
+    const [failed] = decode(page.data[1]);
+    expect(failed).toMatchObject({
+      transactionType: TransactionType.BOLT_SUI_SWAP,
+      inputAmount: null,
+      outputAmount: null,
+      gasFeeAmount: "759880",
+      successful: false,
+    });
+    expect(failed.error).toMatch(/^MoveAbort/);
+  });
+
+  it("resumes from the checkpoint of an interrupted run", async () => {
+    const client = fixtureSuiClient(fixture);
+    const query = vi.spyOn(client, "queryTransactionBlocks");
+
+    expect(await indexSuiTransactions(client, database, { ...OPTIONS, maxPages: 1 })).toEqual({
+      pages: 1,
+      transactions: 2,
+      cursor: "4HbRt8LmWq2ZxNcV6sPyJd3FgK9uEoT1aYiC5rBn7wMD",
+    });
+    expect(await indexSuiTransactions(client, database, OPTIONS)).toEqual({
+      pages: 1,
+      transactions: 1,
+      cursor: "7PwQz3NcV8sLmRt2XbJd5FgK6uYoT1aEiH9rCn4wMxBv",
+    });
+
+    expect(query.mock.calls.map(([params]) => params.cursor)).toEqual([
+      null,
+      "4HbRt8LmWq2ZxNcV6sPyJd3FgK9uEoT1aYiC5rBn7wMD",
+    ]);
+    const { transactions } = database.queryTransactions({ signerAddress: SIGNER });
+    expect(
+      transactions.map((tx) => [tx.inputTokenName, tx.inputAmount, tx.outputAmount, tx.successful])
+    ).toEqual([
+      ["USDC", "5000000", "996000000", true],
+      [null, null, null, false],
+      ["SUI", "2000000000", "10021400", true],
+    ]);
+  });
+});
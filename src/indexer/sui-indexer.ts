@@ -0,0 +1,248 @@
+import type {
+  SuiClient,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import { normalizeStructTag, normalizeSuiAddress, SUI_TYPE_ARG } from "@mysten/sui/utils";
+import BigNumber from "bignumber.js";
+
+import {
+  AccountTransaction,
+  CetusPoolCoinTypes,
+  fetchCetusPoolCoinTypes,
+  getCetusPoolIds,
+  parseCetusEvents,
+  PlatformName,
+  TransactionRepository,
+  TransactionType,
+} from "../database";
+import { resolveToken } from "../registry";
+
+import { RpcFixture } from "./rpc-fixture";
+import type { IndexerOptions, IndexerResult } from "./types";
+
+// The calls the Sui indexer makes, a SuiClient or a fixture
+export type SuiIndexerClient = Pick<
+  SuiClient,
+  "queryTransactionBlocks" | "multiGetObjects"
+>;
+
+export interface SuiIndexerOptions extends IndexerOptions {
+  // Bolt pool object ids, a transaction using one of them is a swap
+  boltPoolIds: string[];
+}
+
+export interface SuiDecodeContext {
+  chainId: string;
+  signerAddress: string;
+  boltPoolIds: string[];
+  // Coin types of the Cetus pools the transaction's events refer to
+  pools: Record<string, CetusPoolCoinTypes>;
+}
+
+const SUI_DENOM = normalizeStructTag(SUI_TYPE_ARG);
+const DEFAULT_PAGE_SIZE = 50;
+
+export const recordingSuiClient = (
+  client: SuiIndexerClient,
+  fixture: RpcFixture
+): SuiIndexerClient => ({
+  queryTransactionBlocks: (params) =>
+    fixture.record("queryTransactionBlocks", params, () =>
+      client.queryTransactionBlocks(params)
+    ),
+  multiGetObjects: (params) =>
+    fixture.record("multiGetObjects", params, () =>
+      client.multiGetObjects(params)
+    ),
+});
+
+export const fixtureSuiClient = (fixture: RpcFixture): SuiIndexerClient => ({
+  queryTransactionBlocks: async (params) =>
+    fixture.replay("queryTransactionBlocks", params),
+  multiGetObjects: async (params) => fixture.replay("multiGetObjects", params),
+});
+
+const tokenName = (denom: string | null, chainId: string) =>
+  denom ? resolveToken(denom, chainId)?.name ?? null : null;
+
+const getGasFee = (response: SuiTransactionBlockResponse): string | null => {
+  const gasUsed = response.effects?.gasUsed;
+  return gasUsed
+    ? new BigNumber(gasUsed.computationCost)
+        .plus(gasUsed.storageCost)
+        .minus(gasUsed.storageRebate)
+        .toFixed()
+    : null;
+};
+
+const getSharedObjectIds = (response: SuiTransactionBlockResponse): string[] => {
+  const kind = response.transaction?.data.transaction;
+  if (kind?.kind !== "ProgrammableTransaction") {
+    return [];
+  }
+  return kind.inputs.flatMap((input) =>
+    input.type === "object" && input.objectType === "sharedObject"
+      ? [normalizeSuiAddress(input.objectId)]
+      : []
+  );
+};
+
+/**
+ * The signer's coins spent and received in a transaction, gas excluded,
+ * from its balance changes
+ */
+const getSwapAmounts = (
+  response: SuiTransactionBlockResponse,
+  signerAddress: string,
+  gasFee: string | null
+): { spent: Array<[string, string]>; received: Array<[string, string]> } => {
+  const spent: Array<[string, string]> = [];
+  const received: Array<[string, string]> = [];
+  for (const change of response.balanceChanges ?? []) {
+    const owner = change.owner;
+    if (
+      typeof owner !== "object" ||
+      !("AddressOwner" in owner) ||
+      normalizeSuiAddress(owner.AddressOwner) !== signerAddress
+    ) {
+      continue;
+    }
+
+    const denom = normalizeStructTag(change.coinType);
+    let amount = new BigNumber(change.amount);
+    // The SUI balance change includes the gas paid
+    if (denom === SUI_DENOM && gasFee) {
+      amount = amount.plus(gasFee);
+    }
+    if (amount.isNegative()) {
+      spent.push([denom, amount.negated().toFixed()]);
+    } else if (amount.isGreaterThan(0)) {
+      received.push([denom, amount.toFixed()]);
+    }
+  }
+  return { spent, received };
+};
+
+/**
+ * Transaction entries of a Sui transaction: one per Cetus CLMM event, or a
+ * Bolt swap when the transaction uses a Bolt pool. Other transactions
+ * decode to no entries.
+ */
+export function decodeSuiTransaction(
+  response: SuiTransactionBlockResponse,
+  context: SuiDecodeContext
+): AccountTransaction[] {
+  const signerAddress = normalizeSuiAddress(context.signerAddress);
+  const timestamp = response.timestampMs
+    ? Math.floor(Number(response.timestampMs) / 1000)
+    : undefined;
+  const successful = response.effects?.status.status === "success";
+  const gasFeeAmount = getGasFee(response);
+  const gasFee = gasFeeAmount ? { amount: gasFeeAmount, denom: SUI_DENOM } : null;
+
+  const cetusTransactions = parseCetusEvents(response.events ?? [], {
+    signerAddress: context.signerAddress,
+    chainId: context.chainId,
+    txHash: response.digest,
+    timestamp,
+    successful,
+    gasFee,
+    pools: context.pools,
+  });
+  if (cetusTransactions.length > 0) {
+    return cetusTransactions;
+  }
+
+  const boltPoolIds = context.boltPoolIds.map((poolId) => normalizeSuiAddress(poolId));
+  const usesBoltPool = getSharedObjectIds(response).some((objectId) =>
+    boltPoolIds.includes(objectId)
+  );
+  if (!usesBoltPool) {
+    return [];
+  }
+
+  const { spent, received } = getSwapAmounts(response, signerAddress, gasFeeAmount);
+  const [inputDenom, inputAmount] = spent[0] ?? [null, null];
+  const [outputDenom, outputAmount] = received[0] ?? [null, null];
+  return [
+    {
+      signerAddress: context.signerAddress,
+      chainId: context.chainId,
+      transactionType: TransactionType.BOLT_SUI_SWAP,
+      platform: PlatformName.BOLT_SUI,
+      inputAmount,
+      inputTokenDenom: inputDenom,
+      inputTokenName: tokenName(inputDenom, context.chainId),
+      outputAmount,
+      outputTokenDenom: outputDenom,
+      outputTokenName: tokenName(outputDenom, context.chainId),
+      gasFeeAmount,
+      gasFeeTokenDenom: gasFee?.denom ?? null,
+      gasFeeTokenName: tokenName(gasFee?.denom ?? null, context.chainId),
+      txHash: response.digest,
+      txActionIndex: 0,
+      successful,
+      error: successful ? null : response.effects?.status.error ?? null,
+      timestamp,
+    },
+  ];
+}
+
+/**
+ * Index the transactions sent by a Sui signer, oldest first, from the
+ * stored checkpoint on. The checkpoint is saved after every page, so an
+ * interrupted run resumes where it stopped.
+ */
+export async function indexSuiTransactions(
+  client: SuiIndexerClient,
+  database: TransactionRepository,
+  options: SuiIndexerOptions
+): Promise<IndexerResult> {
+  const { chainId, signerAddress } = options;
+  const checkpoint = options.restart
+    ? null
+    : await database.getIndexerCheckpoint(chainId, signerAddress);
+
+  const result: IndexerResult = { pages: 0, transactions: 0, cursor: checkpoint?.cursor ?? null };
+  let hasNextPage = true;
+  while (hasNextPage && (options.maxPages === undefined || result.pages < options.maxPages)) {
+    const page = await client.queryTransactionBlocks({
+      filter: { FromAddress: signerAddress },
+      options: {
+        showInput: true,
+        showEffects: true,
+        showEvents: true,
+        showBalanceChanges: true,
+      },
+      cursor: result.cursor,
+      limit: options.pageSize ?? DEFAULT_PAGE_SIZE,
+      order: "ascending",
+    });
+
+    const pools = await fetchCetusPoolCoinTypes(
+      client,
+      getCetusPoolIds(page.data.flatMap((response) => response.events ?? []))
+    );
+    const transactions = page.data.flatMap((response) =>
+      decodeSuiTransaction(response, {
+        chainId,
+        signerAddress,
+        boltPoolIds: options.boltPoolIds,
+        pools,
+      })
+    );
+    if (transactions.length > 0) {
+      await database.addTransactionBatch(transactions);
+    }
+
+    result.pages++;
+    result.transactions += transactions.length;
+    if (page.nextCursor) {
+      result.cursor = page.nextCursor;
+      await database.saveIndexerCheckpoint({ chainId, signerAddress, cursor: page.nextCursor });
+    }
+    options.onPage?.(result);
+    hasNextPage = page.hasNextPage;
+  }
+  return result;
+}
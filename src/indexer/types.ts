@@ -0,0 +1,19 @@
+export interface IndexerOptions {
+  chainId: string;
+  signerAddress: string;
+  // Transactions per RPC page (default: 50)
+  pageSize?: number;
+  // Stop after this many pages, the next run continues from the checkpoint
+  maxPages?: number;
+  // Ignore the stored checkpoint and start from the signer's first transaction
+  restart?: boolean;
+  onPage?: (result: IndexerResult) => void;
+}
+
+export interface IndexerResult {
+  pages: number;
+  // Transaction entries written
+  transactions: number;
+  // Checkpoint the next run starts from
+  cursor: string | null;
+}
@@ -0,0 +1,310 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { DashboardConfig } from "../dashboard-config";
+import {
+  ConfigValidationError,
+  expectArray,
+  expectNumber,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalNumber,
+  optionalString,
+  parseJsonConfig,
+} from "../../utils";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+interface AlertRuleBase {
+  /** Unique rule name, shown in notifications */
+  name: string;
+  severity: AlertSeverity;
+  /** Overrides the config-wide cooldown */
+  cooldownMinutes?: number;
+}
+
+/** A pool balance crosses a fixed threshold */
+export interface BalanceAlertRule extends AlertRuleBase {
+  type: "balance";
+  chain: "sui" | "archway";
+  pool: string;
+  side: "base" | "quote";
+  /** Archway pools hold several quote tokens, pick one (default: all) */
+  token?: string;
+  /** Compare the USD value or the token amount */
+  unit: "usd" | "amount";
+  below?: number;
+  above?: number;
+}
+
+/** A Sui pool balance moves by more than `percent` between two snapshots */
+export interface ChangeAlertRule extends AlertRuleBase {
+  type: "change";
+  /** Default: every configured Sui pool */
+  pool?: string;
+  side: "base" | "quote" | "total";
+  percent: number;
+  direction: "down" | "up" | "any";
+}
+
+/** The prices reported for one token by different sources drift apart */
+export interface PriceDivergenceAlertRule extends AlertRuleBase {
+  type: "price_divergence";
+  token: string;
+  percent: number;
+}
+
+/** A bot has not swapped for `hours` */
+export interface NoVolumeAlertRule extends AlertRuleBase {
+  type: "no_volume";
+  chain?: "sui" | "archway";
+  /** Bot registry name, or the Sui signer address (default: every bot) */
+  bot?: string;
+  hours: number;
+}
+
+export type AlertRule =
+  | BalanceAlertRule
+  | ChangeAlertRule
+  | PriceDivergenceAlertRule
+  | NoVolumeAlertRule;
+
+export type AlertNotifierConfig =
+  | { type: "stdout" }
+  /** POSTs every alert event as JSON */
+  | { type: "webhook"; url: string; headers?: Record<string, string> }
+  /** Slack-compatible incoming webhook, POSTs `{ text }` */
+  | { type: "slack"; url: string }
+  | { type: "telegram"; botToken: string; chatId: string; apiUrl?: string };
+
+export interface AlertConfig {
+  /** Minimum time between repeated notifications of a firing alert */
+  cooldownMinutes: number;
+  notifiers: AlertNotifierConfig[];
+  rules: AlertRule[];
+}
+
+const DEFAULT_COOLDOWN_MINUTES = 30;
+
+/** The 5 UTC day volume window always covers at least the last 4 days */
+export const MAX_NO_VOLUME_HOURS = 4 * 24;
+
+const SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+const RULE_TYPES: AlertRule["type"][] = [
+  "balance",
+  "change",
+  "price_divergence",
+  "no_volume",
+];
+const NOTIFIER_TYPES: AlertNotifierConfig["type"][] = [
+  "stdout",
+  "webhook",
+  "slack",
+  "telegram",
+];
+const CHAINS = ["sui", "archway"] as const;
+
+const parseRule = (value: unknown, at: string): AlertRule => {
+  const raw = expectRecord(value, at);
+  const type = expectOneOf(raw.type, `${at}.type`, RULE_TYPES);
+  const base: AlertRuleBase = {
+    name: expectString(raw.name, `${at}.name`),
+    severity:
+      raw.severity === undefined
+        ? "warning"
+        : expectOneOf(raw.severity, `${at}.severity`, SEVERITIES),
+    cooldownMinutes: optionalNumber(raw.cooldownMinutes, `${at}.cooldownMinutes`, {
+      min: 0,
+    }),
+  };
+
+  switch (type) {
+    case "balance": {
+      const below = optionalNumber(raw.below, `${at}.below`);
+      const above = optionalNumber(raw.above, `${at}.above`);
+      if (below === undefined && above === undefined) {
+        throw new ConfigValidationError(`${at} needs below or above`);
+      }
+      return {
+        ...base,
+        type,
+        chain: expectOneOf(raw.chain ?? "sui", `${at}.chain`, CHAINS),
+        pool: expectString(raw.pool, `${at}.pool`),
+        side: expectOneOf(raw.side, `${at}.side`, ["base", "quote"] as const),
+        token: optionalString(raw.token, `${at}.token`),
+        unit: expectOneOf(raw.unit ?? "usd", `${at}.unit`, ["usd", "amount"] as const),
+        below,
+        above,
+      };
+    }
+    case "change":
+      return {
+        ...base,
+        type,
+        pool: optionalString(raw.pool, `${at}.pool`),
+        side: expectOneOf(raw.side ?? "total", `${at}.side`, [
+          "base",
+          "quote",
+          "total",
+        ] as const),
+        percent: expectNumber(raw.percent, `${at}.percent`, { min: 0 }),
+        direction: expectOneOf(raw.direction ?? "down", `${at}.direction`, [
+          "down",
+          "up",
+          "any",
+        ] as const),
+      };
+    case "price_divergence":
+      return {
+        ...base,
+        type,
+        token: expectString(raw.token, `${at}.token`),
+        percent: expectNumber(raw.percent, `${at}.percent`, { min: 0 }),
+      };
+    case "no_volume":
+      return {
+        ...base,
+        type,
+        chain:
+          raw.chain === undefined
+            ? undefined
+            : expectOneOf(raw.chain, `${at}.chain`, CHAINS),
+        bot: optionalString(raw.bot, `${at}.bot`),
+        hours: expectNumber(raw.hours, `${at}.hours`, {
+          min: 1,
+          max: MAX_NO_VOLUME_HOURS,
+        }),
+      };
+  }
+};
+
+const parseNotifier = (value: unknown, at: string): AlertNotifierConfig => {
+  const raw = expectRecord(value, at);
+  const type = expectOneOf(raw.type, `${at}.type`, NOTIFIER_TYPES);
+
+  switch (type) {
+    case "stdout":
+      return { type };
+    case "webhook": {
+      const headers =
+        raw.headers === undefined
+          ? undefined
+          : Object.fromEntries(
+              Object.entries(expectRecord(raw.headers, `${at}.headers`)).map(
+                ([name, header]) => [
+                  name,
+                  expectString(header, `${at}.headers.${name}`),
+                ]
+              )
+            );
+      return { type, url: expectString(raw.url, `${at}.url`), headers };
+    }
+    case "slack":
+      return { type, url: expectString(raw.url, `${at}.url`) };
+    case "telegram":
+      return {
+        type,
+        botToken: expectString(raw.botToken, `${at}.botToken`),
+        chatId: expectString(raw.chatId, `${at}.chatId`),
+        apiUrl: optionalString(raw.apiUrl, `${at}.apiUrl`),
+      };
+  }
+};
+
+/**
+ * Validate a raw (parsed JSON) alert config
+ *
+ * @throws ConfigValidationError describing the first invalid field
+ */
+export const parseAlertConfig = (value: unknown): AlertConfig => {
+  const raw = expectRecord(value, "alerts");
+
+  const rules = expectArray(raw.rules, "rules").map((rule, index) =>
+    parseRule(rule, `rules[${index}]`)
+  );
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.name)) {
+      throw new ConfigValidationError(
+        `rules declares ${rule.name} more than once`
+      );
+    }
+    seen.add(rule.name);
+  }
+
+  return {
+    cooldownMinutes:
+      optionalNumber(raw.cooldownMinutes, "cooldownMinutes", { min: 0 }) ??
+      DEFAULT_COOLDOWN_MINUTES,
+    notifiers:
+      raw.notifiers === undefined
+        ? [{ type: "stdout" }]
+        : expectArray(raw.notifiers, "notifiers").map((notifier, index) =>
+            parseNotifier(notifier, `notifiers[${index}]`)
+          ),
+    rules,
+  };
+};
+
+/**
+ * Load the alert config from `configPath`, else from the file at the
+ * `ALERT_RULES_PATH` environment variable. Returns null when neither is set.
+ */
+export const loadAlertConfig = async (
+  configPath?: string
+): Promise<AlertConfig | null> => {
+  const filePath = configPath || process.env.ALERT_RULES_PATH;
+  if (!filePath) {
+    return null;
+  }
+
+  const resolvedPath = path.resolve(filePath);
+  let contents: string;
+  try {
+    contents = await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    throw new ConfigValidationError(
+      `Could not read alert rules ${resolvedPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  try {
+    return parseAlertConfig(
+      parseJsonConfig(contents, `Alert rules ${resolvedPath}`)
+    );
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      throw new ConfigValidationError(`${resolvedPath}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Check that every pool an alert rule names exists in the dashboard config
+ *
+ * @throws ConfigValidationError naming the first unknown pool
+ */
+export const checkAlertRulePools = (
+  alerts: AlertConfig,
+  dashboard: DashboardConfig
+): void => {
+  alerts.rules.forEach((rule, index) => {
+    if (rule.type !== "balance" && rule.type !== "change") {
+      return;
+    }
+    if (rule.pool === undefined) {
+      return;
+    }
+
+    const chain = rule.type === "balance" ? rule.chain : "sui";
+    if (!dashboard[chain].pools.some((pool) => pool.name === rule.pool)) {
+      throw new ConfigValidationError(
+        `rules[${index}].pool references unknown ${chain} pool ${rule.pool}`
+      );
+    }
+  });
+};
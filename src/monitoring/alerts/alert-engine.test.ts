@@ -0,0 +1,154 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { DashboardSnapshot } from "../dashboard-snapshot";
+import { FIXTURE_SNAPSHOT, FIXTURE_TIME } from "../dashboard-renderers/snapshot.fixture";
+
+import { parseAlertConfig } from "./alert-config";
+import { AlertEngine } from "./alert-engine";
+
+interface ReceivedRequest {
+  url: string;
+  body: unknown;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const withArchway = (
+  archway: Partial<DashboardSnapshot["archway"]>
+): DashboardSnapshot => ({
+  ...FIXTURE_SNAPSHOT,
+  archway: { ...FIXTURE_SNAPSHOT.archway, ...archway },
+});
+
+const withArchBaseUsd = (usdValue: number): DashboardSnapshot =>
+  withArchway({
+    monitoring: {
+      ...FIXTURE_SNAPSHOT.archway.monitoring!,
+      baseBalances: FIXTURE_SNAPSHOT.archway.monitoring!.baseBalances.map((balance) =>
+        balance.name === "ARCH" ? { ...balance, usdValue } : balance
+      ),
+    },
+  });
+
+describe("AlertEngine", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[] = [];
+  let failWith: number | null = null;
+
+  beforeAll(async () => {
+    // Stands in for the webhook, Slack and Telegram endpoints
+    server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ url: request.url ?? "", body: JSON.parse(body) });
+        response.writeHead(failWith ?? 200, { "Content-Type": "application/json" });
+        response.end("{}");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    received = [];
+    failWith = null;
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createEngine = (rules: unknown[]) =>
+    new AlertEngine(
+      parseAlertConfig({
+        notifiers: [
+          { type: "webhook", url: `${baseUrl}/hook`, headers: { "X-Token": "secret" } },
+          { type: "slack", url: `${baseUrl}/slack` },
+          { type: "telegram", botToken: "123:abc", chatId: "-100", apiUrl: baseUrl },
+        ],
+        rules,
+      })
+    );
+
+  const archBalanceRule = {
+    name: "arch-base-low",
+    type: "balance",
+    chain: "archway",
+    pool: "ARCH",
+    side: "base",
+    below: 5000,
+    severity: "critical",
+  };
+
+  it("delivers firing and resolved events to every notifier", async () => {
+    const engine = createEngine([archBalanceRule]);
+
+    const firing = await engine.evaluate(FIXTURE_SNAPSHOT, FIXTURE_TIME);
+    expect(firing).toHaveLength(1);
+    const byUrl = Object.fromEntries(received.map((request) => [request.url, request.body]));
+    expect(byUrl["/hook"]).toEqual({
+      rule: "arch-base-low",
+      key: "archway:ARCH:base:ARCH",
+      severity: "critical",
+      status: "firing",
+      message: "ARCH pool base ARCH is $3230.10, below $5000.00",
+      value: 3230.1,
+      threshold: 5000,
+      timestamp: FIXTURE_TIME,
+    });
+    const text = "🚨 CRITICAL arch-base-low: ARCH pool base ARCH is $3230.10, below $5000.00";
+    expect(byUrl["/slack"]).toEqual({ text });
+    expect(byUrl["/bot123:abc/sendMessage"]).toMatchObject({ chat_id: "-100", text });
+
+    received = [];
+    const resolved = await engine.evaluate(withArchBaseUsd(6000), FIXTURE_TIME + 60_000);
+    expect(resolved.map((event) => event.status)).toEqual(["resolved"]);
+    expect(received.map((request) => request.url).sort()).toEqual([
+      "/bot123:abc/sendMessage",
+      "/hook",
+      "/slack",
+    ]);
+  });
+
+  it("keeps an alert active while its subject is missing from the snapshot", async () => {
+    const engine = createEngine([archBalanceRule]);
+    await engine.evaluate(FIXTURE_SNAPSHOT, FIXTURE_TIME);
+
+    // Archway unreachable: neither resolved nor repeated
+    expect(await engine.evaluate(withArchway({ monitoring: null }), FIXTURE_TIME + 60_000)).toEqual([]);
+
+    const resolved = await engine.evaluate(withArchBaseUsd(6000), FIXTURE_TIME + 120_000);
+    expect(resolved.map((event) => [event.key, event.status])).toEqual([
+      ["archway:ARCH:base:ARCH", "resolved"],
+    ]);
+  });
+
+  it("does not resolve the idle alert of a bot that became unreadable", async () => {
+    const engine = createEngine([
+      { name: "arch-idle", type: "no_volume", chain: "archway", bot: "arch-usdc", hours: 1 },
+    ]);
+    const now = FIXTURE_TIME + 2 * HOUR_MS;
+
+    expect((await engine.evaluate(FIXTURE_SNAPSHOT, now)).map((event) => event.status)).toEqual([
+      "firing",
+    ]);
+    expect(await engine.evaluate(withArchway({ botActivity: [] }), now + 60_000)).toEqual([]);
+  });
+
+  it("logs delivery failures without throwing", async () => {
+    failWith = 500;
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const engine = createEngine([archBalanceRule]);
+
+    expect(await engine.evaluate(FIXTURE_SNAPSHOT, FIXTURE_TIME)).toHaveLength(1);
+    expect(received).toHaveLength(3);
+    expect(warn).toHaveBeenCalledWith(
+      "⚠️  Failed to deliver alert arch-base-low via webhook: Request failed with status code 500"
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { DashboardSnapshot } from "../dashboard-snapshot";
+
+import { AlertConfig, AlertRule } from "./alert-config";
+import {
+  AlertEvent,
+  AlertNotifier,
+  createAlertNotifier,
+} from "./alert-notifiers";
+import { evaluateAlertRule } from "./alert-rules";
+
+const MINUTE_MS = 60 * 1000;
+
+interface ActiveAlert {
+  lastNotifiedAt: number;
+  threshold: number;
+}
+
+/**
+ * Evaluates the alert rules against every dashboard snapshot and delivers
+ * the resulting events. An alert is sent when its condition starts, repeated
+ * once per cooldown while it holds, and resolved once when it clears.
+ */
+export class AlertEngine {
+  private rules: AlertRule[];
+  private notifiers: AlertNotifier[];
+  private cooldownMs: number;
+
+  /** Firing alerts by rule name, then by subject key */
+  private active = new Map<string, Map<string, ActiveAlert>>();
+
+  constructor(config: AlertConfig, notifiers?: AlertNotifier[]) {
+    this.rules = config.rules;
+    this.notifiers = notifiers ?? config.notifiers.map(createAlertNotifier);
+    this.cooldownMs = config.cooldownMinutes * MINUTE_MS;
+  }
+
+  /**
+   * Evaluate every rule and notify. Delivery failures are logged, not thrown.
+   *
+   * @returns the events that were sent
+   */
+  async evaluate(
+    snapshot: DashboardSnapshot,
+    now: number = Date.now()
+  ): Promise<AlertEvent[]> {
+    const events: AlertEvent[] = [];
+
+    for (const rule of this.rules) {
+      const cooldownMs =
+        rule.cooldownMinutes !== undefined
+          ? rule.cooldownMinutes * MINUTE_MS
+          : this.cooldownMs;
+      const { conditions, observed } = evaluateAlertRule(rule, snapshot, now);
+      const firingKeys = new Set(conditions.map((condition) => condition.key));
+      const observedKeys = new Set(observed);
+
+      let ruleAlerts = this.active.get(rule.name);
+      if (!ruleAlerts) {
+        ruleAlerts = new Map();
+        this.active.set(rule.name, ruleAlerts);
+      }
+
+      for (const condition of conditions) {
+        const active = ruleAlerts.get(condition.key);
+        if (active && now - active.lastNotifiedAt < cooldownMs) {
+          continue;
+        }
+        ruleAlerts.set(condition.key, {
+          lastNotifiedAt: now,
+          threshold: condition.threshold,
+        });
+        events.push({
+          rule: rule.name,
+          key: condition.key,
+          severity: rule.severity,
+          status: "firing",
+          message: condition.message,
+          value: condition.value,
+          threshold: condition.threshold,
+          timestamp: now,
+        });
+      }
+
+      // Resolve this rule's alerts whose condition no longer holds. An alert
+      // whose subject is missing from the snapshot stays active until the
+      // subject is seen again.
+      for (const [key, active] of [...ruleAlerts]) {
+        if (firingKeys.has(key) || !observedKeys.has(key)) {
+          continue;
+        }
+        ruleAlerts.delete(key);
+        events.push({
+          rule: rule.name,
+          key,
+          severity: rule.severity,
+          status: "resolved",
+          message: `${key} is back within limits`,
+          value: null,
+          threshold: active.threshold,
+          timestamp: now,
+        });
+      }
+    }
+
+    await Promise.all(events.map((event) => this.deliver(event)));
+    return events;
+  }
+
+  private async deliver(event: AlertEvent): Promise<void> {
+    const results = await Promise.allSettled(
+      this.notifiers.map((notifier) => notifier.notify(event))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.warn(
+          `⚠️  Failed to deliver alert ${event.rule} via ${this.notifiers[index].name}: ${
+            result.reason instanceof Error ? result.reason.message : String(result.reason)
+          }`
+        );
+      }
+    });
+  }
+}
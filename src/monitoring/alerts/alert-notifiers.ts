@@ -0,0 +1,130 @@
+import axios from "axios";
+
+import { resolveEnvReference } from "../../utils";
+
+import { AlertNotifierConfig, AlertSeverity } from "./alert-config";
+
+export interface AlertEvent {
+  rule: string;
+  /** Subject of the alert, see AlertCondition.key */
+  key: string;
+  severity: AlertSeverity;
+  /** `firing` is re-sent after the cooldown while the condition holds */
+  status: "firing" | "resolved";
+  message: string;
+  value: number | null;
+  threshold: number;
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+}
+
+export interface AlertNotifier {
+  readonly name: string;
+  notify(event: AlertEvent): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  critical: "🚨",
+};
+
+/**
+ * One-line human readable form of an alert event
+ */
+export function formatAlertEvent(event: AlertEvent): string {
+  if (event.status === "resolved") {
+    return `✅ RESOLVED ${event.rule}: ${event.message}`;
+  }
+  return `${SEVERITY_ICONS[event.severity]} ${event.severity.toUpperCase()} ${event.rule}: ${event.message}`;
+}
+
+export class StdoutNotifier implements AlertNotifier {
+  readonly name = "stdout";
+
+  async notify(event: AlertEvent): Promise<void> {
+    console.log(formatAlertEvent(event));
+  }
+}
+
+/**
+ * POSTs the alert event as JSON
+ */
+export class WebhookNotifier implements AlertNotifier {
+  readonly name = "webhook";
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {}
+  ) {}
+
+  async notify(event: AlertEvent): Promise<void> {
+    await axios.post(resolveEnvReference(this.url), event, {
+      headers: Object.fromEntries(
+        Object.entries(this.headers).map(([name, value]) => [
+          name,
+          resolveEnvReference(value),
+        ])
+      ),
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+}
+
+/**
+ * Slack-compatible incoming webhook (also accepted by Mattermost and Discord's /slack endpoint)
+ */
+export class SlackNotifier implements AlertNotifier {
+  readonly name = "slack";
+
+  constructor(private url: string) {}
+
+  async notify(event: AlertEvent): Promise<void> {
+    await axios.post(
+      resolveEnvReference(this.url),
+      { text: formatAlertEvent(event) },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+  }
+}
+
+/**
+ * Sends the alert through the Telegram Bot API `sendMessage` method
+ */
+export class TelegramNotifier implements AlertNotifier {
+  readonly name = "telegram";
+
+  constructor(
+    private botToken: string,
+    private chatId: string,
+    private apiUrl: string = "https://api.telegram.org"
+  ) {}
+
+  async notify(event: AlertEvent): Promise<void> {
+    const botToken = resolveEnvReference(this.botToken);
+    await axios.post(
+      `${this.apiUrl.replace(/\/$/, "")}/bot${botToken}/sendMessage`,
+      {
+        chat_id: resolveEnvReference(this.chatId),
+        text: formatAlertEvent(event),
+        disable_web_page_preview: true,
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+  }
+}
+
+export function createAlertNotifier(config: AlertNotifierConfig): AlertNotifier {
+  switch (config.type) {
+    case "stdout":
+      return new StdoutNotifier();
+    case "webhook":
+      return new WebhookNotifier(config.url, config.headers);
+    case "slack":
+      return new SlackNotifier(config.url);
+    case "telegram":
+      return new TelegramNotifier(config.botToken, config.chatId, config.apiUrl);
+  }
+}
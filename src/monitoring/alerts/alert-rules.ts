@@ -0,0 +1,292 @@
+import BigNumber from "bignumber.js";
+
+import { DailyVolume, DashboardSnapshot } from "../dashboard-snapshot";
+import {
+  formatComparison,
+  formatTokenAmount,
+  formatUSD,
+} from "../dashboard-renderers/format";
+
+import {
+  AlertRule,
+  BalanceAlertRule,
+  ChangeAlertRule,
+  NoVolumeAlertRule,
+  PriceDivergenceAlertRule,
+} from "./alert-config";
+
+/**
+ * One subject (pool side, token or bot) currently violating a rule
+ */
+export interface AlertCondition {
+  /** Identifies the subject across evaluations, unique per rule */
+  key: string;
+  message: string;
+  /** Observed value, null when there is none (e.g. no swap in the window) */
+  value: number | null;
+  threshold: number;
+}
+
+/**
+ * Result of a rule against one snapshot
+ */
+export interface AlertEvaluation {
+  /** Violating subjects */
+  conditions: AlertCondition[];
+  /**
+   * Keys of every subject the snapshot had data for, violating or not. A
+   * subject missing from the snapshot (unreachable chain, unreadable bot,
+   * no comparison) can neither start nor resolve an alert.
+   */
+  observed: string[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const evaluateBalance = (
+  rule: BalanceAlertRule,
+  snapshot: DashboardSnapshot
+): AlertEvaluation => {
+  const balances: Array<{ token: string; amount: BigNumber; usd: BigNumber }> = [];
+
+  if (rule.chain === "sui") {
+    const pool = snapshot.sui.pools.find((item) => item.name === rule.pool);
+    if (pool) {
+      balances.push(
+        rule.side === "base"
+          ? { token: pool.baseToken, amount: pool.current.base, usd: pool.current.baseUsd }
+          : { token: pool.quoteToken, amount: pool.current.quote, usd: pool.current.quoteUsd }
+      );
+    }
+  } else {
+    // Archway pools cannot be judged while the chain is unreachable
+    const monitoring = snapshot.archway.monitoring;
+    const sideBalances =
+      rule.side === "base" ? monitoring?.baseBalances : monitoring?.quoteBalances;
+    for (const balance of sideBalances ?? []) {
+      if (balance.name === rule.pool) {
+        balances.push({
+          token: balance.token,
+          amount: new BigNumber(balance.amount),
+          usd: new BigNumber(balance.usdValue),
+        });
+      }
+    }
+  }
+
+  const format = (value: BigNumber, token: string) =>
+    rule.unit === "usd" ? formatUSD(value) : `${formatTokenAmount(value)} ${token}`;
+
+  const keyOf = (token: string) => `${rule.chain}:${rule.pool}:${rule.side}:${token}`;
+  const matching = balances.filter((balance) => !rule.token || balance.token === rule.token);
+
+  const conditions = matching.flatMap((balance): AlertCondition[] => {
+    const value = rule.unit === "usd" ? balance.usd : balance.amount;
+    const subject = `${rule.pool} pool ${rule.side} ${balance.token}`;
+    const key = keyOf(balance.token);
+
+    if (rule.below !== undefined && value.isLessThan(rule.below)) {
+      return [{
+        key,
+        message: `${subject} is ${format(value, balance.token)}, below ${format(new BigNumber(rule.below), balance.token)}`,
+        value: value.toNumber(),
+        threshold: rule.below,
+      }];
+    }
+    if (rule.above !== undefined && value.isGreaterThan(rule.above)) {
+      return [{
+        key,
+        message: `${subject} is ${format(value, balance.token)}, above ${format(new BigNumber(rule.above), balance.token)}`,
+        value: value.toNumber(),
+        threshold: rule.above,
+      }];
+    }
+    return [];
+  });
+
+  return { conditions, observed: matching.map((balance) => keyOf(balance.token)) };
+};
+
+const evaluateChange = (
+  rule: ChangeAlertRule,
+  snapshot: DashboardSnapshot
+): AlertEvaluation => {
+  const since = formatComparison(snapshot.sui.comparedTo).toLowerCase();
+  const observed: string[] = [];
+
+  const conditions = snapshot.sui.pools.flatMap((pool): AlertCondition[] => {
+    if (!pool.previous || (rule.pool && pool.name !== rule.pool)) {
+      return [];
+    }
+
+    // Both sides are valued at current prices, so USD changes match token changes
+    const valueOf = (balance: typeof pool.current) =>
+      rule.side === "base"
+        ? balance.baseUsd
+        : rule.side === "quote"
+          ? balance.quoteUsd
+          : balance.baseUsd.plus(balance.quoteUsd);
+    const current = valueOf(pool.current);
+    const previous = valueOf(pool.previous);
+    if (previous.isZero()) {
+      return [];
+    }
+    const key = `sui:${pool.name}:${rule.side}`;
+    observed.push(key);
+
+    const percent = current.minus(previous).dividedBy(previous).multipliedBy(100).toNumber();
+    const triggered =
+      rule.direction === "down"
+        ? percent <= -rule.percent
+        : rule.direction === "up"
+          ? percent >= rule.percent
+          : Math.abs(percent) >= rule.percent;
+    if (!triggered) {
+      return [];
+    }
+
+    return [{
+      key,
+      message: `${pool.name} pool ${rule.side} ${percent < 0 ? "fell" : "rose"} ${Math.abs(percent).toFixed(1)}% since ${since} (${formatUSD(previous)} → ${formatUSD(current)})`,
+      value: percent,
+      threshold: rule.direction === "down" ? -rule.percent : rule.percent,
+    }];
+  });
+
+  return { conditions, observed };
+};
+
+/**
+ * Every positive price the snapshot holds for `symbol`, labelled by chain and source.
+ * Sui prices contribute each fresh oracle quote. Archway prices are quoted in
+ * USDC and compared as USD.
+ */
+const collectTokenPrices = (
+  snapshot: DashboardSnapshot,
+  symbol: string
+): Array<{ source: string; price: number }> => {
+  const matches = (candidate: string) =>
+    candidate.toLowerCase() === symbol.toLowerCase();
+  const prices: Array<{ source: string; price: number }> = [];
+
+  for (const price of snapshot.sui.prices) {
+    if (!matches(price.symbol)) {
+      continue;
+    }
+    // Compare the oracle sources themselves rather than their median
+    const quotes = price.quotes.filter((quote) => quote.price && !quote.stale);
+    if (quotes.length > 0) {
+      for (const quote of quotes) {
+        prices.push({ source: `sui/${quote.source}`, price: quote.price!.toNumber() });
+      }
+    } else if (price.priceUsd.isGreaterThan(0)) {
+      prices.push({ source: `sui/${price.source}`, price: price.priceUsd.toNumber() });
+    }
+  }
+
+  const monitoring = snapshot.archway.monitoring;
+  for (const [token, price] of Object.entries(monitoring?.prices ?? {})) {
+    const source = monitoring?.priceSources[token];
+    if (matches(token) && source && price > 0) {
+      prices.push({ source: `archway/${source}`, price });
+    }
+  }
+
+  return prices;
+};
+
+const evaluatePriceDivergence = (
+  rule: PriceDivergenceAlertRule,
+  snapshot: DashboardSnapshot
+): AlertEvaluation => {
+  const prices = collectTokenPrices(snapshot, rule.token);
+  if (prices.length < 2) {
+    return { conditions: [], observed: [] };
+  }
+
+  const values = prices.map((price) => price.price);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const divergence = ((high - low) / low) * 100;
+  if (divergence < rule.percent) {
+    return { conditions: [], observed: [rule.token] };
+  }
+
+  const breakdown = prices
+    .map((price) => `${price.source} ${formatUSD(new BigNumber(price.price))}`)
+    .join(", ");
+  return {
+    conditions: [{
+      key: rule.token,
+      message: `${rule.token} prices diverge by ${divergence.toFixed(2)}%: ${breakdown}`,
+      value: divergence,
+      threshold: rule.percent,
+    }],
+    observed: [rule.token],
+  };
+};
+
+/**
+ * Unix timestamp in seconds of the latest swap in the volume window
+ */
+const findLastSwapAt = (dailyVolumes: DailyVolume[]): number | null =>
+  dailyVolumes.reduce<number | null>(
+    (latest, day) =>
+      day.lastSwapAt !== null && day.lastSwapAt > (latest ?? 0) ? day.lastSwapAt : latest,
+    null
+  );
+
+const evaluateNoVolume = (
+  rule: NoVolumeAlertRule,
+  snapshot: DashboardSnapshot,
+  now: number
+): AlertEvaluation => {
+  // Bots whose database could not be read are missing from botActivity
+  const bots = [
+    { chain: "sui", name: snapshot.sui.address, dailyVolumes: snapshot.sui.dailyVolumes },
+    ...snapshot.archway.botActivity.map((bot) => ({ chain: "archway", ...bot })),
+  ].filter(
+    (bot) => (!rule.chain || bot.chain === rule.chain) && (!rule.bot || bot.name === rule.bot)
+  );
+  const keyOf = (bot: { chain: string; name: string }) => `${bot.chain}:${bot.name}`;
+
+  const conditions = bots.flatMap((bot): AlertCondition[] => {
+    const lastSwapAt = findLastSwapAt(bot.dailyVolumes);
+    const idleHours = lastSwapAt === null ? null : (now - lastSwapAt * 1000) / HOUR_MS;
+    if (idleHours !== null && idleHours < rule.hours) {
+      return [];
+    }
+
+    return [{
+      key: keyOf(bot),
+      message: idleHours === null
+        ? `Bot ${bot.name} (${bot.chain}) has no swaps in the volume window`
+        : `Bot ${bot.name} (${bot.chain}) has not swapped for ${idleHours.toFixed(1)}h`,
+      value: idleHours,
+      threshold: rule.hours,
+    }];
+  });
+
+  return { conditions, observed: bots.map(keyOf) };
+};
+
+/**
+ * Evaluate one rule against a snapshot, returning every subject violating it
+ * and every subject the snapshot had data for
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  snapshot: DashboardSnapshot,
+  now: number = Date.now()
+): AlertEvaluation {
+  switch (rule.type) {
+    case "balance":
+      return evaluateBalance(rule, snapshot);
+    case "change":
+      return evaluateChange(rule, snapshot);
+    case "price_divergence":
+      return evaluatePriceDivergence(rule, snapshot);
+    case "no_volume":
+      return evaluateNoVolume(rule, snapshot, now);
+  }
+}
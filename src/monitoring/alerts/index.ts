@@ -0,0 +1,4 @@
+export * from "./alert-config";
+export * from "./alert-rules";
+export * from "./alert-notifiers";
+export * from "./alert-engine";
@@ -0,0 +1,53 @@
+import { ArchwayClient } from "@archwayhq/arch3.js";
+import { describe, expect, it, vi } from "vitest";
+
+import { fetchArchwayMonitoring } from "./archway-monitoring";
+import { ArchwayPriceService } from "./archway-price-service";
+import { DashboardConfig } from "./dashboard-config";
+import { RateLimiter } from "./price-cache";
+
+const ARCHWAY: DashboardConfig["archway"] = {
+  rpcEndpoint: "http://127.0.0.1:1",
+  routerAddress: "archway1router",
+  quoteToken: "USDC",
+  tokens: [
+    { symbol: "USDC", denom: "ibc/usdc", decimals: 6, price: 1 },
+    { symbol: "ARCH", denom: "aarch", decimals: 18, price: 0.02 },
+  ],
+  pools: [
+    { name: "ARCH", address: "archway1arch", baseToken: "ARCH", quoteTokens: ["USDC"] },
+    { name: "USDC", address: "archway1usdc", baseToken: "USDC", quoteTokens: ["ARCH"] },
+  ],
+};
+
+const BALANCES: Record<string, Array<{ denom: string; amount: string }>> = {
+  archway1arch: [
+    { denom: "aarch", amount: "150000000000000000000000" },
+    { denom: "ibc/usdc", amount: "1500250000" },
+  ],
+  archway1usdc: [{ denom: "ibc/usdc", amount: "980000000" }],
+};
+
+describe("fetchArchwayMonitoring", () => {
+  it("queries pool balances through the shared rate limiter", async () => {
+    const rateLimiter = new RateLimiter({ "archway-rpc": 0 });
+    const schedule = vi.spyOn(rateLimiter, "schedule");
+    const priceService = new ArchwayPriceService(ARCHWAY, { rateLimiter });
+    const getAllBalances = vi.fn(async (address: string) => BALANCES[address]);
+    vi.spyOn(priceService, "getClient").mockResolvedValue({
+      getAllBalances,
+    } as unknown as ArchwayClient);
+
+    const monitoring = await fetchArchwayMonitoring(ARCHWAY, priceService);
+
+    expect(getAllBalances).toHaveBeenCalledTimes(2);
+    expect(schedule.mock.calls.map(([key]) => key)).toEqual(["archway-rpc", "archway-rpc"]);
+    expect(monitoring?.baseBalances).toEqual([
+      { name: "ARCH", token: "ARCH", amount: 150000, usdValue: 3000 },
+      { name: "USDC", token: "USDC", amount: 980, usdValue: 980 },
+    ]);
+    expect(monitoring?.quoteBalances).toEqual([
+      { name: "ARCH", token: "USDC", amount: 1500.25, usdValue: 1500.25 },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { ArchwayPriceService } from "./archway-price-service";
+import {
+  DashboardConfig,
+  DashboardTokenConfig,
+  findDashboardToken,
+} from "./dashboard-config";
+import { ArchwayBalance, ArchwayMonitoring } from "./dashboard-snapshot";
+
+type ArchwayConfig = DashboardConfig["archway"];
+
+/**
+ * Fetch monitoring dashboard data from Archway/Bolt pools
+ */
+export async function fetchArchwayMonitoring(
+  archway: ArchwayConfig,
+  priceService: ArchwayPriceService = new ArchwayPriceService(archway)
+): Promise<ArchwayMonitoring | null> {
+  try {
+    // Get prices using each token's configured sources (Bolt first, then CoinGecko)
+    const tokenPrices = await priceService.getTokenPrices();
+    const prices: Record<string, number> = {};
+    const priceSources: ArchwayMonitoring["priceSources"] = {};
+    for (const [symbol, tokenPrice] of Object.entries(tokenPrices)) {
+      prices[symbol] = tokenPrice.price;
+      priceSources[symbol] = tokenPrice.source;
+    }
+
+    const baseBalances: ArchwayBalance[] = [];
+    const quoteBalances: ArchwayBalance[] = [];
+    let totalUsdValue = 0;
+
+    const toBalance = (
+      name: string,
+      token: DashboardTokenConfig,
+      rawAmount: string
+    ): ArchwayBalance => {
+      const amount = parseFloat(rawAmount) / Math.pow(10, token.decimals);
+      const price = prices[token.symbol];
+      return {
+        name,
+        token: token.symbol,
+        amount,
+        usdValue: price > 0 ? amount * price : 0,
+      };
+    };
+
+    // Fetch all pool balances in parallel
+    const balanceResults = await Promise.all(
+      archway.pools.map(async (pool) => ({
+        pool,
+        balances: await getPoolBalances(pool.address, priceService),
+      }))
+    );
+
+    for (const { pool, balances } of balanceResults) {
+      if (!balances) {
+        continue;
+      }
+
+      const baseToken = findDashboardToken(archway.tokens, pool.baseToken);
+      const baseBalance = balances[baseToken.denom];
+      if (baseBalance && baseBalance !== '0') {
+        const balance = toBalance(pool.name, baseToken, baseBalance);
+        totalUsdValue += balance.usdValue;
+        baseBalances.push(balance);
+      }
+
+      const poolQuoteBalances: ArchwayBalance[] = [];
+      for (const symbol of pool.quoteTokens) {
+        const quoteToken = findDashboardToken(archway.tokens, symbol);
+        const quoteBalance = balances[quoteToken.denom];
+        if (quoteBalance && quoteBalance !== '0') {
+          const balance = toBalance(pool.name, quoteToken, quoteBalance);
+          totalUsdValue += balance.usdValue;
+          poolQuoteBalances.push(balance);
+        }
+      }
+
+      // Sort by USD value descending within each pool
+      poolQuoteBalances.sort((a, b) => b.usdValue - a.usdValue);
+      quoteBalances.push(...poolQuoteBalances);
+    }
+
+    return {
+      quoteToken: archway.quoteToken,
+      prices,
+      priceSources,
+      baseBalances,
+      quoteBalances,
+      totalUsdValue,
+    };
+  } catch {
+    // Silently fail - monitoring data is optional
+    return null;
+  }
+}
+
+/**
+ * Fetch every bank balance of a pool, keyed by denom
+ */
+async function getPoolBalances(
+  poolAddress: string,
+  priceService: ArchwayPriceService
+): Promise<Record<string, string> | null> {
+  try {
+    const coins = await priceService.getAllBalances(poolAddress);
+
+    const balances: Record<string, string> = {};
+    for (const coin of coins) {
+      balances[coin.denom] = coin.amount;
+    }
+    return balances;
+  } catch {
+    // The pool is left out of the dashboard
+    return null;
+  }
+}
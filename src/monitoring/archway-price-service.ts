@@ -0,0 +1,158 @@
+import { ArchwayClient } from "@archwayhq/arch3.js";
+import { Coin } from "@cosmjs/stargate";
+import BigNumber from "bignumber.js";
+
+import { CoinGeckoClient } from "./coingecko-client";
+import {
+  ArchwayPriceSource,
+  DashboardConfig,
+  DashboardTokenConfig,
+  findDashboardToken,
+} from "./dashboard-config";
+import { PriceCache, RateLimiter } from "./price-cache";
+
+type ArchwayConfig = DashboardConfig["archway"];
+
+export interface ArchwayTokenPrice {
+  /** In the Archway quote token, 0 when no source could price the token */
+  price: number;
+  source: ArchwayPriceSource | "config" | null;
+}
+
+export interface ArchwayPriceServiceOptions {
+  /** Share lookups with the Sui PriceService */
+  cache?: PriceCache;
+  rateLimiter?: RateLimiter;
+}
+
+interface SimulateSwapResponse {
+  base_out?: { denom: string; amount: string };
+}
+
+/**
+ * Prices Archway tokens in the configured quote token through the Bolt
+ * router's `simulate_swap_exact_in` query, falling back to CoinGecko
+ */
+export class ArchwayPriceService {
+  private cache: PriceCache;
+  private rateLimiter: RateLimiter;
+  private coingecko: CoinGeckoClient;
+  private client: Promise<ArchwayClient> | null = null;
+
+  constructor(
+    private archway: ArchwayConfig,
+    options: ArchwayPriceServiceOptions = {}
+  ) {
+    this.cache = options.cache ?? new PriceCache();
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.coingecko = new CoinGeckoClient(this.cache, this.rateLimiter);
+  }
+
+  /**
+   * CosmWasm query client for the Archway RPC endpoint, connected on first use
+   */
+  getClient(): Promise<ArchwayClient> {
+    if (!this.client) {
+      const client = ArchwayClient.connect(this.archway.rpcEndpoint);
+      // Reconnect on the next call instead of keeping a failed connection
+      client.catch(() => {
+        if (this.client === client) {
+          this.client = null;
+        }
+      });
+      this.client = client;
+    }
+    return this.client;
+  }
+
+  /**
+   * Every bank balance of an address, queried through the shared rate limiter
+   */
+  async getAllBalances(address: string): Promise<readonly Coin[]> {
+    const client = await this.getClient();
+    return this.rateLimiter.schedule("archway-rpc", () =>
+      client.getAllBalances(address)
+    );
+  }
+
+  /**
+   * Price every configured token, keyed by symbol
+   */
+  async getTokenPrices(): Promise<Record<string, ArchwayTokenPrice>> {
+    const prices = await Promise.all(
+      this.archway.tokens.map((token) => this.getTokenPrice(token))
+    );
+    return Object.fromEntries(
+      this.archway.tokens.map((token, index) => [token.symbol, prices[index]])
+    );
+  }
+
+  /**
+   * Price a token from its configured sources, tried in order (Bolt first,
+   * then CoinGecko). A fixed config price skips every source.
+   */
+  async getTokenPrice(
+    token: DashboardTokenConfig<ArchwayPriceSource>
+  ): Promise<ArchwayTokenPrice> {
+    if (token.price !== undefined) {
+      return { price: token.price, source: "config" };
+    }
+
+    const quoteToken = findDashboardToken(this.archway.tokens, this.archway.quoteToken);
+
+    for (const source of token.priceSources ?? ["bolt", "coingecko"]) {
+      try {
+        if (source === "bolt" && token.symbol !== quoteToken.symbol) {
+          const price = await this.fetchPriceFromBolt(token, quoteToken);
+          if (price > 0) {
+            return { price, source };
+          }
+        }
+
+        if (source === "coingecko" && token.coingeckoId) {
+          const result = await this.coingecko.getPrice(token.coingeckoId);
+          if (result.price.isGreaterThan(0)) {
+            return { price: result.price.toNumber(), source };
+          }
+        }
+      } catch {
+        // Try the next source
+      }
+    }
+
+    return { price: 0, source: null };
+  }
+
+  /**
+   * Quote-token amount one whole `token` swaps to through the Bolt router
+   */
+  private async fetchPriceFromBolt(
+    token: DashboardTokenConfig,
+    quoteToken: DashboardTokenConfig
+  ): Promise<number> {
+    const amountOut = await this.cache.get(
+      `bolt-archway:${token.denom}:${quoteToken.denom}`,
+      async () => {
+        const client = await this.getClient();
+        const response: SimulateSwapResponse = await this.rateLimiter.schedule(
+          "archway-rpc",
+          () =>
+            client.queryContractSmart(this.archway.routerAddress, {
+              simulate_swap_exact_in: {
+                amount_in: {
+                  denom: token.denom,
+                  amount: new BigNumber(10).pow(token.decimals).toFixed(),
+                },
+                want_out: quoteToken.denom,
+              },
+            })
+        );
+        return response.base_out?.amount ?? "0";
+      }
+    );
+
+    return new BigNumber(amountOut)
+      .shiftedBy(-quoteToken.decimals)
+      .toNumber();
+  }
+}
@@ -0,0 +1,217 @@
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+
+import { BoltGrpcClient, Pool } from "./bolt-grpc-client";
+import { PUBLIC_SETTLEMENT_PROTO } from "./bolt-settlement-proto";
+
+const PROTO_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "proto");
+const PROTO_FILE = "bolt/outpost/settlement/v2/public_settlement.proto";
+const SERVICE_NAME = "bolt.outpost.settlement.v2.PublicSettlementService";
+const POOL_ID = "0x7f2b5ab2c9e7a1d4";
+
+const POOL: Pool = {
+  baseAsset: "0x2::sui::SUI",
+  baseAmount: "1935609066231/1000000000",
+  quoteAssets: [
+    {
+      denom: "0xdba3::usdc::USDC",
+      amount: "36546457/50000",
+      minOut: "1/1",
+    },
+  ],
+  lpFeeRatio: "3/1000",
+  protocolFeeRatio: "1/1000",
+  unclaimedLpFees: { asset: "0x2::sui::SUI", amount: "12/5" },
+};
+
+type GetPoolHandler = (poolIdentifier: string) => Pool | grpc.StatusObject;
+
+const servePool: GetPoolHandler = (poolIdentifier) =>
+  poolIdentifier === POOL_ID
+    ? POOL
+    : { code: grpc.status.NOT_FOUND, details: "pool not found", metadata: new grpc.Metadata() };
+
+const loadOptions = { keepCase: false, longs: String, enums: String, arrays: true, defaults: false, oneofs: true };
+const loadProtoFile = () => protoLoader.loadSync(PROTO_FILE, { ...loadOptions, includeDirs: [PROTO_DIR] });
+
+describe("BoltGrpcClient", () => {
+  let server: grpc.Server;
+  let endpoint: string;
+  let handler: GetPoolHandler = servePool;
+  // Arrival time of every GetPool call
+  let calls: number[] = [];
+
+  beforeAll(async () => {
+    const definition = loadProtoFile()[SERVICE_NAME] as grpc.ServiceDefinition;
+    server = new grpc.Server();
+    server.addService(definition, {
+      GetPool: (
+        call: grpc.ServerUnaryCall<{ poolIdentifier: string }, unknown>,
+        callback: grpc.sendUnaryData<unknown>
+      ) => {
+        calls.push(Date.now());
+        const result = handler(call.request.poolIdentifier);
+        if ("code" in result) {
+          callback(result);
+        } else {
+          callback(null, { pool: result });
+        }
+      },
+    });
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (error, boundPort) =>
+        error ? reject(error) : resolve(boundPort)
+      )
+    );
+    endpoint = `127.0.0.1:${port}`;
+  });
+
+  afterEach(() => {
+    handler = servePool;
+    calls = [];
+  });
+
+  afterAll(() => {
+    server.forceShutdown();
+  });
+
+  it("decodes GetPool responses with the embedded service definition", async () => {
+    const client = new BoltGrpcClient(endpoint);
+    try {
+      const { pool } = await client.getPool(POOL_ID);
+      expect(pool).toEqual(POOL);
+      expect(BoltGrpcClient.parseFractionToBigNumber(pool.baseAmount).toFixed()).toBe("1935.609066231");
+    } finally {
+      client.close();
+    }
+  });
+
+  it("loads the service from proto files when asked to", async () => {
+    const client = new BoltGrpcClient(endpoint, { protoDir: PROTO_DIR });
+    try {
+      expect((await client.getPool(POOL_ID)).pool.quoteAssets).toEqual(POOL.quoteAssets);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("reports gRPC status errors", async () => {
+    const client = new BoltGrpcClient(endpoint);
+    try {
+      await expect(client.getPool("0xmissing")).rejects.toThrow(
+        "Failed to get pool 0xmissing: NOT_FOUND: pool not found"
+      );
+    } finally {
+      client.close();
+    }
+  });
+
+  it("embeds the same definitions as the committed proto file", () => {
+    const fromFile = loadProtoFile();
+    const embedded = protoLoader.fromJSON(PUBLIC_SETTLEMENT_PROTO, loadOptions);
+
+    expect(Object.keys(embedded).sort()).toEqual(Object.keys(fromFile).sort());
+    for (const [name, definition] of Object.entries(fromFile)) {
+      if ("type" in definition) {
+        expect(embedded[name], name).toMatchObject({ type: definition.type });
+      } else {
+        expect(Object.keys(embedded[name])).toEqual(Object.keys(definition));
+      }
+    }
+  });
+
+  describe("subscribePool", () => {
+    const unavailable = (): grpc.StatusObject => ({
+      code: grpc.status.UNAVAILABLE,
+      details: "settlement service restarting",
+      metadata: new grpc.Metadata(),
+    });
+
+    it("yields only snapshots that differ from the previous one", async () => {
+      const amounts = ["1/1", "1/1", "2/1", "2/1", "2/1", "3/1"];
+      handler = () => ({ ...POOL, baseAmount: amounts[Math.min(calls.length, amounts.length) - 1] });
+
+      const client = new BoltGrpcClient(endpoint);
+      const controller = new AbortController();
+      const seen: string[] = [];
+      try {
+        for await (const pool of client.subscribePool(POOL_ID, {
+          intervalMs: 5,
+          signal: controller.signal,
+        })) {
+          seen.push(pool.baseAmount);
+          if (seen.length === 3) {
+            controller.abort();
+          }
+        }
+      } finally {
+        client.close();
+      }
+
+      expect(seen).toEqual(["1/1", "2/1", "3/1"]);
+      expect(calls).toHaveLength(6);
+    });
+
+    it("ends when the signal aborts while waiting for the next poll", async () => {
+      const client = new BoltGrpcClient(endpoint);
+      const controller = new AbortController();
+      const started = Date.now();
+      let yielded = 0;
+      try {
+        for await (const _pool of client.subscribePool(POOL_ID, {
+          intervalMs: 60_000,
+          signal: controller.signal,
+        })) {
+          yielded++;
+          setTimeout(() => controller.abort(), 20);
+        }
+      } finally {
+        client.close();
+      }
+
+      expect(yielded).toBe(1);
+      expect(calls).toHaveLength(1);
+      expect(Date.now() - started).toBeLessThan(5_000);
+    });
+
+    it("backs off exponentially up to the maximum and resets after a success", async () => {
+      // Four failures, a success, then failures until aborted
+      handler = () => (calls.length === 5 ? POOL : unavailable());
+
+      const client = new BoltGrpcClient(endpoint);
+      const controller = new AbortController();
+      const attempts: number[] = [];
+      try {
+        for await (const _pool of client.subscribePool(POOL_ID, {
+          intervalMs: 5,
+          minBackoffMs: 40,
+          maxBackoffMs: 100,
+          signal: controller.signal,
+          onError: (error, attempt) => {
+            expect(error.message).toBe(
+              `Failed to get pool ${POOL_ID}: UNAVAILABLE: settlement service restarting`
+            );
+            attempts.push(attempt);
+            if (attempts.length === 6) {
+              controller.abort();
+            }
+          },
+        })) {
+          // The only snapshot, polling goes on after it
+        }
+      } finally {
+        client.close();
+      }
+
+      expect(attempts).toEqual([1, 2, 3, 4, 1, 2]);
+      const gaps = calls.slice(1, 5).map((time, index) => time - calls[index]);
+      // 40ms, 80ms, then capped at 100ms
+      [40, 80, 100, 100].forEach((backoff, index) =>
+        expect(gaps[index]).toBeGreaterThanOrEqual(backoff - 5)
+      );
+    });
+  });
+});
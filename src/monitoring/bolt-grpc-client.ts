@@ -1,8 +1,20 @@
-import { exec } from "child_process";
-import { promisify } from "util";
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import path from "node:path";
 import BigNumber from "bignumber.js";
 
-const execAsync = promisify(exec);
+import { PUBLIC_SETTLEMENT_PROTO } from "./bolt-settlement-proto";
+
+export const DEFAULT_BOLT_GRPC_ENDPOINT = "144.76.3.52:50063";
+
+const SETTLEMENT_SERVICE_NAME =
+  "bolt.outpost.settlement.v2.PublicSettlementService";
+const DEFAULT_PROTO_FILE =
+  "bolt/outpost/settlement/v2/public_settlement.proto";
+const DEFAULT_DEADLINE_MS = 10_000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const DEFAULT_MIN_BACKOFF_MS = 1_000;
+const DEFAULT_MAX_BACKOFF_MS = 60_000;
 
 export interface QuoteAsset {
   denom: string;
@@ -34,11 +46,239 @@ export interface GetPoolResponse {
   pool: Pool;
 }
 
+export interface BoltGrpcTlsOptions {
+  rootCerts?: Buffer;
+  privateKey?: Buffer;
+  certChain?: Buffer;
+}
+
+export interface BoltGrpcClientOptions {
+  /**
+   * `true` uses the system root certificates, an object allows custom
+   * certificates. Defaults to a plaintext channel.
+   */
+  tls?: boolean | BoltGrpcTlsOptions;
+  /** Per-call deadline in milliseconds */
+  deadlineMs?: number;
+  /**
+   * Directory used to resolve proto imports. Without `protoDir` and
+   * `protoFile` the embedded service definition is used.
+   */
+  protoDir?: string;
+  /** Proto file relative to `protoDir` */
+  protoFile?: string;
+  channelOptions?: grpc.ChannelOptions;
+}
+
+export interface BoltGrpcCallOptions {
+  deadlineMs?: number;
+}
+
+export interface PoolSubscriptionOptions {
+  /** Polling interval */
+  intervalMs?: number;
+  /** Aborting the signal ends the subscription */
+  signal?: AbortSignal;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** Called for every failed attempt before backing off and reconnecting */
+  onError?: (error: Error, attempt: number) => void;
+}
+
+type SettlementServiceClient = grpc.Client & {
+  GetPool(
+    request: { poolIdentifier: string },
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: grpc.requestCallback<GetPoolResponse>
+  ): grpc.ClientUnaryCall;
+};
+
+/**
+ * Resolve after `ms`, or early (without rejecting) once `signal` aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const normalizePool = (pool: Pool): Pool => {
+  if (!pool.quoteAssets || !Array.isArray(pool.quoteAssets)) {
+    pool.quoteAssets = [];
+  }
+  return pool;
+};
+
+const toError = (error: unknown): Error => {
+  if (error instanceof Error) {
+    return error;
+  }
+  return new Error(typeof error === "string" ? error : "Unknown error");
+};
+
+/**
+ * "STATUS: details" for gRPC status errors, the message otherwise
+ */
+const describeError = (error: unknown): string => {
+  if (!(error instanceof Error)) {
+    return "Unknown error";
+  }
+  if (
+    "code" in error &&
+    typeof error.code === "number" &&
+    "details" in error &&
+    typeof error.details === "string" &&
+    error.details
+  ) {
+    return `${grpc.status[error.code] ?? error.code}: ${error.details}`;
+  }
+  return error.message || "Unknown error";
+};
+
+/**
+ * Walk a dotted name like "a.b.Service" down the loaded package tree
+ */
+const findServiceConstructor = (
+  root: grpc.GrpcObject,
+  name: string
+): grpc.ServiceClientConstructor | undefined => {
+  const keys = name.split(".");
+  const serviceName = keys.pop()!;
+
+  let namespace = root;
+  for (const key of keys) {
+    const node = namespace[key];
+    if (!node || typeof node === "function" || "format" in node) {
+      return undefined;
+    }
+    namespace = node;
+  }
+
+  const service = namespace[serviceName];
+  return typeof service === "function" ? service : undefined;
+};
+
+const PROTO_LOADER_OPTIONS: protoLoader.Options = {
+  keepCase: false,
+  longs: String,
+  enums: String,
+  arrays: true,
+  defaults: false,
+  oneofs: true,
+};
+
+// Parsed proto definitions are shared by every client using the same files
+const serviceConstructors = new Map<string, grpc.ServiceClientConstructor>();
+
+const loadServiceConstructor = (
+  protoDir?: string,
+  protoFile?: string
+): grpc.ServiceClientConstructor => {
+  const fromFiles = protoDir !== undefined || protoFile !== undefined;
+  const cacheKey = fromFiles
+    ? path.join(protoDir ?? "", protoFile ?? DEFAULT_PROTO_FILE)
+    : "embedded";
+  const cached = serviceConstructors.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const packageDefinition = fromFiles
+    ? protoLoader.loadSync(protoFile ?? DEFAULT_PROTO_FILE, {
+        ...PROTO_LOADER_OPTIONS,
+        includeDirs: protoDir ? [protoDir] : [],
+      })
+    : protoLoader.fromJSON(PUBLIC_SETTLEMENT_PROTO, PROTO_LOADER_OPTIONS);
+
+  const serviceConstructor = findServiceConstructor(
+    grpc.loadPackageDefinition(packageDefinition),
+    SETTLEMENT_SERVICE_NAME
+  );
+
+  if (!serviceConstructor) {
+    throw new Error(
+      `Service ${SETTLEMENT_SERVICE_NAME} not found in ${cacheKey}`
+    );
+  }
+
+  serviceConstructors.set(cacheKey, serviceConstructor);
+  return serviceConstructor;
+};
+
 export class BoltGrpcClient {
   private readonly endpoint: string;
+  private readonly options: BoltGrpcClientOptions;
+  private client: SettlementServiceClient | null = null;
 
-  constructor(endpoint: string = "144.76.3.52:50063") {
+  constructor(
+    endpoint: string = DEFAULT_BOLT_GRPC_ENDPOINT,
+    options: BoltGrpcClientOptions = {}
+  ) {
     this.endpoint = endpoint;
+    this.options = options;
+  }
+
+  private getServiceConstructor(): grpc.ServiceClientConstructor {
+    return loadServiceConstructor(
+      this.options.protoDir,
+      this.options.protoFile
+    );
+  }
+
+  /**
+   * Lazily open the channel, it is reused by every following call
+   */
+  private getClient(): SettlementServiceClient {
+    if (!this.client) {
+      const ServiceClient = this.getServiceConstructor();
+      // Generated clients only type their methods as `Function`, the
+      // signatures follow from the service definition
+      this.client = new ServiceClient(
+        this.endpoint,
+        this.getCredentials(),
+        this.options.channelOptions
+      ) as unknown as SettlementServiceClient;
+    }
+
+    return this.client;
+  }
+
+  private getCredentials(): grpc.ChannelCredentials {
+    const { tls } = this.options;
+
+    if (!tls) {
+      return grpc.credentials.createInsecure();
+    }
+
+    if (tls === true) {
+      return grpc.credentials.createSsl();
+    }
+
+    return grpc.credentials.createSsl(
+      tls.rootCerts ?? null,
+      tls.privateKey ?? null,
+      tls.certChain ?? null
+    );
+  }
+
+  private getDeadline(deadlineMs?: number): Date {
+    return new Date(
+      Date.now() + (deadlineMs ?? this.options.deadlineMs ?? DEFAULT_DEADLINE_MS)
+    );
   }
 
   /**
@@ -57,76 +297,128 @@ export class BoltGrpcClient {
     return numerator / denominator;
   }
 
-  async getPool(poolIdentifier: string): Promise<GetPoolResponse> {
+  async getPool(
+    poolIdentifier: string,
+    callOptions: BoltGrpcCallOptions = {}
+  ): Promise<GetPoolResponse> {
     try {
-      const command = `grpcurl -plaintext -d '{"pool_identifier": "${poolIdentifier}"}' ${this.endpoint} bolt.outpost.settlement.v2.PublicSettlementService.GetPool`;
-      const { stdout, stderr } = await execAsync(command, {
-        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+      const response = await new Promise<GetPoolResponse>((resolve, reject) => {
+        this.getClient().GetPool(
+          { poolIdentifier },
+          new grpc.Metadata(),
+          { deadline: this.getDeadline(callOptions.deadlineMs) },
+          (error, value) => {
+            if (error) {
+              reject(error);
+            } else if (!value) {
+              reject(new Error("Empty response from settlement service"));
+            } else {
+              resolve(value);
+            }
+          }
+        );
       });
 
-      // Check for errors in stderr first
-      if (stderr && stderr.trim() && !stderr.includes("Failed to dial")) {
-        const stderrLower = stderr.toLowerCase();
-        if (stderrLower.includes("error") || stderrLower.includes("failed")) {
-          throw new Error(`grpcurl error: ${stderr}`);
-        }
+      if (!response.pool) {
+        throw new Error(
+          `Unexpected response structure. Response keys: ${Object.keys(
+            response
+          ).join(", ")}`
+        );
       }
 
-      // grpcurl outputs JSON to stdout
-      const output = stdout.trim();
-      if (!output) {
-        if (stderr && stderr.trim()) {
-          throw new Error(`grpcurl returned no output. stderr: ${stderr}`);
-        }
-        throw new Error("Empty response from grpcurl");
-      }
+      return { pool: normalizePool(response.pool) };
+    } catch (error) {
+      throw new Error(
+        `Failed to get pool ${poolIdentifier}: ${describeError(error)}`
+      );
+    }
+  }
 
-      let parsed: any;
-      try {
-        parsed = JSON.parse(output);
-      } catch (parseError) {
-        throw new Error(`Failed to parse JSON response. Raw output: ${output.substring(0, 500)}`);
-      }
-      
-      // Handle different response structures
-      let pool: Pool;
-      
-      if (parsed.pool) {
-        pool = parsed.pool;
-      } else if (parsed.baseAsset || parsed.baseAmount) {
-        pool = parsed;
-      } else {
-        throw new Error(`Unexpected response structure from grpcurl. Response keys: ${Object.keys(parsed).join(", ")}. Full response: ${JSON.stringify(parsed, null, 2)}`);
-      }
+  /**
+   * Subscribe to pool state changes.
+   *
+   * Polls `getPool` every `intervalMs`, the settlement service has no
+   * streaming RPC. Only snapshots that differ from the previous one are
+   * yielded, the first snapshot is always yielded. Failures are retried with
+   * exponential backoff. The subscription ends when `signal` aborts or when
+   * the consumer stops iterating.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const pool of client.subscribePool(poolId, {
+   *   signal: controller.signal,
+   * })) {
+   *   render(pool);
+   * }
+   * ```
+   */
+  async *subscribePool(
+    poolIdentifier: string,
+    options: PoolSubscriptionOptions = {}
+  ): AsyncGenerator<Pool, void, undefined> {
+    const {
+      signal,
+      intervalMs = DEFAULT_POLL_INTERVAL_MS,
+      minBackoffMs = DEFAULT_MIN_BACKOFF_MS,
+      maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+      onError,
+    } = options;
 
-      // Ensure quoteAssets is an array
-      if (!pool.quoteAssets || !Array.isArray(pool.quoteAssets)) {
-        pool.quoteAssets = [];
-      }
+    let lastSnapshot: string | null = null;
+    let attempt = 0;
 
-      return { pool };
-    } catch (error: any) {
-      // Try to parse error output as it might contain the response
-      if (error.stdout) {
-        try {
-          const parsed = JSON.parse(error.stdout.trim());
-          if (parsed.pool) {
-            return parsed as GetPoolResponse;
-          } else if (parsed.baseAsset || parsed.baseAmount) {
-            return { pool: parsed } as GetPoolResponse;
+    while (!signal?.aborted) {
+      try {
+        for await (const pool of this.pollPool(
+          poolIdentifier,
+          intervalMs,
+          signal
+        )) {
+          attempt = 0;
+          const snapshot = JSON.stringify(pool);
+          if (snapshot !== lastSnapshot) {
+            lastSnapshot = snapshot;
+            yield pool;
           }
-        } catch {
-          // If parsing fails, throw original error
         }
+      } catch (error) {
+        if (signal?.aborted) {
+          break;
+        }
+
+        attempt++;
+        onError?.(toError(error), attempt);
+
+        const backoff = Math.min(
+          maxBackoffMs,
+          minBackoffMs * 2 ** (attempt - 1)
+        );
+        await sleep(backoff, signal);
       }
-      
-      const errorMessage = error.stderr 
-        ? `${error.message}. stderr: ${error.stderr}`
-        : error.message || "Unknown error";
-      
-      throw new Error(
-        `Failed to get pool ${poolIdentifier}: ${errorMessage}`
-      );
+    }
+  }
+
+  private async *pollPool(
+    poolIdentifier: string,
+    intervalMs: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<Pool, void, undefined> {
+    while (!signal?.aborted) {
+      const { pool } = await this.getPool(poolIdentifier);
+      yield pool;
+      await sleep(intervalMs, signal);
+    }
+  }
+
+  /**
+   * Close the underlying channel. The client reconnects on the next call.
+   */
+  close(): void {
+    if (this.client) {
+      this.client.close();
+      this.client = null;
     }
   }
 
@@ -0,0 +1,79 @@
+import type * as protoLoader from "@grpc/proto-loader";
+
+type ProtoNamespace = Parameters<typeof protoLoader.fromJSON>[0];
+
+const stringField = (id: number) => ({ type: "string", id });
+
+/**
+ * proto/bolt/outpost/settlement/v2/public_settlement.proto as a protobuf.js
+ * JSON descriptor, embedded so the client does not depend on the .proto file
+ * being shipped next to the compiled sources. Keep both in sync.
+ */
+export const PUBLIC_SETTLEMENT_PROTO: ProtoNamespace = {
+  nested: {
+    bolt: {
+      nested: {
+        outpost: {
+          nested: {
+            settlement: {
+              nested: {
+                v2: {
+                  nested: {
+                    PublicSettlementService: {
+                      methods: {
+                        GetPool: {
+                          requestType: "GetPoolRequest",
+                          responseType: "GetPoolResponse",
+                          comment: "",
+                        },
+                      },
+                    },
+                    GetPoolRequest: {
+                      fields: {
+                        poolIdentifier: stringField(1),
+                      },
+                    },
+                    GetPoolResponse: {
+                      fields: {
+                        pool: { type: "Pool", id: 1 },
+                      },
+                    },
+                    QuoteAsset: {
+                      fields: {
+                        denom: stringField(1),
+                        amount: stringField(2),
+                        minOut: stringField(3),
+                        limitRatio: stringField(4),
+                        limitFixed: stringField(5),
+                      },
+                    },
+                    UnclaimedFees: {
+                      fields: {
+                        asset: stringField(1),
+                        amount: stringField(2),
+                      },
+                    },
+                    Pool: {
+                      fields: {
+                        baseAsset: stringField(1),
+                        baseAmount: stringField(2),
+                        quoteAssets: { rule: "repeated", type: "QuoteAsset", id: 3 },
+                        lpFeeRatio: stringField(4),
+                        protocolFeeRatio: stringField(5),
+                        minBaseOut: stringField(6),
+                        withdrawalFeeRatio: stringField(7),
+                        maxDynamicFeeRatio: stringField(8),
+                        unclaimedProtocolFees: { type: "UnclaimedFees", id: 9 },
+                        unclaimedLpFees: { type: "UnclaimedFees", id: 10 },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,86 @@
+import axios from "axios";
+import BigNumber from "bignumber.js";
+
+import { PriceCache, RateLimiter } from "./price-cache";
+import { PriceSourceResult } from "./price-oracle";
+
+const COINGECKO_API_URL = "https://api.coingecko.com/api/v3";
+
+/** Response of the `/coins/{id}/market_chart` endpoint */
+export interface MarketChart {
+  /** [Unix ms, USD price] pairs, oldest first */
+  prices: Array<[number, number]>;
+}
+
+/**
+ * USD prices from the CoinGecko free API, which needs no API key. Coins
+ * requested together are fetched in one call, through the shared cache and
+ * rate limiter.
+ */
+export class CoinGeckoClient {
+  private pending: {
+    coinIds: Set<string>;
+    response: Promise<Record<string, { usd?: number; last_updated_at?: number }>>;
+  } | null = null;
+
+  constructor(
+    private cache: PriceCache,
+    private rateLimiter: RateLimiter,
+    private apiUrl: string = COINGECKO_API_URL
+  ) {}
+
+  getPrice(coinId: string): Promise<PriceSourceResult> {
+    return this.cache.get(`coingecko:${coinId}`, async () => {
+      const data = (await this.fetchBatched(coinId))[coinId];
+      if (data?.usd === undefined) {
+        throw new Error(`CoinGecko returned no USD price for ${coinId}`);
+      }
+      return {
+        price: new BigNumber(data.usd),
+        timestamp: data.last_updated_at ? data.last_updated_at * 1000 : undefined,
+      };
+    });
+  }
+
+  /**
+   * Historical USD prices of a coin over the last `days` days. CoinGecko
+   * returns hourly points up to 90 days and daily points beyond.
+   */
+  getMarketChart(coinId: string, days: number): Promise<MarketChart> {
+    return this.rateLimiter.schedule("coingecko", async () => {
+      const result = await axios.get(`${this.apiUrl}/coins/${coinId}/market_chart`, {
+        params: { vs_currency: "usd", days },
+        timeout: 30_000,
+      });
+      return { prices: result.data?.prices ?? [] };
+    });
+  }
+
+  /**
+   * Join the request being collected in this tick, or start a new one
+   */
+  private fetchBatched(coinId: string) {
+    if (this.pending) {
+      this.pending.coinIds.add(coinId);
+      return this.pending.response;
+    }
+
+    const coinIds = new Set([coinId]);
+    const response = new Promise<void>((resolve) => setTimeout(resolve, 0)).then(() => {
+      this.pending = null;
+      return this.rateLimiter.schedule("coingecko", async () => {
+        const result = await axios.get(`${this.apiUrl}/simple/price`, {
+          params: {
+            ids: [...coinIds].join(","),
+            vs_currencies: "usd",
+            include_last_updated_at: true,
+          },
+          timeout: 10_000,
+        });
+        return result.data ?? {};
+      });
+    });
+    this.pending = { coinIds, response };
+    return response;
+  }
+}
@@ -0,0 +1,785 @@
+import BigNumber from "bignumber.js";
+
+import {
+  AccountTransaction,
+  BotRegistryEntry,
+  BotStatusReport,
+  openBotRepository,
+  PoolSnapshot,
+  TransactionRepository,
+  aggregateVolume,
+  buildVolumeBuckets,
+  formatBucketLabel,
+  toTokenAmount,
+  TransactionCursor,
+  TransactionFilter,
+  TransactionPage,
+  TransactionType,
+  TransactionValuer,
+  VolumeBucketSize,
+  VolumeQuery,
+} from "../database";
+import {
+  normalizeDenom,
+  RegistryToken,
+  SUI_MAINNET_CHAIN_INFO,
+  SUI_MAINNET_TOKENS_MAP,
+} from "../registry";
+
+import { fetchArchwayMonitoring } from "./archway-monitoring";
+import { ArchwayPriceService } from "./archway-price-service";
+import { BoltGrpcClient, Pool } from "./bolt-grpc-client";
+import {
+  DashboardConfig,
+  DashboardTokenConfig,
+  findDashboardToken,
+  SuiPriceSource,
+} from "./dashboard-config";
+import {
+  ArchwayMonitoring,
+  BotActivity,
+  DailyVolume,
+  DashboardSnapshot,
+  DashboardTokenPrice,
+  PoolBalanceView,
+  SwapBuySummary,
+  SwapBuyTokenSummary,
+  SwapBuyTransaction,
+} from "./dashboard-snapshot";
+import { recordPriceSamples } from "./price-history";
+import { OraclePrice } from "./price-oracle";
+import { isPoolAsset, PriceService } from "./price-service";
+
+// Current UTC day and the 4 before it
+const DEFAULT_VOLUME_RANGE_MS = 4 * 24 * 60 * 60 * 1000;
+const FIRST_SWAP_WINDOW_MS = 60 * 60 * 1000;
+const SWAP_BUY_PAGE_SIZE = 500;
+
+interface PoolBalance {
+  base: BigNumber;
+  quote: BigNumber;
+}
+
+interface PoolBalances {
+  // Keyed by pool identifier
+  pools: Record<string, PoolBalance>;
+  timestamp: number;
+  fromSnapshot?: boolean;
+}
+
+export interface DashboardCollectorOptions {
+  config: DashboardConfig;
+  database: TransactionRepository;
+  /** Sui address whose swap_buy transactions and volume are shown */
+  address: string;
+  /** Registered bots, only Archway bots are aggregated */
+  bots?: BotRegistryEntry[];
+  grpcClient?: BoltGrpcClient;
+  priceService?: PriceService;
+  /** Default: shares the cache and rate limiter of `priceService` */
+  archwayPriceService?: ArchwayPriceService;
+  /** Range, bucket size and time zone of the volume tables */
+  volume?: VolumeWindow;
+  /** Print raw pool responses */
+  debug?: boolean;
+}
+
+export interface VolumeWindow {
+  /** Aggregate volume since this long ago, in milliseconds (default: the current UTC day and the 4 before it) */
+  rangeMs?: number;
+  /** Default: day */
+  bucket?: VolumeBucketSize;
+  /** IANA time zone the buckets start in (default: UTC) */
+  timeZone?: string;
+}
+
+export interface CollectOptions {
+  /** Show swap_buy transactions since this time (default: since the last collection, or the last hour) */
+  swapsSince?: Date;
+  /** Compare against the stored snapshot at or before this time instead of the last collection */
+  compareTime?: Date | null;
+}
+
+/**
+ * USD price of a configured Sui token, a fixed price wins over the price service
+ */
+export function getSuiTokenPrice(
+  token: DashboardTokenConfig,
+  tokenPrices: Map<string, BigNumber>
+): BigNumber {
+  if (token.price !== undefined) {
+    return new BigNumber(token.price);
+  }
+  return tokenPrices.get(token.symbol.toLowerCase()) || new BigNumber(0);
+}
+
+/**
+ * Registry token priced for a configured Sui token. Known tokens keep their
+ * registry entry, so the oracle sees the same denom as other price lookups.
+ */
+function toSuiRegistryToken(
+  token: DashboardTokenConfig<SuiPriceSource>
+): RegistryToken {
+  const known = Object.values(SUI_MAINNET_TOKENS_MAP).find((item) =>
+    isPoolAsset(token.denom, item)
+  );
+  return {
+    ...(known ?? {
+      chainId: SUI_MAINNET_CHAIN_INFO.id,
+      denom: token.denom,
+      name: token.symbol,
+      decimals: token.decimals,
+    }),
+    coingeckoId: token.coingeckoId ?? known?.coingeckoId,
+  };
+}
+
+/**
+ * Price service for the configured Sui pools, using the price sources the
+ * config selects for each token
+ */
+export function createSuiPriceService(config: DashboardConfig): PriceService {
+  return new PriceService({
+    poolIds: config.sui.pools.map((pool) => pool.poolId),
+    priceSources: Object.fromEntries(
+      config.sui.tokens.flatMap((token) =>
+        token.priceSources
+          ? [[toSuiRegistryToken(token).denom, token.priceSources]]
+          : []
+      )
+    ),
+  });
+}
+
+/**
+ * Find the quote asset of a Bolt pool matching a configured token.
+ * Falls back to the first quote asset, like single-quote pools report it.
+ */
+function findQuoteAsset(pool: Pool, token: DashboardTokenConfig) {
+  return (
+    pool.quoteAssets.find(
+      (qa) =>
+        qa.denom === token.denom ||
+        qa.denom.toLowerCase() === token.symbol.toLowerCase()
+    ) ?? pool.quoteAssets[0]
+  );
+}
+
+/**
+ * Fee ratios and amounts may be fraction strings, store them as decimals
+ */
+function toDecimalString(value?: string): string | null {
+  if (!value) {
+    return null;
+  }
+  return value.includes("/")
+    ? BoltGrpcClient.parseFractionToBigNumber(value).toFixed()
+    : value;
+}
+
+/**
+ * Fixed config prices of the Sui and Archway tokens, keyed by normalized
+ * denom. They hold at any time, so they value past swaps too; these tokens
+ * have no price samples. Archway prices are in the Archway quote token (USDC).
+ */
+function getFixedTokenPrices(config: DashboardConfig): Map<string, BigNumber> {
+  const prices = new Map<string, BigNumber>();
+  for (const token of [...config.sui.tokens, ...config.archway.tokens]) {
+    if (token.price !== undefined && token.price > 0) {
+      prices.set(normalizeDenom(token.denom), new BigNumber(token.price));
+    }
+  }
+  return prices;
+}
+
+/**
+ * Gathers the data shown by the rebalance dashboard into a DashboardSnapshot.
+ * Every collection is stored as a pool snapshot, and compared against the
+ * previous collection unless a comparison time is given.
+ */
+export class DashboardCollector {
+  private config: DashboardConfig;
+  private database: TransactionRepository;
+  private address: string;
+  private archwayBots: BotRegistryEntry[];
+  private grpcClient: BoltGrpcClient;
+  private priceService: PriceService;
+  private archwayPriceService: ArchwayPriceService;
+  private volumeWindow: Required<VolumeWindow>;
+  private debug: boolean;
+
+  private previousBalances: PoolBalances | null = null;
+  private lastCollectedAt: number | null = null;
+
+  constructor(options: DashboardCollectorOptions) {
+    this.config = options.config;
+    this.database = options.database;
+    this.address = options.address;
+    this.archwayBots = (options.bots ?? []).filter(
+      (bot) => bot.chain === "archway"
+    );
+    this.grpcClient = options.grpcClient ?? new BoltGrpcClient();
+    this.priceService =
+      options.priceService ?? createSuiPriceService(options.config);
+    this.archwayPriceService =
+      options.archwayPriceService ??
+      new ArchwayPriceService(options.config.archway, {
+        cache: this.priceService.cache,
+        rateLimiter: this.priceService.rateLimiter,
+      });
+    this.volumeWindow = {
+      rangeMs: options.volume?.rangeMs ?? DEFAULT_VOLUME_RANGE_MS,
+      bucket: options.volume?.bucket ?? "day",
+      timeZone: options.volume?.timeZone ?? "UTC",
+    };
+    this.debug = Boolean(options.debug);
+  }
+
+  /** True once a snapshot has been collected */
+  get hasCollected(): boolean {
+    return this.lastCollectedAt !== null;
+  }
+
+  async collect(options: CollectOptions = {}): Promise<DashboardSnapshot> {
+    const { config } = this;
+    const swapsSince =
+      options.swapsSince ??
+      new Date(this.lastCollectedAt ?? Date.now() - FIRST_SWAP_WINDOW_MS);
+
+    const pools = await this.fetchSuiPools();
+
+    // Get prices from price service, the median of the configured sources
+    const oraclePrices = await this.getSuiOraclePrices();
+    const tokenPrices = new Map(
+      [...oraclePrices].map(([token, oraclePrice]) => [token, oraclePrice.price])
+    );
+
+    // Parse current pool balances
+    const currentBalances: PoolBalances = {
+      pools: {},
+      timestamp: Date.now(),
+    };
+    for (const poolConfig of config.sui.pools) {
+      const pool = pools.get(poolConfig.poolId)!;
+      const quoteToken = findDashboardToken(config.sui.tokens, poolConfig.quoteToken);
+      const quoteAsset = findQuoteAsset(pool, quoteToken);
+
+      currentBalances.pools[poolConfig.poolId] = {
+        base: BoltGrpcClient.parseFractionToBigNumber(pool.baseAmount),
+        quote: quoteAsset
+          ? BoltGrpcClient.parseFractionToBigNumber(quoteAsset.amount)
+          : new BigNumber(0),
+      };
+    }
+
+    // Persist this collection so it can be compared against later
+    try {
+      await this.database.addPoolSnapshotBatch(
+        this.buildPoolSnapshots(pools, tokenPrices, currentBalances)
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to store pool snapshots: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    // Compare against a stored snapshot when requested
+    const baselineBalances = options.compareTime
+      ? await this.loadSnapshotBalances(options.compareTime)
+      : this.previousBalances;
+    if (options.compareTime && !baselineBalances) {
+      console.warn(
+        `⚠️  No pool snapshot stored at or before ${options.compareTime.toLocaleString()}`
+      );
+    }
+
+    // Fetch monitoring dashboard data (Archway/Bolt pools)
+    const archwayMonitoring = await fetchArchwayMonitoring(
+      config.archway,
+      this.archwayPriceService
+    );
+
+    // Keep a price history so transactions can be valued at their own time
+    try {
+      await recordPriceSamples(this.database, [
+        ...config.sui.tokens
+          .filter((token) => token.price === undefined)
+          .map((token) => ({
+            denom: token.denom,
+            price: getSuiTokenPrice(token, tokenPrices),
+            source: "oracle",
+          })),
+        ...config.archway.tokens.flatMap((token) => {
+          const source = archwayMonitoring?.priceSources[token.symbol];
+          return source && source !== "config"
+            ? [{
+                denom: token.denom,
+                price: new BigNumber(archwayMonitoring!.prices[token.symbol]),
+                source,
+              }]
+            : [];
+        }),
+      ], currentBalances.timestamp);
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to store price samples: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    // Value swaps at the price closest to each transaction, swaps without a
+    // close enough sample are counted as unvalued
+    const fixedPrices = getFixedTokenPrices(config);
+    const valuer = new TransactionValuer(this.database, {
+      fixedPrice: (denom) => fixedPrices.get(normalizeDenom(denom)) ?? null,
+    });
+
+    const swapBuys = await this.collectSwapBuys(swapsSince, valuer);
+
+    // Calculate daily volumes for Sui
+    const volumeQuery = this.getVolumeQuery();
+    const suiDailyVolumes = await this.calculateDailyVolumes(volumeQuery, valuer);
+    const suiTransactionTypes = await this.database.getTransactionTypeSummary(
+      this.address
+    );
+
+    // Calculate daily volumes for Archway (aggregate across all Archway bots)
+    const archwayVolumes = await this.calculateArchwayDailyVolumes(volumeQuery, valuer);
+
+    // Resolve configured pools with their token prices
+    const toView = (balance: PoolBalance, basePrice: BigNumber, quotePrice: BigNumber): PoolBalanceView => ({
+      base: balance.base,
+      quote: balance.quote,
+      baseUsd: balance.base.multipliedBy(basePrice),
+      quoteUsd: balance.quote.multipliedBy(quotePrice),
+    });
+    const suiPools = config.sui.pools.map((poolConfig) => {
+      const baseToken = findDashboardToken(config.sui.tokens, poolConfig.baseToken);
+      const quoteToken = findDashboardToken(config.sui.tokens, poolConfig.quoteToken);
+      const basePriceUsd = getSuiTokenPrice(baseToken, tokenPrices);
+      const quotePriceUsd = getSuiTokenPrice(quoteToken, tokenPrices);
+      const previous = baselineBalances?.pools[poolConfig.poolId];
+
+      return {
+        name: poolConfig.name,
+        poolId: poolConfig.poolId,
+        baseToken: poolConfig.baseToken,
+        quoteToken: poolConfig.quoteToken,
+        basePriceUsd,
+        quotePriceUsd,
+        current: toView(currentBalances.pools[poolConfig.poolId], basePriceUsd, quotePriceUsd),
+        previous: previous ? toView(previous, basePriceUsd, quotePriceUsd) : null,
+      };
+    });
+
+    const sumLiquidity = (balances: Array<PoolBalanceView | null>) =>
+      balances.reduce(
+        (sum, balance) =>
+          balance ? sum.plus(balance.baseUsd).plus(balance.quoteUsd) : sum,
+        new BigNumber(0)
+      );
+
+    // Update previous balances for the next collection
+    this.previousBalances = currentBalances;
+    this.lastCollectedAt = Date.now();
+
+    return {
+      timestamp: currentBalances.timestamp,
+      sui: {
+        address: this.address,
+        prices: config.sui.tokens.map((token): DashboardTokenPrice => {
+          const oraclePrice =
+            token.price === undefined
+              ? oraclePrices.get(token.symbol.toLowerCase())
+              : undefined;
+          return {
+            symbol: token.symbol,
+            priceUsd: getSuiTokenPrice(token, tokenPrices),
+            source: token.price !== undefined ? "config" : "price_service",
+            confidence: oraclePrice?.confidence ?? null,
+            quotes: oraclePrice?.quotes ?? [],
+          };
+        }),
+        pools: suiPools,
+        totalLiquidityUsd: sumLiquidity(suiPools.map((pool) => pool.current)),
+        previousTotalLiquidityUsd: baselineBalances
+          ? sumLiquidity(suiPools.map((pool) => pool.previous))
+          : null,
+        comparedTo: baselineBalances
+          ? {
+              timestamp: baselineBalances.timestamp,
+              fromSnapshot: Boolean(baselineBalances.fromSnapshot),
+            }
+          : null,
+        swapBuys,
+        dailyVolumes: suiDailyVolumes,
+        transactionTypes: suiTransactionTypes,
+      },
+      archway: {
+        monitoring: archwayMonitoring,
+        dailyVolumes: archwayVolumes.dailyVolumes,
+        bots: archwayVolumes.botStatuses,
+        botActivity: archwayVolumes.botActivity,
+      },
+    };
+  }
+
+  /**
+   * Oracle price of every configured Sui token without a fixed price, keyed
+   * by lowercase symbol
+   *
+   * @throws PriceUnavailableError when no source produced a usable price
+   */
+  private async getSuiOraclePrices(): Promise<Map<string, OraclePrice>> {
+    const tokens = this.config.sui.tokens.filter(
+      (token) => token.price === undefined
+    );
+    const prices = await Promise.all(
+      tokens.map((token) =>
+        this.priceService.getRegistryTokenPrice(toSuiRegistryToken(token))
+      )
+    );
+    return new Map(
+      tokens.map((token, index) => [token.symbol.toLowerCase(), prices[index]])
+    );
+  }
+
+  private async fetchSuiPools(): Promise<Map<string, Pool>> {
+    const { config } = this;
+    const poolResponses = await Promise.all(
+      config.sui.pools.map((poolConfig) =>
+        this.grpcClient.getPool(poolConfig.poolId)
+      )
+    );
+
+    const pools = new Map<string, Pool>();
+    config.sui.pools.forEach((poolConfig, index) => {
+      const poolResponse = poolResponses[index];
+
+      // Debug: show raw responses
+      if (this.debug) {
+        console.log(`\n🔍 DEBUG - ${poolConfig.name} Pool Response:`);
+        console.log(JSON.stringify(poolResponse, null, 2));
+      }
+
+      // Validate pool structure
+      const pool = poolResponse.pool;
+      if (!pool) {
+        throw new Error(
+          `Invalid ${poolConfig.name} pool response: ${JSON.stringify(poolResponse)}`
+        );
+      }
+
+      // Validate pool has required fields
+      if (!pool.baseAsset || !pool.baseAmount) {
+        throw new Error(`${poolConfig.name} pool missing baseAsset or baseAmount`);
+      }
+
+      pools.set(poolConfig.poolId, pool);
+    });
+    if (this.debug) {
+      console.log();
+    }
+
+    return pools;
+  }
+
+  /**
+   * Build one snapshot row per configured Sui pool for the current collection
+   */
+  private buildPoolSnapshots(
+    pools: Map<string, Pool>,
+    tokenPrices: Map<string, BigNumber>,
+    currentBalances: PoolBalances
+  ): PoolSnapshot[] {
+    const { config } = this;
+    const timestamp = Math.floor(currentBalances.timestamp / 1000);
+
+    return config.sui.pools.map((poolConfig) => {
+      const pool = pools.get(poolConfig.poolId)!;
+      const balance = currentBalances.pools[poolConfig.poolId];
+      const baseToken = findDashboardToken(config.sui.tokens, poolConfig.baseToken);
+      const quoteToken = findDashboardToken(config.sui.tokens, poolConfig.quoteToken);
+
+      return {
+        chain: "sui",
+        poolId: poolConfig.poolId,
+        poolName: poolConfig.name,
+        baseDenom: pool.baseAsset,
+        baseAmount: balance.base.toFixed(),
+        quoteDenom: findQuoteAsset(pool, quoteToken)?.denom ?? quoteToken.denom,
+        quoteAmount: balance.quote.toFixed(),
+        basePriceUsd: getSuiTokenPrice(baseToken, tokenPrices).toFixed(),
+        quotePriceUsd: getSuiTokenPrice(quoteToken, tokenPrices).toFixed(),
+        lpFeeRatio: toDecimalString(pool.lpFeeRatio),
+        protocolFeeRatio: toDecimalString(pool.protocolFeeRatio),
+        unclaimedLpFees: toDecimalString(pool.unclaimedLpFees?.amount),
+        unclaimedProtocolFees: toDecimalString(pool.unclaimedProtocolFees?.amount),
+        timestamp,
+      };
+    });
+  }
+
+  /**
+   * Load the latest stored snapshot at or before `time` for every configured Sui pool
+   */
+  private async loadSnapshotBalances(time: Date): Promise<PoolBalances | null> {
+    const balances: PoolBalances = {
+      pools: {},
+      timestamp: time.getTime(),
+      fromSnapshot: true,
+    };
+
+    let oldestSnapshot: number | null = null;
+    for (const poolConfig of this.config.sui.pools) {
+      const snapshot = await this.database.getPoolSnapshotAt(poolConfig.poolId, time, "sui");
+      if (!snapshot) {
+        continue;
+      }
+
+      balances.pools[poolConfig.poolId] = {
+        base: new BigNumber(snapshot.baseAmount),
+        quote: new BigNumber(snapshot.quoteAmount),
+      };
+      if (snapshot.timestamp !== undefined) {
+        oldestSnapshot = Math.min(oldestSnapshot ?? snapshot.timestamp, snapshot.timestamp);
+      }
+    }
+
+    if (oldestSnapshot === null) {
+      return null;
+    }
+    balances.timestamp = oldestSnapshot * 1000;
+    return balances;
+  }
+
+  /**
+   * swap_buy transactions (BOLT_SUI_SWAP) since `since`, valued in USD at
+   * the time of each swap
+   */
+  private async collectSwapBuys(
+    since: Date,
+    valuer: TransactionValuer
+  ): Promise<SwapBuySummary> {
+    // Paged, so a busy range is never cut off
+    const filter: TransactionFilter = {
+      signerAddress: this.address,
+      transactionTypes: [TransactionType.BOLT_SUI_SWAP],
+      successful: true,
+      startTime: since,
+      endTime: new Date(),
+    };
+    const swapBuyTransactions: AccountTransaction[] = [];
+    let cursor: TransactionCursor | null = null;
+    do {
+      const page: TransactionPage = await this.database.queryTransactions(
+        filter,
+        cursor,
+        SWAP_BUY_PAGE_SIZE
+      );
+      swapBuyTransactions.push(...page.transactions);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const transactions: SwapBuyTransaction[] = [];
+    const unresolvedDenoms = new Set<string>();
+    let unvaluedCount = 0;
+    for (const tx of swapBuyTransactions) {
+      if (tx.inputAmount && tx.outputAmount) {
+        // Whole tokens when the registry knows the denom, base units otherwise
+        const input = toTokenAmount(tx.inputAmount, tx.inputTokenDenom || "", tx.chainId);
+        const output = toTokenAmount(tx.outputAmount, tx.outputTokenDenom || "", tx.chainId);
+        const inputAmount = input?.amount ?? new BigNumber(tx.inputAmount);
+        const outputAmount = output?.amount ?? new BigNumber(tx.outputAmount);
+        const value = await valuer.valueTransaction(tx);
+        for (const denom of value.unresolvedDenoms) {
+          unresolvedDenoms.add(denom);
+        }
+        if (!value.inputUsd || !value.outputUsd) {
+          unvaluedCount++;
+        }
+
+        transactions.push({
+          inputToken: tx.inputTokenName || tx.inputTokenDenom || "Unknown",
+          inputAmount,
+          inputUsd: value.inputUsd ?? new BigNumber(0),
+          outputToken: tx.outputTokenName || tx.outputTokenDenom || "Unknown",
+          outputAmount,
+          outputUsd: value.outputUsd ?? new BigNumber(0),
+          txHash: tx.txHash,
+          timestamp: tx.timestamp || Date.now() / 1000,
+        });
+      }
+    }
+
+    // Aggregate by input token
+    const byToken = new Map<string, SwapBuyTokenSummary>();
+    for (const swap of transactions) {
+      const summary = byToken.get(swap.inputToken) ?? {
+        token: swap.inputToken,
+        inputAmount: new BigNumber(0),
+        inputUsd: new BigNumber(0),
+        outputAmount: new BigNumber(0),
+        outputUsd: new BigNumber(0),
+      };
+      summary.inputAmount = summary.inputAmount.plus(swap.inputAmount);
+      summary.inputUsd = summary.inputUsd.plus(swap.inputUsd);
+      summary.outputAmount = summary.outputAmount.plus(swap.outputAmount);
+      summary.outputUsd = summary.outputUsd.plus(swap.outputUsd);
+      byToken.set(swap.inputToken, summary);
+    }
+
+    return {
+      since: since.getTime(),
+      transactions,
+      byToken: [...byToken.values()],
+      totalInputUsd: transactions.reduce((sum, swap) => sum.plus(swap.inputUsd), new BigNumber(0)),
+      totalOutputUsd: transactions.reduce((sum, swap) => sum.plus(swap.outputUsd), new BigNumber(0)),
+      unvaluedCount,
+      unresolvedDenoms: [...unresolvedDenoms],
+    };
+  }
+
+  /**
+   * Volume buckets of the configured window, current bucket first. Swaps
+   * that cannot be valued are counted and their unknown denoms listed
+   * instead of adding $0.
+   */
+  private async aggregateVolume(
+    database: TransactionRepository,
+    query: VolumeQuery,
+    valuer: TransactionValuer
+  ): Promise<DailyVolume[]> {
+    const totals = await aggregateVolume(database, query, valuer);
+    return totals.reverse().map((total) => ({
+      date: formatBucketLabel(total.start, query.bucket, query.timeZone),
+      volumeUsd: new BigNumber(total.volumeUsd),
+      transactionCount: total.transactionCount,
+      lastSwapAt: total.lastTimestamp,
+      unvaluedCount: total.unvaluedCount,
+      unresolvedDenoms: total.unresolvedDenoms,
+    }));
+  }
+
+  /**
+   * The volume window ending now
+   */
+  private getVolumeQuery(): VolumeQuery {
+    const now = new Date();
+    return {
+      startTime: new Date(now.getTime() - this.volumeWindow.rangeMs),
+      endTime: now,
+      bucket: this.volumeWindow.bucket,
+      timeZone: this.volumeWindow.timeZone,
+    };
+  }
+
+  /**
+   * Calculate Sui volumes per bucket (default: current UTC day and the previous 4)
+   */
+  private async calculateDailyVolumes(
+    query: VolumeQuery,
+    valuer: TransactionValuer
+  ): Promise<DailyVolume[]> {
+    return this.aggregateVolume(
+      this.database,
+      {
+        ...query,
+        transactionType: TransactionType.BOLT_SUI_SWAP,
+        signerAddress: this.address,
+      },
+      valuer
+    );
+  }
+
+  /**
+   * Calculate volumes per bucket for Archway bots (aggregate across all registered bots)
+   */
+  private async calculateArchwayDailyVolumes(
+    query: VolumeQuery,
+    valuer: TransactionValuer
+  ): Promise<{
+    dailyVolumes: DailyVolume[];
+    botStatuses: BotStatusReport[];
+    botActivity: BotActivity[];
+  }> {
+    const dailyVolumes = buildVolumeBuckets(query)
+      .reverse()
+      .map((bucket): DailyVolume => ({
+        date: formatBucketLabel(bucket.start, query.bucket, query.timeZone),
+        volumeUsd: new BigNumber(0),
+        transactionCount: 0,
+        lastSwapAt: null,
+        unvaluedCount: 0,
+        unresolvedDenoms: [],
+      }));
+
+    // Query each registered Archway bot database
+    const botStatuses: BotStatusReport[] = [];
+    const botActivity: BotActivity[] = [];
+    for (const bot of this.archwayBots) {
+      const report: BotStatusReport = {
+        name: bot.name,
+        chain: bot.chain,
+        platform: bot.platform,
+        status: "empty",
+        transactionCount: 0,
+      };
+      botStatuses.push(report);
+
+      let botDatabase: TransactionRepository | null = null;
+      try {
+        botDatabase = await openBotRepository(bot);
+
+        // Several bots can share one database, count only this bot's rows
+        const botDailyVolumes = await this.aggregateVolume(
+          botDatabase,
+          {
+            ...query,
+            transactionType: TransactionType.BOLT_ARCHWAY_SWAP,
+            signerAddress: bot.signerAddress,
+          },
+          valuer
+        );
+
+        botDailyVolumes.forEach((botDay, index) => {
+          const day = dailyVolumes[index];
+          report.transactionCount += botDay.transactionCount;
+          day.volumeUsd = day.volumeUsd.plus(botDay.volumeUsd);
+          day.transactionCount += botDay.transactionCount;
+          day.unvaluedCount += botDay.unvaluedCount;
+          day.unresolvedDenoms = [
+            ...new Set([...day.unresolvedDenoms, ...botDay.unresolvedDenoms]),
+          ];
+          if (botDay.lastSwapAt !== null && botDay.lastSwapAt > (day.lastSwapAt ?? 0)) {
+            day.lastSwapAt = botDay.lastSwapAt;
+          }
+        });
+
+        const transactionTypes = await botDatabase.getTransactionTypeSummary(
+          bot.signerAddress
+        );
+        botActivity.push({
+          name: bot.name,
+          dailyVolumes: botDailyVolumes,
+          transactionTypes,
+        });
+        // Found when the bot has any recorded row, even without a swap in the window
+        report.status = transactionTypes.some((summary) => Number(summary.totalCount) > 0)
+          ? "found"
+          : "empty";
+      } catch (error) {
+        // Report the bot instead of skipping it silently
+        report.status = "unreadable";
+        report.error = error instanceof Error ? error.message : "Unknown error";
+      } finally {
+        await botDatabase?.close();
+      }
+    }
+
+    return { dailyVolumes, botStatuses, botActivity };
+  }
+}
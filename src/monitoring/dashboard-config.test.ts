@@ -0,0 +1,48 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { ConfigValidationError } from "../utils";
+
+import { loadDashboardConfig, parseDashboardConfig } from "./dashboard-config";
+
+const DEFAULT_CONFIG_FILE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../rebalance-dashboard.config.json"
+);
+
+const readDefaultConfig = async () =>
+  JSON.parse(await readFile(DEFAULT_CONFIG_FILE, "utf-8"));
+
+describe("dashboard config", () => {
+  it("loads the default pool set", async () => {
+    const config = await loadDashboardConfig(DEFAULT_CONFIG_FILE);
+    expect(config.sui.pools.map((pool) => pool.name)).toEqual(["SUI", "USDC"]);
+    expect(config.archway.pools).toHaveLength(8);
+  });
+
+  it("accepts oracle price sources for Sui tokens", async () => {
+    const raw = await readDefaultConfig();
+    raw.sui.tokens[0].priceSources = ["price_feeder", "coingecko"];
+
+    const config = parseDashboardConfig(raw);
+    expect(config.sui.tokens[0].priceSources).toEqual(["price_feeder", "coingecko"]);
+  });
+
+  it("rejects price sources of the other chain", async () => {
+    const raw = await readDefaultConfig();
+    raw.archway.tokens[1].priceSources = ["price_feeder"];
+
+    expect(() => parseDashboardConfig(raw)).toThrow(ConfigValidationError);
+    expect(() => parseDashboardConfig(raw)).toThrow(
+      "archway.tokens[1].priceSources[0] must be one of: bolt, coingecko"
+    );
+  });
+
+  it("names the missing default file", async () => {
+    await expect(loadDashboardConfig("/nonexistent/dashboard.json")).rejects.toThrow(
+      "Could not read config file /nonexistent/dashboard.json"
+    );
+  });
+});
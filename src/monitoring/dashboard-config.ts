@@ -0,0 +1,291 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  ConfigValidationError,
+  expectArray,
+  expectOneOf,
+  expectRecord,
+  expectString,
+  optionalString,
+  parseJsonConfig,
+} from "../utils";
+
+export type ArchwayPriceSource = "bolt" | "coingecko";
+
+/** Sources of the Sui price oracle, see PriceService */
+export type SuiPriceSource =
+  | "coingecko"
+  | "peg"
+  | "price_feeder"
+  | "bolt"
+  | "pool_reserves";
+
+export type DashboardPriceSource = ArchwayPriceSource | SuiPriceSource;
+
+export interface DashboardTokenConfig<
+  Source extends DashboardPriceSource = DashboardPriceSource,
+> {
+  symbol: string;
+  denom: string;
+  decimals: number;
+  coingeckoId?: string;
+  /** Fixed USD price, skips every price source when set */
+  price?: number;
+  /**
+   * Archway: sources tried in order. Sui: oracle sources whose median is the
+   * price. Default: every source that applies to the token.
+   */
+  priceSources?: Source[];
+}
+
+export interface SuiPoolConfig {
+  name: string;
+  poolId: string;
+  baseToken: string;
+  quoteToken: string;
+}
+
+export interface ArchwayPoolConfig {
+  name: string;
+  address: string;
+  baseToken: string;
+  quoteTokens: string[];
+}
+
+export interface DashboardConfig {
+  sui: {
+    tokens: DashboardTokenConfig<SuiPriceSource>[];
+    pools: SuiPoolConfig[];
+  };
+  archway: {
+    rpcEndpoint: string;
+    routerAddress: string;
+    /** Token every Archway price is quoted against */
+    quoteToken: string;
+    tokens: DashboardTokenConfig<ArchwayPriceSource>[];
+    pools: ArchwayPoolConfig[];
+  };
+}
+
+/** Config file loaded when no path is given, relative to the working directory */
+export const DEFAULT_DASHBOARD_CONFIG_PATH = "rebalance-dashboard.config.json";
+
+const ARCHWAY_PRICE_SOURCES: ArchwayPriceSource[] = ["bolt", "coingecko"];
+const SUI_PRICE_SOURCES: SuiPriceSource[] = [
+  "coingecko",
+  "peg",
+  "price_feeder",
+  "bolt",
+  "pool_reserves",
+];
+
+const parseToken = <Source extends DashboardPriceSource>(
+  value: unknown,
+  at: string,
+  sources: Source[]
+): DashboardTokenConfig<Source> => {
+  const raw = expectRecord(value, at);
+
+  const decimals = raw.decimals;
+  if (
+    typeof decimals !== "number" ||
+    !Number.isInteger(decimals) ||
+    decimals < 0 ||
+    decimals > 36
+  ) {
+    throw new ConfigValidationError(
+      `${at}.decimals must be an integer between 0 and 36`
+    );
+  }
+
+  if (
+    raw.price !== undefined &&
+    (typeof raw.price !== "number" || !(raw.price > 0))
+  ) {
+    throw new ConfigValidationError(`${at}.price must be a positive number`);
+  }
+
+  const priceSources =
+    raw.priceSources === undefined
+      ? undefined
+      : expectArray(raw.priceSources, `${at}.priceSources`).map(
+          (source, index) =>
+            expectOneOf(source, `${at}.priceSources[${index}]`, sources)
+        );
+
+  return {
+    symbol: expectString(raw.symbol, `${at}.symbol`),
+    denom: expectString(raw.denom, `${at}.denom`),
+    decimals,
+    coingeckoId: optionalString(raw.coingeckoId, `${at}.coingeckoId`),
+    price: raw.price as number | undefined,
+    priceSources,
+  };
+};
+
+const parseTokens = <Source extends DashboardPriceSource>(
+  value: unknown,
+  at: string,
+  sources: Source[]
+): DashboardTokenConfig<Source>[] => {
+  const tokens = expectArray(value, at).map((token, index) =>
+    parseToken(token, `${at}[${index}]`, sources)
+  );
+
+  const seen = new Set<string>();
+  for (const token of tokens) {
+    if (seen.has(token.symbol)) {
+      throw new ConfigValidationError(
+        `${at} declares token ${token.symbol} more than once`
+      );
+    }
+    seen.add(token.symbol);
+  }
+
+  return tokens;
+};
+
+const expectTokenSymbol = (
+  value: unknown,
+  at: string,
+  tokens: DashboardTokenConfig[]
+): string => {
+  const symbol = expectString(value, at);
+  if (!tokens.some((token) => token.symbol === symbol)) {
+    throw new ConfigValidationError(`${at} references unknown token ${symbol}`);
+  }
+  return symbol;
+};
+
+/**
+ * Validate a raw (parsed JSON) dashboard config
+ *
+ * @throws ConfigValidationError describing the first invalid field
+ */
+export const parseDashboardConfig = (value: unknown): DashboardConfig => {
+  const raw = expectRecord(value, "config");
+
+  const rawSui = expectRecord(raw.sui, "sui");
+  const suiTokens = parseTokens(
+    rawSui.tokens,
+    "sui.tokens",
+    SUI_PRICE_SOURCES
+  );
+  const suiPools = expectArray(rawSui.pools, "sui.pools").map(
+    (item, index): SuiPoolConfig => {
+      const at = `sui.pools[${index}]`;
+      const pool = expectRecord(item, at);
+      return {
+        name: expectString(pool.name, `${at}.name`),
+        poolId: expectString(pool.poolId, `${at}.poolId`),
+        baseToken: expectTokenSymbol(
+          pool.baseToken,
+          `${at}.baseToken`,
+          suiTokens
+        ),
+        quoteToken: expectTokenSymbol(
+          pool.quoteToken,
+          `${at}.quoteToken`,
+          suiTokens
+        ),
+      };
+    }
+  );
+
+  const rawArchway = expectRecord(raw.archway, "archway");
+  const archwayTokens = parseTokens(
+    rawArchway.tokens,
+    "archway.tokens",
+    ARCHWAY_PRICE_SOURCES
+  );
+  const archwayPools = expectArray(rawArchway.pools, "archway.pools").map(
+    (item, index): ArchwayPoolConfig => {
+      const at = `archway.pools[${index}]`;
+      const pool = expectRecord(item, at);
+      return {
+        name: expectString(pool.name, `${at}.name`),
+        address: expectString(pool.address, `${at}.address`),
+        baseToken: expectTokenSymbol(
+          pool.baseToken,
+          `${at}.baseToken`,
+          archwayTokens
+        ),
+        quoteTokens: expectArray(pool.quoteTokens, `${at}.quoteTokens`).map(
+          (symbol, quoteIndex) =>
+            expectTokenSymbol(
+              symbol,
+              `${at}.quoteTokens[${quoteIndex}]`,
+              archwayTokens
+            )
+        ),
+      };
+    }
+  );
+
+  return {
+    sui: {
+      tokens: suiTokens,
+      pools: suiPools,
+    },
+    archway: {
+      rpcEndpoint: expectString(
+        rawArchway.rpcEndpoint,
+        "archway.rpcEndpoint"
+      ),
+      routerAddress: expectString(
+        rawArchway.routerAddress,
+        "archway.routerAddress"
+      ),
+      quoteToken: expectTokenSymbol(
+        rawArchway.quoteToken,
+        "archway.quoteToken",
+        archwayTokens
+      ),
+      tokens: archwayTokens,
+      pools: archwayPools,
+    },
+  };
+};
+
+/**
+ * Load and validate a dashboard config file, by default
+ * DEFAULT_DASHBOARD_CONFIG_PATH
+ */
+export const loadDashboardConfig = async (
+  configPath: string = DEFAULT_DASHBOARD_CONFIG_PATH
+): Promise<DashboardConfig> => {
+  const resolvedPath = path.resolve(configPath);
+  let contents: string;
+  try {
+    contents = await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    throw new ConfigValidationError(
+      `Could not read config file ${resolvedPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const parsed = parseJsonConfig(contents, `Config file ${resolvedPath}`);
+
+  try {
+    return parseDashboardConfig(parsed);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      throw new ConfigValidationError(`${resolvedPath}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+export const findDashboardToken = <Token extends DashboardTokenConfig>(
+  tokens: Token[],
+  symbol: string
+): Token => {
+  const token = tokens.find((item) => item.symbol === symbol);
+  if (!token) {
+    throw new ConfigValidationError(`Unknown dashboard token ${symbol}`);
+  }
+  return token;
+};
@@ -0,0 +1,225 @@
+/**
+ * Static page served by the dashboard server. It polls the JSON API and
+ * formats numbers the same way as the terminal dashboard.
+ */
+export const renderDashboardPage = (refreshIntervalMs: number): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Rebalance Dashboard</title>
+  <style>
+    body { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; background: #0f1115; color: #e6e6e6; margin: 2rem; }
+    h1 { font-size: 1.3rem; }
+    h2 { font-size: 1.05rem; margin-top: 2rem; border-bottom: 1px solid #333; padding-bottom: .3rem; }
+    table { border-collapse: collapse; margin-top: .5rem; }
+    th, td { padding: .25rem .9rem; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    th { color: #9aa0a6; font-weight: normal; }
+    .muted { color: #9aa0a6; }
+    .error { color: #ff6b6b; }
+    .positive { color: #5fd38d; }
+    .negative { color: #ff6b6b; }
+  </style>
+</head>
+<body>
+  <h1>🔍 Rebalance Dashboard</h1>
+  <p class="muted" id="status">Loading…</p>
+  <div id="content"></div>
+  <script>
+    const REFRESH_INTERVAL_MS = ${refreshIntervalMs};
+
+    const formatTokenAmount = (value) => {
+      const amount = Number(value);
+      if (amount < 0.01) return amount.toFixed(6);
+      if (amount < 1) return amount.toFixed(4);
+      return amount.toFixed(2);
+    };
+    const formatUSD = (value) => "$" + Number(value).toFixed(2);
+
+    const el = (tag, text, className) => {
+      const node = document.createElement(tag);
+      if (text !== undefined) node.textContent = text;
+      if (className) node.className = className;
+      return node;
+    };
+
+    const table = (headers, rows) => {
+      const node = el("table");
+      const head = node.insertRow();
+      headers.forEach((header) => head.appendChild(el("th", header)));
+      rows.forEach((row) => {
+        const tr = node.insertRow();
+        row.forEach((cell) => {
+          const td = tr.insertCell();
+          if (cell && typeof cell === "object") {
+            td.textContent = cell.text;
+            td.className = cell.className;
+          } else {
+            td.textContent = cell;
+          }
+        });
+      });
+      return node;
+    };
+
+    const signed = (value, format) => {
+      const amount = Number(value);
+      return {
+        text: (amount >= 0 ? "+" : "") + format(amount),
+        className: amount >= 0 ? "positive" : "negative",
+      };
+    };
+
+    const section = (title, ...children) => {
+      const node = el("section");
+      node.appendChild(el("h2", title));
+      children.forEach((child) => node.appendChild(child));
+      return node;
+    };
+
+    const volumeTable = (days) => {
+      if (days.length === 0) return el("p", "No volume data available", "muted");
+      const total = days.reduce((sum, day) => sum + Number(day.volumeUsd), 0);
+      const count = days.reduce((sum, day) => sum + day.transactionCount, 0);
+      const unvalued = days.reduce((sum, day) => sum + day.unvaluedCount, 0);
+      const unresolved = [...new Set(days.flatMap((day) => day.unresolvedDenoms))];
+      const node = table(
+        ["Date", "Volume (USD)", "Transactions"],
+        days
+          .map((day) => [day.date, formatUSD(day.volumeUsd), day.transactionCount])
+          .concat([["Total (" + days.length + " days)", formatUSD(total), count]])
+      );
+      if (unvalued === 0 && unresolved.length === 0) return node;
+      const wrapper = el("div");
+      wrapper.appendChild(node);
+      wrapper.appendChild(el(
+        "p",
+        "⚠️ " + unvalued + " swaps not valued" +
+          (unresolved.length ? " (unknown denoms: " + unresolved.join(", ") + ")" : ""),
+        "muted"
+      ));
+      return wrapper;
+    };
+
+    const render = ({ pools, prices, volumes, swaps }) => {
+      const content = document.getElementById("content");
+      const sections = [];
+
+      sections.push(section(
+        "📊 Prices (Sui)",
+        table(["Token", "Price"], prices.sui.map((price) => [price.symbol, formatUSD(price.priceUsd)]))
+      ));
+
+      const since = pools.comparedTo
+        ? (pools.comparedTo.fromSnapshot ? new Date(pools.comparedTo.timestamp).toLocaleString() : "last refresh")
+        : null;
+      const columns = since ? 7 : 5;
+      sections.push(section(
+        "💵 Pool Balances (Sui)",
+        table(
+          ["Pool", "Base", "Base USD", "Quote", "Quote USD", "Base Δ since " + since, "Quote Δ"].slice(0, columns),
+          pools.sui.map((pool) => [
+            pool.name,
+            formatTokenAmount(pool.current.base) + " " + pool.baseToken,
+            formatUSD(pool.current.baseUsd),
+            formatTokenAmount(pool.current.quote) + " " + pool.quoteToken,
+            formatUSD(pool.current.quoteUsd),
+            pool.previous ? signed(Number(pool.current.base) - Number(pool.previous.base), formatTokenAmount) : "",
+            pool.previous ? signed(Number(pool.current.quote) - Number(pool.previous.quote), formatTokenAmount) : "",
+          ].slice(0, columns))
+        ),
+        el("p", "Total Pool Liquidity: " + formatUSD(pools.totalLiquidityUsd) + " USD")
+      ));
+
+      sections.push(section(
+        "🔄 Swap_buy Transactions (since " + new Date(swaps.since).toLocaleString() + ")",
+        swaps.transactions.length === 0
+          ? el("p", "No swap_buy transactions", "muted")
+          : table(
+              ["Time", "Input", "Input USD", "Output", "Output USD", "Tx"],
+              swaps.transactions.map((swap) => [
+                new Date(swap.timestamp * 1000).toLocaleString(),
+                formatTokenAmount(swap.inputAmount) + " " + swap.inputToken,
+                formatUSD(swap.inputUsd),
+                formatTokenAmount(swap.outputAmount) + " " + swap.outputToken,
+                formatUSD(swap.outputUsd),
+                swap.txHash.slice(0, 12) + "…",
+              ])
+            ),
+        ...(swaps.unvaluedCount > 0
+          ? [el("p", "⚠️ " + swaps.unvaluedCount + " swaps not valued, counted as $0", "muted")]
+          : [])
+      ));
+
+      sections.push(section("📅 Daily Bot Volume (Sui, UTC)", volumeTable(volumes.sui)));
+
+      if (pools.archway) {
+        const archway = pools.archway;
+        sections.push(section(
+          "🔍 Bolt Protocol Monitoring (Archway)",
+          table(["Token", "Price (" + archway.quoteToken + ")"], Object.entries(archway.prices).map(([symbol, price]) => [symbol, formatUSD(price)])),
+          table(
+            ["Pool", "Token", "Amount", "USD"],
+            archway.baseBalances
+              .map((balance) => [balance.name, balance.token, formatTokenAmount(balance.amount), formatUSD(balance.usdValue)])
+              .concat(archway.quoteBalances.map((balance) => [balance.name, balance.token, formatTokenAmount(balance.amount), formatUSD(balance.usdValue)]))
+          ),
+          el("p", "Total Pool Liquidity: " + formatUSD(archway.totalUsdValue) + " USD")
+        ));
+      } else {
+        sections.push(section("🔍 Bolt Protocol Monitoring (Archway)", el("p", "Monitoring data unavailable", "muted")));
+      }
+
+      sections.push(section("📅 Daily Bot Volume (Archway, UTC)", volumeTable(volumes.archway)));
+
+      sections.push(section(
+        "🤖 Archway Bots",
+        volumes.archwayBots.length === 0
+          ? el("p", "No bots registered (use --bots or BOT_REGISTRY_PATH)", "muted")
+          : table(
+              ["Bot", "Status", "Transactions (5 days)", "Error"],
+              volumes.archwayBots.map((bot) => [
+                bot.name,
+                { text: bot.status, className: bot.status === "unreadable" ? "error" : "" },
+                bot.transactionCount,
+                bot.error || "",
+              ])
+            )
+      ));
+
+      content.replaceChildren(...sections);
+    };
+
+    const fetchJson = async (path) => {
+      const response = await fetch(path);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || response.statusText);
+      return body;
+    };
+
+    const refresh = async () => {
+      const status = document.getElementById("status");
+      try {
+        const [pools, prices, volumes, swaps] = await Promise.all([
+          fetchJson("/api/pools"),
+          fetchJson("/api/prices"),
+          fetchJson("/api/volumes/daily"),
+          fetchJson("/api/swaps"),
+        ]);
+        render({ pools, prices, volumes, swaps });
+        status.className = "muted";
+        status.textContent = "⏰ Last updated: " + new Date(pools.timestamp).toLocaleString() +
+          " | Auto-refresh: " + Math.round(REFRESH_INTERVAL_MS / 1000) + "s";
+      } catch (error) {
+        status.className = "error";
+        status.textContent = "❌ " + error.message;
+      }
+    };
+
+    refresh();
+    setInterval(refresh, REFRESH_INTERVAL_MS);
+  </script>
+</body>
+</html>
+`;
@@ -0,0 +1,226 @@
+import BigNumber from "bignumber.js";
+
+import { DailyVolume, DashboardSnapshot } from "../dashboard-snapshot";
+
+import {
+  BOT_STATUS_ICONS,
+  formatArchwayPrice,
+  formatComparison,
+  formatDayLabel,
+  formatSigned,
+  formatTokenAmount,
+  formatUnvalued,
+  formatUSD,
+  sumDailyVolumes,
+} from "./format";
+
+const WIDTH = 78;
+const BORDER = "╠" + "═".repeat(WIDTH) + "╣";
+const BOTTOM = "╚" + "═".repeat(WIDTH) + "╝";
+
+const row = (text: string) => "║" + text.padEnd(WIDTH) + "║";
+
+/**
+ * Daily volume table, the first entry is the current UTC day
+ */
+function renderDailyVolumes(dailyVolumes: DailyVolume[]): string[] {
+  if (dailyVolumes.length === 0) {
+    return [row("  No volume data available")];
+  }
+
+  const dayLine = (label: string, volume: string, count: number) =>
+    row(`  ${label.padEnd(12)} | ${volume.padStart(15)} | ${count.toString().padStart(4)} txns`);
+
+  const total = sumDailyVolumes(dailyVolumes);
+  const unvalued = formatUnvalued(total);
+  return [
+    row(`  Date         | Volume (USD)    | Transactions`),
+    BORDER,
+    ...dailyVolumes.map((day) =>
+      dayLine(formatDayLabel(day), formatUSD(day.volumeUsd), day.transactionCount)
+    ),
+    dayLine(`Total (${dailyVolumes.length} days)`, formatUSD(total.volumeUsd), total.transactionCount),
+    ...(unvalued ? [row(`  ⚠️  ${unvalued}`.slice(0, WIDTH - 1))] : []),
+  ];
+}
+
+/**
+ * The original 78-column box-drawn terminal dashboard
+ */
+export function renderBox(snapshot: DashboardSnapshot): string {
+  const { sui, archway } = snapshot;
+  const lines: string[] = [];
+
+  // BOLT PROTOCOL MONITORING (Sui) heading
+  lines.push(BORDER, row("  🔍 BOLT PROTOCOL MONITORING (Sui)"), BORDER);
+
+  // PRICES section
+  lines.push(row("  📊 PRICES"), BORDER);
+  for (const price of sui.prices) {
+    lines.push(row(`  ${`${price.symbol} Price:`.padEnd(11)} ${formatUSD(price.priceUsd)}`));
+  }
+  lines.push(BORDER);
+
+  // POOL BALANCES (Base) section, with previous balances if available
+  lines.push(row("POOL BALANCES (Base)"), BORDER);
+  for (const pool of sui.pools) {
+    lines.push(row(`  ${pool.name.padEnd(6)} | ${formatTokenAmount(pool.current.base)} tokens = ${formatUSD(pool.current.baseUsd)} USD`));
+    if (pool.previous) {
+      lines.push(row(`         (prev: ${formatTokenAmount(pool.previous.base)} tokens = ${formatUSD(pool.previous.baseUsd)} USD)`));
+    }
+  }
+  lines.push(BORDER);
+
+  // POOL BALANCES (Quote) section
+  lines.push(row("  POOL BALANCES (Quote)"), BORDER);
+  for (const pool of sui.pools) {
+    lines.push(row(`  ${pool.name.padEnd(6)} | ${pool.quoteToken}: ${formatTokenAmount(pool.current.quote)} tokens = ${formatUSD(pool.current.quoteUsd)} USD`));
+    if (pool.previous) {
+      lines.push(row(`         (prev: ${formatTokenAmount(pool.previous.quote)} tokens = ${formatUSD(pool.previous.quoteUsd)} USD)`));
+    }
+  }
+  lines.push(BORDER);
+
+  // Total Pool Liquidity - current and previous if available
+  lines.push(row(`  💵 Total Pool Liquidity: ${formatUSD(sui.totalLiquidityUsd)} USD`));
+  if (sui.previousTotalLiquidityUsd) {
+    lines.push(row(`         (prev: ${formatUSD(sui.previousTotalLiquidityUsd)} USD)`));
+  }
+  lines.push(BORDER);
+
+  // SWAP_BUY BREAKDOWN section
+  lines.push(row("  🔄 SWAP_BUY BREAKDOWN"), BORDER);
+  if (sui.swapBuys.transactions.length === 0) {
+    lines.push(row("  No swap_buy transactions since last refresh"));
+  } else {
+    for (const breakdown of sui.swapBuys.byToken) {
+      lines.push(
+        row(`  ${breakdown.token}:`),
+        row(`    Input:  ${formatTokenAmount(breakdown.inputAmount)} tokens = ${formatUSD(breakdown.inputUsd)} USD`),
+        row(`    Output: ${formatTokenAmount(breakdown.outputAmount)} tokens = ${formatUSD(breakdown.outputUsd)} USD`)
+      );
+    }
+    lines.push(
+      row(`  Total: ${formatUSD(sui.swapBuys.totalInputUsd)} USD in → ${formatUSD(sui.swapBuys.totalOutputUsd)} USD out`),
+      row(`  Transactions: ${sui.swapBuys.transactions.length}`)
+    );
+    const unvalued = formatUnvalued(sui.swapBuys);
+    if (unvalued) {
+      lines.push(row(`  ⚠️  ${unvalued}, counted as $0`.slice(0, WIDTH - 1)));
+    }
+  }
+  lines.push(BORDER);
+
+  // POOL BALANCE CHANGES section
+  if (sui.comparedTo) {
+    lines.push(row(`  📈 POOL BALANCE CHANGES (Since ${formatComparison(sui.comparedTo)})`), BORDER);
+
+    const changeRows = sui.pools.flatMap((pool) =>
+      pool.previous
+        ? [
+            {
+              label: `${pool.name} Pool Base:`,
+              change: pool.current.base.minus(pool.previous.base),
+              changeUsd: pool.current.baseUsd.minus(pool.previous.baseUsd),
+            },
+            {
+              label: `${pool.name} Pool Quote:`,
+              change: pool.current.quote.minus(pool.previous.quote),
+              changeUsd: pool.current.quoteUsd.minus(pool.previous.quoteUsd),
+            },
+          ]
+        : []
+    );
+    const labelWidth = Math.max(16, ...changeRows.map((change) => change.label.length + 1));
+
+    for (const change of changeRows) {
+      const sign = change.change.isPositive() ? "+" : "";
+      lines.push(row(`  ${change.label.padEnd(labelWidth)} ${sign}${formatTokenAmount(change.change)} tokens (${sign}${formatUSD(change.changeUsd)})`));
+    }
+
+    const totalChange = changeRows.reduce(
+      (sum, change) => sum.plus(change.changeUsd),
+      new BigNumber(0)
+    );
+    lines.push(row(`  Total Change: ${formatSigned(totalChange, formatUSD)} USD`), BORDER);
+  } else {
+    lines.push(
+      row("  📈 POOL BALANCE CHANGES (Since Last Refresh)"),
+      BORDER,
+      row("  No previous data - changes will be shown on next refresh"),
+      BORDER
+    );
+  }
+
+  // DAILY BOT VOLUME section (Sui)
+  lines.push(row("  📅 DAILY BOT VOLUME (UTC)"), BORDER);
+  lines.push(...renderDailyVolumes(sui.dailyVolumes), BORDER);
+
+  // Spacing between Sui and Archway sections
+  lines.push("", "");
+
+  // BOLT PROTOCOL MONITORING (Archway) section
+  const monitoring = archway.monitoring;
+  if (monitoring) {
+    lines.push(BORDER, row("  🔍 BOLT PROTOCOL MONITORING (Archway)"), BORDER);
+
+    lines.push(row("  📊 PRICES"), BORDER);
+    for (const [symbol, price] of Object.entries(monitoring.prices)) {
+      if (symbol === monitoring.quoteToken) {
+        continue;
+      }
+      const label = `${symbol}/${monitoring.quoteToken}:`.padEnd(11);
+      lines.push(row(`  ${label}${formatArchwayPrice(price)}`));
+    }
+    lines.push(BORDER);
+
+    lines.push(row("  💰 POOL BALANCES (Base)"), BORDER);
+    for (const balance of monitoring.baseBalances) {
+      const padding = " ".repeat(Math.max(0, 6 - balance.name.length));
+      const value = balance.usdValue > 0
+        ? `= $${balance.usdValue.toFixed(2)} USD`
+        : "(price unavailable)";
+      lines.push(row(`  ${balance.name}${padding} | ${balance.amount.toFixed(6)} tokens ${value}`));
+    }
+    lines.push(BORDER);
+
+    lines.push(row("  💰 POOL BALANCES (Quote)"), BORDER);
+    if (monitoring.quoteBalances.length > 0) {
+      for (const balance of monitoring.quoteBalances) {
+        const padding = " ".repeat(Math.max(0, 6 - balance.name.length));
+        const value = balance.usdValue > 0
+          ? `= $${balance.usdValue.toFixed(2)} USD`
+          : "(price unavailable)";
+        lines.push(row(`  ${balance.name}${padding} | ${balance.token}: ${balance.amount.toFixed(6)} tokens ${value}`));
+      }
+    } else {
+      lines.push(row("  (No quote assets found)"));
+    }
+    lines.push(BORDER);
+
+    lines.push(row(`  💵 Total Pool Liquidity: $${monitoring.totalUsdValue.toFixed(2)} USD`), BORDER);
+  } else {
+    lines.push(row("  🔍 BOLT PROTOCOL MONITORING (Archway)"), BORDER, row("  Monitoring data unavailable"), BORDER);
+  }
+
+  // DAILY BOT VOLUME section (Archway)
+  lines.push(row("  📅 DAILY BOT VOLUME (Archway, UTC)"), BORDER);
+  lines.push(...renderDailyVolumes(archway.dailyVolumes), BORDER);
+
+  // Per-bot database status
+  lines.push(row("  🤖 ARCHWAY BOTS"), BORDER);
+  if (archway.bots.length === 0) {
+    lines.push(row("  No bots registered (use --bots or BOT_REGISTRY_PATH)"));
+  } else {
+    for (const bot of archway.bots) {
+      const detail = bot.status === "unreadable"
+        ? bot.error ?? "unknown error"
+        : `${bot.transactionCount} txns (5 days)`;
+      const botLine = `  ${BOT_STATUS_ICONS[bot.status]} ${bot.name.padEnd(16)} | ${bot.status.padEnd(10)} | ${detail}`;
+      lines.push(row(botLine.slice(0, WIDTH)));
+    }
+  }
+  lines.push(BORDER, BOTTOM);
+
+  return lines.join("\n");
+}
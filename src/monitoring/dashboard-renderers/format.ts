@@ -0,0 +1,81 @@
+import BigNumber from "bignumber.js";
+
+import { DailyVolume } from "../dashboard-snapshot";
+
+export function formatTokenAmount(amount: BigNumber): string {
+  // Amount is already in token units (from fraction parsing), just format it
+  if (amount.isLessThan(0.01)) {
+    return amount.toFixed(6);
+  } else if (amount.isLessThan(1)) {
+    return amount.toFixed(4);
+  } else {
+    return amount.toFixed(2);
+  }
+}
+
+export function formatUSD(amount: BigNumber): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export function formatSigned(amount: BigNumber, format: (value: BigNumber) => string): string {
+  return `${amount.isPositive() ? "+" : ""}${format(amount)}`;
+}
+
+/**
+ * Archway prices are floats in the quote token, small prices keep 6 decimals
+ */
+export function formatArchwayPrice(price: number): string {
+  return price > 0 ? price.toFixed(price >= 1000 ? 2 : 6) : "(fetching price...)";
+}
+
+/**
+ * "Today" for the current UTC day, the date otherwise
+ */
+export function formatDayLabel(day: DailyVolume): string {
+  return day.date === new Date().toISOString().split("T")[0] ? "Today" : day.date;
+}
+
+export function sumDailyVolumes(dailyVolumes: DailyVolume[]): {
+  volumeUsd: BigNumber;
+  transactionCount: number;
+  unvaluedCount: number;
+  unresolvedDenoms: string[];
+} {
+  return {
+    volumeUsd: dailyVolumes.reduce((sum, day) => sum.plus(day.volumeUsd), new BigNumber(0)),
+    transactionCount: dailyVolumes.reduce((sum, day) => sum + day.transactionCount, 0),
+    unvaluedCount: dailyVolumes.reduce((sum, day) => sum + day.unvaluedCount, 0),
+    unresolvedDenoms: [...new Set(dailyVolumes.flatMap((day) => day.unresolvedDenoms))],
+  };
+}
+
+/**
+ * Note on swaps left out of the volume, null when every swap was valued
+ */
+export function formatUnvalued(total: {
+  unvaluedCount: number;
+  unresolvedDenoms: string[];
+}): string | null {
+  if (total.unvaluedCount === 0 && total.unresolvedDenoms.length === 0) {
+    return null;
+  }
+  const unresolved = total.unresolvedDenoms.length
+    ? ` (unknown denoms: ${total.unresolvedDenoms.join(", ")})`
+    : "";
+  return `${total.unvaluedCount} swaps not valued${unresolved}`;
+}
+
+/**
+ * Title of the balance changes section, names what the balances are compared against
+ */
+export function formatComparison(comparedTo: { timestamp: number; fromSnapshot: boolean } | null): string {
+  return comparedTo?.fromSnapshot
+    ? new Date(comparedTo.timestamp).toLocaleString()
+    : "Last Refresh";
+}
+
+export const BOT_STATUS_ICONS = {
+  found: "✅",
+  empty: "⚪",
+  unreadable: "❌",
+} as const;
@@ -0,0 +1,23 @@
+import { DashboardSnapshot } from "../dashboard-snapshot";
+
+import { renderBox } from "./box";
+import { renderJson } from "./json";
+import { renderMarkdown } from "./markdown";
+import { renderPlain } from "./plain";
+
+export type DashboardRenderer = (snapshot: DashboardSnapshot) => string;
+
+export const DASHBOARD_RENDERERS = {
+  box: renderBox,
+  plain: renderPlain,
+  json: renderJson,
+  markdown: renderMarkdown,
+} satisfies Record<string, DashboardRenderer>;
+
+export type DashboardFormat = keyof typeof DASHBOARD_RENDERERS;
+
+export const isDashboardFormat = (format: string): format is DashboardFormat =>
+  Object.prototype.hasOwnProperty.call(DASHBOARD_RENDERERS, format);
+
+export { renderBox, renderJson, renderMarkdown, renderPlain };
+export { toDashboardJson } from "./json";
@@ -0,0 +1,26 @@
+import BigNumber from "bignumber.js";
+
+import { DashboardSnapshot } from "../dashboard-snapshot";
+
+/**
+ * JSON-safe copy of a snapshot (or part of one), BigNumbers become decimal
+ * strings so no precision is lost
+ */
+export function toDashboardJson(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toFixed();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toDashboardJson);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toDashboardJson(item)])
+    );
+  }
+  return value;
+}
+
+export function renderJson(snapshot: DashboardSnapshot): string {
+  return JSON.stringify(toDashboardJson(snapshot), null, 2);
+}
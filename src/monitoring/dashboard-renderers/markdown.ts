@@ -0,0 +1,170 @@
+import { DailyVolume, DashboardSnapshot } from "../dashboard-snapshot";
+
+import {
+  formatArchwayPrice,
+  formatComparison,
+  formatDayLabel,
+  formatSigned,
+  formatTokenAmount,
+  formatUnvalued,
+  formatUSD,
+  sumDailyVolumes,
+} from "./format";
+
+// Pipes would split a table cell
+const cell = (value: string | number) => String(value).replace(/\|/g, "\\|");
+
+function table(headers: string[], rows: Array<Array<string | number>>): string[] {
+  return [
+    `| ${headers.map(cell).join(" | ")} |`,
+    `| ${headers.map((_, index) => (index === 0 ? "---" : "---:")).join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ];
+}
+
+function renderDailyVolumes(dailyVolumes: DailyVolume[]): string[] {
+  if (dailyVolumes.length === 0) {
+    return ["_No volume data available_"];
+  }
+
+  const total = sumDailyVolumes(dailyVolumes);
+  const unvalued = formatUnvalued(total);
+  return [
+    ...table(
+      ["Date (UTC)", "Volume (USD)", "Transactions"],
+      [
+        ...dailyVolumes.map((day) => [formatDayLabel(day), formatUSD(day.volumeUsd), day.transactionCount]),
+        [`**Total (${dailyVolumes.length} days)**`, `**${formatUSD(total.volumeUsd)}**`, `**${total.transactionCount}**`],
+      ]
+    ),
+    ...(unvalued ? ["", `> ⚠️ ${unvalued}`] : []),
+  ];
+}
+
+/**
+ * GitHub-flavoured Markdown, for reports and chat messages
+ */
+export function renderMarkdown(snapshot: DashboardSnapshot): string {
+  const { sui, archway } = snapshot;
+  const lines: string[] = [
+    "# Rebalance Dashboard",
+    "",
+    `_${new Date(snapshot.timestamp).toISOString()}_`,
+    "",
+    "## Bolt Protocol Monitoring (Sui)",
+    "",
+    "### Prices",
+    "",
+    ...table(["Token", "Price (USD)"], sui.prices.map((price) => [price.symbol, formatUSD(price.priceUsd)])),
+    "",
+    "### Pool Balances",
+    "",
+    ...table(
+      ["Pool", "Base", "Base USD", "Quote", "Quote USD"],
+      sui.pools.map((pool) => [
+        pool.name,
+        `${formatTokenAmount(pool.current.base)} ${pool.baseToken}`,
+        formatUSD(pool.current.baseUsd),
+        `${formatTokenAmount(pool.current.quote)} ${pool.quoteToken}`,
+        formatUSD(pool.current.quoteUsd),
+      ])
+    ),
+    "",
+    `**Total Pool Liquidity:** ${formatUSD(sui.totalLiquidityUsd)}`,
+    "",
+    `### Pool Balance Changes (Since ${formatComparison(sui.comparedTo)})`,
+    "",
+  ];
+
+  if (sui.comparedTo) {
+    lines.push(
+      ...table(
+        ["Pool", "Base change", "Base USD", "Quote change", "Quote USD"],
+        sui.pools
+          .filter((pool) => pool.previous)
+          .map((pool) => [
+            pool.name,
+            formatSigned(pool.current.base.minus(pool.previous!.base), formatTokenAmount),
+            formatSigned(pool.current.baseUsd.minus(pool.previous!.baseUsd), formatUSD),
+            formatSigned(pool.current.quote.minus(pool.previous!.quote), formatTokenAmount),
+            formatSigned(pool.current.quoteUsd.minus(pool.previous!.quoteUsd), formatUSD),
+          ])
+      )
+    );
+  } else {
+    lines.push("_No previous data_");
+  }
+
+  lines.push("", `### Swap_buy Breakdown (since ${new Date(sui.swapBuys.since).toISOString()})`, "");
+  if (sui.swapBuys.transactions.length === 0) {
+    lines.push("_No swap_buy transactions_");
+  } else {
+    lines.push(
+      ...table(
+        ["Token", "Input", "Input USD", "Output", "Output USD"],
+        sui.swapBuys.byToken.map((breakdown) => [
+          breakdown.token,
+          formatTokenAmount(breakdown.inputAmount),
+          formatUSD(breakdown.inputUsd),
+          formatTokenAmount(breakdown.outputAmount),
+          formatUSD(breakdown.outputUsd),
+        ])
+      ),
+      "",
+      `**Total:** ${formatUSD(sui.swapBuys.totalInputUsd)} in → ${formatUSD(sui.swapBuys.totalOutputUsd)} out (${sui.swapBuys.transactions.length} transactions)`
+    );
+    const unvalued = formatUnvalued(sui.swapBuys);
+    if (unvalued) {
+      lines.push("", `> ⚠️ ${unvalued}, counted as $0`);
+    }
+  }
+
+  lines.push("", "### Daily Bot Volume", "", ...renderDailyVolumes(sui.dailyVolumes));
+
+  lines.push("", "## Bolt Protocol Monitoring (Archway)", "");
+  const monitoring = archway.monitoring;
+  if (monitoring) {
+    lines.push(
+      "### Prices",
+      "",
+      ...table(
+        ["Token", `Price (${monitoring.quoteToken})`],
+        Object.entries(monitoring.prices)
+          .filter(([symbol]) => symbol !== monitoring.quoteToken)
+          .map(([symbol, price]) => [symbol, formatArchwayPrice(price)])
+      ),
+      "",
+      "### Pool Balances",
+      "",
+      ...table(
+        ["Pool", "Token", "Amount", "USD"],
+        [...monitoring.baseBalances, ...monitoring.quoteBalances].map((balance) => [
+          balance.name,
+          balance.token,
+          balance.amount.toFixed(6),
+          `$${balance.usdValue.toFixed(2)}`,
+        ])
+      ),
+      "",
+      `**Total Pool Liquidity:** $${monitoring.totalUsdValue.toFixed(2)}`
+    );
+  } else {
+    lines.push("_Monitoring data unavailable_");
+  }
+
+  lines.push("", "### Daily Bot Volume", "", ...renderDailyVolumes(archway.dailyVolumes));
+
+  lines.push("", "### Bots", "");
+  if (archway.bots.length === 0) {
+    lines.push("_No bots registered_");
+  } else {
+    lines.push(
+      ...table(
+        ["Bot", "Status", "Transactions (5 days)", "Error"],
+        archway.bots.map((bot) => [bot.name, bot.status, bot.transactionCount, bot.error ?? ""])
+      )
+    );
+  }
+
+  return lines.join("\n");
+}
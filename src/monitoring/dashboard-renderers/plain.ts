@@ -0,0 +1,115 @@
+import { DailyVolume, DashboardSnapshot } from "../dashboard-snapshot";
+
+import {
+  formatArchwayPrice,
+  formatComparison,
+  formatDayLabel,
+  formatSigned,
+  formatTokenAmount,
+  formatUnvalued,
+  formatUSD,
+  sumDailyVolumes,
+} from "./format";
+
+function renderDailyVolumes(title: string, dailyVolumes: DailyVolume[]): string[] {
+  const lines = ["", title];
+  if (dailyVolumes.length === 0) {
+    return [...lines, "  No volume data available"];
+  }
+
+  const total = sumDailyVolumes(dailyVolumes);
+  for (const day of dailyVolumes) {
+    lines.push(`  ${formatDayLabel(day)}: ${formatUSD(day.volumeUsd)} (${day.transactionCount} txns)`);
+  }
+  lines.push(`  Total (${dailyVolumes.length} days): ${formatUSD(total.volumeUsd)} (${total.transactionCount} txns)`);
+  const unvalued = formatUnvalued(total);
+  if (unvalued) {
+    lines.push(`  Warning: ${unvalued}`);
+  }
+  return lines;
+}
+
+/**
+ * Unstyled text without box drawing or emoji, for logs and narrow terminals
+ */
+export function renderPlain(snapshot: DashboardSnapshot): string {
+  const { sui, archway } = snapshot;
+  const lines: string[] = [
+    `Rebalance dashboard - ${new Date(snapshot.timestamp).toLocaleString()}`,
+    "",
+    "Sui prices",
+    ...sui.prices.map((price) => `  ${price.symbol}: ${formatUSD(price.priceUsd)}`),
+    "",
+    "Sui pool balances",
+  ];
+
+  for (const pool of sui.pools) {
+    lines.push(
+      `  ${pool.name} base: ${formatTokenAmount(pool.current.base)} ${pool.baseToken} = ${formatUSD(pool.current.baseUsd)}`,
+      `  ${pool.name} quote: ${formatTokenAmount(pool.current.quote)} ${pool.quoteToken} = ${formatUSD(pool.current.quoteUsd)}`
+    );
+  }
+  lines.push(`  Total liquidity: ${formatUSD(sui.totalLiquidityUsd)}`);
+
+  lines.push("", `Changes since ${formatComparison(sui.comparedTo)}`);
+  if (sui.comparedTo) {
+    for (const pool of sui.pools) {
+      if (!pool.previous) {
+        continue;
+      }
+      lines.push(
+        `  ${pool.name} base: ${formatSigned(pool.current.base.minus(pool.previous.base), formatTokenAmount)} (${formatSigned(pool.current.baseUsd.minus(pool.previous.baseUsd), formatUSD)})`,
+        `  ${pool.name} quote: ${formatSigned(pool.current.quote.minus(pool.previous.quote), formatTokenAmount)} (${formatSigned(pool.current.quoteUsd.minus(pool.previous.quoteUsd), formatUSD)})`
+      );
+    }
+  } else {
+    lines.push("  No previous data");
+  }
+
+  lines.push("", `Swap_buy transactions since ${new Date(sui.swapBuys.since).toLocaleString()}`);
+  if (sui.swapBuys.transactions.length === 0) {
+    lines.push("  None");
+  } else {
+    for (const breakdown of sui.swapBuys.byToken) {
+      lines.push(`  ${breakdown.token}: ${formatTokenAmount(breakdown.inputAmount)} in (${formatUSD(breakdown.inputUsd)}) -> ${formatTokenAmount(breakdown.outputAmount)} out (${formatUSD(breakdown.outputUsd)})`);
+    }
+    lines.push(`  Total: ${formatUSD(sui.swapBuys.totalInputUsd)} in -> ${formatUSD(sui.swapBuys.totalOutputUsd)} out, ${sui.swapBuys.transactions.length} txns`);
+    const unvalued = formatUnvalued(sui.swapBuys);
+    if (unvalued) {
+      lines.push(`  Warning: ${unvalued}, counted as $0`);
+    }
+  }
+
+  lines.push(...renderDailyVolumes("Sui daily bot volume (UTC)", sui.dailyVolumes));
+
+  lines.push("", "Archway monitoring");
+  const monitoring = archway.monitoring;
+  if (monitoring) {
+    for (const [symbol, price] of Object.entries(monitoring.prices)) {
+      if (symbol !== monitoring.quoteToken) {
+        lines.push(`  ${symbol}/${monitoring.quoteToken}: ${formatArchwayPrice(price)}`);
+      }
+    }
+    for (const balance of [...monitoring.baseBalances, ...monitoring.quoteBalances]) {
+      lines.push(`  ${balance.name} ${balance.token}: ${balance.amount.toFixed(6)} = $${balance.usdValue.toFixed(2)}`);
+    }
+    lines.push(`  Total liquidity: $${monitoring.totalUsdValue.toFixed(2)}`);
+  } else {
+    lines.push("  Monitoring data unavailable");
+  }
+
+  lines.push(...renderDailyVolumes("Archway daily bot volume (UTC)", archway.dailyVolumes));
+
+  lines.push("", "Archway bots");
+  if (archway.bots.length === 0) {
+    lines.push("  No bots registered");
+  }
+  for (const bot of archway.bots) {
+    const detail = bot.status === "unreadable"
+      ? bot.error ?? "unknown error"
+      : `${bot.transactionCount} txns (5 days)`;
+    lines.push(`  ${bot.name}: ${bot.status}, ${detail}`);
+  }
+
+  return lines.join("\n");
+}
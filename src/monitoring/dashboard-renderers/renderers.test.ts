@@ -0,0 +1,39 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { DASHBOARD_RENDERERS, DashboardFormat } from "./index";
+import { FIXTURE_SNAPSHOT, FIXTURE_TIME } from "./snapshot.fixture";
+
+const SNAPSHOT_FILES: Record<DashboardFormat, string> = {
+  box: "__snapshots__/box.txt",
+  plain: "__snapshots__/plain.txt",
+  json: "__snapshots__/json.json",
+  markdown: "__snapshots__/markdown.md",
+};
+const FORMATS = Object.keys(SNAPSHOT_FILES) as DashboardFormat[];
+
+describe("dashboard renderers", () => {
+  beforeAll(() => {
+    // "Today" and local times depend on the clock, time zone and locale
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(FIXTURE_TIME);
+    vi.spyOn(Date.prototype, "toLocaleString").mockImplementation(function (this: Date) {
+      return this.toISOString();
+    });
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it.each(FORMATS)("renders the fixture snapshot as %s", async (format) => {
+    const output = DASHBOARD_RENDERERS[format](FIXTURE_SNAPSHOT);
+    await expect(output).toMatchFileSnapshot(SNAPSHOT_FILES[format]);
+  });
+
+  it("keeps every amount of the snapshot exact in JSON", () => {
+    const json = JSON.parse(DASHBOARD_RENDERERS.json(FIXTURE_SNAPSHOT));
+    expect(json.sui.totalLiquidityUsd).toBe("15194.8371337362");
+    expect(json.sui.pools[0].current.base).toBe("1935.609066");
+  });
+});
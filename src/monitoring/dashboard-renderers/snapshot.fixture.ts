@@ -0,0 +1,250 @@
+import BigNumber from "bignumber.js";
+
+import { PlatformName } from "../../database";
+
+import { DashboardSnapshot, PoolBalanceView } from "../dashboard-snapshot";
+
+const SUI_ADDRESS = "0x8a1c3b4e2f6d7a9b0c1d2e3f4a5b6c7d8e9f0a1b2c3d4e5f6a7b8c9d0e1f2a3b";
+
+// 2025-01-15T12:00:00Z
+export const FIXTURE_TIME = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+const balance = (
+  base: number,
+  quote: number,
+  basePrice: number,
+  quotePrice: number
+): PoolBalanceView => ({
+  base: new BigNumber(base),
+  quote: new BigNumber(quote),
+  baseUsd: new BigNumber(base).times(basePrice),
+  quoteUsd: new BigNumber(quote).times(quotePrice),
+});
+
+/**
+ * A dashboard snapshot exercising every section the renderers draw: oracle
+ * and config prices, a snapshot comparison, swaps with an unknown denom,
+ * unvalued volume and one bot of each registry status
+ */
+export const FIXTURE_SNAPSHOT: DashboardSnapshot = {
+  timestamp: FIXTURE_TIME,
+  sui: {
+    address: SUI_ADDRESS,
+    prices: [
+      {
+        symbol: "SUI",
+        priceUsd: new BigNumber("3.8421"),
+        source: "price_service",
+        confidence: 0.9,
+        quotes: [
+          {
+            source: "coingecko",
+            price: new BigNumber("3.85"),
+            timestamp: FIXTURE_TIME - 5_000,
+            confidence: 1,
+            deviation: 0.002,
+            deviates: false,
+            stale: false,
+          },
+          {
+            source: "price_feeder",
+            price: new BigNumber("3.8421"),
+            timestamp: FIXTURE_TIME - 2_000,
+            confidence: 0.9,
+            deviation: 0,
+            deviates: false,
+            stale: false,
+          },
+          {
+            source: "bolt",
+            price: null,
+            timestamp: FIXTURE_TIME - 1_000,
+            confidence: 0.9,
+            deviation: null,
+            deviates: false,
+            stale: false,
+            error: "Bolt getPrice timed out",
+          },
+        ],
+      },
+      {
+        symbol: "USDC",
+        priceUsd: new BigNumber(1),
+        source: "config",
+        confidence: null,
+        quotes: [],
+      },
+    ],
+    pools: [
+      {
+        name: "SUI",
+        poolId: "0x21167b2e981e2c0a693afcfe882a3a827d663118e19afcb92e45bfe43fe56278",
+        baseToken: "SUI",
+        quoteToken: "USDC",
+        basePriceUsd: new BigNumber("3.8421"),
+        quotePriceUsd: new BigNumber(1),
+        current: balance(1935.609066, 730.92914, 3.8421, 1),
+        previous: balance(2100.5, 101.25, 3.8421, 1),
+      },
+      {
+        name: "USDC",
+        poolId: "0x34fcaa553f1185e1c3a05de37b6a4d10c39535d19f9c8581eeae826434602b58",
+        baseToken: "USDC",
+        quoteToken: "SUI",
+        basePriceUsd: new BigNumber(1),
+        quotePriceUsd: new BigNumber("3.8421"),
+        current: balance(5012.4, 0.004512, 1, 3.8421),
+        previous: null,
+      },
+    ],
+    totalLiquidityUsd: new BigNumber("15194.8371337362"),
+    previousTotalLiquidityUsd: new BigNumber("15001.2"),
+    comparedTo: { timestamp: FIXTURE_TIME - 24 * 60 * 60 * 1000, fromSnapshot: true },
+    swapBuys: {
+      since: FIXTURE_TIME - 60 * 60 * 1000,
+      transactions: [
+        {
+          inputToken: "USDC",
+          inputAmount: new BigNumber(250),
+          inputUsd: new BigNumber(250),
+          outputToken: "SUI",
+          outputAmount: new BigNumber("64.9"),
+          outputUsd: new BigNumber("249.35229"),
+          txHash: "7Hq3vWcXyZ1aB2cD3eF4gH5iJ6kL7mN8oP9qR0sT1uV",
+          timestamp: FIXTURE_TIME / 1000 - 1_200,
+        },
+        {
+          inputToken: "0xfeed::coin::COIN",
+          inputAmount: new BigNumber(12),
+          inputUsd: new BigNumber(0),
+          outputToken: "SUI",
+          outputAmount: new BigNumber("0.5"),
+          outputUsd: new BigNumber("1.92105"),
+          txHash: "9Zx8wVu7tS6rQ5pO4nM3lK2jI1hG0fE9dC8bA7zY6xW",
+          timestamp: FIXTURE_TIME / 1000 - 300,
+        },
+      ],
+      byToken: [
+        {
+          token: "USDC",
+          inputAmount: new BigNumber(250),
+          inputUsd: new BigNumber(250),
+          outputAmount: new BigNumber("64.9"),
+          outputUsd: new BigNumber("249.35229"),
+        },
+        {
+          token: "0xfeed::coin::COIN",
+          inputAmount: new BigNumber(12),
+          inputUsd: new BigNumber(0),
+          outputAmount: new BigNumber("0.5"),
+          outputUsd: new BigNumber("1.92105"),
+        },
+      ],
+      totalInputUsd: new BigNumber(250),
+      totalOutputUsd: new BigNumber("251.27334"),
+      unvaluedCount: 1,
+      unresolvedDenoms: ["0xfeed::coin::COIN"],
+    },
+    dailyVolumes: [
+      {
+        date: "2025-01-15",
+        volumeUsd: new BigNumber("1250.5"),
+        transactionCount: 14,
+        lastSwapAt: FIXTURE_TIME / 1000 - 300,
+        unvaluedCount: 1,
+        unresolvedDenoms: ["0xfeed::coin::COIN"],
+      },
+      {
+        date: "2025-01-14",
+        volumeUsd: new BigNumber("980.25"),
+        transactionCount: 9,
+        lastSwapAt: FIXTURE_TIME / 1000 - 50_000,
+        unvaluedCount: 0,
+        unresolvedDenoms: [],
+      },
+    ],
+    transactionTypes: [
+      {
+        transactionType: "bolt_sui_swap",
+        totalCount: 120,
+        successCount: 117,
+        failedCount: 3,
+        successRate: 97.5,
+      },
+    ],
+  },
+  archway: {
+    monitoring: {
+      quoteToken: "USDC",
+      prices: { ARCH: 0.021534, ATOM: 4.87, WBTC: 97012.5, OSMO: 0 },
+      priceSources: { ARCH: "bolt", ATOM: "coingecko", WBTC: "config", OSMO: null },
+      baseBalances: [
+        { name: "ARCH", token: "ARCH", amount: 150000, usdValue: 3230.1 },
+        { name: "ATOM", token: "ATOM", amount: 210.5, usdValue: 1025.135 },
+      ],
+      quoteBalances: [
+        { name: "ARCH", token: "USDC", amount: 1500.25, usdValue: 1500.25 },
+        { name: "ATOM", token: "USDC", amount: 980, usdValue: 980 },
+      ],
+      totalUsdValue: 6735.485,
+    },
+    dailyVolumes: [
+      {
+        date: "2025-01-15",
+        volumeUsd: new BigNumber("310.75"),
+        transactionCount: 4,
+        lastSwapAt: FIXTURE_TIME / 1000 - 900,
+        unvaluedCount: 0,
+        unresolvedDenoms: [],
+      },
+    ],
+    bots: [
+      {
+        name: "arch-usdc",
+        chain: "archway",
+        platform: PlatformName.BOLT_ARCHWAY,
+        status: "found",
+        transactionCount: 42,
+      },
+      {
+        name: "atom-usdc",
+        chain: "archway",
+        platform: PlatformName.BOLT_ARCHWAY,
+        status: "empty",
+        transactionCount: 0,
+      },
+      {
+        name: "osmo-usdc",
+        chain: "archway",
+        platform: PlatformName.BOLT_ARCHWAY,
+        status: "unreadable",
+        transactionCount: 0,
+        error: "SQLITE_CANTOPEN: unable to open database file",
+      },
+    ],
+    botActivity: [
+      {
+        name: "arch-usdc",
+        dailyVolumes: [
+          {
+            date: "2025-01-15",
+            volumeUsd: new BigNumber("310.75"),
+            transactionCount: 4,
+            lastSwapAt: FIXTURE_TIME / 1000 - 900,
+            unvaluedCount: 0,
+            unresolvedDenoms: [],
+          },
+        ],
+        transactionTypes: [
+          {
+            transactionType: "bolt_archway_swap",
+            totalCount: 42,
+            successCount: 41,
+            failedCount: 1,
+            successRate: 97.62,
+          },
+        ],
+      },
+    ],
+  },
+};
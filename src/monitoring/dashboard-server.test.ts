@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { DashboardServer, startDashboardServer } from "./dashboard-server";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("startDashboardServer", () => {
+  let server: DashboardServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  const start = (collect: () => Promise<{ count: number }>, collectIntervalMs = 60_000) =>
+    startDashboardServer({
+      port: 0,
+      host: "127.0.0.1",
+      collectIntervalMs,
+      collect,
+      routes: { "/api/count": (data) => data },
+      textRoutes: {
+        "/metrics": { contentType: "text/plain", render: ({ count }) => `count ${count}\n` },
+      },
+    });
+
+  it("serves the last collection without collecting per request", async () => {
+    let collections = 0;
+    server = await start(async () => ({ count: ++collections }));
+
+    for (let request = 0; request < 5; request++) {
+      const response = await fetch(`${server.url}/api/count`);
+      expect(await response.json()).toEqual({ count: 1 });
+    }
+    expect(await (await fetch(`${server.url}/metrics`)).text()).toBe("count 1\n");
+    expect(collections).toBe(1);
+  });
+
+  it("collects on the interval and keeps the last good data on failures", async () => {
+    let collections = 0;
+    server = await start(async () => {
+      collections++;
+      if (collections === 2) {
+        throw new Error("RPC unavailable");
+      }
+      return { count: collections };
+    }, 200);
+
+    await vi.waitFor(() => expect(collections).toBe(2), { timeout: 1_000 });
+    // The second collection failed, the first one is still served
+    expect(await (await fetch(`${server.url}/api/count`)).json()).toEqual({ count: 1 });
+
+    await vi.waitFor(() => expect(collections).toBe(3), { timeout: 1_000 });
+    expect(await (await fetch(`${server.url}/api/count`)).json()).toEqual({
+      count: collections,
+    });
+  });
+
+  it("answers 502 until a collection succeeds", async () => {
+    server = await start(async () => {
+      throw new Error("RPC unavailable");
+    });
+
+    const response = await fetch(`${server.url}/api/count`);
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: "Failed to collect dashboard data: RPC unavailable",
+    });
+  });
+
+  it("stops collecting when closed", async () => {
+    let collections = 0;
+    server = await start(async () => ({ count: ++collections }), 10);
+    await server.close();
+    server = null;
+
+    const closedAt = collections;
+    await sleep(40);
+    expect(collections).toBe(closedAt);
+  });
+});
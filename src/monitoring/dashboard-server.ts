@@ -0,0 +1,161 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+
+import { renderDashboardPage } from "./dashboard-page";
+
+const DEFAULT_COLLECT_INTERVAL_MS = 30_000;
+
+export interface DashboardServerOptions<T> {
+  port: number;
+  host?: string;
+  /**
+   * Data is collected on startup and then every interval, requests are
+   * served the last collection and never trigger one
+   */
+  collectIntervalMs?: number;
+  /** How often the web page polls the API (default: the collect interval) */
+  refreshIntervalMs?: number;
+  collect: () => Promise<T>;
+  /** JSON routes, each one a view of the collected data */
+  routes: Record<string, (data: T) => unknown>;
+  /** Plain text routes, such as Prometheus metrics */
+  textRoutes?: Record<
+    string,
+    { contentType: string; render: (data: T) => string }
+  >;
+  onError?: (error: Error) => void;
+}
+
+export interface DashboardServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+const sendJson = (
+  response: http.ServerResponse,
+  status: number,
+  body: unknown
+) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Cache-Control": "no-store",
+  });
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Serve the dashboard page and its JSON API over HTTP
+ */
+export const startDashboardServer = async <T>(
+  options: DashboardServerOptions<T>
+): Promise<DashboardServer> => {
+  const collectIntervalMs =
+    options.collectIntervalMs ?? DEFAULT_COLLECT_INTERVAL_MS;
+  const page = renderDashboardPage(
+    options.refreshIntervalMs ?? collectIntervalMs
+  );
+
+  // The last successful collection is served until the next one succeeds,
+  // requests arriving before the first one wait for it
+  let latest: T | null = null;
+  let firstCollection: Promise<T> | null = null;
+  let lastError: Error | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const collect = async (): Promise<T> => {
+    try {
+      latest = await options.collect();
+      lastError = null;
+      return latest;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      options.onError?.(lastError);
+      throw lastError;
+    } finally {
+      if (!closed) {
+        timer = setTimeout(() => {
+          void collect().catch(() => {});
+        }, collectIntervalMs);
+      }
+    }
+  };
+
+  const getData = async (): Promise<T> => {
+    if (latest !== null) {
+      return latest;
+    }
+    if (lastError) {
+      throw lastError;
+    }
+    return firstCollection!;
+  };
+
+  const server = http.createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    if (pathname === "/" || pathname === "/index.html") {
+      response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      response.end(page);
+      return;
+    }
+
+    const route = options.routes[pathname];
+    const textRoute = options.textRoutes?.[pathname];
+    if (!route && !textRoute) {
+      sendJson(response, 404, { error: `Unknown route ${pathname}` });
+      return;
+    }
+
+    try {
+      const data = await getData();
+      if (textRoute) {
+        response.writeHead(200, {
+          "Content-Type": textRoute.contentType,
+          "Cache-Control": "no-store",
+        });
+        response.end(textRoute.render(data));
+        return;
+      }
+      sendJson(response, 200, route(data));
+    } catch (error) {
+      sendJson(response, 502, {
+        error: `Failed to collect dashboard data: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  firstCollection = collect();
+  firstCollection.catch(() => {});
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: () => {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      return new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+};
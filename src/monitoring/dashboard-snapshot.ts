@@ -0,0 +1,150 @@
+import BigNumber from "bignumber.js";
+
+import type { BotStatusReport, TransactionTypeSummary } from "../database";
+
+import type { ArchwayPriceSource } from "./dashboard-config";
+import type { SourceQuote } from "./price-oracle";
+
+export interface DashboardTokenPrice {
+  symbol: string;
+  priceUsd: BigNumber;
+  /** Fixed in the dashboard config, or fetched by the price service */
+  source: "config" | "price_service";
+  /** Share of the price sources agreeing with the median, null for config prices */
+  confidence: number | null;
+  /** Per-source breakdown behind the median, empty for config prices */
+  quotes: SourceQuote[];
+}
+
+export interface PoolBalanceView {
+  base: BigNumber;
+  quote: BigNumber;
+  baseUsd: BigNumber;
+  quoteUsd: BigNumber;
+}
+
+export interface SuiPoolView {
+  name: string;
+  poolId: string;
+  baseToken: string;
+  quoteToken: string;
+  basePriceUsd: BigNumber;
+  quotePriceUsd: BigNumber;
+  current: PoolBalanceView;
+  /** Balances the current ones are compared against, valued at current prices */
+  previous: PoolBalanceView | null;
+}
+
+export interface DashboardComparison {
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  /** Loaded from a stored pool snapshot rather than the previous refresh */
+  fromSnapshot: boolean;
+}
+
+export interface SwapBuyTransaction {
+  inputToken: string;
+  inputAmount: BigNumber;
+  inputUsd: BigNumber;
+  outputToken: string;
+  outputAmount: BigNumber;
+  outputUsd: BigNumber;
+  txHash: string;
+  /** Unix timestamp in seconds */
+  timestamp: number;
+}
+
+export interface SwapBuyTokenSummary {
+  token: string;
+  inputAmount: BigNumber;
+  inputUsd: BigNumber;
+  outputAmount: BigNumber;
+  outputUsd: BigNumber;
+}
+
+export interface SwapBuySummary {
+  /** Unix timestamp in milliseconds */
+  since: number;
+  transactions: SwapBuyTransaction[];
+  /** Aggregated by input token */
+  byToken: SwapBuyTokenSummary[];
+  totalInputUsd: BigNumber;
+  totalOutputUsd: BigNumber;
+  /** Swaps with a side that could not be priced, that side counts as $0 */
+  unvaluedCount: number;
+  /** Swapped denoms missing from the token registry */
+  unresolvedDenoms: string[];
+}
+
+export interface DailyVolume {
+  /** Bucket label, YYYY-MM-DD for days (see formatBucketLabel) */
+  date: string;
+  volumeUsd: BigNumber;
+  transactionCount: number;
+  /** Unix timestamp in seconds of the day's latest counted swap */
+  lastSwapAt: number | null;
+  /** Counted swaps left out of `volumeUsd` because a token could not be priced */
+  unvaluedCount: number;
+  /** Swapped denoms missing from the token registry */
+  unresolvedDenoms: string[];
+}
+
+export interface BotActivity {
+  /** Bot name from the bot registry */
+  name: string;
+  /** Current bucket first (default: UTC days) */
+  dailyVolumes: DailyVolume[];
+  /** All-time transaction counts by type */
+  transactionTypes: TransactionTypeSummary[];
+}
+
+export interface ArchwayBalance {
+  /** Pool name */
+  name: string;
+  token: string;
+  amount: number;
+  usdValue: number;
+}
+
+export interface ArchwayMonitoring {
+  quoteToken: string;
+  /** Prices in `quoteToken`, keyed by token symbol, 0 when unavailable */
+  prices: Record<string, number>;
+  /** Where each price came from, null when it is unavailable */
+  priceSources: Record<string, ArchwayPriceSource | "config" | null>;
+  baseBalances: ArchwayBalance[];
+  quoteBalances: ArchwayBalance[];
+  totalUsdValue: number;
+}
+
+/**
+ * Everything the rebalance dashboard shows at one point in time.
+ * Produced by DashboardCollector and consumed by the dashboard renderers.
+ */
+export interface DashboardSnapshot {
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  sui: {
+    /** Address whose swap_buy transactions and volume are shown */
+    address: string;
+    prices: DashboardTokenPrice[];
+    pools: SuiPoolView[];
+    totalLiquidityUsd: BigNumber;
+    previousTotalLiquidityUsd: BigNumber | null;
+    comparedTo: DashboardComparison | null;
+    swapBuys: SwapBuySummary;
+    /** Current bucket first (default: UTC days) */
+    dailyVolumes: DailyVolume[];
+    /** All-time transaction counts by type for `address` */
+    transactionTypes: TransactionTypeSummary[];
+  };
+  archway: {
+    /** null when the Archway pools could not be queried */
+    monitoring: ArchwayMonitoring | null;
+    /** Current bucket first, aggregated across the registered bots */
+    dailyVolumes: DailyVolume[];
+    bots: BotStatusReport[];
+    /** Per-bot volume and transaction counts, for the bots that could be read */
+    botActivity: BotActivity[];
+  };
+}
@@ -1,2 +1,15 @@
 export * from "./bolt-grpc-client";
+export * from "./dashboard-config";
+export * from "./price-cache";
+export * from "./price-oracle";
+export * from "./coingecko-client";
 export * from "./price-service";
+export * from "./price-history";
+export * from "./dashboard-server";
+export * from "./prometheus-metrics";
+export * from "./archway-monitoring";
+export * from "./archway-price-service";
+export * from "./dashboard-collector";
+export * from "./dashboard-snapshot";
+export * from "./dashboard-renderers";
+export * from "./alerts";
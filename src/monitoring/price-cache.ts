@@ -0,0 +1,66 @@
+const DEFAULT_TTL_MS = 30_000;
+
+/** Minimum time between two requests to the same upstream, by limiter key */
+export const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  coingecko: 2_000,
+  "bolt-sui": 100,
+  "archway-rpc": 100,
+};
+
+/**
+ * Short-lived cache of price lookups, shared by the Sui and Archway price
+ * services. Concurrent lookups of the same key share one request, and
+ * failed lookups are not cached.
+ */
+export class PriceCache {
+  private entries = new Map<string, { value: Promise<unknown>; expiresAt: number }>();
+
+  constructor(private ttlMs: number = DEFAULT_TTL_MS) {}
+
+  get<T>(key: string, load: () => Promise<T>, ttlMs: number = this.ttlMs): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as Promise<T>;
+    }
+
+    const value = load();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+    return value;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Spaces out requests to the same upstream. Tasks with the same key run one
+ * after another, each starting at least the key's interval after the last.
+ */
+export class RateLimiter {
+  private queues = new Map<string, Promise<unknown>>();
+  private lastStartedAt = new Map<string, number>();
+
+  constructor(private intervals: Record<string, number> = DEFAULT_RATE_LIMITS) {}
+
+  schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const run = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const wait = (this.lastStartedAt.get(key) ?? 0) + (this.intervals[key] ?? 0) - Date.now();
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+        this.lastStartedAt.set(key, Date.now());
+        return task();
+      });
+    this.queues.set(key, run);
+    return run;
+  }
+}
@@ -0,0 +1,90 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import BigNumber from "bignumber.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  AccountTransaction,
+  SQLiteTransactionRepository,
+  TransactionType,
+  TransactionValuer,
+} from "../database";
+import { normalizeDenom } from "../registry";
+
+import { backfillPriceHistory, readMarketChartFixture } from "./price-history";
+
+// A CoinGecko `market_chart?vs_currency=usd&days=1` response for SUI, trimmed
+// to the hourly points of 2025-01-15 00:00-06:00 UTC
+const FIXTURE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/sui-market-chart.json"
+);
+
+const SUI = "0x2::sui::SUI";
+const USDC = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+const swap = (timestamp: string, txHash: string): AccountTransaction => ({
+  signerAddress: "0xbot",
+  chainId: "101",
+  transactionType: TransactionType.BOLT_SUI_SWAP,
+  inputAmount: "2000000000",
+  inputTokenDenom: SUI,
+  outputAmount: "10020000",
+  outputTokenDenom: USDC,
+  txHash,
+  successful: true,
+  timestamp: Date.parse(timestamp) / 1000,
+});
+
+describe("price history", () => {
+  let database: SQLiteTransactionRepository;
+
+  beforeEach(() => {
+    database = new SQLiteTransactionRepository(":memory:", undefined, {
+      valueTransactions: false,
+    });
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it("reads the recorded market chart, ignoring market caps and volumes", async () => {
+    const chart = await readMarketChartFixture(FIXTURE);
+    expect(chart).toEqual({ prices: expect.any(Array) });
+    expect(chart.prices).toHaveLength(7);
+    expect(chart.prices[3]).toEqual([1736910000254, 5.0114]);
+  });
+
+  it("backfills every point once", async () => {
+    const chart = await readMarketChartFixture(FIXTURE);
+    expect(await backfillPriceHistory(database, SUI, chart)).toBe(7);
+    await backfillPriceHistory(database, SUI, chart);
+
+    const samples = database.getPriceSamples({ denom: SUI });
+    expect(samples).toHaveLength(7);
+    expect(samples.map((sample) => sample.source)).toEqual(Array(7).fill("coingecko"));
+    expect(samples.find((sample) => sample.timestamp === 1736910000)).toMatchObject({
+      denom: normalizeDenom(SUI),
+      priceUsd: "5.0114",
+    });
+  });
+
+  it("values swaps at the backfilled price of their hour and leaves the rest unvalued", async () => {
+    await backfillPriceHistory(database, SUI, await readMarketChartFixture(FIXTURE));
+    const valuer = new TransactionValuer(database, {
+      fixedPrice: (denom) =>
+        normalizeDenom(denom) === normalizeDenom(USDC) ? new BigNumber(1) : null,
+    });
+
+    // Closest point is 03:00, SUI at $5.0114
+    const covered = await valuer.valueTransaction(swap("2025-01-15T03:10:00Z", "0xcovered"));
+    expect(covered.inputUsd?.toFixed()).toBe("10.0228");
+    expect(covered.outputUsd?.toFixed()).toBe("10.02");
+
+    // Two days later, no SUI sample within 12 hours and no current price fallback
+    const uncovered = await valuer.valueTransaction(swap("2025-01-17T03:10:00Z", "0xuncovered"));
+    expect(uncovered.inputUsd).toBeNull();
+    expect(uncovered.outputUsd?.toFixed()).toBe("10.02");
+  });
+});
@@ -0,0 +1,105 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import BigNumber from "bignumber.js";
+
+import { PriceSample, TransactionRepository } from "../database";
+import {
+  ConfigValidationError,
+  expectArray,
+  expectNumber,
+  expectRecord,
+  parseJsonConfig,
+} from "../utils";
+
+import { MarketChart } from "./coingecko-client";
+
+/**
+ * Validate a CoinGecko `market_chart` response, e.g. one recorded to a file
+ */
+export const parseMarketChart = (value: unknown): MarketChart => {
+  const chart = expectRecord(value, "market chart");
+  return {
+    prices: expectArray(chart.prices, "prices").map((point, index) => {
+      const [timestamp, price] = expectArray(point, `prices[${index}]`);
+      return [
+        expectNumber(timestamp, `prices[${index}][0]`, { min: 0 }),
+        expectNumber(price, `prices[${index}][1]`, { min: 0 }),
+      ];
+    }),
+  };
+};
+
+/**
+ * Load a recorded `market_chart` response, so history can be backfilled
+ * without calling CoinGecko
+ */
+export const readMarketChartFixture = async (
+  fixturePath: string
+): Promise<MarketChart> => {
+  const resolvedPath = path.resolve(fixturePath);
+  let contents: string;
+  try {
+    contents = await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    throw new ConfigValidationError(
+      `Could not read market chart ${resolvedPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  try {
+    return parseMarketChart(
+      parseJsonConfig(contents, `Market chart ${resolvedPath}`)
+    );
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      throw new ConfigValidationError(`${resolvedPath}: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Store every point of a market chart as a price sample of `denom`.
+ * Points already stored for the same source are skipped.
+ *
+ * @returns the number of points in the chart
+ */
+export const backfillPriceHistory = async (
+  database: TransactionRepository,
+  denom: string,
+  chart: MarketChart,
+  source: string = "coingecko"
+): Promise<number> => {
+  const samples: PriceSample[] = chart.prices.map(([timestamp, price]) => ({
+    denom,
+    priceUsd: new BigNumber(price).toFixed(),
+    source,
+    timestamp: Math.floor(timestamp / 1000),
+  }));
+  await database.addPriceSampleBatch(samples);
+  return samples.length;
+};
+
+/**
+ * Store the current price of each denom as a sample, unpriced denoms are skipped
+ */
+export const recordPriceSamples = async (
+  database: TransactionRepository,
+  prices: Array<{ denom: string; price: BigNumber; source: string }>,
+  timestamp: number = Date.now()
+): Promise<void> => {
+  const samples = prices
+    .filter(({ price }) => price.isFinite() && price.isGreaterThan(0))
+    .map(({ denom, price, source }) => ({
+      denom,
+      priceUsd: price.toFixed(),
+      source,
+      timestamp: Math.floor(timestamp / 1000),
+    }));
+  if (samples.length > 0) {
+    await database.addPriceSampleBatch(samples);
+  }
+};
@@ -0,0 +1,112 @@
+import BigNumber from "bignumber.js";
+import { describe, expect, it } from "vitest";
+
+import { PriceOracle, PriceSource, PriceUnavailableError } from "./price-oracle";
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+const MINUTE = 60 * 1000;
+const BAND = { min: 0.5, max: 10 };
+
+const quoting = (
+  name: string,
+  confidence: number,
+  price: number,
+  timestamp?: number
+): PriceSource => ({
+  name,
+  confidence,
+  fetch: async () => ({ price: new BigNumber(price), timestamp }),
+});
+
+const failing = (name: string, message: string): PriceSource => ({
+  name,
+  confidence: 1,
+  fetch: async () => {
+    throw new Error(message);
+  },
+});
+
+describe("PriceOracle", () => {
+  it("takes the mean of the middle quotes of an even number and flags deviations", async () => {
+    const oracle = new PriceOracle().addToken("SUI", BAND, [
+      quoting("coingecko", 1, 2.0),
+      quoting("bolt", 0.9, 2.1),
+      quoting("pool_reserves", 0.5, 2.02),
+      quoting("price_feeder", 0.5, 1.98),
+    ]);
+
+    const price = await oracle.getPrice("SUI", NOW);
+
+    // 1.98, 2.00, 2.02, 2.10: the median is (2.00 + 2.02) / 2
+    expect(price.price.toFixed()).toBe("2.01");
+    expect(price.timestamp).toBe(NOW);
+    expect(
+      price.quotes.map((quote) => [quote.source, quote.deviation?.toFixed(4), quote.deviates])
+    ).toEqual([
+      ["coingecko", "0.0050", false],
+      ["bolt", "0.0448", true],
+      ["pool_reserves", "0.0050", false],
+      ["price_feeder", "0.0149", false],
+    ]);
+    // Bolt (0.9) disagrees: 2 of 2.9
+    expect(price.confidence).toBeCloseTo(2 / 2.9, 10);
+  });
+
+  it("leaves stale quotes out of the median and the confidence", async () => {
+    const oracle = new PriceOracle({ maxAgeMs: 10 * MINUTE }).addToken("SUI", BAND, [
+      quoting("coingecko", 1, 2.0, NOW - MINUTE),
+      quoting("bolt", 0.9, 3.0, NOW - 11 * MINUTE),
+      quoting("pool_reserves", 0.5, 2.02, NOW - 2 * MINUTE),
+    ]);
+
+    const price = await oracle.getPrice("SUI", NOW);
+
+    expect(price.price.toFixed()).toBe("2.01");
+    // The newest quote in the median
+    expect(price.timestamp).toBe(NOW - MINUTE);
+    expect(price.quotes[1]).toMatchObject({ source: "bolt", stale: true, deviates: true });
+    expect(price.confidence).toBeCloseTo(1.5 / 2.4, 10);
+  });
+
+  it("rejects a quote outside the sanity band instead of rescaling it", async () => {
+    const oracle = new PriceOracle().addToken("SUI", BAND, [
+      quoting("coingecko", 1, 2.0),
+      // Reported in the wrong unit
+      quoting("bolt", 0.9, 2000),
+    ]);
+
+    const price = await oracle.getPrice("SUI", NOW);
+
+    expect(price.price.toFixed()).toBe("2");
+    expect(price.quotes[1]).toEqual({
+      source: "bolt",
+      price: null,
+      timestamp: NOW,
+      confidence: 0.9,
+      deviation: null,
+      deviates: false,
+      stale: false,
+      error: "SUI price 2000 is outside the expected range 0.5-10",
+    });
+    expect(price.confidence).toBeCloseTo(1 / 1.9, 10);
+  });
+
+  it("throws PriceUnavailableError when no source has a fresh price", async () => {
+    const oracle = new PriceOracle().addToken("SUI", BAND, [
+      failing("coingecko", "Request failed with status code 429"),
+      quoting("bolt", 0.9, 2.0, NOW - 11 * MINUTE),
+      quoting("pool_reserves", 0.5, 0.1),
+    ]);
+
+    const error = await oracle.getPrice("SUI", NOW).catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(PriceUnavailableError);
+    expect((error as PriceUnavailableError).message).toBe(
+      "No usable SUI price: coingecko: Request failed with status code 429, bolt: stale, " +
+        "pool_reserves: SUI price 0.1 is outside the expected range 0.5-10"
+    );
+    await expect(oracle.getPrice("CETUS", NOW)).rejects.toThrow(
+      "No usable CETUS price: no sources configured"
+    );
+  });
+});
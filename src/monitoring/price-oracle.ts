@@ -0,0 +1,219 @@
+import BigNumber from "bignumber.js";
+
+/**
+ * Thrown when a source reports a price outside the token's sanity band.
+ * Sources never rescale or invert a price to make it fit.
+ */
+export class PriceSanityError extends Error {
+  constructor(
+    readonly source: string,
+    readonly token: string,
+    readonly price: BigNumber,
+    readonly band: PriceSanityBand
+  ) {
+    super(
+      `${token} price ${price.toFixed()} is outside the expected range ${band.min}-${band.max}`
+    );
+    this.name = "PriceSanityError";
+  }
+}
+
+/**
+ * Thrown when no source produced a usable price for a token
+ */
+export class PriceUnavailableError extends Error {
+  constructor(
+    readonly token: string,
+    readonly quotes: SourceQuote[]
+  ) {
+    super(
+      `No usable ${token} price: ${
+        quotes
+          .map((quote) => `${quote.source}: ${quote.error ?? (quote.stale ? "stale" : "unusable")}`)
+          .join(", ") || "no sources configured"
+      }`
+    );
+    this.name = "PriceUnavailableError";
+  }
+}
+
+export interface PriceSanityBand {
+  min: number;
+  max: number;
+}
+
+export interface PriceSourceResult {
+  price: BigNumber;
+  /** When the source last updated the price (Unix ms), default: when it was fetched */
+  timestamp?: number;
+}
+
+export interface PriceSource {
+  name: string;
+  /** How much the source is trusted, between 0 and 1 */
+  confidence: number;
+  fetch(): Promise<PriceSourceResult>;
+}
+
+export interface SourceQuote {
+  source: string;
+  /** null when the source failed */
+  price: BigNumber | null;
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  confidence: number;
+  /** Relative distance from the median, e.g. 0.02 for 2% */
+  deviation: number | null;
+  /** Further from the median than the tolerance */
+  deviates: boolean;
+  /** Older than the maximum age, left out of the median */
+  stale: boolean;
+  error?: string;
+}
+
+export interface OraclePrice {
+  token: string;
+  /** Median of the fresh quotes */
+  price: BigNumber;
+  /** Unix timestamp in milliseconds of the newest quote in the median */
+  timestamp: number;
+  /** Confidence of the sources agreeing with the median over all sources queried */
+  confidence: number;
+  quotes: SourceQuote[];
+}
+
+export interface PriceOracleOptions {
+  /** Quotes further than this from the median are flagged (default: 0.02 = 2%) */
+  tolerance?: number;
+  /** Quotes older than this are left out of the median (default: 10 minutes) */
+  maxAgeMs?: number;
+}
+
+interface OracleToken {
+  sources: PriceSource[];
+  band: PriceSanityBand;
+}
+
+const DEFAULT_TOLERANCE = 0.02;
+const DEFAULT_MAX_AGE_MS = 10 * 60 * 1000;
+
+const median = (values: BigNumber[]): BigNumber => {
+  const sorted = [...values].sort((a, b) => a.comparedTo(b) ?? 0);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : sorted[middle - 1].plus(sorted[middle]).dividedBy(2);
+};
+
+/**
+ * Queries every price source of a token concurrently and aggregates them
+ * into a median, keeping the per-source breakdown
+ */
+export class PriceOracle {
+  private tokens = new Map<string, OracleToken>();
+  private tolerance: number;
+  private maxAgeMs: number;
+
+  constructor(options: PriceOracleOptions = {}) {
+    this.tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  /**
+   * Register the sources of a token, prices outside `band` are rejected
+   */
+  addToken(token: string, band: PriceSanityBand, sources: PriceSource[]): this {
+    this.tokens.set(token, { sources, band });
+    return this;
+  }
+
+  hasToken(token: string): boolean {
+    return this.tokens.has(token);
+  }
+
+  get tokenNames(): string[] {
+    return [...this.tokens.keys()];
+  }
+
+  /**
+   * @throws PriceUnavailableError when every source failed or is stale
+   */
+  async getPrice(token: string, now: number = Date.now()): Promise<OraclePrice> {
+    const entry = this.tokens.get(token);
+    if (!entry) {
+      throw new PriceUnavailableError(token, []);
+    }
+
+    const results = await Promise.allSettled(
+      entry.sources.map((source) => source.fetch())
+    );
+
+    const quotes: SourceQuote[] = entry.sources.map((source, index) => {
+      const result = results[index];
+      const quote: SourceQuote = {
+        source: source.name,
+        price: null,
+        timestamp: now,
+        confidence: source.confidence,
+        deviation: null,
+        deviates: false,
+        stale: false,
+      };
+
+      if (result.status === "rejected") {
+        quote.error =
+          result.reason instanceof Error ? result.reason.message : String(result.reason);
+        return quote;
+      }
+
+      const { price, timestamp } = result.value;
+      if (!price.isFinite() || price.isLessThan(entry.band.min) || price.isGreaterThan(entry.band.max)) {
+        quote.error = new PriceSanityError(source.name, token, price, entry.band).message;
+        return quote;
+      }
+
+      quote.price = price;
+      quote.timestamp = timestamp ?? now;
+      quote.stale = now - quote.timestamp > this.maxAgeMs;
+      return quote;
+    });
+
+    const fresh = quotes.filter((quote) => quote.price !== null && !quote.stale);
+    if (fresh.length === 0) {
+      throw new PriceUnavailableError(token, quotes);
+    }
+
+    const price = median(fresh.map((quote) => quote.price!));
+    for (const quote of quotes) {
+      if (quote.price !== null) {
+        quote.deviation = quote.price.minus(price).abs().dividedBy(price).toNumber();
+        quote.deviates = quote.deviation > this.tolerance;
+      }
+    }
+
+    const totalConfidence = entry.sources.reduce((sum, source) => sum + source.confidence, 0);
+    const agreeingConfidence = fresh
+      .filter((quote) => !quote.deviates)
+      .reduce((sum, quote) => sum + quote.confidence, 0);
+
+    return {
+      token,
+      price,
+      timestamp: Math.max(...fresh.map((quote) => quote.timestamp)),
+      confidence: totalConfidence > 0 ? agreeingConfidence / totalConfidence : 0,
+      quotes,
+    };
+  }
+
+  /**
+   * Price every registered token, keyed by token
+   *
+   * @throws PriceUnavailableError for the first token without a usable price
+   */
+  async getPrices(now: number = Date.now()): Promise<Map<string, OraclePrice>> {
+    const prices = await Promise.all(
+      this.tokenNames.map((token) => this.getPrice(token, now))
+    );
+    return new Map(prices.map((price) => [price.token, price]));
+  }
+}
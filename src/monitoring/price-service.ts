@@ -1,8 +1,25 @@
 import { BoltGrpcClient, Pool } from "./bolt-grpc-client";
 import { BoltSuiClient } from "@bolt-liquidity-hq/sui-client";
 import { SuiClient } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
 import BigNumber from "bignumber.js";
-import axios from "axios";
+
+import {
+  RegistryToken,
+  SUI_MAINNET_NATIVE_TOKEN,
+  SUI_MAINNET_TOKENS_MAP,
+} from "../registry";
+
+import { CoinGeckoClient } from "./coingecko-client";
+import { PriceCache, RateLimiter } from "./price-cache";
+import {
+  OraclePrice,
+  PriceOracle,
+  PriceOracleOptions,
+  PriceSanityBand,
+  PriceSource,
+  PriceSourceResult,
+} from "./price-oracle";
 
 export interface TokenPrice {
   denom: string;
@@ -20,16 +37,138 @@ export interface PoolMetrics {
   }>;
 }
 
+export interface PriceServiceOptions extends PriceOracleOptions {
+  /** Tokens getPoolMetrics can value (default: the Sui mainnet registry tokens) */
+  tokens?: RegistryToken[];
+  /** Bolt pools whose reserves imply prices (default: the SUI/USDC and USDC/SUI pools) */
+  poolIds?: string[];
+  /** Sanity bands by denom, overriding the defaults */
+  priceBands?: Record<string, PriceSanityBand>;
+  /** Sources used by denom (default: every source that applies to the token) */
+  priceSources?: Record<string, string[]>;
+  /** Share lookups with other price services, see ArchwayPriceService */
+  cache?: PriceCache;
+  rateLimiter?: RateLimiter;
+}
+
+const SUI_NATIVE_TOKEN = SUI_MAINNET_NATIVE_TOKEN;
+const USDC_TOKEN =
+  SUI_MAINNET_TOKENS_MAP[
+    "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC"
+  ];
+
+const DEFAULT_POOL_IDS = [
+  "0x21167b2e981e2c0a693afcfe882a3a827d663118e19afcb92e45bfe43fe56278",
+  "0x34fcaa553f1185e1c3a05de37b6a4d10c39535d19f9c8581eeae826434602b58",
+];
+
+/** Prices outside these ranges are rejected, never rescaled */
+const DEFAULT_PRICE_BANDS: Record<string, PriceSanityBand> = {
+  [SUI_NATIVE_TOKEN.denom]: { min: 0.01, max: 1000 },
+  [USDC_TOKEN.denom]: { min: 0.5, max: 2 },
+};
+const DEFAULT_PRICE_BAND: PriceSanityBand = { min: 0.000001, max: 1_000_000 };
+
+/** How long the USDC price used to convert USDC-quoted sources is reused */
+const USDC_PRICE_TTL_MS = 30_000;
+
+/** Pools a pool-implied price may route through, e.g. CETUS → SUI → USDC */
+const MAX_ROUTE_HOPS = 2;
+
+/** Fields of the price feeder cap object holding the SUI price in USDC */
+const PRICE_FEEDER_FIELDS = ["price", "latest_price", "current_price"];
+
+/**
+ * Whether a Bolt pool asset is the registry token. Pools name assets by
+ * type tag (in any address form) or by symbol.
+ */
+export function isPoolAsset(asset: string, token: RegistryToken): boolean {
+  if (asset === token.denom || asset.toLowerCase() === token.name.toLowerCase()) {
+    return true;
+  }
+  if (!asset.includes("::") || !token.denom.includes("::")) {
+    return false;
+  }
+  try {
+    return normalizeStructTag(asset) === normalizeStructTag(token.denom);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Price of `from` in `to` implied by pool reserves, following at most
+ * MAX_ROUTE_HOPS pools. Pool assets are matched to `tokens` so pools naming
+ * the same asset differently still connect.
+ */
+function findRoutePrice(
+  pools: Pool[],
+  tokens: RegistryToken[],
+  from: RegistryToken,
+  to: RegistryToken
+): BigNumber | null {
+  const assetKey = (asset: string) =>
+    tokens.find((token) => isPoolAsset(asset, token))?.denom ?? asset;
+
+  // Every pool prices its base asset in each quote asset and the other way around
+  const edges = pools.flatMap((pool) => {
+    const base = assetKey(pool.baseAsset);
+    const baseAmount = BoltGrpcClient.parseFractionToBigNumber(pool.baseAmount);
+    return pool.quoteAssets.flatMap((quoteAsset) => {
+      const quote = assetKey(quoteAsset.denom);
+      const quoteAmount = BoltGrpcClient.parseFractionToBigNumber(quoteAsset.amount);
+      if (baseAmount.isZero() || quoteAmount.isZero()) {
+        return [];
+      }
+      return [
+        { from: base, to: quote, price: quoteAmount.dividedBy(baseAmount) },
+        { from: quote, to: base, price: baseAmount.dividedBy(quoteAmount) },
+      ];
+    });
+  });
+
+  let frontier = [{ asset: from.denom, price: new BigNumber(1) }];
+  for (let hop = 1; hop <= MAX_ROUTE_HOPS && frontier.length > 0; hop++) {
+    frontier = frontier.flatMap((step) =>
+      edges
+        .filter((edge) => edge.from === step.asset && edge.to !== from.denom)
+        .map((edge) => ({ asset: edge.to, price: step.price.multipliedBy(edge.price) }))
+    );
+    const arrived = frontier.find((step) => step.asset === to.denom);
+    if (arrived) {
+      return arrived.price;
+    }
+  }
+  return null;
+}
+
 export class PriceService {
+  readonly cache: PriceCache;
+  readonly rateLimiter: RateLimiter;
+  private coingecko: CoinGeckoClient;
   private grpcClient: BoltGrpcClient;
   private boltSuiClient: BoltSuiClient;
   private suiClient: SuiClient;
+  private oracle: PriceOracle;
+  private tokens: RegistryToken[];
+  private poolIds: string[];
+  private priceBands: Record<string, PriceSanityBand>;
+  private priceSources: Record<string, string[]>;
+  private usdcPrice: { price: Promise<BigNumber>; fetchedAt: number } | null = null;
   private readonly PRICE_FEEDER_CAP_ID = "0x4c702ac2b2c9f756dd6b5cd444b800de8f47695ada779b77fc7b553d21fb511d";
 
-  constructor() {
+  constructor(options: PriceServiceOptions = {}) {
     this.grpcClient = new BoltGrpcClient();
     this.boltSuiClient = new BoltSuiClient();
     this.suiClient = new SuiClient({ url: "https://fullnode.mainnet.sui.io:443" });
+    this.oracle = new PriceOracle(options);
+    this.cache = options.cache ?? new PriceCache();
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.coingecko = new CoinGeckoClient(this.cache, this.rateLimiter);
+    this.tokens = options.tokens ?? Object.values(SUI_MAINNET_TOKENS_MAP);
+    this.poolIds = options.poolIds ?? DEFAULT_POOL_IDS;
+    this.priceBands = { ...DEFAULT_PRICE_BANDS, ...options.priceBands };
+    this.priceSources = options.priceSources ?? {};
   }
 
   /**
@@ -87,322 +226,225 @@ export class PriceService {
   }
 
   /**
-   * Get prices for both SUI and USDC
-   * Primary: CoinGecko free API (most reliable for SUI price)
-   * Fallback: Price feeder, Bolt's getPrice(), or pool reserves
+   * Get prices for both SUI and USDC, keyed by lowercase symbol.
+   * Each price is the median of every source, see getOraclePrices.
    */
   async getTokenPrices(): Promise<Map<string, BigNumber>> {
-    const prices = new Map<string, BigNumber>();
+    const oraclePrices = await this.getOraclePrices();
+    return new Map(
+      [...oraclePrices].map(([token, oraclePrice]) => [token, oraclePrice.price])
+    );
+  }
 
-    // Primary: Use CoinGecko as the default source for SUI price
-    try {
-      await this.fetchPricesFromCoinGecko(prices);
-      
-      // If we got both prices from CoinGecko, return early
-      if (prices.has("sui") && prices.has("usdc")) {
-        return prices;
-      }
-    } catch (coingeckoError) {
-      console.warn(
-        `Warning: Could not fetch prices from CoinGecko: ${
-          coingeckoError instanceof Error ? coingeckoError.message : "Unknown error"
-        }`
+  /**
+   * SUI and USDC prices with the per-source breakdown, keyed by lowercase symbol
+   *
+   * @throws PriceUnavailableError when no source produced a usable price
+   */
+  async getOraclePrices(): Promise<Map<string, OraclePrice>> {
+    const [sui, usdc] = await Promise.all([
+      this.getRegistryTokenPrice(SUI_NATIVE_TOKEN),
+      this.getRegistryTokenPrice(USDC_TOKEN),
+    ]);
+    return new Map([
+      ["sui", sui],
+      ["usdc", usdc],
+    ]);
+  }
+
+  /**
+   * USD price of a registry token: the median of CoinGecko (by `coingeckoId`),
+   * Bolt's oracle price and pool reserves, the last two quoted in USDC
+   *
+   * @throws PriceUnavailableError when no source produced a usable price
+   */
+  async getRegistryTokenPrice(token: RegistryToken): Promise<OraclePrice> {
+    if (!this.oracle.hasToken(token.denom)) {
+      this.oracle.addToken(
+        token.denom,
+        this.priceBands[token.denom] ?? DEFAULT_PRICE_BAND,
+        this.createPriceSources(token)
       );
     }
+    return this.oracle.getPrice(token.denom);
+  }
 
-    // Fallback 1: Try price feeder
-    if (!prices.has("sui")) {
-      try {
-        await this.fetchPriceFromPriceFeeder(prices);
-        if (prices.has("sui")) {
-          return prices;
-        }
-      } catch (priceFeederError) {
-        console.warn(
-          `Warning: Could not fetch prices from price feeder: ${
-            priceFeederError instanceof Error ? priceFeederError.message : "Unknown error"
-          }`
-        );
-      }
-    }
+  /**
+   * USD prices keyed by denom, tokens no source could price are left out
+   */
+  async getRegistryTokenPrices(
+    tokens: RegistryToken[] = this.tokens
+  ): Promise<Map<string, OraclePrice>> {
+    const results = await Promise.allSettled(
+      tokens.map((token) => this.getRegistryTokenPrice(token))
+    );
 
-    // Fallback 2: Try Bolt's getPrice() method
-    if (!prices.has("sui")) {
-      try {
-        // Get SUI/USDC price from Bolt's price feed
-        // Using the standard SUI and USDC type tags
-        const suiTypeTag = "0x2::sui::SUI";
-        const usdcTypeTag = "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
-        
-        const priceResult = await this.boltSuiClient.getPrice(suiTypeTag, usdcTypeTag);
-      
-        // The price result should contain a price field
-        // For SUI/USDC pair, the price represents USDC per SUI (i.e., SUI price in USDC/USD)
-        // The price might be in different formats or units, so we handle various cases
-        let suiPriceInUsdc: BigNumber;
-        
-        if (typeof priceResult.price === 'string') {
-          suiPriceInUsdc = new BigNumber(priceResult.price);
-        } else if (typeof priceResult.price === 'number') {
-          suiPriceInUsdc = new BigNumber(priceResult.price);
-        } else {
-          // If price is in a different format, try to extract it
-          const priceValue = (priceResult as any).price || (priceResult as any).value || priceResult;
-          suiPriceInUsdc = new BigNumber(priceValue);
-        }
-        
-        // Handle different price formats from Bolt
-        // If price is very small (< 0.01), it might be in base units or inverted
-        // Try to normalize it
-        if (suiPriceInUsdc.isPositive() && suiPriceInUsdc.isLessThan(0.01)) {
-          // Price might be inverted (1/price) or in base units
-          // Try inverting first (common in some AMM formats)
-          const invertedPrice = new BigNumber(1).dividedBy(suiPriceInUsdc);
-          if (invertedPrice.isGreaterThan(0.01) && invertedPrice.isLessThan(1000)) {
-            suiPriceInUsdc = invertedPrice;
-          } else {
-            // If still too small, might be in base units - multiply by 10^9 for SUI
-            const scaledPrice = suiPriceInUsdc.multipliedBy(new BigNumber(10).pow(9));
-            if (scaledPrice.isGreaterThan(0.01) && scaledPrice.isLessThan(1000)) {
-              suiPriceInUsdc = scaledPrice;
-            } else {
-              throw new Error(`Price value ${suiPriceInUsdc.toString()} appears to be in an unexpected format`);
-            }
-          }
-        }
-        
-        // Ensure the price is positive and reasonable (between $0.01 and $1000)
-        if (suiPriceInUsdc.isPositive() && suiPriceInUsdc.isLessThan(1000) && suiPriceInUsdc.isGreaterThan(0.01)) {
-          prices.set("sui", suiPriceInUsdc);
-        } else {
-          throw new Error(`Invalid price value: ${suiPriceInUsdc.toString()} (expected between 0.01 and 1000)`);
-        }
-        
-        // USDC is always $1
-        if (!prices.has("usdc")) {
-          prices.set("usdc", new BigNumber(1));
-        }
-        
-        // If we got SUI price from Bolt, return
-        if (prices.has("sui")) {
-          return prices;
-        }
-      } catch (error) {
+    const prices = new Map<string, OraclePrice>();
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        prices.set(tokens[index].denom, result.value);
+      } else {
         console.warn(
-          `Warning: Could not fetch prices from Bolt price feed: ${
-            error instanceof Error ? error.message : "Unknown error"
+          `Warning: Could not price ${tokens[index].name}: ${
+            result.reason instanceof Error ? result.reason.message : "Unknown error"
           }`
         );
-        
-        // Fallback 3: try to calculate from pool reserves (less accurate)
-        if (!prices.has("sui")) {
-          try {
-            const suiPoolResponse = await this.grpcClient.getPool(
-              "0x21167b2e981e2c0a693afcfe882a3a827d663118e19afcb92e45bfe43fe56278"
-            );
-            const suiPool = suiPoolResponse.pool;
-            
-            if (suiPool.quoteAssets.length > 0 && suiPool.quoteAssets[0].denom === "USDC") {
-              const suiAmount = BoltGrpcClient.parseFractionToBigNumber(suiPool.baseAmount);
-              const usdcAmount = BoltGrpcClient.parseFractionToBigNumber(suiPool.quoteAssets[0].amount);
-              
-              if (!suiAmount.isZero()) {
-                const suiPriceInUsdc = usdcAmount.dividedBy(suiAmount);
-                prices.set("sui", suiPriceInUsdc);
-              }
-            }
-          } catch (poolError) {
-            console.warn(`Pool-based price calculation failed: ${poolError instanceof Error ? poolError.message : "Unknown error"}`);
-          }
-        }
       }
+    });
+    return prices;
+  }
+
+  private createPriceSources(token: RegistryToken): PriceSource[] {
+    const sources = this.createAllPriceSources(token);
+    const allowed = this.priceSources[token.denom];
+    return allowed
+      ? sources.filter((source) => allowed.includes(source.name))
+      : sources;
+  }
+
+  private createAllPriceSources(token: RegistryToken): PriceSource[] {
+    const sources: PriceSource[] = [];
+
+    if (token.coingeckoId) {
+      const coinId = token.coingeckoId;
+      sources.push({
+        name: "coingecko",
+        confidence: 1,
+        fetch: () => this.coingecko.getPrice(coinId),
+      });
     }
 
-    // Ensure USDC is set (should always be $1)
-    if (!prices.has("usdc")) {
-      prices.set("usdc", new BigNumber(1));
+    if (token.denom === USDC_TOKEN.denom) {
+      sources.push({
+        name: "peg",
+        confidence: 0.5,
+        fetch: async () => ({ price: new BigNumber(1) }),
+      });
+      return sources;
     }
 
-    // If we still don't have SUI price after all fallbacks, throw an error
-    if (!prices.has("sui")) {
-      throw new Error(
-        `Failed to fetch SUI price from all sources: CoinGecko, price feeder, Bolt, and pool reserves`
-      );
+    if (token.denom === SUI_NATIVE_TOKEN.denom) {
+      sources.push({
+        name: "price_feeder",
+        confidence: 0.9,
+        fetch: () => this.fetchPriceFromPriceFeeder(),
+      });
     }
 
-    return prices;
+    sources.push(
+      {
+        name: "bolt",
+        confidence: 0.9,
+        fetch: () => this.inUsd(this.fetchPriceFromBolt(token.denom, USDC_TOKEN.denom)),
+      },
+      {
+        // Reserve ratios drift with pool imbalance, trust them least
+        name: "pool_reserves",
+        confidence: 0.5,
+        fetch: () => this.inUsd(this.fetchPriceFromPoolReserves(token)),
+      }
+    );
+    return sources;
   }
 
   /**
-   * Fetch price from the price feeder cap object on Sui
-   * The price feeder cap contains the current SUI/USDC price
+   * Convert a price quoted in USDC to USD at the USDC oracle price
    */
-  private async fetchPriceFromPriceFeeder(prices: Map<string, BigNumber>): Promise<void> {
-    try {
-      // Query the price feeder cap object
-      const object = await this.suiClient.getObject({
-        id: this.PRICE_FEEDER_CAP_ID,
-        options: {
-          showContent: true,
-          showType: true,
-        },
+  private async inUsd(
+    usdcQuote: Promise<PriceSourceResult>
+  ): Promise<PriceSourceResult> {
+    if (!this.usdcPrice || Date.now() - this.usdcPrice.fetchedAt > USDC_PRICE_TTL_MS) {
+      const price = this.getRegistryTokenPrice(USDC_TOKEN).then(
+        (oraclePrice) => oraclePrice.price
+      );
+      this.usdcPrice = { price, fetchedAt: Date.now() };
+      // Retry on the next call instead of caching a failure
+      price.catch(() => {
+        this.usdcPrice = null;
       });
+    }
 
-      if (!object.data || !object.data.content) {
-        throw new Error("Price feeder object not found or has no content");
-      }
-
-      // The object content structure depends on the price feeder implementation
-      // Common fields: price, value, latest_price, etc.
-      const content = object.data.content as any;
-      const fields = content.fields || {};
-
-      // Try to extract price from various possible field names
-      let priceValue: BigNumber | null = null;
-
-      // Common field names for price
-      const possiblePriceFields = [
-        "price",
-        "value",
-        "latest_price",
-        "current_price",
-        "price_value",
-        "sui_price",
-        "price_usdc",
-      ];
-
-      for (const fieldName of possiblePriceFields) {
-        if (fields[fieldName]) {
-          const value = fields[fieldName];
-          // Handle different value types
-          if (typeof value === "string") {
-            priceValue = new BigNumber(value);
-            break;
-          } else if (typeof value === "number") {
-            priceValue = new BigNumber(value);
-            break;
-          } else if (value && typeof value === "object") {
-            // Might be nested, try to extract
-            const nestedValue = value.value || value.price || value;
-            if (typeof nestedValue === "string" || typeof nestedValue === "number") {
-              priceValue = new BigNumber(nestedValue);
-              break;
-            }
-          }
-        }
-      }
-
-      // If we found a price value, validate and set it
-      if (priceValue && priceValue.isPositive()) {
-        // Price might be in different units, normalize it
-        // If price is very small, it might need scaling
-        if (priceValue.isLessThan(0.01)) {
-          // Try scaling by 10^9 (common for Sui base units)
-          const scaled = priceValue.multipliedBy(new BigNumber(10).pow(9));
-          if (scaled.isGreaterThan(0.01) && scaled.isLessThan(1000)) {
-            priceValue = scaled;
-          } else {
-            // Try inverting
-            const inverted = new BigNumber(1).dividedBy(priceValue);
-            if (inverted.isGreaterThan(0.01) && inverted.isLessThan(1000)) {
-              priceValue = inverted;
-            }
-          }
-        }
+    const [quote, usdcUsd] = await Promise.all([usdcQuote, this.usdcPrice.price]);
+    return { ...quote, price: quote.price.multipliedBy(usdcUsd) };
+  }
 
-        // Validate price is in reasonable range
-        if (
-          priceValue.isPositive() &&
-          priceValue.isGreaterThan(0.01) &&
-          priceValue.isLessThan(1000)
-        ) {
-          prices.set("sui", priceValue);
-        } else {
-          throw new Error(
-            `Price value ${priceValue.toString()} is outside expected range (0.01-1000)`
-          );
-        }
-      } else {
-        // Try to parse from the entire object structure
-        const objectStr = JSON.stringify(fields);
-        // Look for numeric values that might be the price
-        const numbers = objectStr.match(/\d+\.?\d*/g);
-        if (numbers && numbers.length > 0) {
-          for (const numStr of numbers) {
-            const num = new BigNumber(numStr);
-            if (num.isGreaterThan(0.5) && num.isLessThan(10)) {
-              // Likely the price
-              prices.set("sui", num);
-              break;
-            }
-          }
-        }
+  /**
+   * Read the SUI/USDC price from the price feeder cap object on Sui.
+   * The timestamp is the time of the transaction that last updated it.
+   */
+  private async fetchPriceFromPriceFeeder(): Promise<PriceSourceResult> {
+    const object = await this.suiClient.getObject({
+      id: this.PRICE_FEEDER_CAP_ID,
+      options: {
+        showContent: true,
+        showPreviousTransaction: true,
+      },
+    });
 
-        if (!prices.has("sui")) {
-          throw new Error(
-            `Could not extract price from price feeder object. Object structure: ${JSON.stringify(fields, null, 2)}`
-          );
-        }
-      }
+    const content = object.data?.content;
+    if (!content || content.dataType !== "moveObject") {
+      throw new Error("Price feeder object not found or has no content");
+    }
 
-      // USDC is always $1
-      prices.set("usdc", new BigNumber(1));
-    } catch (error) {
+    const fields = content.fields as Record<string, unknown>;
+    const field = PRICE_FEEDER_FIELDS.find((name) => fields[name] !== undefined);
+    if (!field) {
       throw new Error(
-        `Failed to fetch price from price feeder: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
+        `Price feeder object has none of the fields ${PRICE_FEEDER_FIELDS.join(", ")}`
       );
     }
+
+    const value = fields[field];
+    const price = new BigNumber(
+      typeof value === "string" || typeof value === "number" ? value : NaN
+    );
+    if (price.isNaN()) {
+      throw new Error(`Price feeder field ${field} is not a number: ${JSON.stringify(value)}`);
+    }
+
+    let timestamp: number | undefined;
+    if (object.data?.previousTransaction) {
+      const transaction = await this.suiClient.getTransactionBlock({
+        digest: object.data.previousTransaction,
+      });
+      timestamp = transaction.timestampMs ? Number(transaction.timestampMs) : undefined;
+    }
+
+    return { price, timestamp };
   }
 
   /**
-   * Fetch prices from CoinGecko free API
-   * Coin IDs: sui (for SUI), usd-coin (for USDC)
+   * Bolt oracle price of `baseDenom` in `quoteDenom`
    */
-  private async fetchPricesFromCoinGecko(prices: Map<string, BigNumber>): Promise<void> {
-    try {
-      // CoinGecko free API endpoint for simple price lookup
-      // Using the /simple/price endpoint which doesn't require an API key
-      const response = await axios.get(
-        "https://api.coingecko.com/api/v3/simple/price",
-        {
-          params: {
-            ids: "sui,usd-coin",
-            vs_currencies: "usd",
-          },
-          timeout: 5000, // 5 second timeout
-        }
-      );
-
-      const data = response.data;
-
-      // Extract SUI price
-      if (data.sui && data.sui.usd) {
-        const suiPrice = new BigNumber(data.sui.usd);
-        if (suiPrice.isPositive() && suiPrice.isLessThan(1000) && suiPrice.isGreaterThan(0.01)) {
-          prices.set("sui", suiPrice);
-        }
-      }
+  private async fetchPriceFromBolt(
+    baseDenom: string,
+    quoteDenom: string
+  ): Promise<PriceSourceResult> {
+    return this.cache.get(`bolt-sui:${baseDenom}:${quoteDenom}`, () =>
+      this.rateLimiter.schedule("bolt-sui", async () => {
+        const priceResult = await this.boltSuiClient.getPrice(baseDenom, quoteDenom);
+        return { price: new BigNumber(priceResult.price), timestamp: Date.now() };
+      })
+    );
+  }
 
-      // Extract USDC price (should be close to $1)
-      if (data["usd-coin"] && data["usd-coin"].usd) {
-        const usdcPrice = new BigNumber(data["usd-coin"].usd);
-        if (usdcPrice.isPositive() && usdcPrice.isLessThan(2)) {
-          prices.set("usdc", usdcPrice);
-        } else {
-          // USDC should be ~$1, if it's way off, default to 1
-          prices.set("usdc", new BigNumber(1));
-        }
-      } else {
-        // USDC is typically $1
-        prices.set("usdc", new BigNumber(1));
-      }
-    } catch (error) {
-      throw new Error(
-        `CoinGecko API error: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+  /**
+   * Price of a token in USDC implied by the reserves of the configured pools
+   */
+  private async fetchPriceFromPoolReserves(token: RegistryToken): Promise<PriceSourceResult> {
+    const responses = await Promise.all(
+      this.poolIds.map((poolId) => this.grpcClient.getPool(poolId))
+    );
+    const price = findRoutePrice(
+      responses.map((response) => response.pool),
+      [...this.tokens, token, USDC_TOKEN],
+      token,
+      USDC_TOKEN
+    );
+    if (!price) {
+      throw new Error(`No pool route from ${token.name} to USDC`);
     }
+    return { price };
   }
 
   /**
@@ -412,8 +454,19 @@ export class PriceService {
     const response = await this.grpcClient.getPool(poolIdentifier);
     const pool = response.pool;
 
-    // Get token prices
-    const tokenPrices = await this.getTokenPrices();
+    // Price every pool asset found in the registry tokens, keyed by pool asset
+    const assets = [pool.baseAsset, ...pool.quoteAssets.map((qa) => qa.denom)];
+    const oraclePrices = await this.getRegistryTokenPrices(
+      this.tokens.filter((token) => assets.some((asset) => isPoolAsset(asset, token)))
+    );
+    const tokenPrices = new Map<string, BigNumber>();
+    for (const asset of assets) {
+      const token = this.tokens.find((item) => isPoolAsset(asset, item));
+      const oraclePrice = token && oraclePrices.get(token.denom);
+      if (oraclePrice) {
+        tokenPrices.set(asset, oraclePrice.price);
+      }
+    }
 
     // Calculate metrics for each token
     const tokenBalances: Array<{
@@ -424,7 +477,7 @@ export class PriceService {
 
     // Add base asset
     const baseAmount = BoltGrpcClient.parseFractionToBigNumber(pool.baseAmount);
-    const basePrice = tokenPrices.get(pool.baseAsset.toLowerCase()) || new BigNumber(0);
+    const basePrice = tokenPrices.get(pool.baseAsset) || new BigNumber(0);
     tokenBalances.push({
       denom: pool.baseAsset,
       amount: baseAmount,
@@ -434,7 +487,7 @@ export class PriceService {
     // Add quote assets
     pool.quoteAssets.forEach((qa) => {
       const quoteAmount = BoltGrpcClient.parseFractionToBigNumber(qa.amount);
-      const quotePrice = tokenPrices.get(qa.denom.toLowerCase()) || new BigNumber(0);
+      const quotePrice = tokenPrices.get(qa.denom) || new BigNumber(0);
       tokenBalances.push({
         denom: qa.denom,
         amount: quoteAmount,
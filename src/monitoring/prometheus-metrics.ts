@@ -0,0 +1,242 @@
+import BigNumber from "bignumber.js";
+
+import type { TransactionTypeSummary } from "../database";
+
+import { DailyVolume, DashboardSnapshot } from "./dashboard-snapshot";
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: BigNumber | number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: "gauge" | "counter";
+  samples: Sample[];
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatValue = (value: BigNumber | number): string => {
+  const number = BigNumber.isBigNumber(value) ? value.toNumber() : value;
+  if (Number.isNaN(number)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(number)) {
+    return number > 0 ? "+Inf" : "-Inf";
+  }
+  return number.toString();
+};
+
+const formatFamily = ({ name, help, type, samples }: MetricFamily): string => {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const { labels, value } of samples) {
+    const labelText = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+      .join(",");
+    lines.push(`${name}${labelText ? `{${labelText}}` : ""} ${formatValue(value)}`);
+  }
+  return lines.join("\n");
+};
+
+const volumeSamples = (bot: Labels, dailyVolumes: DailyVolume[]) =>
+  dailyVolumes.map((day) => ({
+    labels: { ...bot, date: day.date },
+    value: day.volumeUsd,
+  }));
+
+const transactionSamples = (
+  bot: Labels,
+  summaries: TransactionTypeSummary[],
+  count: (summary: TransactionTypeSummary) => number
+) =>
+  summaries.map((summary) => ({
+    labels: { ...bot, transaction_type: summary.transactionType },
+    // SQLite sums are null for empty groups
+    value: Number(count(summary) ?? 0),
+  }));
+
+/**
+ * Render a dashboard snapshot in the Prometheus text exposition format.
+ * Transaction counters are all-time totals from getTransactionTypeSummary.
+ */
+export function renderPrometheusMetrics(snapshot: DashboardSnapshot): string {
+  const { sui, archway } = snapshot;
+  const monitoring = archway.monitoring;
+
+  const poolAmounts: Sample[] = [];
+  const poolValues: Sample[] = [];
+  for (const pool of sui.pools) {
+    const base = { chain: "sui", pool: pool.name, side: "base", token: pool.baseToken };
+    const quote = { chain: "sui", pool: pool.name, side: "quote", token: pool.quoteToken };
+    poolAmounts.push({ labels: base, value: pool.current.base }, { labels: quote, value: pool.current.quote });
+    poolValues.push({ labels: base, value: pool.current.baseUsd }, { labels: quote, value: pool.current.quoteUsd });
+  }
+  if (monitoring) {
+    const sides = [
+      ["base", monitoring.baseBalances],
+      ["quote", monitoring.quoteBalances],
+    ] as const;
+    for (const [side, balances] of sides) {
+      for (const balance of balances) {
+        const labels = { chain: "archway", pool: balance.name, side, token: balance.token };
+        poolAmounts.push({ labels, value: balance.amount });
+        poolValues.push({ labels, value: balance.usdValue });
+      }
+    }
+  }
+
+  const liquidity: Sample[] = [{ labels: { chain: "sui" }, value: sui.totalLiquidityUsd }];
+  if (monitoring) {
+    liquidity.push({ labels: { chain: "archway" }, value: monitoring.totalUsdValue });
+  }
+
+  const prices: Sample[] = sui.prices.map((price) => ({
+    labels: { chain: "sui", token: price.symbol, quote: "USD", source: price.source },
+    value: price.priceUsd,
+  }));
+  if (monitoring) {
+    for (const [symbol, price] of Object.entries(monitoring.prices)) {
+      const source = monitoring.priceSources[symbol];
+      // Unavailable prices are reported as 0, leave them out
+      if (symbol === monitoring.quoteToken || !source) {
+        continue;
+      }
+      prices.push({
+        labels: { chain: "archway", token: symbol, quote: monitoring.quoteToken, source },
+        value: price,
+      });
+    }
+  }
+
+  // Per-source breakdown of the Sui median prices, failed sources have no price
+  const quotes = sui.prices.flatMap((price) =>
+    price.quotes.map((quote) => ({
+      labels: { chain: "sui", token: price.symbol, source: quote.source },
+      quote,
+    }))
+  );
+
+  const suiBot = { chain: "sui", bot: sui.address };
+  const bots = [
+    { labels: suiBot, dailyVolumes: sui.dailyVolumes, transactionTypes: sui.transactionTypes },
+    ...archway.botActivity.map((bot) => ({
+      labels: { chain: "archway", bot: bot.name },
+      dailyVolumes: bot.dailyVolumes,
+      transactionTypes: bot.transactionTypes,
+    })),
+  ];
+
+  const families: MetricFamily[] = [
+    {
+      name: "rebalance_pool_amount",
+      help: "Pool balance in token units",
+      type: "gauge",
+      samples: poolAmounts,
+    },
+    {
+      name: "rebalance_pool_value_usd",
+      help: "Pool balance valued in USD",
+      type: "gauge",
+      samples: poolValues,
+    },
+    {
+      name: "rebalance_pool_liquidity_usd",
+      help: "Total pool liquidity in USD",
+      type: "gauge",
+      samples: liquidity,
+    },
+    {
+      name: "rebalance_token_price",
+      help: "Token price in the quote currency, by price source",
+      type: "gauge",
+      samples: prices,
+    },
+    {
+      name: "rebalance_price_source_quote_usd",
+      help: "Price reported by each oracle source",
+      type: "gauge",
+      samples: quotes.flatMap(({ labels, quote }) =>
+        quote.price ? [{ labels, value: quote.price }] : []
+      ),
+    },
+    {
+      name: "rebalance_price_source_deviation_ratio",
+      help: "Relative distance of each oracle source from the median price",
+      type: "gauge",
+      samples: quotes.flatMap(({ labels, quote }) =>
+        quote.deviation !== null ? [{ labels, value: quote.deviation }] : []
+      ),
+    },
+    {
+      name: "rebalance_price_source_up",
+      help: "Whether the oracle source returned a fresh price within the sanity band",
+      type: "gauge",
+      samples: quotes.map(({ labels, quote }) => ({
+        labels,
+        value: quote.price && !quote.stale ? 1 : 0,
+      })),
+    },
+    {
+      name: "rebalance_price_source_timestamp_seconds",
+      help: "When each oracle source last updated its price",
+      type: "gauge",
+      samples: quotes.flatMap(({ labels, quote }) =>
+        quote.price ? [{ labels, value: quote.timestamp / 1000 }] : []
+      ),
+    },
+    {
+      name: "rebalance_bot_daily_volume_usd",
+      help: "Bot swap volume in USD per volume bucket, labelled with the bucket start",
+      type: "gauge",
+      samples: bots.flatMap((bot) => volumeSamples(bot.labels, bot.dailyVolumes)),
+    },
+    {
+      name: "rebalance_bot_transactions_total",
+      help: "Bot transactions by type",
+      type: "counter",
+      samples: bots.flatMap((bot) =>
+        transactionSamples(bot.labels, bot.transactionTypes, (summary) => summary.totalCount)
+      ),
+    },
+    {
+      name: "rebalance_bot_transactions_successful_total",
+      help: "Successful bot transactions by type",
+      type: "counter",
+      samples: bots.flatMap((bot) =>
+        transactionSamples(bot.labels, bot.transactionTypes, (summary) => summary.successCount)
+      ),
+    },
+    {
+      name: "rebalance_bot_transactions_failed_total",
+      help: "Failed bot transactions by type",
+      type: "counter",
+      samples: bots.flatMap((bot) =>
+        transactionSamples(bot.labels, bot.transactionTypes, (summary) => summary.failedCount)
+      ),
+    },
+    {
+      name: "rebalance_bot_up",
+      help: "Whether the registered bot database could be read",
+      type: "gauge",
+      samples: archway.bots.map((bot) => ({
+        labels: { chain: bot.chain, bot: bot.name },
+        value: bot.status === "unreadable" ? 0 : 1,
+      })),
+    },
+    {
+      name: "rebalance_dashboard_collected_timestamp_seconds",
+      help: "When the dashboard data was collected",
+      type: "gauge",
+      samples: [{ labels: {}, value: snapshot.timestamp / 1000 }],
+    },
+  ];
+
+  return families.map(formatFamily).join("\n") + "\n";
+}
@@ -10,6 +10,12 @@ import {
   OSMOSIS_TESTNET_CHAIN_INFO,
   OSMOSIS_TESTNET_TOKENS_MAP,
 } from "./osmosis";
+import {
+  SUI_MAINNET_CHAIN_INFO,
+  SUI_MAINNET_TOKENS_MAP,
+  SUI_TESTNET_CHAIN_INFO,
+  SUI_TESTNET_TOKENS_MAP,
+} from "./sui";
 
 import { RegistryToken } from "./types";
 
@@ -21,4 +27,6 @@ export const ALL_CHAINS_TOKEN_MAP: Record<
   [ARCHWAY_TESTNET_CHAIN_INFO.id]: ARCHWAY_TESTNET_TOKENS_MAP,
   [OSMOSIS_MAINNET_CHAIN_INFO.id]: OSMOSIS_MAINNET_TOKENS_MAP,
   [OSMOSIS_TESTNET_CHAIN_INFO.id]: OSMOSIS_TESTNET_TOKENS_MAP,
+  [SUI_MAINNET_CHAIN_INFO.id]: SUI_MAINNET_TOKENS_MAP,
+  [SUI_TESTNET_CHAIN_INFO.id]: SUI_TESTNET_TOKENS_MAP,
 };
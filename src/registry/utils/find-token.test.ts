@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { SUI_MAINNET_NATIVE_TOKEN, SUI_TESTNET_NATIVE_TOKEN } from "../sui";
+
+import { resolveToken } from "./find-token";
+
+const MAINNET_USDC =
+  "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+describe("resolveToken", () => {
+  it("finds the denom on the recorded chain", () => {
+    expect(resolveToken(MAINNET_USDC, "101")).toMatchObject({ name: "USDC", decimals: 6 });
+  });
+
+  it("normalizes short Sui coin types", () => {
+    expect(resolveToken("0x2::sui::SUI", "101")).toBe(SUI_MAINNET_NATIVE_TOKEN);
+    expect(resolveToken("0x2::sui::SUI", "103")).toBe(SUI_TESTNET_NATIVE_TOKEN);
+  });
+
+  it("does not borrow a token of an unrelated chain", () => {
+    expect(resolveToken(MAINNET_USDC, "103")).toBeUndefined();
+    expect(resolveToken(MAINNET_USDC, "unknown-chain")).toBeUndefined();
+    expect(resolveToken(MAINNET_USDC)).toBeUndefined();
+  });
+
+  it("returns nothing for unknown denoms", () => {
+    expect(resolveToken("0xfeed::coin::COIN", "101")).toBeUndefined();
+    expect(resolveToken("ibc/0000000000000000000000000000000000000000000000000000000000000000")).toBeUndefined();
+  });
+});
@@ -8,6 +8,7 @@ import {
   OSMOSIS_TESTNET_TOKENS_MAP,
 } from "../osmosis";
 import { SUI_MAINNET_TOKENS_MAP, SUI_TESTNET_TOKENS_MAP } from "../sui";
+import { normalizeDenom } from "./normalize-denom";
 
 import { RegistryToken } from "../types";
 
@@ -18,6 +19,55 @@ export const findToken = (
   return ALL_CHAINS_TOKEN_MAP[chainId]?.[denom];
 };
 
+/**
+ * Registry token of a denom as recorded on a transaction, looked up on
+ * `chainId`. Other chains are only searched for the same asset: an IBC denom,
+ * which names its channel path and base denom, or a token whose origin is
+ * `denom` on `chainId`. A denom that only exists on an unrelated chain (e.g. a
+ * mainnet coin type recorded on testnet) is not resolved, its decimals and
+ * price could be another asset's.
+ */
+export const resolveToken = (
+  denom: string,
+  chainId?: string
+): RegistryToken | undefined => {
+  const candidates = [...new Set([denom, normalizeDenom(denom)])];
+  const lookup = (tokens: Record<string, RegistryToken>) =>
+    candidates.map((candidate) => tokens[candidate]).find(Boolean);
+
+  const chainTokens = chainId ? ALL_CHAINS_TOKEN_MAP[chainId] : undefined;
+  const token = chainTokens && lookup(chainTokens);
+  if (token) {
+    return token;
+  }
+
+  const otherChains = Object.values(ALL_CHAINS_TOKEN_MAP).filter(
+    (tokens) => tokens !== chainTokens
+  );
+  if (denom.startsWith("ibc/")) {
+    for (const tokens of otherChains) {
+      const ibcToken = lookup(tokens);
+      if (ibcToken) {
+        return ibcToken;
+      }
+    }
+  }
+  if (chainId) {
+    for (const tokens of otherChains) {
+      const wrapped = Object.values(tokens).find(
+        (item) =>
+          item.originChainId === chainId &&
+          item.originDenom !== undefined &&
+          candidates.includes(item.originDenom)
+      );
+      if (wrapped) {
+        return wrapped;
+      }
+    }
+  }
+  return undefined;
+};
+
 export const findRegistryTokenEquivalentOnOtherChain = (
   token: RegistryToken,
   externalChainId: string
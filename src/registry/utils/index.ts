@@ -1,2 +1,3 @@
 export * from "./find-chain";
 export * from "./find-token";
+export * from "./normalize-denom";
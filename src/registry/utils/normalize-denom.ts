@@ -0,0 +1,17 @@
+import { normalizeStructTag } from "@mysten/sui/utils";
+
+/**
+ * Canonical form of a denom, so the same token compares equal however it is
+ * written. Sui coin types get their full-length address (0x2::sui::SUI and
+ * 0x0000…0002::sui::SUI are one token), other denoms are kept as is.
+ */
+export const normalizeDenom = (denom: string): string => {
+  if (!denom.includes("::")) {
+    return denom;
+  }
+  try {
+    return normalizeStructTag(denom);
+  } catch {
+    return denom;
+  }
+};
@@ -3,3 +3,4 @@ export * from "./fees";
 export * from "./parsers";
 export * from "./path";
 export * from "./price";
+export * from "./validation";
@@ -0,0 +1,117 @@
+/**
+ * Error thrown when a user supplied config file fails validation.
+ * The message names the offending field path (e.g. `pools[2].name`).
+ */
+export class ConfigValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const expectRecord = (
+  value: unknown,
+  at: string
+): Record<string, unknown> => {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${at} must be an object`);
+  }
+  return value;
+};
+
+export const expectArray = (value: unknown, at: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError(`${at} must be an array`);
+  }
+  return value;
+};
+
+export const expectString = (value: unknown, at: string): string => {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ConfigValidationError(`${at} must be a non-empty string`);
+  }
+  return value;
+};
+
+export const optionalString = (
+  value: unknown,
+  at: string
+): string | undefined =>
+  value === undefined ? undefined : expectString(value, at);
+
+export const expectNumber = (
+  value: unknown,
+  at: string,
+  { min, max }: { min?: number; max?: number } = {}
+): number => {
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    (min !== undefined && value < min) ||
+    (max !== undefined && value > max)
+  ) {
+    const bounds = [
+      min !== undefined ? `>= ${min}` : null,
+      max !== undefined ? `<= ${max}` : null,
+    ].filter(Boolean);
+    throw new ConfigValidationError(
+      `${at} must be a number${bounds.length ? ` ${bounds.join(" and ")}` : ""}`
+    );
+  }
+  return value;
+};
+
+export const optionalNumber = (
+  value: unknown,
+  at: string,
+  range?: { min?: number; max?: number }
+): number | undefined =>
+  value === undefined ? undefined : expectNumber(value, at, range);
+
+export const expectOneOf = <T extends string>(
+  value: unknown,
+  at: string,
+  allowed: readonly T[]
+): T => {
+  if (!allowed.includes(value as T)) {
+    throw new ConfigValidationError(
+      `${at} must be one of: ${allowed.join(", ")}`
+    );
+  }
+  return value as T;
+};
+
+/**
+ * Parse JSON text, prefixing errors with where the text came from
+ */
+export const parseJsonConfig = (contents: string, source: string): unknown => {
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new ConfigValidationError(
+      `${source} is not valid JSON: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+};
+
+/**
+ * Resolve a config value that may reference an environment variable as
+ * `env:NAME`, so secrets can stay out of config files
+ */
+export const resolveEnvReference = (value: string): string => {
+  if (!value.startsWith("env:")) {
+    return value;
+  }
+
+  const name = value.slice("env:".length);
+  const resolved = process.env[name];
+  if (!resolved) {
+    throw new Error(`Environment variable ${name} is not set`);
+  }
+  return resolved;
+};